@@ -1,6 +1,7 @@
 // API Route para recibir el callback de OAuth
 import { NextRequest, NextResponse } from 'next/server'
 import { exchangeCodeForToken } from '@/src/lib/mercadolibre'
+import { saveTokens, recordTokenHealth } from '@/src/lib/mercadolibre-tokens'
 import { createClient } from '@/lib/supabase/server'
 
 // Base URL para redirects - usar variable de entorno o hardcodear
@@ -32,47 +33,17 @@ export async function GET(request: NextRequest) {
         // Guardar tokens en la base de datos
         const supabase = await createClient()
 
-        // Primero intentamos actualizar si existe
-        const { data: existing } = await supabase
-            .from('settings')
-            .select('id')
-            .eq('key', 'ml_tokens')
-            .single()
-
-        const tokenData = JSON.stringify({
-            access_token: tokens.access_token,
-            refresh_token: tokens.refresh_token,
-            user_id: tokens.user_id,
-            expires_at: Date.now() + (tokens.expires_in * 1000),
-        })
-
-        let dbError
-        if (existing) {
-            // Actualizar existente
-            const result = await supabase
-                .from('settings')
-                .update({
-                    value: tokenData,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('key', 'ml_tokens')
-            dbError = result.error
-        } else {
-            // Insertar nuevo
-            const result = await supabase
-                .from('settings')
-                .insert({
-                    key: 'ml_tokens',
-                    value: tokenData,
-                    category: 'integrations',
-                    updated_at: new Date().toISOString(),
-                })
-            dbError = result.error
-        }
-
-        if (dbError) {
+        try {
+            await saveTokens(supabase, tokens)
+            await recordTokenHealth(supabase, {
+                connected_at: new Date().toISOString(),
+                last_failure_at: null,
+                last_failure_message: null,
+            })
+        } catch (dbError) {
             console.error('Error saving ML tokens:', dbError)
-            return NextResponse.redirect(`${baseUrl}/configuracion?ml_error=db&details=${encodeURIComponent(dbError.message)}`)
+            const message = dbError instanceof Error ? dbError.message : (dbError as { message?: string }).message || 'Unknown error'
+            return NextResponse.redirect(`${baseUrl}/configuracion?ml_error=db&details=${encodeURIComponent(message)}`)
         }
 
         return NextResponse.redirect(`${baseUrl}/configuracion?ml_success=true`)
@@ -99,45 +70,17 @@ export async function POST(request: NextRequest) {
         // Guardar tokens en la base de datos
         const supabase = await createClient()
 
-        // Primero intentamos actualizar si existe
-        const { data: existing } = await supabase
-            .from('settings')
-            .select('id')
-            .eq('key', 'ml_tokens')
-            .single()
-
-        const tokenData = JSON.stringify({
-            access_token: tokens.access_token,
-            refresh_token: tokens.refresh_token,
-            user_id: tokens.user_id,
-            expires_at: Date.now() + (tokens.expires_in * 1000),
-        })
-
-        let dbError
-        if (existing) {
-            const result = await supabase
-                .from('settings')
-                .update({
-                    value: tokenData,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('key', 'ml_tokens')
-            dbError = result.error
-        } else {
-            const result = await supabase
-                .from('settings')
-                .insert({
-                    key: 'ml_tokens',
-                    value: tokenData,
-                    category: 'integrations',
-                    updated_at: new Date().toISOString(),
-                })
-            dbError = result.error
-        }
-
-        if (dbError) {
+        try {
+            await saveTokens(supabase, tokens)
+            await recordTokenHealth(supabase, {
+                connected_at: new Date().toISOString(),
+                last_failure_at: null,
+                last_failure_message: null,
+            })
+        } catch (dbError) {
             console.error('Error saving ML tokens:', dbError)
-            return NextResponse.json({ error: 'Error guardando tokens', details: dbError.message }, { status: 500 })
+            const message = dbError instanceof Error ? dbError.message : (dbError as { message?: string }).message || 'Unknown error'
+            return NextResponse.json({ error: 'Error guardando tokens', details: message }, { status: 500 })
         }
 
         return NextResponse.json({
@@ -0,0 +1,39 @@
+// API Route para capturar los precios de la competencia desde Mercado Libre
+// Se ejecuta periódicamente (cron / n8n), ej: cada 6 horas
+import { NextResponse } from 'next/server'
+import { getItemsMulti } from '@/src/lib/mercadolibre'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { captureCompetitorPrices, type CompetitorItemsFetcher } from '@/src/lib/competitors'
+import { createClient } from '@/lib/supabase/server'
+
+// POST: Registrar un snapshot de cada publicación mapeada de los competidores activos
+export async function POST() {
+    try {
+        const supabase = await createClient()
+
+        const ml = await getMLSession(supabase)
+        if (!ml) {
+            return NextResponse.json(
+                { error: 'Mercado Libre no está conectado', needsAuth: true },
+                { status: 401 }
+            )
+        }
+
+        const fetchItems: CompetitorItemsFetcher = itemIds => ml.call(token => getItemsMulti(token, itemIds))
+        const result = await captureCompetitorPrices(supabase, fetchItems)
+
+        return NextResponse.json({
+            success: result.errors.length === 0,
+            ...result,
+        })
+    } catch (err) {
+        console.error('Error capturing competitor prices:', err)
+        return NextResponse.json(
+            {
+                error: 'Error capturando precios de la competencia',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
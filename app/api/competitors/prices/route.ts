@@ -0,0 +1,47 @@
+// API Route para ingresar precios de la competencia (scrapers, n8n, carga manual)
+import { NextRequest, NextResponse } from 'next/server'
+import { recordCompetitorPrices, type CompetitorPriceSnapshot } from '@/src/lib/competitors'
+import { createClient } from '@/lib/supabase/server'
+
+const MAX_PRICES_PER_REQUEST = 500
+
+// POST: Registrar snapshots de precios
+// body: { prices: CompetitorPriceSnapshot[] } o un único snapshot
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json()
+        const snapshots: CompetitorPriceSnapshot[] = Array.isArray(body?.prices)
+            ? body.prices
+            : body && typeof body === 'object' && 'price' in body ? [body] : []
+
+        if (snapshots.length === 0) {
+            return NextResponse.json(
+                { error: 'prices es requerido' },
+                { status: 400 }
+            )
+        }
+        if (snapshots.length > MAX_PRICES_PER_REQUEST) {
+            return NextResponse.json(
+                { error: `Se pueden registrar hasta ${MAX_PRICES_PER_REQUEST} precios por vez` },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const result = await recordCompetitorPrices(supabase, snapshots)
+
+        return NextResponse.json({
+            success: result.errors.length === 0,
+            ...result,
+        }, { status: result.inserted === 0 ? 422 : 200 })
+    } catch (err) {
+        console.error('Error recording competitor prices:', err)
+        return NextResponse.json(
+            {
+                error: 'Error registrando precios de la competencia',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,62 @@
+// API Route para emitir notas de crédito sobre una factura
+import { NextRequest, NextResponse } from 'next/server'
+import { AfipError } from '@/src/lib/afip'
+import { issueCreditNote, InvoicingError } from '@/src/lib/invoicing'
+import { createClient } from '@/lib/supabase/server'
+
+// POST: Emitir nota de crédito (body: { amount?, reason? }). Sin amount anula el saldo de la factura
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const body = await request.json().catch(() => ({}))
+
+        if (body.amount !== undefined && (typeof body.amount !== 'number' || !Number.isFinite(body.amount))) {
+            return NextResponse.json(
+                { error: 'amount debe ser un número' },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const creditNote = await issueCreditNote(supabase, id, {
+            amount: body.amount,
+            reason: typeof body.reason === 'string' ? body.reason : undefined,
+        })
+
+        return NextResponse.json({
+            success: true,
+            invoice: creditNote,
+        })
+    } catch (err) {
+        if (err instanceof InvoicingError) {
+            return NextResponse.json(
+                { error: err.message },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error issuing credit note:', err)
+
+        if (err instanceof AfipError) {
+            return NextResponse.json(
+                {
+                    error: 'AFIP rechazó el comprobante',
+                    details: err.message,
+                    observations: err.observations,
+                },
+                { status: 502 }
+            )
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error emitiendo nota de crédito',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
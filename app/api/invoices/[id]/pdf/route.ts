@@ -0,0 +1,43 @@
+// API Route para descargar el PDF de una factura
+import { NextRequest, NextResponse } from 'next/server'
+import { getInvoicePdf, InvoicingError } from '@/src/lib/invoicing'
+import { createClient } from '@/lib/supabase/server'
+
+export const dynamic = 'force-dynamic'
+
+// GET: PDF del comprobante (query opcional: regenerate=1 para volver a generarlo)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const regenerate = request.nextUrl.searchParams.has('regenerate')
+
+        const supabase = await createClient()
+        const { invoice, pdf } = await getInvoicePdf(supabase, id, { regenerate })
+
+        return new NextResponse(await pdf.arrayBuffer(), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${invoice.voucher_kind === 'credit_note' ? 'nota_credito' : 'factura'}_${invoice.invoice_number}.pdf"`,
+            },
+        })
+    } catch (err) {
+        if (err instanceof InvoicingError) {
+            return NextResponse.json(
+                { error: err.message },
+                { status: 404 }
+            )
+        }
+
+        console.error('Error generating invoice PDF:', err)
+        return NextResponse.json(
+            {
+                error: 'Error generando PDF de factura',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,50 @@
+// API Route para facturar varias ventas en una sola acción
+import { NextRequest, NextResponse } from 'next/server'
+import { issueInvoices } from '@/src/lib/invoicing'
+import { createClient } from '@/lib/supabase/server'
+
+// Tope por pedido: cada factura son dos llamadas a AFIP
+const MAX_SALES_PER_REQUEST = 100
+
+// POST: Emitir las facturas de varias ventas (body: { sale_ids: string[] })
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json()
+        const saleIds: string[] = Array.isArray(body.sale_ids)
+            ? body.sale_ids.filter((id: unknown): id is string => typeof id === 'string')
+            : []
+
+        if (saleIds.length === 0) {
+            return NextResponse.json(
+                { error: 'sale_ids es requerido' },
+                { status: 400 }
+            )
+        }
+        if (saleIds.length > MAX_SALES_PER_REQUEST) {
+            return NextResponse.json(
+                { error: `Se pueden facturar hasta ${MAX_SALES_PER_REQUEST} ventas por vez` },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const results = await issueInvoices(supabase, saleIds)
+        const issued = results.filter(r => r.invoice).length
+
+        return NextResponse.json({
+            success: issued === results.length,
+            issued,
+            failed: results.length - issued,
+            results,
+        })
+    } catch (err) {
+        console.error('Error issuing invoices in bulk:', err)
+        return NextResponse.json(
+            {
+                error: 'Error emitiendo facturas',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
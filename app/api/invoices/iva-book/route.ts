@@ -0,0 +1,66 @@
+// API Route para exportar el Libro IVA Ventas mensual (formato AFIP de ancho fijo)
+import { NextRequest, NextResponse } from 'next/server'
+import { buildIvaSalesBook } from '@/src/lib/iva-book'
+import type { Invoice } from '@/src/lib/types'
+import { createClient } from '@/lib/supabase/server'
+
+export const dynamic = 'force-dynamic'
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+// GET: query month=YYYY-MM, file=vouchers (comprobantes) | rates (alícuotas)
+export async function GET(request: NextRequest) {
+    try {
+        const month = request.nextUrl.searchParams.get('month') || ''
+        const file = request.nextUrl.searchParams.get('file') || 'vouchers'
+
+        if (!MONTH_PATTERN.test(month)) {
+            return NextResponse.json(
+                { error: 'month es requerido (formato YYYY-MM)' },
+                { status: 400 }
+            )
+        }
+        if (file !== 'vouchers' && file !== 'rates') {
+            return NextResponse.json(
+                { error: 'file debe ser vouchers o rates' },
+                { status: 400 }
+            )
+        }
+
+        // Límites del mes en hora argentina (UTC-3, sin horario de verano)
+        const [year, monthNumber] = month.split('-').map(Number)
+        const nextMonth = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`
+
+        const supabase = await createClient()
+        const { data, error } = await supabase
+            .from('invoices')
+            .select('*')
+            .gte('created_at', `${month}-01T00:00:00-03:00`)
+            .lt('created_at', `${nextMonth}-01T00:00:00-03:00`)
+            .order('created_at', { ascending: true })
+
+        if (error) throw error
+
+        const book = buildIvaSalesBook((data || []) as Invoice[])
+        const period = month.replace('-', '')
+        const fileName = file === 'vouchers'
+            ? `LIBRO_IVA_DIGITAL_VENTAS_CBTE_${period}.txt`
+            : `LIBRO_IVA_DIGITAL_VENTAS_ALICUOTAS_${period}.txt`
+
+        return new NextResponse(file === 'vouchers' ? book.vouchers : book.rates, {
+            headers: {
+                'Content-Type': 'text/plain; charset=us-ascii',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        })
+    } catch (err) {
+        console.error('Error exporting IVA sales book:', err)
+        return NextResponse.json(
+            {
+                error: 'Error exportando Libro IVA Ventas',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
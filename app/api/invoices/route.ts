@@ -0,0 +1,86 @@
+// API Route para facturación electrónica (AFIP WSFEv1)
+import { NextRequest, NextResponse } from 'next/server'
+import { AfipError } from '@/src/lib/afip'
+import { issueInvoice, InvoicingError } from '@/src/lib/invoicing'
+import { createClient } from '@/lib/supabase/server'
+
+// GET: Facturas de una venta (query: sale_id)
+export async function GET(request: NextRequest) {
+    try {
+        const saleId = request.nextUrl.searchParams.get('sale_id')
+        if (!saleId) {
+            return NextResponse.json(
+                { error: 'sale_id es requerido' },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const { data, error } = await supabase
+            .from('invoices')
+            .select('*')
+            .eq('sale_id', saleId)
+            .order('created_at', { ascending: false })
+
+        if (error) throw error
+
+        return NextResponse.json({ invoices: data || [] })
+    } catch (err) {
+        console.error('Error fetching invoices:', err)
+        return NextResponse.json(
+            { error: 'Error obteniendo facturas' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST: Emitir la factura de una venta (body: { sale_id })
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json()
+        const saleId = typeof body.sale_id === 'string' ? body.sale_id : ''
+
+        if (!saleId) {
+            return NextResponse.json(
+                { error: 'sale_id es requerido' },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const invoice = await issueInvoice(supabase, saleId)
+
+        return NextResponse.json({
+            success: true,
+            invoice,
+        })
+    } catch (err) {
+        if (err instanceof InvoicingError) {
+            return NextResponse.json(
+                { error: err.message },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error issuing invoice:', err)
+
+        if (err instanceof AfipError) {
+            return NextResponse.json(
+                {
+                    error: 'AFIP rechazó el comprobante',
+                    details: err.message,
+                    observations: err.observations,
+                },
+                { status: 502 }
+            )
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Error emitiendo factura',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
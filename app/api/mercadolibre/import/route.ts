@@ -1,54 +1,11 @@
 // API Route para importar productos desde Mercado Libre
 import { NextRequest, NextResponse } from 'next/server'
-import { getItem, refreshAccessToken } from '@/src/lib/mercadolibre'
+import { getItem } from '@/src/lib/mercadolibre'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { PRICE_SOURCE_HEADER } from '@/src/lib/price-history'
+import { applyStockMovement } from '@/src/lib/stock'
 import { createClient } from '@/lib/supabase/server'
 
-interface MLTokens {
-    access_token: string
-    refresh_token: string
-    user_id: number
-    expires_at: number
-}
-
-async function getValidTokens(supabase: Awaited<ReturnType<typeof createClient>>): Promise<MLTokens | null> {
-    const { data, error } = await supabase
-        .from('settings')
-        .select('value')
-        .eq('key', 'ml_tokens')
-        .single()
-
-    if (error || !data) return null
-
-    const tokens: MLTokens = JSON.parse(data.value as string)
-
-    if (tokens.expires_at < Date.now() + 300000) {
-        try {
-            const newTokens = await refreshAccessToken(tokens.refresh_token)
-            const updatedTokens: MLTokens = {
-                access_token: newTokens.access_token,
-                refresh_token: newTokens.refresh_token,
-                user_id: newTokens.user_id,
-                expires_at: Date.now() + (newTokens.expires_in * 1000),
-            }
-
-            await supabase
-                .from('settings')
-                .update({
-                    value: JSON.stringify(updatedTokens),
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('key', 'ml_tokens')
-
-            return updatedTokens
-        } catch (err) {
-            console.error('Error refreshing ML token:', err)
-            return null
-        }
-    }
-
-    return tokens
-}
-
 // POST: Importar un item de ML como producto
 export async function POST(request: NextRequest) {
     try {
@@ -63,9 +20,9 @@ export async function POST(request: NextRequest) {
         }
 
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
@@ -88,7 +45,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Obtener detalles del item de ML
-        const mlItem = await getItem(tokens.access_token, ml_item_id)
+        const mlItem = await ml.call(token => getItem(token, ml_item_id))
 
         // Crear el producto
         const { data: product, error: productError } = await supabase
@@ -102,6 +59,7 @@ export async function POST(request: NextRequest) {
                 category_id: category_id || null,
                 is_active: mlItem.status === 'active',
             })
+            .setHeader(PRICE_SOURCE_HEADER, 'import')
             .select()
             .single()
 
@@ -130,9 +88,10 @@ export async function POST(request: NextRequest) {
                         name: variantName,
                         sku: variation.seller_custom_field || `${product.sku}-${variation.id}`,
                         price_adjustment: variation.price - mlItem.price,
-                        stock_quantity: variation.available_quantity,
+                        stock_quantity: 0,
                         min_stock_alert: 5,
                     })
+                    .setHeader(PRICE_SOURCE_HEADER, 'import')
                     .select()
                     .single()
 
@@ -141,6 +100,8 @@ export async function POST(request: NextRequest) {
                     continue
                 }
 
+                await addInitialStock(supabase, variant.id, variation.available_quantity, ml_item_id)
+
                 variants.push({
                     id: variant.id,
                     name: variantName,
@@ -161,6 +122,7 @@ export async function POST(request: NextRequest) {
                         status: mlItem.status as 'active' | 'paused' | 'closed',
                         last_sync_at: new Date().toISOString(),
                     })
+                    .setHeader(PRICE_SOURCE_HEADER, 'import')
             }
         } else {
             // Producto sin variaciones - crear variante por defecto
@@ -171,15 +133,18 @@ export async function POST(request: NextRequest) {
                     name: 'Principal',
                     sku: product.sku,
                     price_adjustment: 0,
-                    stock_quantity: mlItem.available_quantity,
+                    stock_quantity: 0,
                     min_stock_alert: 5,
                 })
+                .setHeader(PRICE_SOURCE_HEADER, 'import')
                 .select()
                 .single()
 
             if (variantError) {
                 console.error('Error creating variant:', variantError)
             } else {
+                await addInitialStock(supabase, variant.id, mlItem.available_quantity, ml_item_id)
+
                 variants.push({
                     id: variant.id,
                     name: 'Principal',
@@ -199,6 +164,7 @@ export async function POST(request: NextRequest) {
                         status: mlItem.status as 'active' | 'paused' | 'closed',
                         last_sync_at: new Date().toISOString(),
                     })
+                    .setHeader(PRICE_SOURCE_HEADER, 'import')
             }
         }
 
@@ -234,3 +200,25 @@ export async function POST(request: NextRequest) {
         )
     }
 }
+
+// El stock disponible en ML entra como movimiento inicial de la variante
+async function addInitialStock(
+    supabase: Awaited<ReturnType<typeof createClient>>,
+    variantId: string,
+    quantity: number,
+    mlItemId: string
+) {
+    if (quantity <= 0) return
+
+    try {
+        await applyStockMovement(supabase, {
+            variantId,
+            type: 'IN',
+            quantity,
+            referenceType: 'sync',
+            notes: `Stock inicial importado de ML ${mlItemId}`
+        })
+    } catch (err) {
+        console.error('Error setting initial stock:', err)
+    }
+}
@@ -0,0 +1,28 @@
+// API Route para reprocesar manualmente una notificación de Mercado Libre
+import { NextRequest, NextResponse } from 'next/server'
+import { processNotification } from '@/src/lib/mercadolibre-inbox'
+import { createClient } from '@/lib/supabase/server'
+
+// POST: Reprocesar la notificación aunque ya haya sido procesada
+export async function POST(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+
+        const supabase = await createClient()
+        const result = await processNotification(supabase, id, { force: true })
+
+        return NextResponse.json({ success: result.status !== 'failed', ...result })
+    } catch (err) {
+        console.error('Error replaying ML notification:', err)
+        return NextResponse.json(
+            {
+                error: 'Error reprocesando notificación',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
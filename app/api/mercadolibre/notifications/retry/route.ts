@@ -0,0 +1,32 @@
+// API Route para reintentar notificaciones fallidas de Mercado Libre
+// Se ejecuta periódicamente (cron / n8n), ej: cada 5 minutos
+import { NextRequest, NextResponse } from 'next/server'
+import { retryDueNotifications } from '@/src/lib/mercadolibre-inbox'
+import { createClient } from '@/lib/supabase/server'
+
+// POST: Reintentar las notificaciones vencidas (query param opcional: limit)
+export async function POST(request: NextRequest) {
+    try {
+        const limit = Math.min(100, parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20)
+
+        const supabase = await createClient()
+        const results = await retryDueNotifications(supabase, limit)
+
+        return NextResponse.json({
+            success: true,
+            total: results.length,
+            processed: results.filter(r => r.status === 'processed').length,
+            failed: results.filter(r => r.status === 'failed').length,
+            results,
+        })
+    } catch (err) {
+        console.error('Error retrying ML notifications:', err)
+        return NextResponse.json(
+            {
+                error: 'Error reintentando notificaciones',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,47 @@
+// API Route para consultar la bandeja de notificaciones de Mercado Libre
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const NOTIFICATION_STATUSES = ['pending', 'processing', 'processed', 'failed', 'ignored']
+
+// GET: Listar notificaciones (query params: status, topic, limit)
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams
+        const status = searchParams.get('status')
+        const topic = searchParams.get('topic')
+        const limit = Math.min(200, parseInt(searchParams.get('limit') || '50') || 50)
+
+        if (status && !NOTIFICATION_STATUSES.includes(status)) {
+            return NextResponse.json(
+                { error: `status inválido. Valores permitidos: ${NOTIFICATION_STATUSES.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        let query = supabase
+            .from('ml_notifications')
+            .select('*')
+            .order('received_at', { ascending: false })
+            .limit(limit)
+
+        if (status) query = query.eq('status', status)
+        if (topic) query = query.eq('topic', topic)
+
+        const { data, error } = await query
+
+        if (error) throw error
+
+        return NextResponse.json({ notifications: data || [] })
+    } catch (err) {
+        console.error('Error fetching ML notifications:', err)
+        return NextResponse.json(
+            {
+                error: 'Error obteniendo notificaciones',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
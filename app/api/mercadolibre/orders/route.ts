@@ -1,72 +1,16 @@
 // API Route para sincronizar órdenes de Mercado Libre
 import { NextRequest, NextResponse } from 'next/server'
-import { getOrders, getUser, refreshAccessToken, MLOrder } from '@/src/lib/mercadolibre'
+import { getOrders } from '@/src/lib/mercadolibre'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
 import { createClient } from '@/lib/supabase/server'
 
-interface MLTokens {
-    access_token: string
-    refresh_token: string
-    user_id: number
-    expires_at: number
-}
-
-async function getValidTokens(supabase: Awaited<ReturnType<typeof createClient>>): Promise<MLTokens | null> {
-    const { data, error } = await supabase
-        .from('settings')
-        .select('value')
-        .eq('key', 'ml_tokens')
-        .single()
-
-    if (error || !data) {
-        console.log('No ML tokens found in settings:', error?.message)
-        return null
-    }
-
-    // Handle both string and already-parsed JSON
-    let tokens: MLTokens
-    try {
-        tokens = typeof data.value === 'string' ? JSON.parse(data.value) : data.value as MLTokens
-    } catch (e) {
-        console.error('Error parsing ML tokens:', e)
-        return null
-    }
-
-    // Si el token está por expirar (menos de 5 minutos), refrescarlo
-    if (tokens.expires_at < Date.now() + 300000) {
-        try {
-            const newTokens = await refreshAccessToken(tokens.refresh_token)
-            const updatedTokens: MLTokens = {
-                access_token: newTokens.access_token,
-                refresh_token: newTokens.refresh_token,
-                user_id: newTokens.user_id,
-                expires_at: Date.now() + (newTokens.expires_in * 1000),
-            }
-
-            await supabase
-                .from('settings')
-                .update({
-                    value: JSON.stringify(updatedTokens),
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('key', 'ml_tokens')
-
-            return updatedTokens
-        } catch (err) {
-            console.error('Error refreshing ML token:', err)
-            return null
-        }
-    }
-
-    return tokens
-}
-
 // GET: Obtener órdenes de ML
 export async function GET(request: NextRequest) {
     try {
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
@@ -78,11 +22,11 @@ export async function GET(request: NextRequest) {
         const limit = parseInt(searchParams.get('limit') || '50')
         const status = searchParams.get('status') as 'paid' | 'pending' | 'cancelled' | undefined
 
-        const ordersResponse = await getOrders(tokens.access_token, String(tokens.user_id), {
+        const ordersResponse = await ml.call(token => getOrders(token, String(ml.userId), {
             offset,
             limit,
             status,
-        })
+        }))
 
         return NextResponse.json({
             orders: ordersResponse.results,
@@ -104,9 +48,9 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
     try {
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
@@ -114,10 +58,10 @@ export async function POST(request: NextRequest) {
         }
 
         // Obtener órdenes pagadas de las últimas 24 horas
-        const ordersResponse = await getOrders(tokens.access_token, String(tokens.user_id), {
+        const ordersResponse = await ml.call(token => getOrders(token, String(ml.userId), {
             limit: 50,
             status: 'paid',
-        })
+        }))
 
         let imported = 0
         let skipped = 0
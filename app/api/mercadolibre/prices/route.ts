@@ -0,0 +1,47 @@
+// API Route para publicar en Mercado Libre los precios locales
+import { NextRequest, NextResponse } from 'next/server'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { pushListingPrices } from '@/src/lib/mercadolibre-listings'
+import { createClient } from '@/lib/supabase/server'
+
+// POST: Publicar el precio de las variantes en sus vinculaciones de ML
+// body: { variant_ids: string[] }
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json()
+        const variantIds: string[] = Array.isArray(body?.variant_ids) ? body.variant_ids : []
+
+        if (variantIds.length === 0) {
+            return NextResponse.json(
+                { error: 'variant_ids es requerido' },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const ml = await getMLSession(supabase)
+
+        if (!ml) {
+            return NextResponse.json(
+                { error: 'Mercado Libre no está conectado', needsAuth: true },
+                { status: 401 }
+            )
+        }
+
+        const result = await pushListingPrices(supabase, ml, variantIds)
+
+        return NextResponse.json({
+            success: result.errors.length === 0,
+            ...result,
+        })
+    } catch (err) {
+        console.error('Error pushing ML prices:', err)
+        return NextResponse.json(
+            {
+                error: 'Error publicando los precios en Mercado Libre',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
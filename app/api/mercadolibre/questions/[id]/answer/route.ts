@@ -0,0 +1,61 @@
+// API Route para responder una pregunta de Mercado Libre
+import { NextRequest, NextResponse } from 'next/server'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { replyToQuestion } from '@/src/lib/mercadolibre-questions'
+import { createClient } from '@/lib/supabase/server'
+
+// ML rechaza respuestas de más de 2000 caracteres
+const MAX_ANSWER_LENGTH = 2000
+
+// POST: Responder la pregunta (body: { text })
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const body = await request.json()
+        const text = typeof body.text === 'string' ? body.text.trim() : ''
+
+        if (!text) {
+            return NextResponse.json(
+                { error: 'text es requerido' },
+                { status: 400 }
+            )
+        }
+
+        if (text.length > MAX_ANSWER_LENGTH) {
+            return NextResponse.json(
+                { error: `La respuesta no puede superar los ${MAX_ANSWER_LENGTH} caracteres` },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+        const ml = await getMLSession(supabase)
+
+        if (!ml) {
+            return NextResponse.json(
+                { error: 'Mercado Libre no está conectado', needsAuth: true },
+                { status: 401 }
+            )
+        }
+
+        const question = await replyToQuestion(supabase, ml, id, text)
+
+        return NextResponse.json({
+            success: true,
+            question_id: id,
+            status: question.status,
+        })
+    } catch (err) {
+        console.error('Error answering ML question:', err)
+        return NextResponse.json(
+            {
+                error: 'Error respondiendo pregunta',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
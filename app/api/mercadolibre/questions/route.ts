@@ -0,0 +1,130 @@
+// API Route para las preguntas de compradores de Mercado Libre
+import { NextRequest, NextResponse } from 'next/server'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { syncUnansweredQuestions } from '@/src/lib/mercadolibre-questions'
+import { createClient } from '@/lib/supabase/server'
+import type { MLQuestionRecord, ProductVariant } from '@/src/lib/types'
+
+interface QuestionProduct {
+    id: string
+    name: string
+    base_price: number
+    variants: Pick<ProductVariant, 'id' | 'name' | 'sku' | 'price_adjustment' | 'stock_quantity'>[]
+}
+
+interface QuestionGroup {
+    product: QuestionProduct | null
+    item_ids: string[]
+    questions: MLQuestionRecord[]
+}
+
+// GET: Preguntas guardadas, agrupadas por producto local (vía platform_listings)
+// Query params: status (UNANSWERED por defecto, "all" para todas)
+export async function GET(request: NextRequest) {
+    try {
+        const status = request.nextUrl.searchParams.get('status') || 'UNANSWERED'
+        const supabase = await createClient()
+
+        let query = supabase
+            .from('ml_questions')
+            .select('*')
+            .order('question_date', { ascending: false })
+            .limit(500)
+
+        if (status !== 'all') {
+            query = query.eq('status', status)
+        }
+
+        const { data: questions, error } = await query
+        if (error) throw error
+
+        const itemIds = Array.from(new Set((questions || []).map(q => q.item_id)))
+
+        // Producto local de cada item de ML
+        const productByItem = new Map<string, QuestionProduct>()
+        if (itemIds.length > 0) {
+            const { data: listings, error: listingsError } = await supabase
+                .from('platform_listings')
+                .select(`
+                    external_id,
+                    product_variant:product_variants(
+                        product:products(
+                            id,
+                            name,
+                            base_price,
+                            variants:product_variants(id, name, sku, price_adjustment, stock_quantity)
+                        )
+                    )
+                `)
+                .eq('platform', 'mercadolibre')
+                .in('external_id', itemIds)
+
+            if (listingsError) throw listingsError
+
+            for (const listing of listings || []) {
+                // Sin tipos generados, Supabase infiere las relaciones como arrays
+                const variant = listing.product_variant as unknown as { product: QuestionProduct | null } | null
+                const product = variant?.product
+                if (product && !productByItem.has(listing.external_id)) {
+                    productByItem.set(listing.external_id, product)
+                }
+            }
+        }
+
+        // Agrupar por producto (los items sin vincular van en su propio grupo)
+        const groups = new Map<string, QuestionGroup>()
+        for (const question of questions || []) {
+            const product = productByItem.get(question.item_id) || null
+            const key = product ? product.id : `item:${question.item_id}`
+
+            if (!groups.has(key)) {
+                groups.set(key, { product, item_ids: [], questions: [] })
+            }
+            const group = groups.get(key)!
+            if (!group.item_ids.includes(question.item_id)) group.item_ids.push(question.item_id)
+            group.questions.push(question)
+        }
+
+        return NextResponse.json({
+            groups: Array.from(groups.values()),
+            total: questions?.length || 0,
+        })
+    } catch (err) {
+        console.error('Error fetching ML questions:', err)
+        return NextResponse.json(
+            {
+                error: 'Error obteniendo preguntas',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
+
+// POST: Traer de ML las preguntas sin responder
+export async function POST() {
+    try {
+        const supabase = await createClient()
+        const ml = await getMLSession(supabase)
+
+        if (!ml) {
+            return NextResponse.json(
+                { error: 'Mercado Libre no está conectado', needsAuth: true },
+                { status: 401 }
+            )
+        }
+
+        const synced = await syncUnansweredQuestions(supabase, ml)
+
+        return NextResponse.json({ success: true, synced })
+    } catch (err) {
+        console.error('Error syncing ML questions:', err)
+        return NextResponse.json(
+            {
+                error: 'Error sincronizando preguntas',
+                details: err instanceof Error ? err.message : 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
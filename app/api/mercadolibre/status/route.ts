@@ -0,0 +1,28 @@
+// API Route para consultar el estado de la conexión con Mercado Libre
+import { NextResponse } from 'next/server'
+import { readTokens, getTokenHealth } from '@/src/lib/mercadolibre-tokens'
+import { createClient } from '@/lib/supabase/server'
+
+// GET: Estado de los tokens (sin exponer los tokens en sí)
+export async function GET() {
+    try {
+        const supabase = await createClient()
+        const [tokens, health] = await Promise.all([
+            readTokens(supabase),
+            getTokenHealth(supabase),
+        ])
+
+        return NextResponse.json({
+            connected: !!tokens,
+            user_id: tokens?.user_id ?? null,
+            expires_at: tokens ? new Date(tokens.expires_at).toISOString() : null,
+            health,
+        })
+    } catch (err) {
+        console.error('Error fetching ML status:', err)
+        return NextResponse.json(
+            { error: 'Error obteniendo estado de Mercado Libre' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,85 +1,48 @@
 // API Route para sincronizar stock con Mercado Libre
 import { NextRequest, NextResponse } from 'next/server'
-import { getItems, getItem, getItemsMulti, updateItemStock, refreshAccessToken, MLItem, mlFetch } from '@/src/lib/mercadolibre'
+import { getAllItemIds, getItemsMulti, updateItemStock, mlFetch, MLApiError, type MLItemStatus } from '@/src/lib/mercadolibre'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { applyStockMovement } from '@/src/lib/stock'
+import { PRICE_SOURCE_HEADER } from '@/src/lib/price-history'
 import { createClient } from '@/lib/supabase/server'
 
-interface MLTokens {
-    access_token: string
-    refresh_token: string
-    user_id: number
-    expires_at: number
-}
-
-async function getValidTokens(supabase: Awaited<ReturnType<typeof createClient>>): Promise<MLTokens | null> {
-    const { data, error } = await supabase
-        .from('settings')
-        .select('value')
-        .eq('key', 'ml_tokens')
-        .single()
-
-    if (error || !data) {
-        console.log('No ML tokens found in settings:', error?.message)
-        return null
-    }
+const ITEM_STATUS_FILTERS = ['active', 'paused', 'closed', 'all'] as const
+const MAX_PAGE_SIZE = 100
 
-    // Handle both string and already-parsed JSON
-    let tokens: MLTokens
+// GET: Obtener items de ML con su stock
+// Query params: status (active|paused|closed|all), q, page (desde 1), page_size
+export async function GET(request: NextRequest) {
     try {
-        tokens = typeof data.value === 'string' ? JSON.parse(data.value) : data.value as MLTokens
-    } catch (e) {
-        console.error('Error parsing ML tokens:', e)
-        return null
-    }
+        const searchParams = request.nextUrl.searchParams
+        const statusParam = searchParams.get('status') || 'active'
+        const q = searchParams.get('q')?.trim() || undefined
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('page_size') || '50') || 50))
 
-    if (tokens.expires_at < Date.now() + 300000) {
-        try {
-            const newTokens = await refreshAccessToken(tokens.refresh_token)
-            const updatedTokens: MLTokens = {
-                access_token: newTokens.access_token,
-                refresh_token: newTokens.refresh_token,
-                user_id: newTokens.user_id,
-                expires_at: Date.now() + (newTokens.expires_in * 1000),
-            }
-
-            await supabase
-                .from('settings')
-                .update({
-                    value: JSON.stringify(updatedTokens),
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('key', 'ml_tokens')
-
-            return updatedTokens
-        } catch (err) {
-            console.error('Error refreshing ML token:', err)
-            return null
+        if (!(ITEM_STATUS_FILTERS as readonly string[]).includes(statusParam)) {
+            return NextResponse.json(
+                { error: `status inválido. Valores permitidos: ${ITEM_STATUS_FILTERS.join(', ')}` },
+                { status: 400 }
+            )
         }
-    }
-
-    return tokens
-}
 
-// GET: Obtener items de ML con su stock
-export async function GET() {
-    try {
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
             )
         }
 
-        // Obtener IDs de items del vendedor
-        const itemsResponse = await getItems(tokens.access_token, String(tokens.user_id), {
-            status: 'active',
-            limit: 50,
-        })
+        // Obtener todos los IDs de items del vendedor (recorre todas las páginas de ML)
+        const status = statusParam === 'all' ? undefined : statusParam as MLItemStatus
+        const allItemIds = await ml.call(token => getAllItemIds(token, String(ml.userId), { status, q }))
 
-        // Obtener detalles de todos los items en pocas llamadas (20 por llamada)
-        const mlItems = await getItemsMulti(tokens.access_token, itemsResponse.results)
+        // Solo pedimos el detalle de la página solicitada (20 por llamada)
+        const pageIds = allItemIds.slice((page - 1) * pageSize, page * pageSize)
+        const mlItems = await ml.call(token => getItemsMulti(token, pageIds))
 
         // Mapear a la estructura que necesitamos
         const items = mlItems.map(item => ({
@@ -115,10 +78,19 @@ export async function GET() {
             `)
             .eq('platform', 'mercadolibre')
 
+        const linkedIds = new Set((listings || []).map(l => l.external_id))
+
         return NextResponse.json({
             ml_items: items,
             linked_items: listings || [],
-            total_ml_items: itemsResponse.paging.total,
+            total_ml_items: allItemIds.length,
+            unlinked_ml_items: allItemIds.filter(id => !linkedIds.has(id)).length,
+            paging: {
+                page,
+                page_size: pageSize,
+                total: allItemIds.length,
+                total_pages: Math.max(1, Math.ceil(allItemIds.length / pageSize)),
+            },
         })
     } catch (err) {
         console.error('Error fetching ML stock:', err)
@@ -147,9 +119,9 @@ export async function POST(request: NextRequest) {
         }
 
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
@@ -171,11 +143,11 @@ export async function POST(request: NextRequest) {
         }
 
         // Actualizar stock en ML
-        const updatedItem = await updateItemStock(
-            tokens.access_token,
+        const updatedItem = await ml.call(token => updateItemStock(
+            token,
             ml_item_id,
             variant.stock_quantity
-        )
+        ))
 
         // Guardar/actualizar la vinculación en la BD
         const { error: linkError } = await supabase
@@ -191,6 +163,7 @@ export async function POST(request: NextRequest) {
             }, {
                 onConflict: 'product_variant_id,platform'
             })
+            .setHeader(PRICE_SOURCE_HEADER, 'ml_sync')
 
         if (linkError) {
             console.error('Error saving link:', linkError)
@@ -219,9 +192,9 @@ export async function PUT(request: NextRequest) {
         const direction = body.direction || 'push' // 'push' or 'pull'
 
         const supabase = await createClient()
-        const tokens = await getValidTokens(supabase)
+        const ml = await getMLSession(supabase)
 
-        if (!tokens) {
+        if (!ml) {
             return NextResponse.json(
                 { error: 'Mercado Libre no está conectado', needsAuth: true },
                 { status: 401 }
@@ -250,6 +223,7 @@ export async function PUT(request: NextRequest) {
 
         let synced = 0
         let errors: string[] = []
+        let pending = 0
 
         if (direction === 'push') {
             // PUSH: Local -> Mercado Libre
@@ -271,21 +245,21 @@ export async function PUT(request: NextRequest) {
                             // SIN EMBARGO, para stock, podemos usar /items/{id}/variations/{variation_id} ?
                             // ML API Docs dicen PUT /items/{id}/variations/{variation_id} body: { available_quantity: 10 }
 
-                            await mlFetch(
+                            await ml.call(token => mlFetch(
                                 `/items/${listing.external_id}/variations/${listing.external_variant_id}`,
-                                tokens.access_token,
+                                token,
                                 {
                                     method: 'PUT',
                                     body: JSON.stringify({ available_quantity: localStock })
                                 }
-                            )
+                            ))
                         } else {
                             // Item simple
-                            await updateItemStock(
-                                tokens.access_token,
+                            await ml.call(token => updateItemStock(
+                                token,
                                 listing.external_id,
                                 localStock
-                            )
+                            ))
                         }
 
                         // Actualizar registro
@@ -301,13 +275,20 @@ export async function PUT(request: NextRequest) {
                     }
                 } catch (err) {
                     errors.push(`Item ${listing.external_id}: ${err instanceof Error ? err.message : 'Error'}`)
+
+                    // Si ML sigue caído después de los reintentos, no seguimos insistiendo:
+                    // los items restantes quedan pendientes para la próxima sincronización
+                    if (err instanceof MLApiError && err.retryable) {
+                        pending = (listings?.length || 0) - (listings?.indexOf(listing) ?? 0) - 1
+                        break
+                    }
                 }
             }
         } else {
             // PULL: Mercado Libre -> Local
             // 1. Obtener status actual de ML para todos los items vinculados
             const uniqueItemIds = Array.from(new Set(listings?.map(l => l.external_id) || []))
-            const mlItems = await getItemsMulti(tokens.access_token, uniqueItemIds as string[])
+            const mlItems = await ml.call(token => getItemsMulti(token, uniqueItemIds as string[]))
 
             // Mapa para búsqueda rápida
             const mlItemMap = new Map(mlItems.map(i => [i.id, i]))
@@ -375,22 +356,14 @@ export async function PUT(request: NextRequest) {
 
                     // Si el stock es diferente, actualizar local
                     if (mlStock !== listing.product_variant.stock_quantity) {
-                        // Actualizar stock local
-                        await supabase
-                            .from('product_variants')
-                            .update({ stock_quantity: mlStock })
-                            .eq('id', listing.product_variant.id)
-
-                        // Crear movimiento de stock (ajuste por sync)
-                        await supabase
-                            .from('stock_movements')
-                            .insert({
-                                product_variant_id: listing.product_variant.id,
-                                movement_type: mlStock > listing.product_variant.stock_quantity ? 'IN' : 'OUT',
-                                quantity: Math.abs(mlStock - listing.product_variant.stock_quantity),
-                                reference_type: 'sync',
-                                notes: 'Sincronización manual desde Mercado Libre'
-                            })
+                        // Ajustar stock local al valor de ML (atómico, con su movimiento)
+                        await applyStockMovement(supabase, {
+                            variantId: listing.product_variant.id,
+                            type: 'ADJUSTMENT',
+                            quantity: mlStock,
+                            referenceType: 'sync',
+                            notes: 'Sincronización manual desde Mercado Libre'
+                        })
 
                         // Actualizar listing
                         await supabase
@@ -415,6 +388,7 @@ export async function PUT(request: NextRequest) {
             synced,
             total: listings?.length || 0,
             direction,
+            pending: pending > 0 ? pending : undefined,
             errors: errors.length > 0 ? errors : undefined,
         })
     } catch (err) {
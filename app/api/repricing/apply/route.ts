@@ -0,0 +1,87 @@
+// API Route para aplicar una propuesta de reprecio aprobada
+import { NextRequest, NextResponse } from 'next/server'
+import { getMLSession } from '@/src/lib/mercadolibre-tokens'
+import { pushListingPrices, type ListingPricePushResult } from '@/src/lib/mercadolibre-listings'
+import { PRICE_SOURCE_HEADER } from '@/src/lib/price-history'
+import { createClient } from '@/lib/supabase/server'
+
+interface RepricingChange {
+    product_id: string
+    price: number
+}
+
+// POST: Actualizar el precio base de los productos y publicarlo en Mercado Libre
+// body: { changes: [{ product_id, price }] } (price es el precio base local, sin el recargo de ML)
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json()
+        const changes: RepricingChange[] = Array.isArray(body?.changes) ? body.changes : []
+
+        if (changes.length === 0) {
+            return NextResponse.json(
+                { error: 'changes es requerido' },
+                { status: 400 }
+            )
+        }
+
+        const invalid = changes.find(change => !change.product_id || !Number.isFinite(Number(change.price)) || Number(change.price) <= 0)
+        if (invalid) {
+            return NextResponse.json(
+                { error: `Precio inválido para el producto ${invalid.product_id || '(sin id)'}` },
+                { status: 400 }
+            )
+        }
+
+        const supabase = await createClient()
+
+        // 1. Aplicar localmente
+        const updatedProductIds: string[] = []
+        const errors: { product_id: string; error: string }[] = []
+
+        for (const change of changes) {
+            const { error } = await supabase
+                .from('products')
+                .update({ base_price: Number(change.price) })
+                .setHeader(PRICE_SOURCE_HEADER, 'repricing')
+                .eq('id', change.product_id)
+
+            if (error) {
+                errors.push({ product_id: change.product_id, error: error.message })
+            } else {
+                updatedProductIds.push(change.product_id)
+            }
+        }
+
+        // 2. Publicar en ML las variantes vinculadas de los productos actualizados
+        let ml_result: ListingPricePushResult | null = null
+        const ml = await getMLSession(supabase)
+
+        if (ml && updatedProductIds.length > 0) {
+            const { data: variants, error: variantsError } = await supabase
+                .from('product_variants')
+                .select('id')
+                .in('product_id', updatedProductIds)
+
+            if (variantsError) throw variantsError
+
+            ml_result = await pushListingPrices(supabase, ml, (variants || []).map(v => v.id))
+        }
+
+        return NextResponse.json({
+            success: errors.length === 0,
+            updated: updatedProductIds.length,
+            errors,
+            ml_connected: !!ml,
+            ml: ml_result,
+        })
+    } catch (err) {
+        console.error('Error applying repricing:', err)
+        return NextResponse.json(
+            {
+                error: 'Error aplicando los precios',
+                details: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+            },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,609 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+    Plus,
+    BarChart3,
+    Edit,
+    Trash2,
+    ExternalLink,
+    Link2,
+    TrendingDown,
+    TrendingUp,
+    RefreshCw,
+    AlertTriangle
+} from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import {
+    getCompetitors,
+    deleteCompetitor,
+    getCompetitorItems,
+    addCompetitorItem,
+    removeCompetitorItem,
+    getCompetitorPrices,
+    getFlaggedCompetitorPrices,
+    getCompetitorPriceAlertPercent,
+    updateCompetitorPriceAlertPercent,
+    getProducts
+} from "@/src/lib/api";
+import { normalizeMlItemId } from "@/src/lib/competitors";
+import type { Competitor, CompetitorItem, CompetitorPrice, ProductWithRelations } from "@/src/lib/types";
+import { CompetitorModal } from "@/src/components/competitors/competitor-modal";
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+const lineColors = ['#3B82F6', '#F97316', '#22C55E', '#A855F7', '#EF4444', '#14B8A6'];
+
+// Un punto por día con el menor precio de cada competidor ese día
+function buildChartData(prices: CompetitorPrice[], competitorsById: Map<string, Competitor>) {
+    const byDay = new Map<string, Record<string, number | string>>();
+    for (const price of prices) {
+        const day = price.captured_at.slice(0, 10);
+        const name = competitorsById.get(price.competitor_id)?.name || 'Competidor';
+        const point = byDay.get(day) || { date: new Date(`${day}T12:00:00`).toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit' }) };
+        point[name] = typeof point[name] === 'number' ? Math.min(point[name] as number, price.price) : price.price;
+        byDay.set(day, point);
+    }
+    return Array.from(byDay.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, point]) => point);
+}
+
+export default function CompetenciaPage() {
+    const [competitors, setCompetitors] = useState<Competitor[]>([]);
+    const [products, setProducts] = useState<ProductWithRelations[]>([]);
+    const [allItems, setAllItems] = useState<CompetitorItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingCompetitor, setEditingCompetitor] = useState<Competitor | null>(null);
+    const [capturing, setCapturing] = useState(false);
+
+    // Cambios de precio marcados (últimos 30 días)
+    const [flaggedPrices, setFlaggedPrices] = useState<CompetitorPrice[]>([]);
+    const [alertPercent, setAlertPercent] = useState("");
+
+    // Análisis por producto
+    const [productId, setProductId] = useState("");
+    const [days, setDays] = useState(90);
+    const [prices, setPrices] = useState<CompetitorPrice[]>([]);
+    const [newItem, setNewItem] = useState({ competitor_id: "", ml_item_id: "", title: "" });
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    useEffect(() => {
+        if (productId) loadPrices();
+        else setPrices([]);
+    }, [productId, days]);
+
+    async function loadData() {
+        try {
+            setLoading(true);
+            const [competitorsData, productsData, itemsData, flaggedData, alertPercentData] = await Promise.all([
+                getCompetitors(),
+                getProducts(),
+                getCompetitorItems(),
+                getFlaggedCompetitorPrices(30),
+                getCompetitorPriceAlertPercent()
+            ]);
+            setCompetitors(competitorsData);
+            setProducts(productsData);
+            setAllItems(itemsData);
+            setFlaggedPrices(flaggedData);
+            setAlertPercent(String(alertPercentData));
+            // Por defecto, el primer producto que tenga publicaciones asociadas
+            if (!productId && itemsData.length > 0) setProductId(itemsData[0].product_id);
+        } catch (err) {
+            setError("Error al cargar la competencia");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadPrices() {
+        try {
+            setPrices(await getCompetitorPrices(productId, days));
+        } catch (err) {
+            console.error("Error loading competitor prices:", err);
+            setError("Error al cargar el historial de precios");
+        }
+    }
+
+    async function handleDelete(competitor: Competitor) {
+        if (!confirm(`¿Eliminar a ${competitor.name}? Se borra también su historial de precios.`)) return;
+        try {
+            setError(null);
+            await deleteCompetitor(competitor.id);
+            await loadData();
+            if (productId) await loadPrices();
+        } catch (err) {
+            console.error("Error deleting competitor:", err);
+            setError("Error al eliminar el competidor");
+        }
+    }
+
+    async function handleAddItem(e: React.FormEvent) {
+        e.preventDefault();
+        const mlItemId = normalizeMlItemId(newItem.ml_item_id);
+        if (!mlItemId) {
+            setError("Ingresá un ID de publicación (MLA...) o la URL de la publicación");
+            return;
+        }
+
+        try {
+            setError(null);
+            const url = newItem.ml_item_id.trim().startsWith('http') ? newItem.ml_item_id.trim() : null;
+            await addCompetitorItem({
+                competitor_id: newItem.competitor_id,
+                product_id: productId,
+                ml_item_id: mlItemId,
+                title: newItem.title.trim() || null,
+                url,
+            });
+            setNewItem({ competitor_id: newItem.competitor_id, ml_item_id: "", title: "" });
+            setAllItems(await getCompetitorItems());
+            await loadPrices();
+        } catch (err) {
+            console.error("Error adding competitor item:", err);
+            setError("Error al asociar la publicación");
+        }
+    }
+
+    async function handleRemoveItem(id: string) {
+        try {
+            await removeCompetitorItem(id);
+            setAllItems(allItems.filter(i => i.id !== id));
+        } catch (err) {
+            console.error("Error removing competitor item:", err);
+            setError("Error al quitar la publicación");
+        }
+    }
+
+    async function handleCapture() {
+        try {
+            setCapturing(true);
+            const res = await fetch('/api/competitors/capture', { method: 'POST' });
+            const json = await res.json();
+
+            if (json.error) {
+                alert(`❌ Error: ${json.error}`);
+            } else {
+                const missing = json.missing.length ? `\n⚠️ ${json.missing.length} publicaciones no se encontraron en ML` : '';
+                const mismatches = json.seller_mismatches.length ? `\n⚠️ ${json.seller_mismatches.length} publicaciones ya no son del vendedor` : '';
+                alert(`✅ Captura completada: ${json.inserted} precios registrados, ${json.flagged.length} cambios marcados${missing}${mismatches}`);
+                await loadData();
+                if (productId) await loadPrices();
+            }
+        } catch (err) {
+            console.error(err);
+            alert('Error capturando precios');
+        } finally {
+            setCapturing(false);
+        }
+    }
+
+    async function handleAlertPercentSave() {
+        const percent = parseFloat(alertPercent);
+        if (!Number.isFinite(percent) || percent <= 0) {
+            setError("El umbral debe ser un porcentaje mayor a 0");
+            return;
+        }
+        try {
+            setError(null);
+            await updateCompetitorPriceAlertPercent(percent);
+        } catch (err) {
+            console.error("Error saving alert percent:", err);
+            setError("Error al guardar el umbral de alerta");
+        }
+    }
+
+    function handleSaved() {
+        setIsModalOpen(false);
+        setEditingCompetitor(null);
+        loadData();
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando competencia...</div>
+            </div>
+        );
+    }
+
+    const competitorsById = new Map(competitors.map(c => [c.id, c]));
+    const product = products.find(p => p.id === productId);
+    const productItems = allItems.filter(i => i.product_id === productId);
+    const chartData = buildChartData(prices, competitorsById);
+    const chartCompetitors = Array.from(new Set(prices.map(p => competitorsById.get(p.competitor_id)?.name || 'Competidor')));
+
+    // Último precio de cada publicación asociada
+    const latestByItem = new Map<string, CompetitorPrice>();
+    for (const price of prices) {
+        if (price.ml_item_id) latestByItem.set(`${price.competitor_id}:${price.ml_item_id}`, price);
+    }
+    const latestPrices = Array.from(latestByItem.values());
+    const minPrice = latestPrices.length > 0 ? Math.min(...latestPrices.map(p => p.price)) : null;
+    const avgPrice = latestPrices.length > 0 ? latestPrices.reduce((sum, p) => sum + p.price, 0) / latestPrices.length : null;
+    const diffVsMin = product && minPrice ? ((product.base_price - minPrice) / minPrice) * 100 : null;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold">Competencia</h1>
+                    <p className="text-muted-foreground">Seguimiento de precios de la competencia en Mercado Libre</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleCapture}
+                        disabled={capturing}
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <RefreshCw className={`h-4 w-4 ${capturing ? 'animate-spin' : ''}`} />
+                        {capturing ? "Capturando..." : "Capturar precios"}
+                    </button>
+                    <button
+                        onClick={() => { setEditingCompetitor(null); setIsModalOpen(true); }}
+                        className="btn btn-primary flex items-center gap-2"
+                    >
+                        <Plus className="h-4 w-4" />
+                        Nuevo Competidor
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Product Analysis */}
+            <div className="card space-y-4">
+                <div className="flex gap-4 flex-wrap items-end">
+                    <div className="flex-1 min-w-[240px]">
+                        <label className="block text-sm font-medium mb-1">Producto</label>
+                        <select
+                            value={productId}
+                            onChange={(e) => setProductId(e.target.value)}
+                            className="input"
+                            style={selectStyle}
+                        >
+                            <option value="" style={selectStyle}>Seleccionar producto...</option>
+                            {products.map(p => (
+                                <option key={p.id} value={p.id} style={selectStyle}>
+                                    {p.name}{allItems.some(i => i.product_id === p.id) ? ' •' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <select
+                        value={days}
+                        onChange={(e) => setDays(parseInt(e.target.value))}
+                        className="input w-40"
+                        style={selectStyle}
+                    >
+                        {[30, 90, 180, 365].map(d => (
+                            <option key={d} value={d} style={selectStyle}>Últimos {d} días</option>
+                        ))}
+                    </select>
+                </div>
+
+                {product && (
+                    <>
+                        {/* Summary */}
+                        <div className="grid gap-4 md:grid-cols-4">
+                            <div className="p-3 bg-gray-50 dark:bg-[#252525] rounded-md">
+                                <p className="text-xs text-muted-foreground">Nuestro precio</p>
+                                <p className="text-lg font-bold">${product.base_price.toLocaleString('es-AR')}</p>
+                            </div>
+                            <div className="p-3 bg-gray-50 dark:bg-[#252525] rounded-md">
+                                <p className="text-xs text-muted-foreground">Mínimo competencia</p>
+                                <p className="text-lg font-bold">{minPrice != null ? `$${minPrice.toLocaleString('es-AR')}` : '-'}</p>
+                            </div>
+                            <div className="p-3 bg-gray-50 dark:bg-[#252525] rounded-md">
+                                <p className="text-xs text-muted-foreground">Promedio competencia</p>
+                                <p className="text-lg font-bold">{avgPrice != null ? `$${Math.round(avgPrice).toLocaleString('es-AR')}` : '-'}</p>
+                            </div>
+                            <div className="p-3 bg-gray-50 dark:bg-[#252525] rounded-md">
+                                <p className="text-xs text-muted-foreground">Diferencia vs. mínimo</p>
+                                <p className={`text-lg font-bold flex items-center gap-1 ${diffVsMin == null ? '' : diffVsMin > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                    {diffVsMin != null && (diffVsMin > 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />)}
+                                    {diffVsMin != null ? `${diffVsMin > 0 ? '+' : ''}${diffVsMin.toFixed(1)}%` : '-'}
+                                </p>
+                            </div>
+                        </div>
+
+                        {/* Chart */}
+                        <div className="h-[320px] w-full">
+                            {chartData.length > 0 ? (
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--border)" />
+                                        <XAxis
+                                            dataKey="date"
+                                            stroke="var(--foreground)"
+                                            fontSize={12}
+                                            tickLine={false}
+                                            axisLine={false}
+                                        />
+                                        <YAxis
+                                            stroke="var(--foreground)"
+                                            fontSize={12}
+                                            tickLine={false}
+                                            axisLine={false}
+                                            domain={['auto', 'auto']}
+                                            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                                        />
+                                        <Tooltip
+                                            contentStyle={{ backgroundColor: 'var(--card)', borderColor: 'var(--border)' }}
+                                            formatter={(value) => `$${(Number(value) || 0).toLocaleString('es-AR')}`}
+                                        />
+                                        <Legend />
+                                        <ReferenceLine
+                                            y={product.base_price}
+                                            stroke="var(--primary)"
+                                            strokeDasharray="6 4"
+                                            label={{ value: 'Nuestro precio', position: 'insideTopLeft', fill: 'var(--foreground)', fontSize: 12 }}
+                                        />
+                                        {chartCompetitors.map((name, index) => (
+                                            <Line
+                                                key={name}
+                                                type="monotone"
+                                                dataKey={name}
+                                                stroke={lineColors[index % lineColors.length]}
+                                                strokeWidth={2}
+                                                dot={false}
+                                                connectNulls
+                                            />
+                                        ))}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            ) : (
+                                <div className="flex items-center justify-center h-full text-muted-foreground">
+                                    Sin precios capturados en el período
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Mapped Items */}
+                        <div>
+                            <div className="flex items-center gap-2 mb-3">
+                                <Link2 className="h-4 w-4 text-muted-foreground" />
+                                <h3 className="font-semibold">Publicaciones de la competencia</h3>
+                            </div>
+
+                            <form onSubmit={handleAddItem} className="flex flex-wrap gap-2 mb-4">
+                                <select
+                                    value={newItem.competitor_id}
+                                    onChange={(e) => setNewItem({ ...newItem, competitor_id: e.target.value })}
+                                    className="input w-48"
+                                    style={selectStyle}
+                                    required
+                                >
+                                    <option value="" style={selectStyle}>Competidor...</option>
+                                    {competitors.map(c => (
+                                        <option key={c.id} value={c.id} style={selectStyle}>{c.name}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="text"
+                                    placeholder="MLA1234567890 o URL"
+                                    value={newItem.ml_item_id}
+                                    onChange={(e) => setNewItem({ ...newItem, ml_item_id: e.target.value })}
+                                    className="input w-56 font-mono"
+                                    required
+                                />
+                                <input
+                                    type="text"
+                                    placeholder="Título (opcional)"
+                                    value={newItem.title}
+                                    onChange={(e) => setNewItem({ ...newItem, title: e.target.value })}
+                                    className="input flex-1 min-w-[160px]"
+                                />
+                                <button type="submit" className="btn btn-primary" title="Asociar">
+                                    <Plus className="h-4 w-4" />
+                                </button>
+                            </form>
+
+                            {productItems.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">Sin publicaciones asociadas a este producto</p>
+                            ) : (
+                                <div className="divide-y divide-[var(--border)]">
+                                    {productItems.map(item => {
+                                        const latest = latestByItem.get(`${item.competitor_id}:${item.ml_item_id}`);
+                                        return (
+                                            <div key={item.id} className="flex items-center justify-between py-2 text-sm">
+                                                <div>
+                                                    <p className="font-medium">
+                                                        {item.competitor?.name}
+                                                        <span className="ml-2 font-mono text-xs text-muted-foreground">{item.ml_item_id}</span>
+                                                    </p>
+                                                    {(item.title || latest?.title) && (
+                                                        <p className="text-xs text-muted-foreground">{item.title || latest?.title}</p>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center gap-3">
+                                                    <span className="font-bold">
+                                                        {latest ? `$${latest.price.toLocaleString('es-AR')}` : '-'}
+                                                    </span>
+                                                    {(item.url || latest?.url) && (
+                                                        <a
+                                                            href={item.url || latest?.url || undefined}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md"
+                                                            title="Ver publicación"
+                                                        >
+                                                            <ExternalLink className="h-4 w-4 text-gray-500" />
+                                                        </a>
+                                                    )}
+                                                    <button
+                                                        onClick={() => handleRemoveItem(item.id)}
+                                                        className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                                        title="Quitar"
+                                                    >
+                                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {/* Flagged Price Moves */}
+            <div className="card space-y-4">
+                <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-orange-500" />
+                        <h3 className="font-semibold">Cambios de precio (últimos 30 días)</h3>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                        <label htmlFor="alert_percent" className="text-muted-foreground">Marcar variaciones de</label>
+                        <input
+                            id="alert_percent"
+                            type="number"
+                            value={alertPercent}
+                            onChange={(e) => setAlertPercent(e.target.value)}
+                            onBlur={handleAlertPercentSave}
+                            className="input w-20 text-center text-sm"
+                            min="0.1"
+                            step="0.1"
+                        />
+                        <span className="text-muted-foreground">% o más</span>
+                    </div>
+                </div>
+
+                {flaggedPrices.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Sin cambios de precio por encima del umbral</p>
+                ) : (
+                    <div className="divide-y divide-[var(--border)]">
+                        {flaggedPrices.map(price => {
+                            const change = price.price_change_percent ?? 0;
+                            const flaggedProduct = products.find(p => p.id === price.product_id);
+                            return (
+                                <div key={price.id} className="flex items-center justify-between py-2 text-sm">
+                                    <div>
+                                        <p className="font-medium">
+                                            {competitorsById.get(price.competitor_id)?.name || 'Competidor'}
+                                            <span className="ml-2 font-mono text-xs text-muted-foreground">{price.ml_item_id}</span>
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {flaggedProduct ? `${flaggedProduct.name} · ` : ''}
+                                            {new Date(price.captured_at).toLocaleString('es-AR')}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-muted-foreground line-through">
+                                            ${(price.previous_price ?? 0).toLocaleString('es-AR')}
+                                        </span>
+                                        <span className="font-bold">${price.price.toLocaleString('es-AR')}</span>
+                                        <span className={`flex items-center gap-1 w-20 justify-end font-medium ${change < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                            {change < 0 ? <TrendingDown className="h-4 w-4" /> : <TrendingUp className="h-4 w-4" />}
+                                            {change > 0 ? '+' : ''}{change.toFixed(1)}%
+                                        </span>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {/* Competitors Table */}
+            <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Competidor
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Vendedor ML
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Publicaciones
+                            </th>
+                            <th className="px-6 py-3 text-center text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Estado
+                            </th>
+                            <th className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {competitors.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="px-6 py-12 text-center text-muted-foreground">
+                                    <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                                    <p>No hay competidores cargados</p>
+                                </td>
+                            </tr>
+                        ) : (
+                            competitors.map(competitor => (
+                                <tr key={competitor.id} className="hover:bg-gray-50 dark:hover:bg-[#252525]">
+                                    <td className="px-6 py-4">
+                                        <p className="font-medium">{competitor.name}</p>
+                                        {competitor.url && (
+                                            <a href={competitor.url} target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground hover:underline">
+                                                {competitor.url}
+                                            </a>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 font-mono text-sm">{competitor.ml_seller_id || '-'}</td>
+                                    <td className="px-6 py-4 text-sm text-right">
+                                        {allItems.filter(i => i.competitor_id === competitor.id).length}
+                                    </td>
+                                    <td className="px-6 py-4 text-center">
+                                        <span className={`inline-flex px-2 py-1 text-xs rounded-full ${competitor.is_active
+                                            ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                                            : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400"
+                                            }`}>
+                                            {competitor.is_active ? 'Activo' : 'Pausado'}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-right">
+                                        <div className="flex items-center justify-end gap-2">
+                                            <button
+                                                onClick={() => { setEditingCompetitor(competitor); setIsModalOpen(true); }}
+                                                className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                                                title="Editar"
+                                            >
+                                                <Edit className="h-4 w-4 text-gray-500" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(competitor)}
+                                                className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                                title="Eliminar"
+                                            >
+                                                <Trash2 className="h-4 w-4 text-red-500" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Competitor Modal */}
+            {isModalOpen && (
+                <CompetitorModal
+                    competitor={editingCompetitor}
+                    onClose={() => { setIsModalOpen(false); setEditingCompetitor(null); }}
+                    onSaved={handleSaved}
+                />
+            )}
+        </div>
+    );
+}
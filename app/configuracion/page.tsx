@@ -12,8 +12,13 @@ import {
     Loader2,
     Download,
     Plus,
-    ChevronDown
+    ChevronDown,
+    ChevronLeft,
+    ChevronRight,
+    Search
 } from "lucide-react";
+import { NotificationsPanel } from "@/src/components/mercadolibre/notifications-panel";
+import { SaleNumberingPanel } from "@/src/components/sales/sale-numbering-panel";
 
 interface MLItem {
     id: string;
@@ -43,10 +48,37 @@ interface LinkedItem {
     };
 }
 
+type ItemStatusFilter = 'active' | 'paused' | 'closed' | 'all';
+
 interface StockData {
     ml_items: MLItem[];
     linked_items: LinkedItem[];
     total_ml_items: number;
+    unlinked_ml_items: number;
+    paging: {
+        page: number;
+        page_size: number;
+        total: number;
+        total_pages: number;
+    };
+}
+
+const itemStatusLabels: Record<string, string> = {
+    'active': 'Activa',
+    'paused': 'Pausada',
+    'closed': 'Finalizada',
+};
+
+interface TokenStatus {
+    connected: boolean;
+    user_id: number | null;
+    expires_at: string | null;
+    health: {
+        connected_at: string | null;
+        last_refresh_at: string | null;
+        last_failure_at: string | null;
+        last_failure_message: string | null;
+    };
 }
 
 export default function ConfiguracionPage() {
@@ -56,19 +88,39 @@ export default function ConfiguracionPage() {
     const [data, setData] = useState<StockData | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [mlConnected, setMlConnected] = useState(false);
+    const [tokenStatus, setTokenStatus] = useState<TokenStatus | null>(null);
     const [expandedProducts, setExpandedProducts] = useState<Set<string>>(new Set());
+    const [statusFilter, setStatusFilter] = useState<ItemStatusFilter>('active');
+    const [searchInput, setSearchInput] = useState("");
+    const [searchQuery, setSearchQuery] = useState("");
+    const [page, setPage] = useState(1);
 
     useEffect(() => {
         loadData();
-    }, []);
+    }, [statusFilter, searchQuery, page]);
 
     async function loadData() {
         try {
             setLoading(true);
             setError(null);
 
-            const res = await fetch('/api/mercadolibre/stock');
+            const params = new URLSearchParams({
+                status: statusFilter,
+                page: String(page),
+                page_size: '50',
+            });
+            if (searchQuery) params.append('q', searchQuery);
+
+            const [res, statusRes] = await Promise.all([
+                fetch(`/api/mercadolibre/stock?${params.toString()}`),
+                fetch('/api/mercadolibre/status'),
+            ]);
             const json = await res.json();
+            const statusJson = await statusRes.json();
+
+            if (!statusJson.error) {
+                setTokenStatus(statusJson);
+            }
 
             if (json.needsAuth) {
                 setMlConnected(false);
@@ -98,7 +150,8 @@ export default function ConfiguracionPage() {
 
             if (json.success) {
                 const action = direction === 'push' ? 'Enviado a ML' : 'Recibido de ML';
-                alert(`✅ Sincronización (${action}) completada: ${json.synced} items actualizados`);
+                const pending = json.pending ? `\n⚠️ ${json.pending} items quedaron pendientes: Mercado Libre no responde` : '';
+                alert(`✅ Sincronización (${action}) completada: ${json.synced} items actualizados${pending}`);
                 loadData();
             } else {
                 alert(`❌ Error: ${json.error}`);
@@ -155,6 +208,17 @@ export default function ConfiguracionPage() {
         }
     }
 
+    function applySearch(e: React.FormEvent) {
+        e.preventDefault();
+        setPage(1);
+        setSearchQuery(searchInput.trim());
+    }
+
+    function changeStatusFilter(value: ItemStatusFilter) {
+        setPage(1);
+        setStatusFilter(value);
+    }
+
     function isItemLinked(mlItemId: string): boolean {
         return data?.linked_items.some(item => item.external_id === mlItemId) || false;
     }
@@ -196,7 +260,7 @@ export default function ConfiguracionPage() {
         });
     }
 
-    if (loading) {
+    if (loading && !data) {
         return (
             <div className="flex items-center justify-center h-96">
                 <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -210,7 +274,7 @@ export default function ConfiguracionPage() {
             <div className="flex justify-between items-start">
                 <div>
                     <h1 className="text-2xl font-bold">Configuración</h1>
-                    <p className="text-muted-foreground">Integraciones y sincronización</p>
+                    <p className="text-muted-foreground">Integraciones, sincronización y numeración</p>
                 </div>
             </div>
 
@@ -230,6 +294,22 @@ export default function ConfiguracionPage() {
                             <p className="text-sm text-muted-foreground">
                                 {mlConnected ? 'Conectado y funcionando' : 'No conectado'}
                             </p>
+                            {tokenStatus?.connected && (
+                                <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                                    {tokenStatus.expires_at && (
+                                        <p>Token vence: {formatDate(tokenStatus.expires_at)}</p>
+                                    )}
+                                    {tokenStatus.health.last_refresh_at && (
+                                        <p>Último refresco: {formatDate(tokenStatus.health.last_refresh_at)}</p>
+                                    )}
+                                    {tokenStatus.health.last_failure_at && (
+                                        <p className="text-red-500">
+                                            Último error: {formatDate(tokenStatus.health.last_failure_at)}
+                                            {tokenStatus.health.last_failure_message && ` - ${tokenStatus.health.last_failure_message}`}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -288,9 +368,7 @@ export default function ConfiguracionPage() {
                                 <AlertCircle className="h-5 w-5 text-yellow-500" />
                                 <div>
                                     <p className="text-sm text-muted-foreground">Items Sin Vincular</p>
-                                    <p className="text-xl font-bold">
-                                        {data.ml_items.filter(item => !isItemLinked(item.id)).length}
-                                    </p>
+                                    <p className="text-xl font-bold">{data.unlinked_ml_items}</p>
                                 </div>
                             </div>
                         </div>
@@ -428,12 +506,39 @@ export default function ConfiguracionPage() {
 
                     {/* ML Items */}
                     <div className="card">
-                        <h3 className="font-semibold mb-4">Items en Mercado Libre</h3>
+                        <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+                            <h3 className="font-semibold flex items-center gap-2">
+                                Items en Mercado Libre
+                                {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                            </h3>
+                            <div className="flex gap-3 flex-wrap">
+                                <form onSubmit={applySearch} className="relative min-w-[220px]">
+                                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                                    <input
+                                        type="text"
+                                        placeholder="Buscar en ML..."
+                                        value={searchInput}
+                                        onChange={(e) => setSearchInput(e.target.value)}
+                                        className="input pl-10"
+                                    />
+                                </form>
+                                <select
+                                    value={statusFilter}
+                                    onChange={(e) => changeStatusFilter(e.target.value as ItemStatusFilter)}
+                                    className="input w-auto min-w-[150px]"
+                                >
+                                    <option value="active">Activas</option>
+                                    <option value="paused">Pausadas</option>
+                                    <option value="closed">Finalizadas</option>
+                                    <option value="all">Todas</option>
+                                </select>
+                            </div>
+                        </div>
 
                         {data.ml_items.length === 0 ? (
                             <div className="text-center py-8 text-muted-foreground">
                                 <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                                <p>No se encontraron items activos en ML</p>
+                                <p>No se encontraron items en ML con estos filtros</p>
                             </div>
                         ) : (
                             <div className="grid gap-3 md:grid-cols-2">
@@ -477,6 +582,7 @@ export default function ConfiguracionPage() {
                                                     Stock: <span className="font-bold">{item.available_quantity}</span>
                                                     {' · '}
                                                     Vendidos: {item.sold_quantity}
+                                                    {item.status !== 'active' && ` · ${itemStatusLabels[item.status] || item.status}`}
                                                 </p>
                                                 <div className="flex items-center gap-2 mt-1">
                                                     <span className="text-xs font-mono bg-gray-100 dark:bg-[#333] px-1.5 py-0.5 rounded">
@@ -497,9 +603,39 @@ export default function ConfiguracionPage() {
                                 })}
                             </div>
                         )}
+
+                        {data.paging.total_pages > 1 && (
+                            <div className="flex items-center justify-between mt-4 pt-4 border-t border-[var(--border)]">
+                                <p className="text-sm text-muted-foreground">
+                                    Página {data.paging.page} de {data.paging.total_pages} · {data.paging.total} items
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setPage(p => p - 1)}
+                                        disabled={loading || data.paging.page <= 1}
+                                        className="btn btn-outline"
+                                    >
+                                        <ChevronLeft className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setPage(p => p + 1)}
+                                        disabled={loading || data.paging.page >= data.paging.total_pages}
+                                        className="btn btn-outline"
+                                    >
+                                        <ChevronRight className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
+
+                    {/* ML Notifications inbox */}
+                    <NotificationsPanel />
                 </>
             )}
+
+            {/* Sale numbering per channel */}
+            <SaleNumberingPanel />
         </div>
     );
 }
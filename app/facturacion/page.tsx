@@ -0,0 +1,355 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+    Search,
+    FileText,
+    Download,
+    DollarSign,
+    Receipt,
+    Plus,
+    BookOpen
+} from "lucide-react";
+import { getInvoices } from "@/src/lib/api";
+import type { InvoiceWithSale } from "@/src/lib/types";
+import { BulkInvoiceModal } from "@/src/components/invoices/bulk-invoice-modal";
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+// Mes actual en formato YYYY-MM (para el Libro IVA)
+function getCurrentMonth(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function formatMoney(value: number): string {
+    return value.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export default function FacturacionPage() {
+    const [invoices, setInvoices] = useState<InvoiceWithSale[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [selectedType, setSelectedType] = useState<string>("");
+    const [selectedKind, setSelectedKind] = useState<string>("");
+    const [selectedStatus, setSelectedStatus] = useState<string>("");
+    const [dateFrom, setDateFrom] = useState("");
+    const [dateTo, setDateTo] = useState("");
+    const [bookMonth, setBookMonth] = useState(getCurrentMonth());
+    const [isBulkOpen, setIsBulkOpen] = useState(false);
+
+    useEffect(() => {
+        loadInvoices();
+    }, []);
+
+    async function loadInvoices() {
+        try {
+            setLoading(true);
+            const data = await getInvoices();
+            setInvoices(data);
+        } catch (err) {
+            setError("Error al cargar las facturas");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    // Filter invoices
+    const filteredInvoices = invoices.filter(invoice => {
+        const query = searchQuery.toLowerCase();
+        const matchesSearch = searchQuery === "" ||
+            invoice.invoice_number.toLowerCase().includes(query) ||
+            invoice.customer_name.toLowerCase().includes(query) ||
+            invoice.customer_document.includes(query) ||
+            invoice.sale?.sale_number.toLowerCase().includes(query);
+
+        const matchesType = selectedType === "" || invoice.invoice_type === selectedType;
+        const matchesKind = selectedKind === "" || invoice.voucher_kind === selectedKind;
+        const matchesStatus = selectedStatus === "" || invoice.status === selectedStatus;
+
+        // Fecha local del comprobante (YYYY-MM-DD) contra el rango elegido
+        const date = new Date(invoice.created_at).toLocaleDateString('en-CA');
+        const matchesDate = (dateFrom === "" || date >= dateFrom) && (dateTo === "" || date <= dateTo);
+
+        return matchesSearch && matchesType && matchesKind && matchesStatus && matchesDate;
+    });
+
+    // Las notas de crédito restan: una factura anulada y su nota se compensan
+    const totals = filteredInvoices.reduce((acc, i) => {
+        const sign = i.voucher_kind === 'credit_note' ? -1 : 1;
+        return {
+            net: acc.net + sign * i.subtotal,
+            iva21: acc.iva21 + sign * i.iva_21,
+            iva105: acc.iva105 + sign * i.iva_10_5,
+            total: acc.total + sign * i.total,
+        };
+    }, { net: 0, iva21: 0, iva105: 0, total: 0 });
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando facturas...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold">Facturación</h1>
+                    <p className="text-muted-foreground">Comprobantes electrónicos emitidos en AFIP</p>
+                </div>
+                <button
+                    onClick={() => setIsBulkOpen(true)}
+                    className="btn btn-primary flex items-center gap-2"
+                >
+                    <Plus className="h-4 w-4" />
+                    Facturar ventas
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Summary Cards */}
+            <div className="grid gap-4 md:grid-cols-4">
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-[var(--primary)]/10 rounded-md">
+                            <FileText className="h-5 w-5 text-[var(--primary)]" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Neto Gravado</p>
+                            <p className="text-xl font-bold">${formatMoney(totals.net)}</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-blue-500/10 rounded-md">
+                            <Receipt className="h-5 w-5 text-blue-500" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">IVA 21%</p>
+                            <p className="text-xl font-bold">${formatMoney(totals.iva21)}</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-blue-500/10 rounded-md">
+                            <Receipt className="h-5 w-5 text-blue-500" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">IVA 10,5%</p>
+                            <p className="text-xl font-bold">${formatMoney(totals.iva105)}</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-green-500/10 rounded-md">
+                            <DollarSign className="h-5 w-5 text-green-500" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Total ({filteredInvoices.length} comp.)</p>
+                            <p className="text-xl font-bold">${formatMoney(totals.total)}</p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Libro IVA Ventas */}
+            <div className="card flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                    <BookOpen className="h-5 w-5 text-muted-foreground" />
+                    <span className="font-medium">Libro IVA Ventas</span>
+                </div>
+                <input
+                    type="month"
+                    value={bookMonth}
+                    onChange={(e) => setBookMonth(e.target.value)}
+                    className="input w-auto"
+                />
+                <a
+                    href={`/api/invoices/iva-book?month=${bookMonth}&file=vouchers`}
+                    className="btn btn-outline flex items-center gap-2 text-sm"
+                >
+                    <Download className="h-4 w-4" />
+                    Comprobantes
+                </a>
+                <a
+                    href={`/api/invoices/iva-book?month=${bookMonth}&file=rates`}
+                    className="btn btn-outline flex items-center gap-2 text-sm"
+                >
+                    <Download className="h-4 w-4" />
+                    Alícuotas
+                </a>
+                <span className="text-xs text-muted-foreground">Formato AFIP de ancho fijo (Libro IVA Digital)</span>
+            </div>
+
+            {/* Filters */}
+            <div className="flex gap-4 flex-wrap">
+                <div className="relative flex-1 min-w-[200px] max-w-md">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar por número, cliente o venta..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="input pl-10"
+                    />
+                </div>
+                <select
+                    value={selectedType}
+                    onChange={(e) => setSelectedType(e.target.value)}
+                    className="input w-auto min-w-[120px]"
+                    style={selectStyle}
+                >
+                    <option value="" style={selectStyle}>Tipo A y B</option>
+                    <option value="A" style={selectStyle}>Tipo A</option>
+                    <option value="B" style={selectStyle}>Tipo B</option>
+                </select>
+                <select
+                    value={selectedKind}
+                    onChange={(e) => setSelectedKind(e.target.value)}
+                    className="input w-auto min-w-[150px]"
+                    style={selectStyle}
+                >
+                    <option value="" style={selectStyle}>Todos los comprobantes</option>
+                    <option value="invoice" style={selectStyle}>Facturas</option>
+                    <option value="credit_note" style={selectStyle}>Notas de crédito</option>
+                </select>
+                <select
+                    value={selectedStatus}
+                    onChange={(e) => setSelectedStatus(e.target.value)}
+                    className="input w-auto min-w-[130px]"
+                    style={selectStyle}
+                >
+                    <option value="" style={selectStyle}>Todos los estados</option>
+                    <option value="issued" style={selectStyle}>Vigente</option>
+                    <option value="cancelled" style={selectStyle}>Anulada</option>
+                </select>
+                <input
+                    type="date"
+                    value={dateFrom}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                    className="input w-auto"
+                    title="Desde"
+                />
+                <input
+                    type="date"
+                    value={dateTo}
+                    onChange={(e) => setDateTo(e.target.value)}
+                    className="input w-auto"
+                    title="Hasta"
+                />
+            </div>
+
+            {/* Invoices Table */}
+            <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Comprobante
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Cliente
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Venta
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Neto
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                IVA
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Total
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Fecha
+                            </th>
+                            <th className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {filteredInvoices.length === 0 ? (
+                            <tr>
+                                <td colSpan={8} className="px-6 py-12 text-center text-muted-foreground">
+                                    <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                                    <p>No se encontraron facturas</p>
+                                </td>
+                            </tr>
+                        ) : (
+                            filteredInvoices.map((invoice) => {
+                                const isCreditNote = invoice.voucher_kind === 'credit_note';
+                                const sign = isCreditNote ? '-' : '';
+                                return (
+                                    <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-[#252525]">
+                                        <td className="px-6 py-4 text-sm">
+                                            <p className="font-mono font-medium">
+                                                {invoice.invoice_number}
+                                                {invoice.status === 'cancelled' && (
+                                                    <span className="ml-2 text-xs text-red-500 font-sans">Anulada</span>
+                                                )}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {isCreditNote ? 'Nota de crédito' : 'Factura'} {invoice.invoice_type} · CAE {invoice.cae || '-'}
+                                            </p>
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <p>{invoice.customer_name}</p>
+                                            <p className="text-xs text-muted-foreground">{invoice.customer_tax_condition}</p>
+                                        </td>
+                                        <td className="px-6 py-4 font-mono text-sm">
+                                            {invoice.sale?.sale_number || '-'}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-right">
+                                            {sign}${formatMoney(invoice.subtotal)}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-right">
+                                            {sign}${formatMoney(invoice.iva_21 + invoice.iva_10_5)}
+                                        </td>
+                                        <td className={`px-6 py-4 text-sm text-right font-bold ${isCreditNote ? 'text-red-500' : ''}`}>
+                                            {sign}${formatMoney(invoice.total)}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-muted-foreground">
+                                            {new Date(invoice.created_at).toLocaleDateString('es-AR')}
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            <a
+                                                href={invoice.pdf_url || `/api/invoices/${invoice.id}/pdf`}
+                                                className="inline-flex p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md"
+                                                title="Descargar PDF"
+                                            >
+                                                <Download className="h-4 w-4" />
+                                            </a>
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Bulk Invoicing */}
+            {isBulkOpen && (
+                <BulkInvoiceModal
+                    onClose={() => setIsBulkOpen(false)}
+                    onIssued={loadInvoices}
+                />
+            )}
+        </div>
+    );
+}
@@ -5,7 +5,8 @@ import {
   ShoppingCart,
   Package,
   DollarSign,
-  AlertCircle
+  AlertCircle,
+  Percent
 } from "lucide-react";
 import { StatsCard } from "@/src/components/dashboard/stats-card";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
@@ -85,7 +86,7 @@ export default function Home() {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-5">
         <StatsCard
           title="Ventas del Mes"
           value={formatCurrency(stats?.totalSalesMonth || 0)}
@@ -108,6 +109,13 @@ export default function Home() {
           changeType="positive"
           icon={DollarSign}
         />
+        <StatsCard
+          title="Margen Real"
+          value={stats?.netMarginMonth != null ? `${stats.netMarginMonth.toFixed(1)}%` : '-'}
+          change={stats?.grossMarginMonth != null ? `Bruto ${stats.grossMarginMonth.toFixed(1)}% · neto de comisiones e IIBB` : "Neto de comisiones e IIBB"}
+          changeType={stats?.netMarginMonth != null && stats.netMarginMonth < 15 ? "warning" : "positive"}
+          icon={Percent}
+        />
         <StatsCard
           title="Stock Bajo"
           value={String(stats?.lowStockCount || 0)}
@@ -218,6 +226,25 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Net by Channel */}
+      {stats && stats.channelsMonth.length > 0 && (
+        <div className="card">
+          <h3 className="font-semibold mb-1">Neto por Canal</h3>
+          <p className="text-sm text-muted-foreground mb-4">Lo que queda de las ventas del mes después de comisiones, envíos e IIBB</p>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {stats.channelsMonth.map((channel) => (
+              <div key={channel.channel} className="p-3 bg-gray-50 dark:bg-[#252525] rounded-md">
+                <p className="text-sm font-medium">{channelLabels[channel.channel] || channel.channel}</p>
+                <p className="text-xl font-bold">{formatCurrency(channel.net)}</p>
+                <p className="text-xs text-muted-foreground">
+                  de {formatCurrency(channel.gross)} · margen {channel.margin != null ? `${channel.margin.toFixed(1)}%` : '-'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Recent Orders */}
       <div className="card">
         <h3 className="font-semibold mb-1">Órdenes Recientes</h3>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import {
     Search,
     DollarSign,
@@ -8,10 +9,48 @@ import {
     Save,
     X,
     Edit2,
-    TrendingUp
+    TrendingUp,
+    History,
+    Scale,
+    Layers,
+    Undo2,
+    LineChart,
+    CheckCircle,
+    Calculator
 } from "lucide-react";
-import { getProducts, updateProduct, updateVariant } from "@/src/lib/api";
-import type { ProductWithRelations, ProductVariant } from "@/src/lib/types";
+import {
+    getProducts,
+    updateProduct,
+    updateVariant,
+    getCategories,
+    getPriceBatches,
+    undoPriceBatch,
+    getPriceBatchVariantIds,
+    getMLPriceMarkupPercent,
+    updateMLPriceMarkupPercent,
+    getFeeSettings
+} from "@/src/lib/api";
+import { applyMLPriceMarkup } from "@/src/lib/ml-price-markup";
+import {
+    getUnitNetProceeds,
+    DEFAULT_FEE_SETTINGS,
+    type FeeSettings,
+    type NetProceeds
+} from "@/src/lib/marketplace-fees";
+import type { Category, PriceBatch, ProductWithRelations, SaleChannel } from "@/src/lib/types";
+import { CostHistoryModal } from "@/src/components/products/cost-history-modal";
+import { PriceHistoryModal } from "@/src/components/products/price-history-modal";
+import { BulkPriceModal } from "@/src/components/pricing/bulk-price-modal";
+import { FeeSettingsModal } from "@/src/components/pricing/fee-settings-modal";
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+const channelLabels: Record<SaleChannel, string> = {
+    'ML': 'Mercado Libre',
+    'Presencial': 'Presencial',
+    'Instagram': 'Instagram',
+    'WhatsApp': 'WhatsApp',
+};
 
 export default function PreciosPage() {
     const [products, setProducts] = useState<ProductWithRelations[]>([]);
@@ -20,6 +59,17 @@ export default function PreciosPage() {
     const [editingPrice, setEditingPrice] = useState<{ id: string; type: 'product' | 'variant'; field: 'base_price' | 'cost_price' | 'price_adjustment' } | null>(null);
     const [editValue, setEditValue] = useState<number>(0);
     const [saving, setSaving] = useState(false);
+    const [historyProduct, setHistoryProduct] = useState<ProductWithRelations | null>(null);
+    const [priceHistoryProduct, setPriceHistoryProduct] = useState<ProductWithRelations | null>(null);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [batches, setBatches] = useState<PriceBatch[]>([]);
+    const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
+    const [undoing, setUndoing] = useState<string | null>(null);
+    const [mlMarkup, setMlMarkup] = useState("");
+    const [mlPushResult, setMlPushResult] = useState<string | null>(null);
+    const [feeSettings, setFeeSettings] = useState<FeeSettings>(DEFAULT_FEE_SETTINGS);
+    const [marginChannel, setMarginChannel] = useState<SaleChannel>('ML');
+    const [isFeeModalOpen, setIsFeeModalOpen] = useState(false);
 
     useEffect(() => {
         loadProducts();
@@ -28,8 +78,18 @@ export default function PreciosPage() {
     async function loadProducts() {
         try {
             setLoading(true);
-            const data = await getProducts();
+            const [data, categoriesData, batchesData, mlMarkupData, feeSettingsData] = await Promise.all([
+                getProducts(),
+                getCategories(),
+                getPriceBatches(5),
+                getMLPriceMarkupPercent(),
+                getFeeSettings()
+            ]);
             setProducts(data);
+            setCategories(categoriesData);
+            setBatches(batchesData);
+            setMlMarkup(String(mlMarkupData));
+            setFeeSettings(feeSettingsData);
         } catch (err) {
             console.error("Error loading products:", err);
         } finally {
@@ -37,6 +97,31 @@ export default function PreciosPage() {
         }
     }
 
+    async function handleUndo(batch: PriceBatch) {
+        if (!confirm(`¿Deshacer "${batch.description}"? Los precios editados después no se modifican.`)) return;
+        try {
+            setUndoing(batch.id);
+            setMlPushResult(null);
+            const reverted = await undoPriceBatch(batch.id);
+            alert(`✅ ${reverted} precios volvieron a su valor anterior`);
+            // Los precios revertidos también vuelven a publicarse en ML
+            await publishBatchToML(batch.id);
+            await loadProducts();
+        } catch (err) {
+            console.error("Error undoing price batch:", err);
+            alert(`❌ Error: ${err instanceof Error ? err.message : 'No se pudo deshacer'}`);
+        } finally {
+            setUndoing(null);
+        }
+    }
+
+    async function handleBulkApplied(batch: PriceBatch) {
+        setIsBulkModalOpen(false);
+        setMlPushResult(null);
+        await publishBatchToML(batch.id);
+        await loadProducts();
+    }
+
     function startEditing(id: string, type: 'product' | 'variant', field: 'base_price' | 'cost_price' | 'price_adjustment', currentValue: number) {
         setEditingPrice({ id, type, field });
         setEditValue(currentValue);
@@ -51,12 +136,22 @@ export default function PreciosPage() {
         if (!editingPrice) return;
 
         setSaving(true);
+        setMlPushResult(null);
         try {
             if (editingPrice.type === 'product') {
                 await updateProduct(editingPrice.id, { [editingPrice.field]: editValue });
             } else {
                 await updateVariant(editingPrice.id, { [editingPrice.field]: editValue });
             }
+
+            // El precio de venta cambió: publicarlo en las vinculaciones de ML
+            if (editingPrice.field !== 'cost_price') {
+                const variantIds = editingPrice.type === 'product'
+                    ? products.find(p => p.id === editingPrice.id)?.variants.map(v => v.id) || []
+                    : [editingPrice.id];
+                await publishPricesToML(variantIds);
+            }
+
             await loadProducts();
             cancelEditing();
         } catch (err) {
@@ -66,9 +161,77 @@ export default function PreciosPage() {
         }
     }
 
-    function calculateMargin(price: number, cost: number): number {
-        if (cost === 0) return 100;
-        return ((price - cost) / price) * 100;
+    async function publishPricesToML(variantIds: string[]) {
+        if (variantIds.length === 0) return;
+        try {
+            const res = await fetch('/api/mercadolibre/prices', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ variant_ids: variantIds })
+            });
+            const json = await res.json();
+
+            // Sin ML conectado el precio queda sólo local
+            if (json.needsAuth) return;
+            if (json.error) {
+                alert(`❌ Error: ${json.details || json.error}`);
+                return;
+            }
+            // Sin vinculaciones no hay nada que informar
+            if (json.pushed === 0 && json.skipped.length === 0 && json.errors.length === 0) return;
+
+            const parts = [`${json.pushed} publicaciones actualizadas en ML`];
+            if (json.skipped.length) parts.push(`${json.skipped.length} items sin publicar: ${json.skipped[0].reason}`);
+            if (json.errors.length) parts.push(`${json.errors.length} con error en ML: ${json.errors[0].error}`);
+            setMlPushResult(parts.join(' · '));
+        } catch (err) {
+            console.error("Error pushing ML prices:", err);
+            alert('❌ Error: No se pudo publicar el precio en Mercado Libre');
+        }
+    }
+
+    // Publica en ML los precios de venta que cambió un lote (al aplicarlo o deshacerlo)
+    async function publishBatchToML(batchId: string) {
+        let variantIds: string[];
+        try {
+            variantIds = await getPriceBatchVariantIds(batchId);
+        } catch (err) {
+            console.error("Error loading price batch changes:", err);
+            alert('❌ Error: No se pudo publicar el precio en Mercado Libre');
+            return;
+        }
+        await publishPricesToML(variantIds);
+    }
+
+    async function handleMlMarkupSave() {
+        const percent = parseFloat(mlMarkup);
+        if (!Number.isFinite(percent) || percent < 0) {
+            alert('❌ Error: El recargo debe ser un porcentaje mayor o igual a 0');
+            return;
+        }
+        try {
+            await updateMLPriceMarkupPercent(percent);
+        } catch (err) {
+            console.error("Error saving ML markup:", err);
+            alert('❌ Error: No se pudo guardar el recargo de ML');
+        }
+    }
+
+    // Neto y margen real de una unidad en el canal elegido (en ML, al precio publicado con el recargo)
+    function getProceeds(price: number, cost: number): NetProceeds {
+        const channelPrice = marginChannel === 'ML' ? applyMLPriceMarkup(price, parseFloat(mlMarkup) || 0) : price;
+        return getUnitNetProceeds(feeSettings, marginChannel, channelPrice, cost);
+    }
+
+    function describeProceeds(proceeds: NetProceeds): string {
+        const lines = [`Cobrado: $${Math.round(proceeds.gross).toLocaleString('es-AR')}`];
+        if (proceeds.commission > 0) lines.push(`Comisión ML: -$${Math.round(proceeds.commission).toLocaleString('es-AR')}`);
+        if (proceeds.fixedFee > 0) lines.push(`Cargo fijo ML: -$${Math.round(proceeds.fixedFee).toLocaleString('es-AR')}`);
+        if (proceeds.shipping > 0) lines.push(`Envío a cargo: -$${Math.round(proceeds.shipping).toLocaleString('es-AR')}`);
+        if (proceeds.channelFee > 0) lines.push(`Costo de cobro: -$${Math.round(proceeds.channelFee).toLocaleString('es-AR')}`);
+        if (proceeds.iibb > 0) lines.push(`IIBB + gastos: -$${Math.round(proceeds.iibb).toLocaleString('es-AR')}`);
+        lines.push(`Ganancia: $${Math.round(proceeds.profit).toLocaleString('es-AR')}`);
+        return lines.join('\n');
     }
 
     // Filter products
@@ -80,7 +243,7 @@ export default function PreciosPage() {
 
     // Calculate stats
     const avgMargin = products.length > 0
-        ? products.reduce((sum, p) => sum + calculateMargin(p.base_price, p.cost_price), 0) / products.length
+        ? products.reduce((sum, p) => sum + (getProceeds(p.base_price, p.cost_price).margin ?? 0), 0) / products.length
         : 0;
 
     if (loading) {
@@ -94,9 +257,34 @@ export default function PreciosPage() {
     return (
         <div className="space-y-6">
             {/* Header */}
-            <div>
-                <h1 className="text-2xl font-bold">Precios</h1>
-                <p className="text-muted-foreground">Gestiona los precios de tus productos</p>
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold">Precios</h1>
+                    <p className="text-muted-foreground">Gestiona los precios de tus productos</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setIsFeeModalOpen(true)}
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <Calculator className="h-4 w-4" />
+                        Comisiones
+                    </button>
+                    <Link
+                        href="/precios/reglas"
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <Scale className="h-4 w-4" />
+                        Reglas de precios
+                    </Link>
+                    <button
+                        onClick={() => setIsBulkModalOpen(true)}
+                        className="btn btn-primary flex items-center gap-2"
+                    >
+                        <Layers className="h-4 w-4" />
+                        Actualización masiva
+                    </button>
+                </div>
             </div>
 
             {/* Summary Cards */}
@@ -118,7 +306,7 @@ export default function PreciosPage() {
                             <Percent className="h-5 w-5 text-green-500" />
                         </div>
                         <div>
-                            <p className="text-sm text-muted-foreground">Margen Promedio</p>
+                            <p className="text-sm text-muted-foreground">Margen Real Promedio ({channelLabels[marginChannel]})</p>
                             <p className="text-xl font-bold">{avgMargin.toFixed(1)}%</p>
                         </div>
                     </div>
@@ -137,17 +325,86 @@ export default function PreciosPage() {
             </div>
 
             {/* Search */}
-            <div className="relative max-w-md">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
-                <input
-                    type="text"
-                    placeholder="Buscar producto..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="input pl-10"
-                />
+            <div className="flex items-center justify-between flex-wrap gap-4">
+                <div className="relative max-w-md flex-1">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar producto..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="input pl-10"
+                    />
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                    <label htmlFor="margin_channel" className="text-muted-foreground">Margen en</label>
+                    <select
+                        id="margin_channel"
+                        value={marginChannel}
+                        onChange={(e) => setMarginChannel(e.target.value as SaleChannel)}
+                        className="input w-40 text-sm"
+                        style={selectStyle}
+                    >
+                        {Object.entries(channelLabels).map(([value, label]) => (
+                            <option key={value} value={value} style={selectStyle}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                    <label htmlFor="ml_markup" className="text-muted-foreground">Publicar en ML con un recargo de</label>
+                    <input
+                        id="ml_markup"
+                        type="number"
+                        value={mlMarkup}
+                        onChange={(e) => setMlMarkup(e.target.value)}
+                        onBlur={handleMlMarkupSave}
+                        className="input w-20 text-center text-sm"
+                        min="0"
+                        step="0.1"
+                    />
+                    <span className="text-muted-foreground">%</span>
+                </div>
             </div>
 
+            {mlPushResult && (
+                <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-md text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4" />
+                    {mlPushResult}
+                </div>
+            )}
+
+            {/* Recent Bulk Updates */}
+            {batches.length > 0 && (
+                <div className="card">
+                    <h3 className="font-semibold mb-3">Últimas actualizaciones masivas</h3>
+                    <div className="divide-y divide-[var(--border)]">
+                        {batches.map(batch => (
+                            <div key={batch.id} className="flex items-center justify-between py-2 text-sm">
+                                <div>
+                                    <p className={batch.undone_at ? 'line-through text-muted-foreground' : 'font-medium'}>
+                                        {batch.description}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {new Date(batch.created_at).toLocaleString('es-AR')}
+                                        {batch.undone_at && ` · Deshecha ${new Date(batch.undone_at).toLocaleString('es-AR')}`}
+                                    </p>
+                                </div>
+                                {!batch.undone_at && (
+                                    <button
+                                        onClick={() => handleUndo(batch)}
+                                        disabled={undoing !== null}
+                                        className="btn btn-outline text-xs py-1 px-3 flex items-center gap-1"
+                                    >
+                                        <Undo2 className="h-3 w-3" />
+                                        {undoing === batch.id ? "Deshaciendo..." : "Deshacer"}
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Prices Table */}
             <div className="card overflow-hidden p-0">
                 <table className="w-full">
@@ -163,21 +420,25 @@ export default function PreciosPage() {
                                 Precio
                             </th>
                             <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                                Margen
+                                Neto
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Margen Real
                             </th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-[var(--border)]">
                         {filteredProducts.length === 0 ? (
                             <tr>
-                                <td colSpan={4} className="px-6 py-12 text-center text-muted-foreground">
+                                <td colSpan={5} className="px-6 py-12 text-center text-muted-foreground">
                                     <DollarSign className="h-12 w-12 mx-auto mb-4 opacity-50" />
                                     <p>No se encontraron productos</p>
                                 </td>
                             </tr>
                         ) : (
                             filteredProducts.map((product) => {
-                                const margin = calculateMargin(product.base_price, product.cost_price);
+                                const proceeds = getProceeds(product.base_price, product.cost_price);
+                                const margin = proceeds.margin ?? 0;
                                 const hasVariants = product.variants && product.variants.length > 0;
 
                                 return (
@@ -210,13 +471,22 @@ export default function PreciosPage() {
                                                         </button>
                                                     </div>
                                                 ) : (
-                                                    <button
-                                                        onClick={() => startEditing(product.id, 'product', 'cost_price', product.cost_price)}
-                                                        className="group flex items-center justify-end gap-2 hover:text-[var(--primary)]"
-                                                    >
-                                                        <span className="text-sm">${product.cost_price.toLocaleString('es-AR')}</span>
-                                                        <Edit2 className="h-3 w-3 opacity-0 group-hover:opacity-100" />
-                                                    </button>
+                                                    <div className="flex items-center justify-end gap-2">
+                                                        <button
+                                                            onClick={() => startEditing(product.id, 'product', 'cost_price', product.cost_price)}
+                                                            className="group flex items-center justify-end gap-2 hover:text-[var(--primary)]"
+                                                        >
+                                                            <span className="text-sm">${product.cost_price.toLocaleString('es-AR')}</span>
+                                                            <Edit2 className="h-3 w-3 opacity-0 group-hover:opacity-100" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setHistoryProduct(product)}
+                                                            className="p-1 hover:bg-gray-100 dark:hover:bg-[#333] rounded"
+                                                            title="Historial de costos"
+                                                        >
+                                                            <History className="h-3 w-3 text-muted-foreground" />
+                                                        </button>
+                                                    </div>
                                                 )}
                                             </td>
                                             <td className="px-6 py-4 text-right">
@@ -237,15 +507,27 @@ export default function PreciosPage() {
                                                         </button>
                                                     </div>
                                                 ) : (
-                                                    <button
-                                                        onClick={() => startEditing(product.id, 'product', 'base_price', product.base_price)}
-                                                        className="group flex items-center justify-end gap-2 hover:text-[var(--primary)] font-bold"
-                                                    >
-                                                        <span>${product.base_price.toLocaleString('es-AR')}</span>
-                                                        <Edit2 className="h-3 w-3 opacity-0 group-hover:opacity-100" />
-                                                    </button>
+                                                    <div className="flex items-center justify-end gap-2">
+                                                        <button
+                                                            onClick={() => startEditing(product.id, 'product', 'base_price', product.base_price)}
+                                                            className="group flex items-center justify-end gap-2 hover:text-[var(--primary)] font-bold"
+                                                        >
+                                                            <span>${product.base_price.toLocaleString('es-AR')}</span>
+                                                            <Edit2 className="h-3 w-3 opacity-0 group-hover:opacity-100" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setPriceHistoryProduct(product)}
+                                                            className="p-1 hover:bg-gray-100 dark:hover:bg-[#333] rounded"
+                                                            title="Historial de precios"
+                                                        >
+                                                            <LineChart className="h-3 w-3 text-muted-foreground" />
+                                                        </button>
+                                                    </div>
                                                 )}
                                             </td>
+                                            <td className="px-6 py-4 text-right text-sm" title={describeProceeds(proceeds)}>
+                                                ${Math.round(proceeds.net).toLocaleString('es-AR')}
+                                            </td>
                                             <td className="px-6 py-4 text-right">
                                                 <span className={`text-sm font-medium ${margin >= 30 ? 'text-green-500' :
                                                         margin >= 15 ? 'text-yellow-500' :
@@ -259,7 +541,9 @@ export default function PreciosPage() {
                                         {/* Variants Rows */}
                                         {hasVariants && product.variants?.map((variant) => {
                                             const variantPrice = product.base_price + variant.price_adjustment;
-                                            const variantMargin = calculateMargin(variantPrice, product.cost_price);
+                                            const variantCost = variant.cost_price ?? product.cost_price;
+                                            const variantProceeds = getProceeds(variantPrice, variantCost);
+                                            const variantMargin = variantProceeds.margin ?? 0;
 
                                             return (
                                                 <tr key={variant.id} className="bg-gray-25 dark:bg-[#1a1a1a] hover:bg-gray-50 dark:hover:bg-[#252525]">
@@ -272,8 +556,35 @@ export default function PreciosPage() {
                                                             )}
                                                         </div>
                                                     </td>
-                                                    <td className="px-6 py-3 text-right text-sm text-muted-foreground">
-                                                        -
+                                                    <td className="px-6 py-3 text-right">
+                                                        {editingPrice?.id === variant.id && editingPrice.field === 'cost_price' ? (
+                                                            <div className="flex items-center justify-end gap-2">
+                                                                <input
+                                                                    type="number"
+                                                                    value={editValue}
+                                                                    onChange={(e) => setEditValue(parseFloat(e.target.value) || 0)}
+                                                                    className="input w-24 text-right text-sm"
+                                                                    autoFocus
+                                                                />
+                                                                <button onClick={savePrice} disabled={saving} className="p-1 hover:bg-green-100 dark:hover:bg-green-900/20 rounded">
+                                                                    <Save className="h-4 w-4 text-green-500" />
+                                                                </button>
+                                                                <button onClick={cancelEditing} className="p-1 hover:bg-gray-100 dark:hover:bg-[#333] rounded">
+                                                                    <X className="h-4 w-4" />
+                                                                </button>
+                                                            </div>
+                                                        ) : (
+                                                            <button
+                                                                onClick={() => startEditing(variant.id, 'variant', 'cost_price', variantCost)}
+                                                                className="group flex items-center justify-end gap-2 hover:text-[var(--primary)]"
+                                                                title={variant.cost_price == null ? "Usa el costo del producto" : "Costo promedio de la variante"}
+                                                            >
+                                                                <span className={`text-sm ${variant.cost_price == null ? 'text-muted-foreground' : ''}`}>
+                                                                    ${variantCost.toLocaleString('es-AR')}
+                                                                </span>
+                                                                <Edit2 className="h-3 w-3 opacity-0 group-hover:opacity-100" />
+                                                            </button>
+                                                        )}
                                                     </td>
                                                     <td className="px-6 py-3 text-right">
                                                         {editingPrice?.id === variant.id && editingPrice.field === 'price_adjustment' ? (
@@ -310,6 +621,9 @@ export default function PreciosPage() {
                                                             </button>
                                                         )}
                                                     </td>
+                                                    <td className="px-6 py-3 text-right text-xs text-muted-foreground" title={describeProceeds(variantProceeds)}>
+                                                        ${Math.round(variantProceeds.net).toLocaleString('es-AR')}
+                                                    </td>
                                                     <td className="px-6 py-3 text-right">
                                                         <span className={`text-xs ${variantMargin >= 30 ? 'text-green-500' :
                                                                 variantMargin >= 15 ? 'text-yellow-500' :
@@ -344,6 +658,45 @@ export default function PreciosPage() {
                     <span>Margen &lt;15%</span>
                 </div>
             </div>
+
+            {/* Bulk Price Modal */}
+            {isBulkModalOpen && (
+                <BulkPriceModal
+                    products={products}
+                    categories={categories}
+                    initialSearch={searchQuery}
+                    onClose={() => setIsBulkModalOpen(false)}
+                    onApplied={handleBulkApplied}
+                />
+            )}
+
+            {/* Cost History Modal */}
+            {historyProduct && (
+                <CostHistoryModal
+                    product={historyProduct}
+                    onClose={() => setHistoryProduct(null)}
+                />
+            )}
+
+            {/* Fee Settings Modal */}
+            {isFeeModalOpen && (
+                <FeeSettingsModal
+                    settings={feeSettings}
+                    onClose={() => setIsFeeModalOpen(false)}
+                    onSaved={(settings) => {
+                        setFeeSettings(settings);
+                        setIsFeeModalOpen(false);
+                    }}
+                />
+            )}
+
+            {/* Price History Modal */}
+            {priceHistoryProduct && (
+                <PriceHistoryModal
+                    product={priceHistoryProduct}
+                    onClose={() => setPriceHistoryProduct(null)}
+                />
+            )}
         </div>
     );
 }
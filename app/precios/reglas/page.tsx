@@ -0,0 +1,374 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+    ArrowLeft,
+    Plus,
+    Edit,
+    Trash2,
+    RefreshCw,
+    Scale,
+    CheckCircle
+} from "lucide-react";
+import {
+    getRepricingRules,
+    deleteRepricingRule,
+    getRepricingInputs,
+    getProducts,
+    getCategories,
+    getMLPriceMarkupPercent
+} from "@/src/lib/api";
+import { buildRepricingPreview, COMPETITOR_PRICE_MAX_AGE_DAYS, type RepricingProductInput } from "@/src/lib/repricing";
+import type { Category, ProductWithRelations, RepricingRule } from "@/src/lib/types";
+import { RepricingRuleModal } from "@/src/components/pricing/repricing-rule-modal";
+
+const strategyLabels: Record<RepricingRule['strategy'], string> = {
+    'match_lowest': 'Más barato',
+    'match_average': 'Promedio',
+};
+
+export default function ReglasPreciosPage() {
+    const [rules, setRules] = useState<RepricingRule[]>([]);
+    const [products, setProducts] = useState<ProductWithRelations[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [inputs, setInputs] = useState<RepricingProductInput[]>([]);
+    const [mlMarkupPercent, setMlMarkupPercent] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingRule, setEditingRule] = useState<RepricingRule | null>(null);
+    // Productos de la propuesta que NO se van a aplicar
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [applying, setApplying] = useState(false);
+    const [applyResult, setApplyResult] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    async function loadData() {
+        try {
+            setLoading(true);
+            setError(null);
+            const [rulesData, productsData, categoriesData, inputsData, markupData] = await Promise.all([
+                getRepricingRules(),
+                getProducts(),
+                getCategories(),
+                getRepricingInputs(),
+                getMLPriceMarkupPercent()
+            ]);
+            setRules(rulesData);
+            setProducts(productsData);
+            setCategories(categoriesData);
+            setInputs(inputsData);
+            setMlMarkupPercent(markupData);
+            setExcluded(new Set());
+        } catch (err) {
+            setError("Error al cargar las reglas de precios");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleDelete(rule: RepricingRule) {
+        if (!confirm(`¿Eliminar la regla "${rule.name}"?`)) return;
+        try {
+            setError(null);
+            await deleteRepricingRule(rule.id);
+            setRules(rules.filter(r => r.id !== rule.id));
+        } catch (err) {
+            console.error("Error deleting repricing rule:", err);
+            setError("Error al eliminar la regla");
+        }
+    }
+
+    function handleSaved() {
+        setIsModalOpen(false);
+        setEditingRule(null);
+        loadData();
+    }
+
+    function toggleProposal(productId: string) {
+        const next = new Set(excluded);
+        if (next.has(productId)) next.delete(productId);
+        else next.add(productId);
+        setExcluded(next);
+    }
+
+    const proposals = buildRepricingPreview(rules, inputs, mlMarkupPercent);
+    const selectedProposals = proposals.filter(p => !excluded.has(p.productId));
+
+    async function handleApply() {
+        if (selectedProposals.length === 0) return;
+        if (!confirm(`¿Aplicar ${selectedProposals.length} precios y publicarlos en Mercado Libre?`)) return;
+
+        try {
+            setApplying(true);
+            setError(null);
+            setApplyResult(null);
+            const res = await fetch('/api/repricing/apply', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    changes: selectedProposals.map(p => ({ product_id: p.productId, price: p.proposedPrice }))
+                })
+            });
+            const json = await res.json();
+
+            if (json.error) {
+                setError(json.error);
+                return;
+            }
+
+            const parts = [`${json.updated} precios actualizados`];
+            if (!json.ml_connected) {
+                parts.push('Mercado Libre no está conectado: no se publicaron');
+            } else if (json.ml) {
+                parts.push(`${json.ml.pushed} publicaciones actualizadas en ML`);
+                if (json.ml.skipped.length) parts.push(`${json.ml.skipped.length} items sin publicar`);
+                if (json.ml.errors.length) parts.push(`${json.ml.errors.length} con error en ML`);
+            }
+            if (json.errors.length) parts.push(`${json.errors.length} productos con error`);
+            setApplyResult(parts.join(' · '));
+            await loadData();
+        } catch (err) {
+            console.error("Error applying repricing:", err);
+            setError("Error al aplicar los precios");
+        } finally {
+            setApplying(false);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando reglas de precios...</div>
+            </div>
+        );
+    }
+
+    const productsById = new Map(products.map(p => [p.id, p]));
+    const categoriesById = new Map(categories.map(c => [c.id, c]));
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/precios" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline mb-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    Precios
+                </Link>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <h1 className="text-2xl font-bold">Reglas de precios</h1>
+                        <p className="text-muted-foreground">
+                            Reprecio según la competencia, sin bajar del piso de costo + margen
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => { setEditingRule(null); setIsModalOpen(true); }}
+                        className="btn btn-primary flex items-center gap-2"
+                    >
+                        <Plus className="h-4 w-4" />
+                        Nueva Regla
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {applyResult && (
+                <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-md text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4" />
+                    {applyResult}
+                </div>
+            )}
+
+            {/* Rules Table */}
+            <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Regla
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Aplica a
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Precio objetivo
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Piso
+                            </th>
+                            <th className="px-6 py-3 text-center text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Estado
+                            </th>
+                            <th className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {rules.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-12 text-center text-muted-foreground">
+                                    <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                                    <p>No hay reglas de precios</p>
+                                </td>
+                            </tr>
+                        ) : (
+                            rules.map(rule => (
+                                <tr key={rule.id} className="hover:bg-gray-50 dark:hover:bg-[#252525]">
+                                    <td className="px-6 py-4 font-medium">{rule.name}</td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {rule.product_id
+                                            ? productsById.get(rule.product_id)?.name || 'Producto'
+                                            : `Categoría: ${categoriesById.get(rule.category_id || '')?.name || '-'}`}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {strategyLabels[rule.strategy]}
+                                        {rule.offset_percent !== 0 && ` ${rule.offset_percent > 0 ? '+' : '−'}${Math.abs(rule.offset_percent)}%`}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {rule.min_markup_percent != null ? `Costo +${rule.min_markup_percent}%` : '-'}
+                                    </td>
+                                    <td className="px-6 py-4 text-center">
+                                        <span className={`inline-flex px-2 py-1 text-xs rounded-full ${rule.is_active
+                                            ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                                            : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400"
+                                            }`}>
+                                            {rule.is_active ? 'Activa' : 'Pausada'}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-right">
+                                        <div className="flex items-center justify-end gap-2">
+                                            <button
+                                                onClick={() => { setEditingRule(rule); setIsModalOpen(true); }}
+                                                className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                                                title="Editar"
+                                            >
+                                                <Edit className="h-4 w-4 text-gray-500" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(rule)}
+                                                className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                                title="Eliminar"
+                                            >
+                                                <Trash2 className="h-4 w-4 text-red-500" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Preview */}
+            <div className="card overflow-hidden p-0">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="font-semibold">Propuesta de cambios</h2>
+                        <p className="text-xs text-muted-foreground">
+                            Según los precios de la competencia capturados en los últimos {COMPETITOR_PRICE_MAX_AGE_DAYS} días
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={loadData}
+                            className="btn btn-outline text-sm flex items-center gap-2"
+                        >
+                            <RefreshCw className="h-4 w-4" />
+                            Recalcular
+                        </button>
+                        <button
+                            onClick={handleApply}
+                            disabled={applying || selectedProposals.length === 0}
+                            className="btn btn-primary text-sm flex items-center gap-2"
+                        >
+                            <CheckCircle className="h-4 w-4" />
+                            {applying ? "Aplicando..." : `Aplicar ${selectedProposals.length} y publicar`}
+                        </button>
+                    </div>
+                </div>
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr className="text-left text-xs text-muted-foreground uppercase">
+                            <th className="px-6 py-2 w-10"></th>
+                            <th className="px-6 py-2">Producto</th>
+                            <th className="px-6 py-2 text-right">Actual</th>
+                            <th className="px-6 py-2 text-right">Competencia</th>
+                            <th className="px-6 py-2 text-right">Piso</th>
+                            <th className="px-6 py-2 text-right">Propuesto</th>
+                            <th className="px-6 py-2 text-right">Cambio</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {proposals.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                                    No hay cambios de precio para proponer
+                                </td>
+                            </tr>
+                        ) : (
+                            proposals.map(proposal => (
+                                <tr key={proposal.productId} className={excluded.has(proposal.productId) ? 'opacity-50' : ''}>
+                                    <td className="px-6 py-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={!excluded.has(proposal.productId)}
+                                            onChange={() => toggleProposal(proposal.productId)}
+                                            className="h-4 w-4 rounded border-gray-300"
+                                        />
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <p className="font-medium">{proposal.productName}</p>
+                                        <p className="text-xs text-muted-foreground">{proposal.ruleName}</p>
+                                    </td>
+                                    <td className="px-6 py-3 text-right">${proposal.currentPrice.toLocaleString('es-AR')}</td>
+                                    <td className="px-6 py-3 text-right text-muted-foreground">
+                                        ${Math.round(proposal.competitorPrice).toLocaleString('es-AR')}
+                                    </td>
+                                    <td className="px-6 py-3 text-right text-muted-foreground">
+                                        {proposal.floorPrice != null ? `$${proposal.floorPrice.toLocaleString('es-AR')}` : '-'}
+                                    </td>
+                                    <td className="px-6 py-3 text-right font-bold">
+                                        ${proposal.proposedPrice.toLocaleString('es-AR')}
+                                        {proposal.limitedByFloor && (
+                                            <span className="ml-1 text-xs font-normal text-orange-500" title="Limitado por el piso de costo">(piso)</span>
+                                        )}
+                                        {proposal.listingPrice !== proposal.proposedPrice && (
+                                            <p className="text-xs font-normal text-muted-foreground">
+                                                ML ${proposal.listingPrice.toLocaleString('es-AR')}
+                                            </p>
+                                        )}
+                                    </td>
+                                    <td className={`px-6 py-3 text-right font-medium ${proposal.changePercent < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                        {proposal.changePercent > 0 ? '+' : ''}{proposal.changePercent.toFixed(1)}%
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Repricing Rule Modal */}
+            {isModalOpen && (
+                <RepricingRuleModal
+                    rule={editingRule}
+                    products={products}
+                    categories={categories}
+                    onClose={() => { setIsModalOpen(false); setEditingRule(null); }}
+                    onSaved={handleSaved}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,359 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+    MessageCircle,
+    RefreshCw,
+    Loader2,
+    Send,
+    Package,
+    Plus,
+    Trash2,
+    FileText
+} from "lucide-react";
+import { getAnswerTemplates, createAnswerTemplate, deleteAnswerTemplate } from "@/src/lib/api";
+import { renderAnswerTemplate, TEMPLATE_VARIABLES, type TemplateProduct } from "@/src/lib/answer-templates";
+import type { AnswerTemplate, MLQuestionRecord, MLQuestionStatus } from "@/src/lib/types";
+
+interface QuestionGroup {
+    product: (TemplateProduct & { id: string }) | null;
+    item_ids: string[];
+    questions: MLQuestionRecord[];
+}
+
+const questionStatusLabels: Record<MLQuestionStatus, { label: string; color: string }> = {
+    'UNANSWERED': { label: 'Sin responder', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
+    'ANSWERED': { label: 'Respondida', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+    'CLOSED_UNANSWERED': { label: 'Cerrada', color: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400' },
+    'UNDER_REVIEW': { label: 'En revisión', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+    'BANNED': { label: 'Bloqueada', color: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400' },
+    'DELETED': { label: 'Eliminada', color: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400' },
+};
+
+export default function PreguntasPage() {
+    const [groups, setGroups] = useState<QuestionGroup[]>([]);
+    const [templates, setTemplates] = useState<AnswerTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [syncing, setSyncing] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<string>("UNANSWERED");
+    const [answers, setAnswers] = useState<Record<string, string>>({});
+    const [sending, setSending] = useState<string | null>(null);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [newTemplate, setNewTemplate] = useState({ name: "", body: "" });
+
+    useEffect(() => {
+        loadQuestions();
+    }, [statusFilter]);
+
+    useEffect(() => {
+        loadTemplates();
+    }, []);
+
+    async function loadQuestions() {
+        try {
+            setLoading(true);
+            const res = await fetch(`/api/mercadolibre/questions?status=${statusFilter}`);
+            const json = await res.json();
+            setGroups(json.groups || []);
+        } catch (err) {
+            console.error("Error loading questions:", err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadTemplates() {
+        try {
+            setTemplates(await getAnswerTemplates());
+        } catch (err) {
+            console.error("Error loading templates:", err);
+        }
+    }
+
+    async function syncQuestions() {
+        try {
+            setSyncing(true);
+            const res = await fetch('/api/mercadolibre/questions', { method: 'POST' });
+            const json = await res.json();
+
+            if (json.success) {
+                await loadQuestions();
+            } else {
+                alert(`❌ Error: ${json.error}`);
+            }
+        } catch (err) {
+            console.error(err);
+            alert('Error sincronizando preguntas');
+        } finally {
+            setSyncing(false);
+        }
+    }
+
+    function applyTemplate(questionId: string, templateId: string, product: TemplateProduct | null) {
+        const template = templates.find(t => t.id === templateId);
+        if (!template) return;
+        setAnswers(prev => ({ ...prev, [questionId]: renderAnswerTemplate(template.body, product) }));
+    }
+
+    async function sendAnswer(questionId: string) {
+        const text = answers[questionId]?.trim();
+        if (!text) return;
+
+        try {
+            setSending(questionId);
+            const res = await fetch(`/api/mercadolibre/questions/${questionId}/answer`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text }),
+            });
+            const json = await res.json();
+
+            if (json.success) {
+                setAnswers(prev => {
+                    const next = { ...prev };
+                    delete next[questionId];
+                    return next;
+                });
+                await loadQuestions();
+            } else {
+                alert(`❌ Error: ${json.details || json.error}`);
+            }
+        } catch (err) {
+            console.error(err);
+            alert('Error enviando respuesta');
+        } finally {
+            setSending(null);
+        }
+    }
+
+    async function saveTemplate() {
+        if (!newTemplate.name.trim() || !newTemplate.body.trim()) return;
+
+        try {
+            await createAnswerTemplate({ name: newTemplate.name.trim(), body: newTemplate.body.trim() });
+            setNewTemplate({ name: "", body: "" });
+            await loadTemplates();
+        } catch (err) {
+            console.error(err);
+            alert('Error guardando plantilla');
+        }
+    }
+
+    async function removeTemplate(id: string) {
+        if (!confirm("¿Eliminar esta plantilla?")) return;
+
+        try {
+            await deleteAnswerTemplate(id);
+            await loadTemplates();
+        } catch (err) {
+            console.error(err);
+            alert('Error eliminando plantilla');
+        }
+    }
+
+    function formatDate(dateStr: string): string {
+        return new Date(dateStr).toLocaleString('es-AR', {
+            day: '2-digit',
+            month: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    }
+
+    const totalQuestions = groups.reduce((sum, g) => sum + g.questions.length, 0);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold">Preguntas</h1>
+                    <p className="text-muted-foreground">Respondé las preguntas de Mercado Libre</p>
+                </div>
+                <div className="flex gap-3">
+                    <button
+                        onClick={() => setShowTemplates(!showTemplates)}
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <FileText className="h-4 w-4" />
+                        Plantillas
+                    </button>
+                    <button
+                        onClick={syncQuestions}
+                        disabled={syncing}
+                        className="btn btn-primary flex items-center gap-2"
+                    >
+                        {syncing ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <RefreshCw className="h-4 w-4" />
+                        )}
+                        Traer de ML
+                    </button>
+                </div>
+            </div>
+
+            {/* Templates */}
+            {showTemplates && (
+                <div className="card space-y-4">
+                    <h3 className="font-semibold">Plantillas de respuesta</h3>
+
+                    {templates.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Todavía no hay plantillas</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {templates.map(template => (
+                                <div key={template.id} className="flex items-start justify-between gap-4 p-3 border border-[var(--border)] rounded-md">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-sm">{template.name}</p>
+                                        <p className="text-xs text-muted-foreground whitespace-pre-wrap">{template.body}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => removeTemplate(template.id)}
+                                        className="p-1 text-muted-foreground hover:text-red-500"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="space-y-2 pt-2 border-t border-[var(--border)]">
+                        <input
+                            type="text"
+                            placeholder="Nombre de la plantilla"
+                            value={newTemplate.name}
+                            onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                            className="input"
+                        />
+                        <textarea
+                            placeholder="¡Hola! Sí, tenemos stock de {producto}: {variantes_disponibles}. ¡Saludos!"
+                            value={newTemplate.body}
+                            onChange={(e) => setNewTemplate({ ...newTemplate, body: e.target.value })}
+                            className="input min-h-[80px]"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Variables: {Object.entries(TEMPLATE_VARIABLES).map(([variable, description]) => (
+                                <span key={variable} className="mr-3" title={description}>
+                                    <code>{variable}</code>
+                                </span>
+                            ))}
+                        </p>
+                        <div className="flex justify-end">
+                            <button
+                                onClick={saveTemplate}
+                                disabled={!newTemplate.name.trim() || !newTemplate.body.trim()}
+                                className="btn btn-primary flex items-center gap-2"
+                            >
+                                <Plus className="h-4 w-4" />
+                                Guardar plantilla
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex gap-4 items-center">
+                <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    className="input w-auto min-w-[180px]"
+                >
+                    <option value="UNANSWERED">Sin responder</option>
+                    <option value="ANSWERED">Respondidas</option>
+                    <option value="all">Todas</option>
+                </select>
+                <p className="text-sm text-muted-foreground">{totalQuestions} preguntas</p>
+                {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+
+            {/* Questions grouped by product */}
+            {!loading && groups.length === 0 ? (
+                <div className="card text-center py-12 text-muted-foreground">
+                    <MessageCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No hay preguntas para mostrar</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {groups.map(group => (
+                        <div key={group.product?.id || group.item_ids.join(',')} className="card">
+                            <div className="flex items-center justify-between mb-4">
+                                <div className="flex items-center gap-3">
+                                    <Package className="h-5 w-5 text-muted-foreground" />
+                                    <div>
+                                        <p className="font-semibold">{group.product?.name || 'Publicación sin vincular'}</p>
+                                        <p className="text-xs text-muted-foreground font-mono">{group.item_ids.join(', ')}</p>
+                                    </div>
+                                </div>
+                                {group.product && (
+                                    <p className="text-xs text-muted-foreground text-right">
+                                        Stock: {group.product.variants.reduce((sum, v) => sum + Math.max(0, v.stock_quantity), 0)} u.
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="space-y-4">
+                                {group.questions.map(question => (
+                                    <div key={question.id} className="border-t border-[var(--border)] pt-4 space-y-2">
+                                        <div className="flex items-start justify-between gap-4">
+                                            <p className="text-sm">{question.text}</p>
+                                            <div className="flex items-center gap-2 shrink-0">
+                                                <span className={`text-xs px-2 py-1 rounded ${questionStatusLabels[question.status]?.color || ''}`}>
+                                                    {questionStatusLabels[question.status]?.label || question.status}
+                                                </span>
+                                                <span className="text-xs text-muted-foreground">{formatDate(question.question_date)}</span>
+                                            </div>
+                                        </div>
+
+                                        {question.answer_text ? (
+                                            <p className="text-sm text-muted-foreground pl-4 border-l-2 border-[var(--primary)]">
+                                                {question.answer_text}
+                                            </p>
+                                        ) : question.status === 'UNANSWERED' && (
+                                            <div className="space-y-2">
+                                                {templates.length > 0 && (
+                                                    <select
+                                                        value=""
+                                                        onChange={(e) => applyTemplate(question.id, e.target.value, group.product)}
+                                                        className="input w-auto min-w-[200px] text-sm"
+                                                    >
+                                                        <option value="">Usar plantilla...</option>
+                                                        {templates.map(t => (
+                                                            <option key={t.id} value={t.id}>{t.name}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                                <div className="flex gap-2">
+                                                    <textarea
+                                                        value={answers[question.id] || ""}
+                                                        onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                                                        placeholder="Escribí tu respuesta..."
+                                                        maxLength={2000}
+                                                        className="input min-h-[60px] flex-1"
+                                                    />
+                                                    <button
+                                                        onClick={() => sendAnswer(question.id)}
+                                                        disabled={sending === question.id || !answers[question.id]?.trim()}
+                                                        className="btn btn-primary self-end"
+                                                    >
+                                                        {sending === question.id ? (
+                                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <Send className="h-4 w-4" />
+                                                        )}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
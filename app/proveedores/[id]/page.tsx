@@ -0,0 +1,496 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+    ArrowLeft,
+    Edit,
+    Package,
+    ClipboardList,
+    Wallet,
+    Plus,
+    Trash2,
+    Phone,
+    Mail,
+    MapPin,
+    PackageCheck
+} from "lucide-react";
+import {
+    getSupplierById,
+    getSupplierPurchaseOrders,
+    getSupplierProducts,
+    getSupplierPayments,
+    addSupplierProduct,
+    removeSupplierProduct,
+    createSupplierPayment,
+    deleteSupplierPayment,
+    getProducts
+} from "@/src/lib/api";
+import { formatCuit } from "@/src/lib/cuit";
+import type {
+    Product,
+    ProductSupplier,
+    ProductWithRelations,
+    PurchaseOrder,
+    PurchaseOrderStatus,
+    Supplier,
+    SupplierPayment
+} from "@/src/lib/types";
+import { SupplierModal } from "@/src/components/suppliers/supplier-modal";
+import { PurchaseOrderModal } from "@/src/components/purchases/purchase-order-modal";
+import { ReceiveOrderModal } from "@/src/components/purchases/receive-order-modal";
+
+const orderStatusLabels: Record<PurchaseOrderStatus, { label: string; color: string }> = {
+    'pending': { label: 'Pendiente', color: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400' },
+    'partial': { label: 'Parcial', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+    'received': { label: 'Recibida', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+};
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+// Valor de la mercadería recibida de una orden
+function getReceivedValue(order: PurchaseOrder): number {
+    return (order.items || []).reduce((sum, item) => sum + item.quantity_received * item.unit_cost, 0);
+}
+
+export default function ProveedorDetallePage() {
+    const { id } = useParams<{ id: string }>();
+
+    const [supplier, setSupplier] = useState<Supplier | null>(null);
+    const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+    const [supplierProducts, setSupplierProducts] = useState<(ProductSupplier & { product: Product })[]>([]);
+    const [payments, setPayments] = useState<SupplierPayment[]>([]);
+    const [allProducts, setAllProducts] = useState<ProductWithRelations[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [newProduct, setNewProduct] = useState({ product_id: "", supplier_sku: "" });
+    const [newPayment, setNewPayment] = useState({ amount: "", payment_method: "", notes: "" });
+    const [savingPayment, setSavingPayment] = useState(false);
+
+    useEffect(() => {
+        loadData();
+    }, [id]);
+
+    async function loadData() {
+        try {
+            setLoading(true);
+            const [supplierData, ordersData, productsData, paymentsData, catalog] = await Promise.all([
+                getSupplierById(id),
+                getSupplierPurchaseOrders(id),
+                getSupplierProducts(id),
+                getSupplierPayments(id),
+                getProducts()
+            ]);
+            setSupplier(supplierData);
+            setOrders(ordersData);
+            setSupplierProducts(productsData);
+            setPayments(paymentsData);
+            setAllProducts(catalog);
+        } catch (err) {
+            setError("Error al cargar el proveedor");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleAddProduct() {
+        if (!newProduct.product_id) return;
+        try {
+            setError(null);
+            await addSupplierProduct({
+                product_id: newProduct.product_id,
+                supplier_id: id,
+                supplier_sku: newProduct.supplier_sku.trim() || null,
+            });
+            setNewProduct({ product_id: "", supplier_sku: "" });
+            setSupplierProducts(await getSupplierProducts(id));
+        } catch (err) {
+            console.error("Error adding supplier product:", err);
+            setError("Error al agregar el producto");
+        }
+    }
+
+    async function handleRemoveProduct(productSupplierId: string) {
+        try {
+            await removeSupplierProduct(productSupplierId);
+            setSupplierProducts(supplierProducts.filter(p => p.id !== productSupplierId));
+        } catch (err) {
+            console.error("Error removing supplier product:", err);
+            setError("Error al quitar el producto");
+        }
+    }
+
+    async function handleAddPayment(e: React.FormEvent) {
+        e.preventDefault();
+        const amount = parseFloat(newPayment.amount.replace(',', '.'));
+        if (isNaN(amount) || amount <= 0) {
+            setError("Ingresá un monto válido");
+            return;
+        }
+
+        try {
+            setSavingPayment(true);
+            setError(null);
+            await createSupplierPayment({
+                supplier_id: id,
+                purchase_order_id: null,
+                amount,
+                payment_method: newPayment.payment_method || null,
+                notes: newPayment.notes || null,
+                paid_at: new Date().toISOString(),
+            });
+            setNewPayment({ amount: "", payment_method: "", notes: "" });
+            setPayments(await getSupplierPayments(id));
+        } catch (err) {
+            console.error("Error saving supplier payment:", err);
+            setError("Error al registrar el pago");
+        } finally {
+            setSavingPayment(false);
+        }
+    }
+
+    async function handleDeletePayment(paymentId: string) {
+        if (!confirm("¿Eliminar este pago?")) return;
+        try {
+            await deleteSupplierPayment(paymentId);
+            setPayments(payments.filter(p => p.id !== paymentId));
+        } catch (err) {
+            console.error("Error deleting supplier payment:", err);
+            setError("Error al eliminar el pago");
+        }
+    }
+
+    function handleSaved() {
+        setIsModalOpen(false);
+        loadData();
+    }
+
+    async function handleOrdersChanged() {
+        setIsOrderModalOpen(false);
+        setReceivingOrder(null);
+        try {
+            setOrders(await getSupplierPurchaseOrders(id));
+            setSupplierProducts(await getSupplierProducts(id));
+        } catch (err) {
+            console.error("Error reloading purchase orders:", err);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando proveedor...</div>
+            </div>
+        );
+    }
+
+    if (!supplier) {
+        return (
+            <div className="space-y-4">
+                <Link href="/proveedores" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+                    <ArrowLeft className="h-4 w-4" />
+                    Volver a proveedores
+                </Link>
+                <p className="text-muted-foreground">{error || "Proveedor no encontrado"}</p>
+            </div>
+        );
+    }
+
+    const receivedTotal = orders.reduce((sum, o) => sum + getReceivedValue(o), 0);
+    const paidTotal = payments.reduce((sum, p) => sum + p.amount, 0);
+    const balance = receivedTotal - paidTotal;
+
+    const linkedProductIds = new Set(supplierProducts.map(p => p.product_id));
+    const availableProducts = allProducts.filter(p => !linkedProductIds.has(p.id));
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/proveedores" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline mb-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    Proveedores
+                </Link>
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h1 className="text-2xl font-bold">{supplier.name}</h1>
+                        <p className="text-muted-foreground">
+                            {supplier.cuit ? `CUIT ${formatCuit(supplier.cuit)}` : 'Sin CUIT'}
+                            {' · '}
+                            {supplier.provides_invoice ? 'Entrega factura' : 'No entrega factura'}
+                            {' · '}
+                            Entrega en {supplier.lead_time_days} día{supplier.lead_time_days !== 1 ? 's' : ''}
+                        </p>
+                        <div className="flex flex-wrap gap-4 mt-2 text-sm text-muted-foreground">
+                            {supplier.contact_name && <span>{supplier.contact_name}</span>}
+                            {supplier.phone && (
+                                <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{supplier.phone}</span>
+                            )}
+                            {supplier.email && (
+                                <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{supplier.email}</span>
+                            )}
+                            {supplier.address && (
+                                <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{supplier.address}</span>
+                            )}
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => setIsModalOpen(true)}
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <Edit className="h-4 w-4" />
+                        Editar
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Balance */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <div className="card">
+                    <p className="text-sm text-muted-foreground">Mercadería recibida</p>
+                    <p className="text-xl font-bold">${receivedTotal.toLocaleString('es-AR')}</p>
+                </div>
+                <div className="card">
+                    <p className="text-sm text-muted-foreground">Pagado</p>
+                    <p className="text-xl font-bold">${paidTotal.toLocaleString('es-AR')}</p>
+                </div>
+                <div className="card">
+                    <p className="text-sm text-muted-foreground">Saldo a pagar</p>
+                    <p className={`text-xl font-bold ${balance > 0 ? 'text-orange-500' : 'text-green-500'}`}>
+                        ${balance.toLocaleString('es-AR')}
+                    </p>
+                </div>
+            </div>
+
+            {/* Purchase Orders */}
+            <div className="card overflow-hidden p-0">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div className="flex items-center gap-2">
+                        <ClipboardList className="h-5 w-5 text-muted-foreground" />
+                        <h2 className="font-semibold">Órdenes de compra</h2>
+                    </div>
+                    <button
+                        onClick={() => setIsOrderModalOpen(true)}
+                        className="btn btn-primary text-sm flex items-center gap-2"
+                    >
+                        <Plus className="h-4 w-4" />
+                        Nueva orden
+                    </button>
+                </div>
+                {orders.length === 0 ? (
+                    <p className="px-6 py-8 text-center text-sm text-muted-foreground">Sin órdenes de compra</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                            <tr className="text-left text-xs text-muted-foreground uppercase">
+                                <th className="px-6 py-2">Nº Orden</th>
+                                <th className="px-6 py-2">Fecha</th>
+                                <th className="px-6 py-2 text-center">Estado</th>
+                                <th className="px-6 py-2 text-right">Total</th>
+                                <th className="px-6 py-2 text-right">Recibido</th>
+                                <th className="px-6 py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[var(--border)]">
+                            {orders.map(order => (
+                                <tr key={order.id}>
+                                    <td className="px-6 py-3 font-mono font-medium">{order.order_number}</td>
+                                    <td className="px-6 py-3 text-muted-foreground">
+                                        {new Date(order.ordered_at).toLocaleDateString('es-AR')}
+                                    </td>
+                                    <td className="px-6 py-3 text-center">
+                                        <span className={`inline-flex px-2 py-1 text-xs rounded-full ${orderStatusLabels[order.status]?.color || ''}`}>
+                                            {orderStatusLabels[order.status]?.label || order.status}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-3 text-right font-medium">${order.total.toLocaleString('es-AR')}</td>
+                                    <td className="px-6 py-3 text-right">${getReceivedValue(order).toLocaleString('es-AR')}</td>
+                                    <td className="px-6 py-3 text-right">
+                                        {order.status !== 'received' && (
+                                            <button
+                                                onClick={() => setReceivingOrder(order)}
+                                                className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                                                title="Recibir mercadería"
+                                            >
+                                                <PackageCheck className="h-4 w-4 text-gray-500" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Products */}
+                <div className="card">
+                    <div className="flex items-center gap-2 mb-4">
+                        <Package className="h-5 w-5 text-muted-foreground" />
+                        <h2 className="font-semibold">Productos que provee</h2>
+                    </div>
+
+                    <div className="flex gap-2 mb-4">
+                        <select
+                            value={newProduct.product_id}
+                            onChange={(e) => setNewProduct({ ...newProduct, product_id: e.target.value })}
+                            className="input flex-1"
+                            style={selectStyle}
+                        >
+                            <option value="" style={selectStyle}>Agregar producto...</option>
+                            {availableProducts.map(product => (
+                                <option key={product.id} value={product.id} style={selectStyle}>{product.name}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            placeholder="Código proveedor"
+                            value={newProduct.supplier_sku}
+                            onChange={(e) => setNewProduct({ ...newProduct, supplier_sku: e.target.value })}
+                            className="input w-36 font-mono"
+                        />
+                        <button
+                            onClick={handleAddProduct}
+                            disabled={!newProduct.product_id}
+                            className="btn btn-primary"
+                            title="Agregar"
+                        >
+                            <Plus className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    {supplierProducts.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Sin productos asociados</p>
+                    ) : (
+                        <div className="divide-y divide-[var(--border)]">
+                            {supplierProducts.map(item => (
+                                <div key={item.id} className="flex items-center justify-between py-2 text-sm">
+                                    <div>
+                                        <p className="font-medium">{item.product?.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {item.supplier_sku ? `Cód. ${item.supplier_sku} · ` : ''}
+                                            Costo ${(item.product?.cost_price || 0).toLocaleString('es-AR')}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleRemoveProduct(item.id)}
+                                        className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                        title="Quitar"
+                                    >
+                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Payments */}
+                <div className="card">
+                    <div className="flex items-center gap-2 mb-4">
+                        <Wallet className="h-5 w-5 text-muted-foreground" />
+                        <h2 className="font-semibold">Pagos</h2>
+                    </div>
+
+                    <form onSubmit={handleAddPayment} className="flex flex-wrap gap-2 mb-4">
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="Monto"
+                            value={newPayment.amount}
+                            onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                            className="input w-28"
+                            required
+                        />
+                        <input
+                            type="text"
+                            placeholder="Medio de pago"
+                            value={newPayment.payment_method}
+                            onChange={(e) => setNewPayment({ ...newPayment, payment_method: e.target.value })}
+                            className="input w-36"
+                        />
+                        <input
+                            type="text"
+                            placeholder="Notas"
+                            value={newPayment.notes}
+                            onChange={(e) => setNewPayment({ ...newPayment, notes: e.target.value })}
+                            className="input flex-1 min-w-[120px]"
+                        />
+                        <button
+                            type="submit"
+                            disabled={savingPayment}
+                            className="btn btn-primary"
+                        >
+                            Registrar
+                        </button>
+                    </form>
+
+                    {payments.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Sin pagos registrados</p>
+                    ) : (
+                        <div className="divide-y divide-[var(--border)]">
+                            {payments.map(payment => (
+                                <div key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                                    <div>
+                                        <p className="font-medium">${payment.amount.toLocaleString('es-AR')}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {new Date(payment.paid_at).toLocaleDateString('es-AR')}
+                                            {payment.payment_method && ` · ${payment.payment_method}`}
+                                            {payment.notes && ` · ${payment.notes}`}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleDeletePayment(payment.id)}
+                                        className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                        title="Eliminar"
+                                    >
+                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Supplier Modal */}
+            {isModalOpen && (
+                <SupplierModal
+                    supplier={supplier}
+                    onClose={() => setIsModalOpen(false)}
+                    onSaved={handleSaved}
+                />
+            )}
+
+            {/* Purchase Order Modal */}
+            {isOrderModalOpen && (
+                <PurchaseOrderModal
+                    supplier={supplier}
+                    onClose={() => setIsOrderModalOpen(false)}
+                    onCreated={handleOrdersChanged}
+                />
+            )}
+
+            {/* Receive Order Modal */}
+            {receivingOrder && (
+                <ReceiveOrderModal
+                    order={receivingOrder}
+                    onClose={() => setReceivingOrder(null)}
+                    onReceived={handleOrdersChanged}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+    ArrowLeft,
+    Plus,
+    Search,
+    ClipboardList,
+    PackageCheck,
+    PackageSearch,
+    Clock
+} from "lucide-react";
+import { getPurchaseOrders } from "@/src/lib/api";
+import type { PurchaseOrder, PurchaseOrderStatus } from "@/src/lib/types";
+import { PurchaseOrderModal } from "@/src/components/purchases/purchase-order-modal";
+import { ReceiveOrderModal } from "@/src/components/purchases/receive-order-modal";
+
+const orderStatusLabels: Record<PurchaseOrderStatus, { label: string; color: string }> = {
+    'pending': { label: 'Pendiente', color: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400' },
+    'partial': { label: 'Parcial', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+    'received': { label: 'Recibida', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+};
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+// Unidades recibidas / pedidas de una orden
+function getUnits(order: PurchaseOrder): { received: number; ordered: number } {
+    return (order.items || []).reduce(
+        (acc, item) => ({ received: acc.received + item.quantity_received, ordered: acc.ordered + item.quantity }),
+        { received: 0, ordered: 0 }
+    );
+}
+
+export default function OrdenesCompraPage() {
+    const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "">("");
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+
+    useEffect(() => {
+        loadOrders();
+    }, []);
+
+    async function loadOrders() {
+        try {
+            setLoading(true);
+            setOrders(await getPurchaseOrders());
+        } catch (err) {
+            setError("Error al cargar las órdenes de compra");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function handleChanged() {
+        setIsModalOpen(false);
+        setReceivingOrder(null);
+        loadOrders();
+    }
+
+    // Filter orders
+    const filteredOrders = orders.filter(order => {
+        const query = searchQuery.toLowerCase();
+        const matchesSearch = searchQuery === "" ||
+            order.order_number.toLowerCase().includes(query) ||
+            order.supplier?.name.toLowerCase().includes(query) ||
+            order.items?.some(item => item.product_name.toLowerCase().includes(query));
+        const matchesStatus = statusFilter === "" || order.status === statusFilter;
+        return matchesSearch && matchesStatus;
+    });
+
+    const openOrders = orders.filter(o => o.status !== 'received');
+    const pendingValue = openOrders.reduce((sum, order) =>
+        sum + (order.items || []).reduce((s, item) => s + (item.quantity - item.quantity_received) * item.unit_cost, 0), 0);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando órdenes de compra...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/proveedores" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline mb-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    Proveedores
+                </Link>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <h1 className="text-2xl font-bold">Órdenes de compra</h1>
+                        <p className="text-muted-foreground">Pedidos a proveedores y recepción de mercadería</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Link
+                            href="/proveedores/reposicion"
+                            className="btn btn-outline flex items-center gap-2"
+                        >
+                            <PackageSearch className="h-4 w-4" />
+                            Reposición
+                        </Link>
+                        <button
+                            onClick={() => setIsModalOpen(true)}
+                            className="btn btn-primary flex items-center gap-2"
+                        >
+                            <Plus className="h-4 w-4" />
+                            Nueva Orden
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Summary Cards */}
+            <div className="grid gap-4 md:grid-cols-2">
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-orange-500/10 rounded-md">
+                            <Clock className="h-5 w-5 text-orange-500" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Órdenes abiertas</p>
+                            <p className="text-xl font-bold">{openOrders.length}</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-[var(--primary)]/10 rounded-md">
+                            <ClipboardList className="h-5 w-5 text-[var(--primary)]" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Mercadería por recibir</p>
+                            <p className="text-xl font-bold">${pendingValue.toLocaleString('es-AR')}</p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex gap-4 flex-wrap">
+                <div className="relative flex-1 min-w-[200px] max-w-md">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar por número, proveedor o producto..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="input pl-10"
+                    />
+                </div>
+                <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | "")}
+                    className="input w-44"
+                    style={selectStyle}
+                >
+                    <option value="" style={selectStyle}>Todos los estados</option>
+                    {Object.entries(orderStatusLabels).map(([value, { label }]) => (
+                        <option key={value} value={value} style={selectStyle}>{label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Orders Table */}
+            <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Nº Orden
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Proveedor
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Fecha
+                            </th>
+                            <th className="px-6 py-3 text-center text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Estado
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Unidades
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Total
+                            </th>
+                            <th className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {filteredOrders.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="px-6 py-12 text-center text-muted-foreground">
+                                    <ClipboardList className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                                    <p>No se encontraron órdenes de compra</p>
+                                </td>
+                            </tr>
+                        ) : (
+                            filteredOrders.map((order) => {
+                                const units = getUnits(order);
+                                return (
+                                    <tr key={order.id} className="hover:bg-gray-50 dark:hover:bg-[#252525]">
+                                        <td className="px-6 py-4 font-mono font-medium text-sm">{order.order_number}</td>
+                                        <td className="px-6 py-4 text-sm">
+                                            {order.supplier ? (
+                                                <Link href={`/proveedores/${order.supplier.id}`} className="hover:underline">
+                                                    {order.supplier.name}
+                                                </Link>
+                                            ) : '-'}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-muted-foreground">
+                                            {new Date(order.ordered_at).toLocaleDateString('es-AR')}
+                                            {order.received_at && (
+                                                <p className="text-xs">Recibida {new Date(order.received_at).toLocaleDateString('es-AR')}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-center">
+                                            <span className={`inline-flex px-2 py-1 text-xs rounded-full ${orderStatusLabels[order.status]?.color || ''}`}>
+                                                {orderStatusLabels[order.status]?.label || order.status}
+                                            </span>
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-right">
+                                            {units.received} / {units.ordered}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-right font-bold">
+                                            ${order.total.toLocaleString('es-AR')}
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            {order.status !== 'received' && (
+                                                <button
+                                                    onClick={() => setReceivingOrder(order)}
+                                                    className="btn btn-outline text-xs py-1 px-3 flex items-center gap-1 ml-auto"
+                                                >
+                                                    <PackageCheck className="h-3 w-3" />
+                                                    Recibir
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Purchase Order Modal */}
+            {isModalOpen && (
+                <PurchaseOrderModal
+                    onClose={() => setIsModalOpen(false)}
+                    onCreated={handleChanged}
+                />
+            )}
+
+            {/* Receive Order Modal */}
+            {receivingOrder && (
+                <ReceiveOrderModal
+                    order={receivingOrder}
+                    onClose={() => setReceivingOrder(null)}
+                    onReceived={handleChanged}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+    Plus,
+    Search,
+    Users,
+    Edit,
+    Trash2,
+    Eye,
+    Wallet,
+    ClipboardList
+} from "lucide-react";
+import { getSuppliers, getSupplierBalances, deleteSupplier } from "@/src/lib/api";
+import { formatCuit } from "@/src/lib/cuit";
+import type { Supplier, SupplierBalance } from "@/src/lib/types";
+import { SupplierModal } from "@/src/components/suppliers/supplier-modal";
+
+export default function ProveedoresPage() {
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [balances, setBalances] = useState<Record<string, SupplierBalance>>({});
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+    const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    async function loadData() {
+        try {
+            setLoading(true);
+            const [suppliersData, balancesData] = await Promise.all([
+                getSuppliers(),
+                getSupplierBalances()
+            ]);
+            setSuppliers(suppliersData);
+            setBalances(Object.fromEntries(balancesData.map(b => [b.supplier_id, b])));
+        } catch (err) {
+            setError("Error al cargar los proveedores");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleDelete(id: string) {
+        try {
+            setError(null);
+            await deleteSupplier(id);
+            setSuppliers(suppliers.filter(s => s.id !== id));
+        } catch (err) {
+            console.error("Error deleting supplier:", err);
+            setError(err instanceof Error ? err.message : "Error al eliminar el proveedor");
+        } finally {
+            setShowDeleteConfirm(null);
+        }
+    }
+
+    function handleEdit(supplier: Supplier) {
+        setEditingSupplier(supplier);
+        setIsModalOpen(true);
+    }
+
+    function handleCreate() {
+        setEditingSupplier(null);
+        setIsModalOpen(true);
+    }
+
+    function handleModalClose() {
+        setIsModalOpen(false);
+        setEditingSupplier(null);
+    }
+
+    function handleSaved() {
+        handleModalClose();
+        loadData();
+    }
+
+    // Filter suppliers
+    const filteredSuppliers = suppliers.filter(supplier => {
+        const query = searchQuery.toLowerCase();
+        return searchQuery === "" ||
+            supplier.name.toLowerCase().includes(query) ||
+            supplier.contact_name?.toLowerCase().includes(query) ||
+            supplier.cuit?.includes(query.replace(/\D/g, '') || query);
+    });
+
+    const totalBalance = filteredSuppliers.reduce((sum, s) => sum + (balances[s.id]?.balance || 0), 0);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <div className="text-muted-foreground">Cargando proveedores...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold">Proveedores</h1>
+                    <p className="text-muted-foreground">Gestiona tus proveedores, compras y saldos</p>
+                </div>
+                <div className="flex gap-2">
+                    <Link
+                        href="/proveedores/ordenes"
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <ClipboardList className="h-4 w-4" />
+                        Órdenes de compra
+                    </Link>
+                    <button
+                        onClick={handleCreate}
+                        className="btn btn-primary flex items-center gap-2"
+                    >
+                        <Plus className="h-4 w-4" />
+                        Nuevo Proveedor
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Summary Cards */}
+            <div className="grid gap-4 md:grid-cols-2">
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-[var(--primary)]/10 rounded-md">
+                            <Users className="h-5 w-5 text-[var(--primary)]" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Proveedores</p>
+                            <p className="text-xl font-bold">{filteredSuppliers.length}</p>
+                        </div>
+                    </div>
+                </div>
+                <div className="card">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-orange-500/10 rounded-md">
+                            <Wallet className="h-5 w-5 text-orange-500" />
+                        </div>
+                        <div>
+                            <p className="text-sm text-muted-foreground">Saldo a pagar</p>
+                            <p className="text-xl font-bold">${totalBalance.toLocaleString('es-AR')}</p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex gap-4 flex-wrap">
+                <div className="relative flex-1 min-w-[200px] max-w-md">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar por nombre, contacto o CUIT..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="input pl-10"
+                    />
+                </div>
+            </div>
+
+            {/* Suppliers Table */}
+            <div className="card overflow-hidden p-0">
+                <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Proveedor
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                CUIT
+                            </th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Contacto
+                            </th>
+                            <th className="px-6 py-3 text-center text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Factura
+                            </th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                                Saldo
+                            </th>
+                            <th className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                        {filteredSuppliers.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-12 text-center text-muted-foreground">
+                                    <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                                    <p>No se encontraron proveedores</p>
+                                    <button
+                                        onClick={handleCreate}
+                                        className="mt-4 text-[var(--primary)] hover:underline"
+                                    >
+                                        Agregar primer proveedor
+                                    </button>
+                                </td>
+                            </tr>
+                        ) : (
+                            filteredSuppliers.map((supplier) => {
+                                const balance = balances[supplier.id]?.balance || 0;
+                                return (
+                                    <tr key={supplier.id} className="hover:bg-gray-50 dark:hover:bg-[#252525]">
+                                        <td className="px-6 py-4">
+                                            <Link href={`/proveedores/${supplier.id}`} className="font-medium hover:underline">
+                                                {supplier.name}
+                                            </Link>
+                                            {supplier.contact_name && (
+                                                <p className="text-xs text-muted-foreground">{supplier.contact_name}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 font-mono text-sm">
+                                            {supplier.cuit ? formatCuit(supplier.cuit) : '-'}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            {supplier.phone && <p>{supplier.phone}</p>}
+                                            {supplier.email && <p className="text-xs text-muted-foreground">{supplier.email}</p>}
+                                            {!supplier.phone && !supplier.email && '-'}
+                                        </td>
+                                        <td className="px-6 py-4 text-center">
+                                            <span className={`inline-flex px-2 py-1 text-xs rounded-full ${supplier.provides_invoice
+                                                ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                                                : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400"
+                                                }`}>
+                                                {supplier.provides_invoice ? 'Sí' : 'No'}
+                                            </span>
+                                        </td>
+                                        <td className={`px-6 py-4 text-sm text-right font-bold ${balance > 0 ? 'text-orange-500' : ''}`}>
+                                            ${balance.toLocaleString('es-AR')}
+                                        </td>
+                                        <td className="px-6 py-4 text-right">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <Link
+                                                    href={`/proveedores/${supplier.id}`}
+                                                    className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                                                    title="Ver detalle"
+                                                >
+                                                    <Eye className="h-4 w-4 text-gray-500" />
+                                                </Link>
+                                                <button
+                                                    onClick={() => handleEdit(supplier)}
+                                                    className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                                                    title="Editar"
+                                                >
+                                                    <Edit className="h-4 w-4 text-gray-500" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setShowDeleteConfirm(supplier.id)}
+                                                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                                                    title="Eliminar"
+                                                >
+                                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                                </button>
+                                            </div>
+
+                                            {/* Delete Confirmation */}
+                                            {showDeleteConfirm === supplier.id && (
+                                                <div className="absolute right-6 mt-2 p-4 bg-white dark:bg-[#1C1C1C] rounded-lg shadow-lg border border-[var(--border)] z-10">
+                                                    <p className="text-sm mb-3">¿Eliminar este proveedor?</p>
+                                                    <div className="flex gap-2">
+                                                        <button
+                                                            onClick={() => handleDelete(supplier.id)}
+                                                            className="btn text-xs py-1 px-3 bg-red-500 text-white hover:bg-red-600"
+                                                        >
+                                                            Eliminar
+                                                        </button>
+                                                        <button
+                                                            onClick={() => setShowDeleteConfirm(null)}
+                                                            className="btn btn-outline text-xs py-1 px-3"
+                                                        >
+                                                            Cancelar
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Supplier Modal */}
+            {isModalOpen && (
+                <SupplierModal
+                    supplier={editingSupplier}
+                    onClose={handleModalClose}
+                    onSaved={handleSaved}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+    ArrowLeft,
+    RefreshCw,
+    ClipboardList,
+    PackageSearch,
+    CheckCircle
+} from "lucide-react";
+import { createPurchaseOrder, getReorderInputs, getSuppliers } from "@/src/lib/api";
+import { buildReorderSuggestions, type ReorderSuggestion, type VariantReorderInput } from "@/src/lib/reorder";
+import type { Supplier } from "@/src/lib/types";
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+const NO_SUPPLIER = "";
+
+export default function ReposicionPage() {
+    const [inputs, setInputs] = useState<VariantReorderInput[]>([]);
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [windowDays, setWindowDays] = useState(30);
+    const [coverageDays, setCoverageDays] = useState(30);
+    // Ediciones del borrador: cantidad y proveedor por variante
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [supplierOverrides, setSupplierOverrides] = useState<Record<string, string>>({});
+    const [creating, setCreating] = useState<string | null>(null);
+    const [createdOrders, setCreatedOrders] = useState<string[]>([]);
+
+    useEffect(() => {
+        loadData();
+    }, [windowDays]);
+
+    async function loadData() {
+        try {
+            setLoading(true);
+            setError(null);
+            const [inputsData, suppliersData] = await Promise.all([
+                getReorderInputs(windowDays),
+                getSuppliers()
+            ]);
+            setInputs(inputsData);
+            setSuppliers(suppliersData);
+            setQuantities({});
+            setSupplierOverrides({});
+        } catch (err) {
+            setError("Error al calcular la reposición");
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const suppliersById = new Map(suppliers.map(s => [s.id, s]));
+
+    const suggestions = buildReorderSuggestions(
+        inputs.map(input => input.variantId in supplierOverrides
+            ? { ...input, supplierId: supplierOverrides[input.variantId] || null }
+            : input),
+        suppliersById,
+        { windowDays, coverageDays }
+    );
+
+    // Un borrador de orden por proveedor
+    const drafts = new Map<string, ReorderSuggestion[]>();
+    for (const suggestion of suggestions) {
+        const key = suggestion.supplierId || NO_SUPPLIER;
+        drafts.set(key, [...(drafts.get(key) || []), suggestion]);
+    }
+
+    function getQuantity(suggestion: ReorderSuggestion): number {
+        return quantities[suggestion.variantId] ?? suggestion.suggestedQuantity;
+    }
+
+    async function handleCreateOrder(supplierId: string, lines: ReorderSuggestion[]) {
+        const items = lines
+            .filter(line => getQuantity(line) > 0)
+            .map(line => ({
+                product_variant_id: line.variantId,
+                product_name: `${line.productName} - ${line.variantName}`,
+                quantity: getQuantity(line),
+                unit_cost: line.unitCost
+            }));
+        if (items.length === 0) return;
+
+        try {
+            setCreating(supplierId);
+            setError(null);
+            const order = await createPurchaseOrder(
+                {
+                    supplier_id: supplierId,
+                    notes: 'Generada desde sugerencias de reposición',
+                    has_invoice: suppliersById.get(supplierId)?.provides_invoice ?? false,
+                    supplier_invoice_number: null
+                },
+                items
+            );
+            setCreatedOrders([...createdOrders, order.order_number]);
+            // Lo pedido pasa a estar en camino y deja de sugerirse
+            await loadData();
+        } catch (err) {
+            console.error("Error creating purchase order:", err);
+            setError(err instanceof Error ? err.message : "Error al crear la orden de compra");
+        } finally {
+            setCreating(null);
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/proveedores/ordenes" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline mb-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    Órdenes de compra
+                </Link>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <h1 className="text-2xl font-bold">Reposición</h1>
+                        <p className="text-muted-foreground">
+                            Cantidades sugeridas según velocidad de venta, plazo de entrega y stock de seguridad
+                        </p>
+                    </div>
+                    <button
+                        onClick={loadData}
+                        disabled={loading}
+                        className="btn btn-outline flex items-center gap-2"
+                    >
+                        <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                        Recalcular
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            {createdOrders.length > 0 && (
+                <div className="p-3 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded-md text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4" />
+                    Órdenes creadas: {createdOrders.join(', ')}.
+                    <Link href="/proveedores/ordenes" className="underline">Ver órdenes de compra</Link>
+                </div>
+            )}
+
+            {/* Settings */}
+            <div className="flex gap-4 flex-wrap items-end">
+                <div>
+                    <label className="block text-sm font-medium mb-1">Ventas de los últimos</label>
+                    <select
+                        value={windowDays}
+                        onChange={(e) => setWindowDays(parseInt(e.target.value))}
+                        className="input w-40"
+                        style={selectStyle}
+                    >
+                        {[30, 60, 90, 180].map(days => (
+                            <option key={days} value={days} style={selectStyle}>{days} días</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1">Cobertura del pedido (días)</label>
+                    <input
+                        type="number"
+                        value={coverageDays}
+                        onChange={(e) => setCoverageDays(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="input w-40"
+                        min="0"
+                    />
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="text-muted-foreground">Calculando reposición...</div>
+                </div>
+            ) : drafts.size === 0 ? (
+                <div className="card py-12 text-center text-muted-foreground">
+                    <PackageSearch className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No hay variantes para reponer con el ritmo de ventas actual</p>
+                </div>
+            ) : (
+                Array.from(drafts.entries()).map(([supplierId, lines]) => {
+                    const supplier = suppliersById.get(supplierId);
+                    const draftTotal = lines.reduce((sum, line) => sum + getQuantity(line) * line.unitCost, 0);
+                    return (
+                        <div key={supplierId || 'none'} className="card overflow-hidden p-0">
+                            <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                                <div>
+                                    <h2 className="font-semibold">{supplier?.name || 'Sin proveedor'}</h2>
+                                    <p className="text-xs text-muted-foreground">
+                                        {supplier
+                                            ? `Entrega en ${supplier.lead_time_days} días · Seguridad ${supplier.safety_stock_days} días`
+                                            : 'Asigná un proveedor a cada línea para generar la orden'}
+                                    </p>
+                                </div>
+                                {supplier && (
+                                    <div className="flex items-center gap-4">
+                                        <span className="text-sm">
+                                            Total <span className="font-bold">${draftTotal.toLocaleString('es-AR')}</span>
+                                        </span>
+                                        <button
+                                            onClick={() => handleCreateOrder(supplierId, lines)}
+                                            disabled={creating !== null || lines.every(line => getQuantity(line) === 0)}
+                                            className="btn btn-primary text-sm flex items-center gap-2"
+                                        >
+                                            <ClipboardList className="h-4 w-4" />
+                                            {creating === supplierId ? "Creando..." : "Crear orden"}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <table className="w-full text-sm">
+                                <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                                    <tr className="text-left text-xs text-muted-foreground uppercase">
+                                        <th className="px-6 py-2">Producto</th>
+                                        <th className="px-6 py-2 text-right">Stock</th>
+                                        <th className="px-6 py-2 text-right">En camino</th>
+                                        <th className="px-6 py-2 text-right">Venta/día</th>
+                                        <th className="px-6 py-2 text-right">Alcanza</th>
+                                        <th className="px-6 py-2 text-right">Pedir</th>
+                                        <th className="px-6 py-2">Proveedor</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-[var(--border)]">
+                                    {lines.map(line => (
+                                        <tr key={line.variantId}>
+                                            <td className="px-6 py-3">
+                                                <p className="font-medium">{line.productName}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {line.variantName}
+                                                    {line.sku && ` · ${line.sku}`}
+                                                    {` · ${line.unitsSold} vendidas en ${Math.round(line.daysInStock)} días con stock`}
+                                                </p>
+                                            </td>
+                                            <td className={`px-6 py-3 text-right ${line.stock <= 0 ? 'text-red-500 font-medium' : ''}`}>
+                                                {line.stock}
+                                            </td>
+                                            <td className="px-6 py-3 text-right text-muted-foreground">{line.onOrder || '-'}</td>
+                                            <td className="px-6 py-3 text-right">{line.velocity.toFixed(2)}</td>
+                                            <td className="px-6 py-3 text-right">
+                                                {line.daysOfStock != null ? `${Math.floor(line.daysOfStock)} días` : '-'}
+                                            </td>
+                                            <td className="px-6 py-3 text-right">
+                                                <input
+                                                    type="number"
+                                                    value={getQuantity(line)}
+                                                    onChange={(e) => setQuantities({ ...quantities, [line.variantId]: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                    className="input w-20 text-center text-sm ml-auto"
+                                                    min="0"
+                                                />
+                                            </td>
+                                            <td className="px-6 py-3">
+                                                <select
+                                                    value={line.supplierId || NO_SUPPLIER}
+                                                    onChange={(e) => setSupplierOverrides({ ...supplierOverrides, [line.variantId]: e.target.value })}
+                                                    className="input text-sm w-40"
+                                                    style={selectStyle}
+                                                >
+                                                    <option value={NO_SUPPLIER} style={selectStyle}>Sin proveedor</option>
+                                                    {suppliers.map(s => (
+                                                        <option key={s.id} value={s.id} style={selectStyle}>{s.name}</option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    );
+                })
+            )}
+        </div>
+    );
+}
@@ -15,6 +15,7 @@ import {
 import { getSales, updateSaleStatus, updatePaymentStatus } from "@/src/lib/api";
 import type { SaleWithRelations, SaleChannel, SaleStatus, PaymentStatus } from "@/src/lib/types";
 import { SaleModal } from "@/src/components/sales/sale-modal";
+import { SaleDetailModal } from "@/src/components/sales/sale-detail-modal";
 
 const channelLabels: Record<SaleChannel, { label: string; color: string }> = {
     'ML': { label: 'Mercado Libre', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
@@ -44,6 +45,7 @@ export default function VentasPage() {
     const [selectedChannel, setSelectedChannel] = useState<string>("");
     const [selectedStatus, setSelectedStatus] = useState<string>("");
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedSale, setSelectedSale] = useState<SaleWithRelations | null>(null);
 
     useEffect(() => {
         loadSales();
@@ -212,12 +214,13 @@ export default function VentasPage() {
                             <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                                 Fecha
                             </th>
+                            <th className="px-6 py-3"></th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-[var(--border)]">
                         {filteredSales.length === 0 ? (
                             <tr>
-                                <td colSpan={8} className="px-6 py-12 text-center text-muted-foreground">
+                                <td colSpan={9} className="px-6 py-12 text-center text-muted-foreground">
                                     <ShoppingCart className="h-12 w-12 mx-auto mb-4 opacity-50" />
                                     <p>No se encontraron ventas</p>
                                     <button
@@ -278,6 +281,15 @@ export default function VentasPage() {
                                                 minute: '2-digit'
                                             })}
                                         </td>
+                                        <td className="px-6 py-4 text-right">
+                                            <button
+                                                onClick={() => setSelectedSale(sale)}
+                                                className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md"
+                                                title="Ver detalle"
+                                            >
+                                                <Eye className="h-4 w-4" />
+                                            </button>
+                                        </td>
                                     </tr>
                                 );
                             })
@@ -290,6 +302,11 @@ export default function VentasPage() {
             {isModalOpen && (
                 <SaleModal onClose={handleModalClose} />
             )}
+
+            {/* Sale Detail */}
+            {selectedSale && (
+                <SaleDetailModal sale={selectedSale} onClose={() => setSelectedSale(null)} />
+            )}
         </div>
     );
 }
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { createCompetitor, updateCompetitor } from "@/src/lib/api";
+import type { Competitor, CompetitorInsert } from "@/src/lib/types";
+
+interface CompetitorModalProps {
+    competitor: Competitor | null;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+export function CompetitorModal({ competitor, onClose, onSaved }: CompetitorModalProps) {
+    const isEditing = !!competitor;
+
+    const [formData, setFormData] = useState({
+        name: competitor?.name || "",
+        ml_seller_id: competitor?.ml_seller_id || "",
+        url: competitor?.url || "",
+        notes: competitor?.notes || "",
+        is_active: competitor?.is_active ?? true,
+    });
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            const competitorData: CompetitorInsert = {
+                name: formData.name.trim(),
+                ml_seller_id: formData.ml_seller_id.trim() || null,
+                url: formData.url.trim() || null,
+                notes: formData.notes || null,
+                is_active: formData.is_active,
+            };
+
+            if (isEditing) {
+                await updateCompetitor(competitor.id, competitorData);
+            } else {
+                await createCompetitor(competitorData);
+            }
+
+            onSaved();
+        } catch (err) {
+            console.error("Error saving competitor:", err);
+            setError("Error al guardar el competidor");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <h2 className="text-xl font-semibold">
+                        {isEditing ? "Editar Competidor" : "Nuevo Competidor"}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">
+                                Nombre <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                className="input"
+                                required
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">ID de vendedor en ML</label>
+                            <input
+                                type="text"
+                                value={formData.ml_seller_id}
+                                onChange={(e) => setFormData({ ...formData, ml_seller_id: e.target.value })}
+                                className="input font-mono"
+                                placeholder="123456789"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">URL</label>
+                            <input
+                                type="url"
+                                value={formData.url}
+                                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                                className="input"
+                                placeholder="https://..."
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Notas</label>
+                            <textarea
+                                value={formData.notes}
+                                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                className="input min-h-[80px] resize-none"
+                                rows={3}
+                            />
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="competitor_active"
+                                checked={formData.is_active}
+                                onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                            <label htmlFor="competitor_active" className="text-sm">
+                                Seguir sus precios
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="btn btn-outline"
+                            disabled={loading}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="btn btn-primary"
+                        >
+                            {loading ? "Guardando..." : isEditing ? "Guardar Cambios" : "Crear Competidor"}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, FileText, Loader2, CheckCircle, XCircle } from "lucide-react";
+import { getUninvoicedSales } from "@/src/lib/api";
+import type { Customer, Sale } from "@/src/lib/types";
+
+type UninvoicedSale = Sale & { customer: Customer | null };
+
+interface BulkResult {
+    sale_id: string;
+    invoice?: { invoice_number: string };
+    error?: string;
+}
+
+interface BulkInvoiceModalProps {
+    onClose: () => void;
+    onIssued: () => void;
+}
+
+export function BulkInvoiceModal({ onClose, onIssued }: BulkInvoiceModalProps) {
+    const [sales, setSales] = useState<UninvoicedSale[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [issuing, setIssuing] = useState(false);
+    const [results, setResults] = useState<Record<string, BulkResult>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadSales();
+    }, []);
+
+    async function loadSales() {
+        try {
+            setLoading(true);
+            setSales(await getUninvoicedSales());
+        } catch (err) {
+            console.error("Error loading uninvoiced sales:", err);
+            setError("Error al cargar las ventas sin facturar");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function toggleSale(id: string) {
+        const next = new Set(selected);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSelected(next);
+    }
+
+    // Las ya facturadas en esta sesión no se pueden volver a seleccionar
+    const selectableSales = sales.filter(s => !results[s.id]?.invoice);
+
+    function toggleAll() {
+        setSelected(selected.size === selectableSales.length ? new Set() : new Set(selectableSales.map(s => s.id)));
+    }
+
+    async function handleIssue() {
+        try {
+            setIssuing(true);
+            setError(null);
+            const res = await fetch('/api/invoices/bulk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sale_ids: Array.from(selected) })
+            });
+            const json = await res.json();
+
+            if (!json.results) {
+                setError(json.details ? `${json.error}: ${json.details}` : json.error);
+                return;
+            }
+
+            setResults(prev => ({
+                ...prev,
+                ...Object.fromEntries((json.results as BulkResult[]).map(r => [r.sale_id, r]))
+            }));
+            // Las que fallaron quedan seleccionadas para reintentar
+            const failed = (json.results as BulkResult[]).filter(r => r.error).map(r => r.sale_id);
+            setSelected(new Set(failed));
+            if (json.issued > 0) onIssued();
+        } catch (err) {
+            console.error("Error issuing invoices:", err);
+            setError("Error al emitir las facturas");
+        } finally {
+            setIssuing(false);
+        }
+    }
+
+    const selectedTotal = sales
+        .filter(s => selected.has(s.id))
+        .reduce((sum, s) => sum + s.total, 0);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Facturar ventas</h2>
+                        <p className="text-sm text-muted-foreground">Ventas sin factura vigente</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto max-h-[60vh]">
+                    {error && (
+                        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12 text-muted-foreground">
+                            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                            Cargando ventas...
+                        </div>
+                    ) : sales.length === 0 ? (
+                        <div className="py-12 text-center text-muted-foreground">
+                            <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                            <p>No hay ventas pendientes de facturar</p>
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="border-b border-[var(--border)]">
+                                <tr className="text-left text-xs text-muted-foreground uppercase">
+                                    <th className="px-2 py-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectableSales.length > 0 && selected.size === selectableSales.length}
+                                            onChange={toggleAll}
+                                        />
+                                    </th>
+                                    <th className="px-2 py-2">Venta</th>
+                                    <th className="px-2 py-2">Cliente</th>
+                                    <th className="px-2 py-2">Fecha</th>
+                                    <th className="px-2 py-2 text-right">Total</th>
+                                    <th className="px-2 py-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-[var(--border)]">
+                                {sales.map(sale => {
+                                    const result = results[sale.id];
+                                    return (
+                                        <tr key={sale.id} className={result?.invoice ? 'opacity-50' : ''}>
+                                            <td className="px-2 py-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.has(sale.id)}
+                                                    onChange={() => toggleSale(sale.id)}
+                                                    disabled={!!result?.invoice}
+                                                />
+                                            </td>
+                                            <td className="px-2 py-2 font-mono">{sale.sale_number}</td>
+                                            <td className="px-2 py-2">
+                                                {sale.customer?.name || 'Consumidor Final'}
+                                                {sale.customer?.tax_condition && (
+                                                    <span className="block text-xs text-muted-foreground">{sale.customer.tax_condition}</span>
+                                                )}
+                                            </td>
+                                            <td className="px-2 py-2 text-muted-foreground">
+                                                {new Date(sale.created_at).toLocaleDateString('es-AR')}
+                                            </td>
+                                            <td className="px-2 py-2 text-right font-medium">
+                                                ${sale.total.toLocaleString('es-AR')}
+                                            </td>
+                                            <td className="px-2 py-2 text-xs">
+                                                {result?.invoice && (
+                                                    <span className="flex items-center gap-1 text-green-500 font-mono">
+                                                        <CheckCircle className="h-3 w-3" />
+                                                        {result.invoice.invoice_number}
+                                                    </span>
+                                                )}
+                                                {result?.error && (
+                                                    <span className="flex items-center gap-1 text-red-500">
+                                                        <XCircle className="h-3 w-3 flex-shrink-0" />
+                                                        {result.error}
+                                                    </span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between px-6 py-4 border-t border-[var(--border)]">
+                    <span className="text-sm text-muted-foreground">
+                        {selected.size} seleccionada{selected.size !== 1 ? 's' : ''} · ${selectedTotal.toLocaleString('es-AR')}
+                    </span>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="btn btn-outline">
+                            Cerrar
+                        </button>
+                        <button
+                            onClick={handleIssue}
+                            disabled={issuing || selected.size === 0}
+                            className="btn btn-primary flex items-center gap-2"
+                        >
+                            {issuing ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                                <FileText className="h-4 w-4" />
+                            )}
+                            Facturar {selected.size > 0 ? selected.size : ''}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
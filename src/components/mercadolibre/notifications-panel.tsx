@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import type { MLNotificationRecord, MLNotificationStatus } from "@/src/lib/types";
+
+const statusLabels: Record<MLNotificationStatus, { label: string; color: string }> = {
+    'pending': { label: 'Pendiente', color: 'bg-gray-500/10 text-gray-500' },
+    'processing': { label: 'Procesando', color: 'bg-blue-500/10 text-blue-500' },
+    'processed': { label: 'Procesada', color: 'bg-green-500/10 text-green-500' },
+    'failed': { label: 'Fallida', color: 'bg-red-500/10 text-red-500' },
+    'ignored': { label: 'Ignorada', color: 'bg-yellow-500/10 text-yellow-500' },
+};
+
+export function NotificationsPanel() {
+    const [notifications, setNotifications] = useState<MLNotificationRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<MLNotificationStatus | "">("");
+    const [replaying, setReplaying] = useState<string | null>(null);
+    const [retrying, setRetrying] = useState(false);
+
+    useEffect(() => {
+        loadNotifications();
+    }, [statusFilter]);
+
+    async function loadNotifications() {
+        try {
+            setLoading(true);
+            const params = new URLSearchParams({ limit: '50' });
+            if (statusFilter) params.append('status', statusFilter);
+
+            const res = await fetch(`/api/mercadolibre/notifications?${params.toString()}`);
+            const json = await res.json();
+            setNotifications(json.notifications || []);
+        } catch (err) {
+            console.error("Error loading notifications:", err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function replay(id: string) {
+        try {
+            setReplaying(id);
+            const res = await fetch(`/api/mercadolibre/notifications/${encodeURIComponent(id)}`, { method: 'POST' });
+            const json = await res.json();
+
+            if (!json.success) {
+                alert(`❌ Error: ${json.error || json.details || 'No se pudo reprocesar'}`);
+            }
+            await loadNotifications();
+        } catch (err) {
+            console.error(err);
+            alert('Error reprocesando notificación');
+        } finally {
+            setReplaying(null);
+        }
+    }
+
+    async function retryDue() {
+        try {
+            setRetrying(true);
+            const res = await fetch('/api/mercadolibre/notifications/retry', { method: 'POST' });
+            const json = await res.json();
+
+            if (json.success) {
+                alert(`✅ Reintentadas: ${json.total} (procesadas: ${json.processed}, fallidas: ${json.failed})`);
+            } else {
+                alert(`❌ Error: ${json.error}`);
+            }
+            await loadNotifications();
+        } catch (err) {
+            console.error(err);
+            alert('Error reintentando notificaciones');
+        } finally {
+            setRetrying(false);
+        }
+    }
+
+    function formatDate(dateStr: string): string {
+        return new Date(dateStr).toLocaleString('es-AR', {
+            day: '2-digit',
+            month: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    }
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                    <Bell className="h-4 w-4" />
+                    Notificaciones de Mercado Libre
+                    {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </h3>
+                <div className="flex gap-3">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as MLNotificationStatus | "")}
+                        className="input w-auto min-w-[150px]"
+                    >
+                        <option value="">Todos los estados</option>
+                        {Object.entries(statusLabels).map(([value, { label }]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={retryDue}
+                        disabled={retrying}
+                        className="btn btn-outline"
+                    >
+                        {retrying ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                        )}
+                        Reintentar vencidas
+                    </button>
+                </div>
+            </div>
+
+            {notifications.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                    <Bell className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No hay notificaciones registradas</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="border-b border-[var(--border)]">
+                            <tr className="text-left text-xs text-muted-foreground uppercase">
+                                <th className="py-2 pr-4">Recibida</th>
+                                <th className="py-2 pr-4">Topic</th>
+                                <th className="py-2 pr-4">Recurso</th>
+                                <th className="py-2 pr-4">Estado</th>
+                                <th className="py-2 pr-4">Intentos</th>
+                                <th className="py-2 pr-4">Error</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[var(--border)]">
+                            {notifications.map((n) => (
+                                <tr key={n.id}>
+                                    <td className="py-2 pr-4 whitespace-nowrap">{formatDate(n.received_at)}</td>
+                                    <td className="py-2 pr-4 font-mono text-xs">{n.topic}</td>
+                                    <td className="py-2 pr-4 font-mono text-xs">{n.resource}</td>
+                                    <td className="py-2 pr-4">
+                                        <span className={`text-xs px-2 py-1 rounded ${statusLabels[n.status]?.color || ''}`}>
+                                            {statusLabels[n.status]?.label || n.status}
+                                        </span>
+                                    </td>
+                                    <td className="py-2 pr-4">{n.process_attempts}</td>
+                                    <td className="py-2 pr-4 text-xs text-red-500 max-w-[280px] truncate" title={n.last_error || ''}>
+                                        {n.last_error}
+                                        {n.status === 'failed' && n.next_retry_at && (
+                                            <span className="block text-muted-foreground">Próximo intento: {formatDate(n.next_retry_at)}</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        <button
+                                            onClick={() => replay(n.id)}
+                                            disabled={replaying === n.id || n.status === 'processing'}
+                                            className="text-xs border border-[var(--border)] px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-[#333] disabled:opacity-50 ml-auto"
+                                        >
+                                            {replaying === n.id ? (
+                                                <Loader2 className="h-3 w-3 animate-spin" />
+                                            ) : (
+                                                <RotateCcw className="h-3 w-3" />
+                                            )}
+                                            Reprocesar
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
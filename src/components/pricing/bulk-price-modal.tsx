@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { applyPriceBatch } from "@/src/lib/api";
+import {
+    buildBulkPriceDiff,
+    filterProductsForBulk,
+    type BulkPriceFilters,
+    type BulkPriceMode,
+    type PriceEnding
+} from "@/src/lib/bulk-pricing";
+import type { Category, PriceBatch, ProductWithRelations } from "@/src/lib/types";
+
+interface BulkPriceModalProps {
+    products: ProductWithRelations[];
+    categories: Category[];
+    initialSearch: string;
+    onClose: () => void;
+    onApplied: (batch: PriceBatch) => void;
+}
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+const modeLabels: Record<BulkPriceMode, string> = {
+    'increase_percent': 'Aumentar un %',
+    'markup_over_cost': 'Markup sobre costo',
+    'round_only': 'Sólo redondear',
+};
+
+const endings: { label: string; value: PriceEnding | null }[] = [
+    { label: 'Sin redondeo', value: null },
+    { label: 'Terminar en 990', value: { step: 1000, ending: 990 } },
+    { label: 'Terminar en 900', value: { step: 1000, ending: 900 } },
+    { label: 'Terminar en 99', value: { step: 100, ending: 99 } },
+    { label: 'Centenas (x00)', value: { step: 100, ending: 0 } },
+];
+
+export function BulkPriceModal({ products, categories, initialSearch, onClose, onApplied }: BulkPriceModalProps) {
+    const [filters, setFilters] = useState<BulkPriceFilters>({
+        categoryId: "",
+        search: initialSearch,
+        minMargin: null,
+        maxMargin: null,
+    });
+    const [mode, setMode] = useState<BulkPriceMode>('increase_percent');
+    const [percent, setPercent] = useState(10);
+    const [endingIndex, setEndingIndex] = useState(0);
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const rounding = endings[endingIndex].value;
+    const selectedProducts = filterProductsForBulk(products, filters);
+    const lines = buildBulkPriceDiff(selectedProducts, { mode, percent, rounding });
+
+    function getDescription(): string {
+        const parts = [mode === 'round_only' ? modeLabels[mode] : `${modeLabels[mode]} (${percent}%)`];
+        if (rounding) parts.push(endings[endingIndex].label.toLowerCase());
+        parts.push(`${lines.length} productos`);
+        return parts.join(' · ');
+    }
+
+    async function handleApply() {
+        if (lines.length === 0) return;
+        if (!confirm(`¿Actualizar el precio de ${lines.length} productos? Se puede deshacer después.`)) return;
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const batch = await applyPriceBatch(
+                getDescription(),
+                { mode, percent, rounding: rounding ? { ...rounding } : null, filters: { ...filters } },
+                lines
+            );
+            onApplied(batch);
+        } catch (err) {
+            console.error("Error applying bulk prices:", err);
+            setError(err instanceof Error ? err.message : "Error al actualizar los precios");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function parseMargin(value: string): number | null {
+        return value === "" ? null : parseFloat(value);
+    }
+
+    function formatMargin(margin: number | null): string {
+        return margin != null ? `${margin.toFixed(1)}%` : "-";
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <h2 className="text-xl font-semibold">Actualización masiva de precios</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                    {error && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Filters */}
+                    <div className="grid grid-cols-4 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Categoría</label>
+                            <select
+                                value={filters.categoryId}
+                                onChange={(e) => setFilters({ ...filters, categoryId: e.target.value })}
+                                className="input"
+                                style={selectStyle}
+                            >
+                                <option value="" style={selectStyle}>Todas</option>
+                                {categories.map(c => (
+                                    <option key={c.id} value={c.id} style={selectStyle}>{c.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Buscar</label>
+                            <input
+                                type="text"
+                                value={filters.search}
+                                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                                className="input"
+                                placeholder="Nombre o SKU"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Margen desde (%)</label>
+                            <input
+                                type="number"
+                                value={filters.minMargin ?? ""}
+                                onChange={(e) => setFilters({ ...filters, minMargin: parseMargin(e.target.value) })}
+                                className="input"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Margen hasta (%)</label>
+                            <input
+                                type="number"
+                                value={filters.maxMargin ?? ""}
+                                onChange={(e) => setFilters({ ...filters, maxMargin: parseMargin(e.target.value) })}
+                                className="input"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Operation */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Operación</label>
+                            <select
+                                value={mode}
+                                onChange={(e) => setMode(e.target.value as BulkPriceMode)}
+                                className="input"
+                                style={selectStyle}
+                            >
+                                {Object.entries(modeLabels).map(([value, label]) => (
+                                    <option key={value} value={value} style={selectStyle}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">
+                                {mode === 'markup_over_cost' ? "Markup (%)" : "Aumento (%)"}
+                            </label>
+                            <input
+                                type="number"
+                                value={percent}
+                                onChange={(e) => setPercent(parseFloat(e.target.value) || 0)}
+                                className="input"
+                                step="0.1"
+                                disabled={mode === 'round_only'}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Redondeo</label>
+                            <select
+                                value={endingIndex}
+                                onChange={(e) => setEndingIndex(parseInt(e.target.value))}
+                                className="input"
+                                style={selectStyle}
+                            >
+                                {endings.map((ending, index) => (
+                                    <option key={ending.label} value={index} style={selectStyle}>{ending.label}</option>
+                                ))}
+                            </select>
+                            {rounding && <p className="text-xs text-muted-foreground mt-1">Redondea hacia arriba</p>}
+                        </div>
+                    </div>
+
+                    {/* Dry-run diff */}
+                    <div>
+                        <p className="text-sm text-muted-foreground mb-2">
+                            {selectedProducts.length} productos seleccionados · {lines.length} cambian de precio
+                            {mode === 'markup_over_cost' && ' (se omiten los productos sin costo)'}
+                        </p>
+                        <div className="border border-[var(--border)] rounded-md overflow-hidden">
+                            <table className="w-full text-sm">
+                                <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                                    <tr className="text-left text-xs text-muted-foreground uppercase">
+                                        <th className="px-4 py-2">Producto</th>
+                                        <th className="px-4 py-2 text-right">Actual</th>
+                                        <th className="px-4 py-2 text-right">Nuevo</th>
+                                        <th className="px-4 py-2 text-right">Margen</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-[var(--border)]">
+                                    {lines.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={4} className="px-4 py-8 text-center text-muted-foreground">
+                                                Ningún precio cambia con esta operación
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        lines.map(line => (
+                                            <tr key={line.productId}>
+                                                <td className="px-4 py-2">
+                                                    <p className="font-medium">{line.productName}</p>
+                                                    {line.variants.filter(v => v.newAdjustment !== 0 || v.previousAdjustment !== 0).map(v => (
+                                                        <p key={v.variantId} className="text-xs text-muted-foreground">
+                                                            ↳ {v.variantName}: ${v.previousPrice.toLocaleString('es-AR')} → ${v.newPrice.toLocaleString('es-AR')}
+                                                        </p>
+                                                    ))}
+                                                </td>
+                                                <td className="px-4 py-2 text-right text-muted-foreground">
+                                                    ${line.previousBasePrice.toLocaleString('es-AR')}
+                                                </td>
+                                                <td className="px-4 py-2 text-right font-bold">
+                                                    ${line.newBasePrice.toLocaleString('es-AR')}
+                                                </td>
+                                                <td className="px-4 py-2 text-right text-xs">
+                                                    {formatMargin(line.previousMargin)} → {formatMargin(line.newMargin)}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="btn btn-outline"
+                        disabled={loading}
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={loading || lines.length === 0}
+                        className="btn btn-primary"
+                    >
+                        {loading ? "Aplicando..." : `Aplicar a ${lines.length} productos`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
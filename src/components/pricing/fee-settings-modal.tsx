@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { X, Plus, Trash2 } from "lucide-react";
+import { updateFeeSettings } from "@/src/lib/api";
+import {
+    ML_LISTING_TYPE_LABELS,
+    normalizeFeeSettings,
+    type DirectChannel,
+    type FeeSettings,
+    type MLListingType
+} from "@/src/lib/marketplace-fees";
+
+interface FeeSettingsModalProps {
+    settings: FeeSettings;
+    onClose: () => void;
+    onSaved: (settings: FeeSettings) => void;
+}
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+const directChannels: DirectChannel[] = ['Presencial', 'Instagram', 'WhatsApp'];
+
+export function FeeSettingsModal({ settings, onClose, onSaved }: FeeSettingsModalProps) {
+    const [formData, setFormData] = useState<FeeSettings>(settings);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    function parseNumber(value: string): number {
+        return parseFloat(value) || 0;
+    }
+
+    function updateFixedFee(index: number, field: 'max_price' | 'fee', value: string) {
+        setFormData({
+            ...formData,
+            ml_fixed_fees: formData.ml_fixed_fees.map((tier, i) => i === index ? { ...tier, [field]: parseNumber(value) } : tier)
+        });
+    }
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            const saved = normalizeFeeSettings(formData);
+            await updateFeeSettings(saved);
+            onSaved(saved);
+        } catch (err) {
+            console.error("Error saving fee settings:", err);
+            setError(err instanceof Error ? err.message : "Error al guardar las comisiones");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <h2 className="text-xl font-semibold">Comisiones e impuestos</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit}>
+                    {/* Content */}
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-6">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        {/* Mercado Libre */}
+                        <div className="space-y-4">
+                            <h3 className="font-medium">Mercado Libre</h3>
+                            <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Publicación</label>
+                                    <select
+                                        value={formData.ml_listing_type}
+                                        onChange={(e) => setFormData({ ...formData, ml_listing_type: e.target.value as MLListingType })}
+                                        className="input"
+                                        style={selectStyle}
+                                    >
+                                        {Object.entries(ML_LISTING_TYPE_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value} style={selectStyle}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {(Object.keys(ML_LISTING_TYPE_LABELS) as MLListingType[]).map(type => (
+                                    <div key={type}>
+                                        <label className="block text-sm font-medium mb-1">Comisión {ML_LISTING_TYPE_LABELS[type]} (%)</label>
+                                        <input
+                                            type="number"
+                                            value={formData.ml_commission_percent[type]}
+                                            onChange={(e) => setFormData({
+                                                ...formData,
+                                                ml_commission_percent: { ...formData.ml_commission_percent, [type]: parseNumber(e.target.value) }
+                                            })}
+                                            className="input"
+                                            min="0"
+                                            step="0.1"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="text-sm font-medium">Cargo fijo por unidad</label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setFormData({ ...formData, ml_fixed_fees: [...formData.ml_fixed_fees, { max_price: 0, fee: 0 }] })}
+                                        className="text-sm text-[var(--primary)] hover:underline flex items-center gap-1"
+                                    >
+                                        <Plus className="h-3 w-3" />
+                                        Agregar tramo
+                                    </button>
+                                </div>
+                                <div className="space-y-2">
+                                    {formData.ml_fixed_fees.map((tier, index) => (
+                                        <div key={index} className="flex items-center gap-2 text-sm">
+                                            <span className="text-muted-foreground">Precios menores a $</span>
+                                            <input
+                                                type="number"
+                                                value={tier.max_price}
+                                                onChange={(e) => updateFixedFee(index, 'max_price', e.target.value)}
+                                                className="input w-28 text-right text-sm"
+                                                min="0"
+                                            />
+                                            <span className="text-muted-foreground">pagan $</span>
+                                            <input
+                                                type="number"
+                                                value={tier.fee}
+                                                onChange={(e) => updateFixedFee(index, 'fee', e.target.value)}
+                                                className="input w-24 text-right text-sm"
+                                                min="0"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setFormData({ ...formData, ml_fixed_fees: formData.ml_fixed_fees.filter((_, i) => i !== index) })}
+                                                className="p-1 hover:bg-red-100 dark:hover:bg-red-900/20 rounded"
+                                            >
+                                                <Trash2 className="h-4 w-4 text-red-500" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    {formData.ml_fixed_fees.length === 0 && (
+                                        <p className="text-sm text-muted-foreground">Sin cargo fijo</p>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Envío gratis desde ($)</label>
+                                    <input
+                                        type="number"
+                                        value={formData.ml_free_shipping_threshold}
+                                        onChange={(e) => setFormData({ ...formData, ml_free_shipping_threshold: parseNumber(e.target.value) })}
+                                        className="input"
+                                        min="0"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Costo del envío para el vendedor ($)</label>
+                                    <input
+                                        type="number"
+                                        value={formData.ml_shipping_cost}
+                                        onChange={(e) => setFormData({ ...formData, ml_shipping_cost: parseNumber(e.target.value) })}
+                                        className="input"
+                                        min="0"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Other channels */}
+                        <div className="space-y-4">
+                            <h3 className="font-medium">Otros canales</h3>
+                            <div className="grid grid-cols-3 gap-4">
+                                {directChannels.map(channel => (
+                                    <div key={channel}>
+                                        <label className="block text-sm font-medium mb-1">Costo de cobro {channel} (%)</label>
+                                        <input
+                                            type="number"
+                                            value={formData.channel_fee_percent[channel]}
+                                            onChange={(e) => setFormData({
+                                                ...formData,
+                                                channel_fee_percent: { ...formData.channel_fee_percent, [channel]: parseNumber(e.target.value) }
+                                            })}
+                                            className="input"
+                                            min="0"
+                                            step="0.1"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Taxes */}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">IIBB + gastos (%)</label>
+                            <input
+                                type="number"
+                                value={formData.iibb_percent}
+                                onChange={(e) => setFormData({ ...formData, iibb_percent: parseNumber(e.target.value) })}
+                                className="input w-32"
+                                min="0"
+                                step="0.1"
+                            />
+                            <p className="text-xs text-muted-foreground mt-1">Se descuenta de lo cobrado en todos los canales</p>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="btn btn-outline"
+                            disabled={loading}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="btn btn-primary"
+                        >
+                            {loading ? "Guardando..." : "Guardar"}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { createRepricingRule, updateRepricingRule } from "@/src/lib/api";
+import type { Category, ProductWithRelations, RepricingRule, RepricingRuleInsert, RepricingStrategy } from "@/src/lib/types";
+
+interface RepricingRuleModalProps {
+    rule: RepricingRule | null;
+    products: ProductWithRelations[];
+    categories: Category[];
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+export function RepricingRuleModal({ rule, products, categories, onClose, onSaved }: RepricingRuleModalProps) {
+    const isEditing = !!rule;
+
+    const [formData, setFormData] = useState({
+        name: rule?.name || "",
+        scope: (rule?.product_id ? 'product' : 'category') as 'product' | 'category',
+        product_id: rule?.product_id || "",
+        category_id: rule?.category_id || "",
+        strategy: rule?.strategy || 'match_lowest' as RepricingStrategy,
+        offset_percent: rule?.offset_percent ?? 0,
+        min_markup_percent: rule?.min_markup_percent != null ? String(rule.min_markup_percent) : "",
+        is_active: rule?.is_active ?? true,
+    });
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            const ruleData: RepricingRuleInsert = {
+                name: formData.name.trim(),
+                product_id: formData.scope === 'product' ? formData.product_id : null,
+                category_id: formData.scope === 'category' ? formData.category_id : null,
+                strategy: formData.strategy,
+                offset_percent: formData.offset_percent,
+                min_markup_percent: formData.min_markup_percent !== "" ? parseFloat(formData.min_markup_percent) : null,
+                is_active: formData.is_active,
+            };
+
+            if (isEditing) {
+                await updateRepricingRule(rule.id, ruleData);
+            } else {
+                await createRepricingRule(ruleData);
+            }
+
+            onSaved();
+        } catch (err) {
+            console.error("Error saving repricing rule:", err);
+            setError("Error al guardar la regla");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <h2 className="text-xl font-semibold">
+                        {isEditing ? "Editar Regla" : "Nueva Regla de Precio"}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">
+                                Nombre <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                className="input"
+                                placeholder="Fundas: igualar al más barato"
+                                required
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Aplica a</label>
+                                <select
+                                    value={formData.scope}
+                                    onChange={(e) => setFormData({ ...formData, scope: e.target.value as 'product' | 'category' })}
+                                    className="input"
+                                    style={selectStyle}
+                                >
+                                    <option value="category" style={selectStyle}>Categoría</option>
+                                    <option value="product" style={selectStyle}>Producto</option>
+                                </select>
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-medium mb-1">
+                                    {formData.scope === 'product' ? "Producto" : "Categoría"} <span className="text-red-500">*</span>
+                                </label>
+                                {formData.scope === 'product' ? (
+                                    <select
+                                        value={formData.product_id}
+                                        onChange={(e) => setFormData({ ...formData, product_id: e.target.value })}
+                                        className="input"
+                                        style={selectStyle}
+                                        required
+                                    >
+                                        <option value="" style={selectStyle}>Seleccionar producto...</option>
+                                        {products.map(p => (
+                                            <option key={p.id} value={p.id} style={selectStyle}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <select
+                                        value={formData.category_id}
+                                        onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                                        className="input"
+                                        style={selectStyle}
+                                        required
+                                    >
+                                        <option value="" style={selectStyle}>Seleccionar categoría...</option>
+                                        {categories.map(c => (
+                                            <option key={c.id} value={c.id} style={selectStyle}>{c.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Precio de referencia</label>
+                                <select
+                                    value={formData.strategy}
+                                    onChange={(e) => setFormData({ ...formData, strategy: e.target.value as RepricingStrategy })}
+                                    className="input"
+                                    style={selectStyle}
+                                >
+                                    <option value="match_lowest" style={selectStyle}>Competidor más barato</option>
+                                    <option value="match_average" style={selectStyle}>Promedio de la competencia</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Desvío (%)</label>
+                                <input
+                                    type="number"
+                                    value={formData.offset_percent}
+                                    onChange={(e) => setFormData({ ...formData, offset_percent: parseFloat(e.target.value) || 0 })}
+                                    className="input"
+                                    step="0.1"
+                                />
+                                <p className="text-xs text-muted-foreground mt-1">Negativo = por debajo de la referencia</p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Piso: costo + (%)</label>
+                            <input
+                                type="number"
+                                value={formData.min_markup_percent}
+                                onChange={(e) => setFormData({ ...formData, min_markup_percent: e.target.value })}
+                                className="input"
+                                min="0"
+                                step="0.1"
+                                placeholder="Sin piso"
+                            />
+                            <p className="text-xs text-muted-foreground mt-1">
+                                Ninguna variante queda por debajo de su costo más este porcentaje
+                            </p>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="rule_active"
+                                checked={formData.is_active}
+                                onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                            <label htmlFor="rule_active" className="text-sm">
+                                Regla activa
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="btn btn-outline"
+                            disabled={loading}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="btn btn-primary"
+                        >
+                            {loading ? "Guardando..." : isEditing ? "Guardar Cambios" : "Crear Regla"}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Loader2, History } from "lucide-react";
+import { getCostHistory } from "@/src/lib/api";
+import type { CostChangeSource, CostHistoryEntry, ProductWithRelations } from "@/src/lib/types";
+
+const sourceLabels: Record<CostChangeSource, { label: string; color: string }> = {
+    'manual': { label: 'Manual', color: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400' },
+    'purchase': { label: 'Compra', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400' },
+};
+
+interface CostHistoryModalProps {
+    product: ProductWithRelations;
+    onClose: () => void;
+}
+
+export function CostHistoryModal({ product, onClose }: CostHistoryModalProps) {
+    const [entries, setEntries] = useState<CostHistoryEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadHistory();
+    }, [product.id]);
+
+    async function loadHistory() {
+        try {
+            setLoading(true);
+            setEntries(await getCostHistory(product.id));
+        } catch (err) {
+            console.error("Error loading cost history:", err);
+            setError("Error al cargar el historial de costos");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const variantNames = Object.fromEntries(product.variants.map(v => [v.id, v.name]));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Historial de costos</h2>
+                        <p className="text-sm text-muted-foreground">{product.name}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto max-h-[70vh]">
+                    {error && (
+                        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12 text-muted-foreground">
+                            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                            Cargando historial...
+                        </div>
+                    ) : entries.length === 0 ? (
+                        <div className="py-12 text-center text-muted-foreground">
+                            <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                            <p>Sin cambios de costo registrados</p>
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="border-b border-[var(--border)]">
+                                <tr className="text-left text-xs text-muted-foreground uppercase">
+                                    <th className="px-2 py-2">Fecha</th>
+                                    <th className="px-2 py-2">Aplica a</th>
+                                    <th className="px-2 py-2 text-right">Anterior</th>
+                                    <th className="px-2 py-2 text-right">Nuevo</th>
+                                    <th className="px-2 py-2">Origen</th>
+                                    <th className="px-2 py-2">Usuario</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-[var(--border)]">
+                                {entries.map(entry => (
+                                    <tr key={entry.id}>
+                                        <td className="px-2 py-2 text-muted-foreground">
+                                            {new Date(entry.created_at).toLocaleDateString('es-AR')}
+                                        </td>
+                                        <td className="px-2 py-2">
+                                            {entry.product_variant_id
+                                                ? variantNames[entry.product_variant_id] || 'Variante eliminada'
+                                                : 'Producto'}
+                                        </td>
+                                        <td className="px-2 py-2 text-right text-muted-foreground">
+                                            {entry.previous_cost != null ? `$${entry.previous_cost.toLocaleString('es-AR')}` : '-'}
+                                        </td>
+                                        <td className="px-2 py-2 text-right font-medium">
+                                            {entry.new_cost != null ? `$${entry.new_cost.toLocaleString('es-AR')}` : '-'}
+                                        </td>
+                                        <td className="px-2 py-2">
+                                            <span className={`inline-flex px-2 py-1 text-xs rounded-full ${sourceLabels[entry.source]?.color || ''}`}>
+                                                {sourceLabels[entry.source]?.label || entry.source}
+                                            </span>
+                                            {entry.notes && (
+                                                <span className="block text-xs text-muted-foreground mt-1">{entry.notes}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-2 py-2 text-xs text-muted-foreground">
+                                            {entry.changed_by_email || 'Sistema'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
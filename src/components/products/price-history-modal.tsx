@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Loader2, History } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { getCostHistory, getPriceChanges } from "@/src/lib/api";
+import { buildPriceTimeline } from "@/src/lib/price-history";
+import type { CostHistoryEntry, PriceChange, PriceChangeField, PriceChangeSource, ProductWithRelations } from "@/src/lib/types";
+
+const sourceLabels: Record<PriceChangeSource, { label: string; color: string }> = {
+    'manual': { label: 'Manual', color: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400' },
+    'product_form': { label: 'Ficha', color: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400' },
+    'bulk': { label: 'Masiva', color: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400' },
+    'undo': { label: 'Deshecho', color: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400' },
+    'repricing': { label: 'Reprecio', color: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400' },
+    'ml_sync': { label: 'Desde ML', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
+    'ml_push': { label: 'Hacia ML', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' },
+    'import': { label: 'Importación', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' },
+};
+
+const fieldLabels: Record<PriceChangeField, string> = {
+    'base_price': 'Precio base',
+    'price_adjustment': 'Ajuste',
+    'listing_price': 'Precio ML',
+};
+
+interface PriceHistoryModalProps {
+    product: ProductWithRelations;
+    onClose: () => void;
+}
+
+export function PriceHistoryModal({ product, onClose }: PriceHistoryModalProps) {
+    const [changes, setChanges] = useState<PriceChange[]>([]);
+    const [costs, setCosts] = useState<CostHistoryEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadHistory();
+    }, [product.id]);
+
+    async function loadHistory() {
+        try {
+            setLoading(true);
+            const [changesData, costsData] = await Promise.all([
+                getPriceChanges(product.id),
+                getCostHistory(product.id)
+            ]);
+            setChanges(changesData);
+            setCosts(costsData);
+        } catch (err) {
+            console.error("Error loading price history:", err);
+            setError("Error al cargar el historial de precios");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const variantNames = Object.fromEntries(product.variants.map(v => [v.id, v.name]));
+    const timeline = buildPriceTimeline(changes, costs, product);
+
+    function formatValue(value: number | null): string {
+        return value != null ? `$${value.toLocaleString('es-AR')}` : '-';
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Historial de precios</h2>
+                        <p className="text-sm text-muted-foreground">{product.name}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto max-h-[70vh] space-y-6">
+                    {error && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12 text-muted-foreground">
+                            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                            Cargando historial...
+                        </div>
+                    ) : changes.length === 0 && costs.length === 0 ? (
+                        <div className="py-12 text-center text-muted-foreground">
+                            <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                            <p>Sin cambios de precio registrados</p>
+                        </div>
+                    ) : (
+                        <>
+                            {/* Timeline */}
+                            {timeline.length > 0 && (
+                                <div className="h-[260px] w-full">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={timeline}>
+                                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="var(--border)" />
+                                            <XAxis
+                                                dataKey="date"
+                                                stroke="var(--foreground)"
+                                                fontSize={12}
+                                                tickLine={false}
+                                                axisLine={false}
+                                            />
+                                            <YAxis
+                                                stroke="var(--foreground)"
+                                                fontSize={12}
+                                                tickLine={false}
+                                                axisLine={false}
+                                                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                                            />
+                                            <Tooltip
+                                                contentStyle={{ backgroundColor: 'var(--card)', borderColor: 'var(--border)' }}
+                                                formatter={(value) => `$${(Number(value) || 0).toLocaleString('es-AR')}`}
+                                            />
+                                            <Legend />
+                                            <Line type="stepAfter" dataKey="base_price" name="Precio base" stroke="var(--primary)" strokeWidth={2} dot={false} connectNulls />
+                                            <Line type="stepAfter" dataKey="cost_price" name="Costo" stroke="#ef4444" strokeWidth={2} dot={false} connectNulls />
+                                            <Line type="stepAfter" dataKey="listing_price" name="Precio ML" stroke="#eab308" strokeWidth={2} dot={false} connectNulls />
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            )}
+
+                            {/* Changes */}
+                            <table className="w-full text-sm">
+                                <thead className="border-b border-[var(--border)]">
+                                    <tr className="text-left text-xs text-muted-foreground uppercase">
+                                        <th className="px-2 py-2">Fecha</th>
+                                        <th className="px-2 py-2">Aplica a</th>
+                                        <th className="px-2 py-2">Campo</th>
+                                        <th className="px-2 py-2 text-right">Anterior</th>
+                                        <th className="px-2 py-2 text-right">Nuevo</th>
+                                        <th className="px-2 py-2">Origen</th>
+                                        <th className="px-2 py-2">Usuario</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-[var(--border)]">
+                                    {changes.map(change => (
+                                        <tr key={change.id}>
+                                            <td className="px-2 py-2 text-muted-foreground">
+                                                {new Date(change.created_at).toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' })}
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                {change.product_variant_id
+                                                    ? variantNames[change.product_variant_id] || 'Variante eliminada'
+                                                    : 'Producto'}
+                                            </td>
+                                            <td className="px-2 py-2">{fieldLabels[change.field] || change.field}</td>
+                                            <td className="px-2 py-2 text-right text-muted-foreground">
+                                                {formatValue(change.previous_value)}
+                                            </td>
+                                            <td className="px-2 py-2 text-right font-medium">
+                                                {formatValue(change.new_value)}
+                                            </td>
+                                            <td className="px-2 py-2">
+                                                <span className={`inline-flex px-2 py-1 text-xs rounded-full ${sourceLabels[change.source]?.color || ''}`}>
+                                                    {sourceLabels[change.source]?.label || change.source}
+                                                </span>
+                                            </td>
+                                            <td className="px-2 py-2 text-xs text-muted-foreground">
+                                                {change.changed_by_email || 'Sistema'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,8 +2,8 @@
 
 import { useState } from "react";
 import { X, Plus, Trash2, Package } from "lucide-react";
-import { createProduct, updateProduct, createVariant, updateVariant, deleteVariant } from "@/src/lib/api";
-import type { ProductWithRelations, Category, ProductInsert, ProductVariantInsert } from "@/src/lib/types";
+import { createProduct, updateProduct, createVariant, updateVariant, deleteVariant, updateStock } from "@/src/lib/api";
+import type { ProductWithRelations, Category, ProductInsert, ProductVariantInsert, IvaRate } from "@/src/lib/types";
 
 interface ProductModalProps {
     product: ProductWithRelations | null;
@@ -33,6 +33,7 @@ export function ProductModal({ product, categories, onClose }: ProductModalProps
         cost_price: product?.cost_price || 0,
         sku: product?.sku || "",
         is_active: product?.is_active ?? true,
+        iva_rate: product?.iva_rate ?? 21,
     });
 
     const [variants, setVariants] = useState<VariantFormData[]>(
@@ -64,14 +65,15 @@ export function ProductModal({ product, categories, onClose }: ProductModalProps
                 cost_price: formData.cost_price,
                 sku: formData.sku || null,
                 is_active: formData.is_active,
+                iva_rate: formData.iva_rate,
             };
 
             let savedProduct;
 
             if (isEditing) {
-                savedProduct = await updateProduct(product.id, productData);
+                savedProduct = await updateProduct(product.id, productData, 'product_form');
             } else {
-                savedProduct = await createProduct(productData);
+                savedProduct = await createProduct(productData, 'product_form');
             }
 
             // Handle variants
@@ -84,18 +86,31 @@ export function ProductModal({ product, categories, onClose }: ProductModalProps
                         name: variant.name,
                         sku: variant.sku || null,
                         price_adjustment: variant.price_adjustment,
-                        stock_quantity: variant.stock_quantity,
+                        stock_quantity: 0,
                         min_stock_alert: variant.min_stock_alert,
+                        cost_price: null,
                     };
-                    await createVariant(variantData);
+                    const created = await createVariant(variantData, 'product_form');
+
+                    // El stock inicial entra como movimiento, igual que cualquier cambio de stock
+                    if (variant.stock_quantity > 0) {
+                        await updateStock(created.id, variant.stock_quantity, "IN", "Stock inicial");
+                    }
                 } else if (variant.id) {
                     await updateVariant(variant.id, {
                         name: variant.name,
                         sku: variant.sku || null,
                         price_adjustment: variant.price_adjustment,
-                        stock_quantity: variant.stock_quantity,
                         min_stock_alert: variant.min_stock_alert,
-                    });
+                    }, 'product_form');
+
+                    // El stock cambia solo con un movimiento: se aplica la diferencia con lo
+                    // cargado al abrir, así no se pisan las ventas registradas mientras tanto
+                    const loadedStock = product?.variants?.find(v => v.id === variant.id)?.stock_quantity ?? variant.stock_quantity;
+                    const difference = variant.stock_quantity - loadedStock;
+                    if (difference !== 0) {
+                        await updateStock(variant.id, Math.abs(difference), difference > 0 ? "IN" : "OUT", "Ajuste desde la ficha del producto");
+                    }
                 }
             }
 
@@ -275,6 +290,19 @@ export function ProductModal({ product, categories, onClose }: ProductModalProps
                                     </div>
                                 </div>
 
+                                {/* IVA */}
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Alícuota de IVA</label>
+                                    <select
+                                        value={formData.iva_rate}
+                                        onChange={(e) => setFormData({ ...formData, iva_rate: parseFloat(e.target.value) as IvaRate })}
+                                        className="input"
+                                    >
+                                        <option value={21}>21%</option>
+                                        <option value={10.5}>10,5%</option>
+                                    </select>
+                                </div>
+
                                 {/* SKU */}
                                 <div>
                                     <label className="block text-sm font-medium mb-1">SKU</label>
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Trash2, Search, ClipboardList } from "lucide-react";
+import { createPurchaseOrder, getPurchasableVariants, getSuppliers } from "@/src/lib/api";
+import type { Product, ProductVariant, Supplier } from "@/src/lib/types";
+
+interface PurchaseOrderModalProps {
+    // Proveedor fijo (desde el detalle del proveedor); si no, se elige en el formulario
+    supplier?: Supplier | null;
+    onClose: () => void;
+    onCreated: () => void;
+}
+
+interface PurchaseItemForm {
+    product_variant_id: string;
+    product_name: string;
+    variant_name: string;
+    quantity: number;
+    unit_cost: number;
+}
+
+type VariantWithProduct = ProductVariant & { product: Product };
+
+const selectStyle = { backgroundColor: '#1C1C1C', color: '#EDEDED' };
+
+export function PurchaseOrderModal({ supplier, onClose, onCreated }: PurchaseOrderModalProps) {
+    const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+    const [supplierId, setSupplierId] = useState(supplier?.id || "");
+    const [variants, setVariants] = useState<VariantWithProduct[]>([]);
+    const [items, setItems] = useState<PurchaseItemForm[]>([]);
+    const [productSearch, setProductSearch] = useState("");
+    const [notes, setNotes] = useState("");
+    const [hasInvoice, setHasInvoice] = useState(supplier?.provides_invoice ?? false);
+    const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState("");
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadInitialData();
+    }, []);
+
+    async function loadInitialData() {
+        try {
+            const [variantsData, suppliersData] = await Promise.all([
+                getPurchasableVariants(),
+                supplier ? Promise.resolve([]) : getSuppliers()
+            ]);
+            setVariants(variantsData);
+            setSuppliers(suppliersData);
+        } catch (err) {
+            console.error("Error loading initial data:", err);
+            setError("Error al cargar los productos");
+        }
+    }
+
+    function handleSupplierChange(id: string) {
+        setSupplierId(id);
+        setHasInvoice(suppliers.find(s => s.id === id)?.provides_invoice ?? false);
+    }
+
+    function addItem(variant: VariantWithProduct) {
+        const existingIndex = items.findIndex(i => i.product_variant_id === variant.id);
+
+        if (existingIndex >= 0) {
+            updateItem(existingIndex, { quantity: items[existingIndex].quantity + 1 });
+        } else {
+            setItems([...items, {
+                product_variant_id: variant.id,
+                product_name: variant.product.name,
+                variant_name: variant.name,
+                quantity: 1,
+                unit_cost: variant.cost_price ?? variant.product.cost_price ?? 0
+            }]);
+        }
+        setProductSearch("");
+    }
+
+    function updateItem(index: number, changes: Partial<PurchaseItemForm>) {
+        setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
+    }
+
+    function removeItem(index: number) {
+        setItems(items.filter((_, i) => i !== index));
+    }
+
+    const total = items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+
+        if (!supplierId) {
+            setError("Seleccioná un proveedor");
+            return;
+        }
+        if (items.length === 0) {
+            setError("Debe agregar al menos un producto");
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            // El número de orden y los totales se calculan al registrarla
+            await createPurchaseOrder(
+                {
+                    supplier_id: supplierId,
+                    notes: notes.trim() || null,
+                    has_invoice: hasInvoice,
+                    supplier_invoice_number: hasInvoice ? supplierInvoiceNumber.trim() || null : null
+                },
+                items.map(item => ({
+                    product_variant_id: item.product_variant_id,
+                    product_name: `${item.product_name} - ${item.variant_name}`,
+                    quantity: item.quantity,
+                    unit_cost: item.unit_cost
+                }))
+            );
+            onCreated();
+        } catch (err) {
+            console.error("Error creating purchase order:", err);
+            setError(err instanceof Error ? err.message : "Error al crear la orden de compra");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const filteredVariants = variants.filter(v =>
+        productSearch.length >= 2 && (
+            v.product.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+            v.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+            v.sku?.toLowerCase().includes(productSearch.toLowerCase())
+        )
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Nueva orden de compra</h2>
+                        {supplier && <p className="text-sm text-muted-foreground">{supplier.name}</p>}
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        {/* Supplier */}
+                        {!supplier && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">
+                                    Proveedor <span className="text-red-500">*</span>
+                                </label>
+                                <select
+                                    value={supplierId}
+                                    onChange={(e) => handleSupplierChange(e.target.value)}
+                                    className="input"
+                                    style={selectStyle}
+                                    required
+                                >
+                                    <option value="" style={selectStyle}>Seleccionar proveedor...</option>
+                                    {suppliers.map(s => (
+                                        <option key={s.id} value={s.id} style={selectStyle}>{s.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {/* Products */}
+                        <div className="p-4 border border-[var(--border)] rounded-lg">
+                            <div className="flex items-center gap-2 mb-3">
+                                <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                                <span className="font-medium">Productos</span>
+                            </div>
+
+                            <div className="relative mb-4">
+                                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                                <input
+                                    type="text"
+                                    placeholder="Buscar producto..."
+                                    value={productSearch}
+                                    onChange={(e) => setProductSearch(e.target.value)}
+                                    className="input pl-10 text-sm"
+                                />
+                                {filteredVariants.length > 0 && (
+                                    <div className="absolute z-10 w-full mt-1 bg-white dark:bg-[#1C1C1C] border border-[var(--border)] rounded-md shadow-lg max-h-48 overflow-y-auto">
+                                        {filteredVariants.map(v => (
+                                            <button
+                                                key={v.id}
+                                                type="button"
+                                                onClick={() => addItem(v)}
+                                                className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-[#333] text-sm flex justify-between items-center"
+                                            >
+                                                <div>
+                                                    <p className="font-medium">{v.product.name}</p>
+                                                    <p className="text-xs text-muted-foreground">{v.name} • Stock: {v.stock_quantity}</p>
+                                                </div>
+                                                <span className="text-xs text-muted-foreground">
+                                                    Costo ${(v.cost_price ?? v.product.cost_price ?? 0).toLocaleString('es-AR')}
+                                                </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            {items.length === 0 ? (
+                                <p className="text-center text-muted-foreground text-sm py-4">
+                                    Busca y agrega los productos a comprar
+                                </p>
+                            ) : (
+                                <div className="space-y-2">
+                                    {items.map((item, index) => (
+                                        <div key={item.product_variant_id} className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-[#252525] rounded-md">
+                                            <div className="flex-1">
+                                                <p className="font-medium text-sm">{item.product_name}</p>
+                                                <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    type="number"
+                                                    value={item.quantity}
+                                                    onChange={(e) => updateItem(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                                                    className="input w-16 text-center text-sm"
+                                                    min="1"
+                                                    title="Cantidad"
+                                                />
+                                                <div className="relative w-28">
+                                                    <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+                                                    <input
+                                                        type="number"
+                                                        value={item.unit_cost}
+                                                        onChange={(e) => updateItem(index, { unit_cost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                        className="input pl-6 text-sm text-right"
+                                                        min="0"
+                                                        step="0.01"
+                                                        title="Costo unitario"
+                                                    />
+                                                </div>
+                                                <span className="text-sm font-bold w-24 text-right">
+                                                    ${(item.quantity * item.unit_cost).toLocaleString('es-AR')}
+                                                </span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => removeItem(index)}
+                                                    className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                                                >
+                                                    <Trash2 className="h-4 w-4 text-red-500" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Invoice */}
+                        <div className="flex items-center gap-4">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    id="has_invoice"
+                                    checked={hasInvoice}
+                                    onChange={(e) => setHasInvoice(e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300"
+                                />
+                                <label htmlFor="has_invoice" className="text-sm">Con factura</label>
+                            </div>
+                            {hasInvoice && (
+                                <input
+                                    type="text"
+                                    placeholder="Nº factura del proveedor"
+                                    value={supplierInvoiceNumber}
+                                    onChange={(e) => setSupplierInvoiceNumber(e.target.value)}
+                                    className="input flex-1 font-mono text-sm"
+                                />
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Notas</label>
+                            <textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                className="input min-h-[60px] resize-none"
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <span className="text-sm">
+                            Total <span className="font-bold">${total.toLocaleString('es-AR')}</span>
+                        </span>
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="btn btn-outline"
+                                disabled={loading}
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={loading || items.length === 0}
+                                className="btn btn-primary"
+                            >
+                                {loading ? "Guardando..." : "Crear Orden"}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
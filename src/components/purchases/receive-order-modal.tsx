@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { X, PackageCheck } from "lucide-react";
+import { receivePurchaseOrder } from "@/src/lib/api";
+import type { PurchaseOrder } from "@/src/lib/types";
+
+interface ReceiveOrderModalProps {
+    order: PurchaseOrder;
+    onClose: () => void;
+    onReceived: () => void;
+}
+
+export function ReceiveOrderModal({ order, onClose, onReceived }: ReceiveOrderModalProps) {
+    const items = order.items || [];
+
+    // Cantidad a recibir por línea; por defecto todo lo pendiente
+    const [quantities, setQuantities] = useState<Record<string, number>>(
+        Object.fromEntries(items.map(item => [item.id, item.quantity - item.quantity_received]))
+    );
+    const [notes, setNotes] = useState("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    function setQuantity(itemId: string, value: number, pending: number) {
+        setQuantities({ ...quantities, [itemId]: Math.min(Math.max(0, value), pending) });
+    }
+
+    const totalUnits = Object.values(quantities).reduce((sum, q) => sum + q, 0);
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (totalUnits === 0) return;
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            await receivePurchaseOrder(
+                order.id,
+                Object.entries(quantities).map(([purchase_item_id, quantity]) => ({ purchase_item_id, quantity })),
+                notes.trim() || undefined
+            );
+            onReceived();
+        } catch (err) {
+            console.error("Error receiving purchase order:", err);
+            setError(err instanceof Error ? err.message : "Error al registrar la recepción");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Recibir {order.order_number}</h2>
+                        <p className="text-sm text-muted-foreground">
+                            Lo recibido ingresa al stock de cada variante
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <table className="w-full text-sm">
+                            <thead className="border-b border-[var(--border)]">
+                                <tr className="text-left text-xs text-muted-foreground uppercase">
+                                    <th className="px-2 py-2">Producto</th>
+                                    <th className="px-2 py-2 text-right">Pedido</th>
+                                    <th className="px-2 py-2 text-right">Recibido</th>
+                                    <th className="px-2 py-2 text-right">A recibir</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-[var(--border)]">
+                                {items.map(item => {
+                                    const pending = item.quantity - item.quantity_received;
+                                    return (
+                                        <tr key={item.id} className={pending === 0 ? 'opacity-50' : ''}>
+                                            <td className="px-2 py-2">
+                                                {item.product_name}
+                                                {!item.product_variant_id && (
+                                                    <span className="block text-xs text-orange-500">Variante eliminada: no suma stock</span>
+                                                )}
+                                            </td>
+                                            <td className="px-2 py-2 text-right">{item.quantity}</td>
+                                            <td className="px-2 py-2 text-right">{item.quantity_received}</td>
+                                            <td className="px-2 py-2 text-right">
+                                                <input
+                                                    type="number"
+                                                    value={quantities[item.id] ?? 0}
+                                                    onChange={(e) => setQuantity(item.id, parseInt(e.target.value) || 0, pending)}
+                                                    className="input w-20 text-center text-sm ml-auto"
+                                                    min="0"
+                                                    max={pending}
+                                                    disabled={pending === 0}
+                                                />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Notas de la recepción</label>
+                            <input
+                                type="text"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                className="input"
+                                placeholder="Remito, faltantes, etc."
+                            />
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <span className="text-sm text-muted-foreground">
+                            {totalUnits} unidad{totalUnits !== 1 ? 'es' : ''} a ingresar
+                        </span>
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="btn btn-outline"
+                                disabled={loading}
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={loading || totalUnits === 0}
+                                className="btn btn-primary flex items-center gap-2"
+                            >
+                                <PackageCheck className="h-4 w-4" />
+                                {loading ? "Registrando..." : "Registrar recepción"}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, FileText, Loader2, User, Download, Undo2, Calculator } from "lucide-react";
+import { getFeeSettings } from "@/src/lib/api";
+import { getSaleNetProceeds, ML_LISTING_TYPE_LABELS, type FeeSettings } from "@/src/lib/marketplace-fees";
+import type { Invoice, SaleWithRelations } from "@/src/lib/types";
+
+interface SaleDetailModalProps {
+    sale: SaleWithRelations;
+    onClose: () => void;
+}
+
+export function SaleDetailModal({ sale, onClose }: SaleDetailModalProps) {
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [loadingInvoices, setLoadingInvoices] = useState(true);
+    const [issuing, setIssuing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [creditingId, setCreditingId] = useState<string | null>(null);
+    const [creditForm, setCreditForm] = useState({ amount: "", reason: "" });
+    const [issuingCredit, setIssuingCredit] = useState(false);
+    const [feeSettings, setFeeSettings] = useState<FeeSettings | null>(null);
+
+    useEffect(() => {
+        loadInvoices();
+        loadFeeSettings();
+    }, [sale.id]);
+
+    async function loadFeeSettings() {
+        try {
+            setFeeSettings(await getFeeSettings());
+        } catch (err) {
+            console.error("Error loading fee settings:", err);
+        }
+    }
+
+    async function loadInvoices() {
+        try {
+            setLoadingInvoices(true);
+            const res = await fetch(`/api/invoices?sale_id=${sale.id}`);
+            const json = await res.json();
+            setInvoices(json.invoices || []);
+        } catch (err) {
+            console.error("Error loading invoices:", err);
+        } finally {
+            setLoadingInvoices(false);
+        }
+    }
+
+    async function handleIssueInvoice() {
+        try {
+            setIssuing(true);
+            setError(null);
+            const res = await fetch('/api/invoices', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ sale_id: sale.id })
+            });
+            const json = await res.json();
+
+            if (!json.success) {
+                setError(json.details ? `${json.error}: ${json.details}` : json.error);
+                return;
+            }
+            await loadInvoices();
+        } catch (err) {
+            console.error("Error issuing invoice:", err);
+            setError("Error al emitir la factura");
+        } finally {
+            setIssuing(false);
+        }
+    }
+
+    function openCreditForm(invoice: Invoice) {
+        setCreditingId(invoice.id);
+        setCreditForm({ amount: "", reason: "" });
+        setError(null);
+    }
+
+    async function handleIssueCreditNote(invoice: Invoice) {
+        const amount = creditForm.amount.trim() === "" ? undefined : parseFloat(creditForm.amount.replace(',', '.'));
+        if (amount !== undefined && (isNaN(amount) || amount <= 0)) {
+            setError("Ingresá un monto válido o dejalo vacío para anular el saldo");
+            return;
+        }
+
+        try {
+            setIssuingCredit(true);
+            setError(null);
+            const res = await fetch(`/api/invoices/${invoice.id}/credit-note`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ amount, reason: creditForm.reason })
+            });
+            const json = await res.json();
+
+            if (!json.success) {
+                setError(json.details ? `${json.error}: ${json.details}` : json.error);
+                return;
+            }
+            setCreditingId(null);
+            await loadInvoices();
+        } catch (err) {
+            console.error("Error issuing credit note:", err);
+            setError("Error al emitir la nota de crédito");
+        } finally {
+            setIssuingCredit(false);
+        }
+    }
+
+    // Saldo de una factura descontando sus notas de crédito
+    function getRemaining(invoice: Invoice): number {
+        const credited = invoices
+            .filter(i => i.voucher_kind === 'credit_note' && i.original_invoice_id === invoice.id && i.status === 'issued')
+            .reduce((sum, i) => sum + i.total, 0);
+        return Math.round((invoice.total - credited) * 100) / 100;
+    }
+
+    const proceeds = feeSettings && sale.status !== 'cancelled' ? getSaleNetProceeds(feeSettings, sale) : null;
+    const formatMoney = (value: number) => `$${Math.round(value).toLocaleString('es-AR')}`;
+
+    const hasIssuedInvoice = invoices.some(i => i.voucher_kind === 'invoice' && i.status === 'issued');
+    const canInvoice = !hasIssuedInvoice && sale.status !== 'cancelled';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <div>
+                        <h2 className="text-xl font-semibold">Venta {sale.sale_number}</h2>
+                        <p className="text-sm text-muted-foreground">
+                            {new Date(sale.created_at).toLocaleDateString('es-AR', {
+                                day: '2-digit',
+                                month: '2-digit',
+                                year: 'numeric',
+                                hour: '2-digit',
+                                minute: '2-digit'
+                            })} · {sale.channel}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto max-h-[75vh] space-y-6">
+                    {error && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Customer */}
+                    <div className="flex items-center gap-2 text-sm">
+                        <User className="h-4 w-4 text-muted-foreground" />
+                        {sale.customer ? (
+                            <span>
+                                {sale.customer.name}
+                                {sale.customer.document_number && ` · ${sale.customer.document_type || 'Doc'} ${sale.customer.document_number}`}
+                                {` · ${sale.customer.tax_condition || 'Consumidor Final'}`}
+                            </span>
+                        ) : (
+                            <span className="text-muted-foreground">Consumidor Final (sin cliente)</span>
+                        )}
+                    </div>
+
+                    {/* Items */}
+                    <div className="border border-[var(--border)] rounded-lg overflow-hidden">
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-50 dark:bg-[#252525] border-b border-[var(--border)]">
+                                <tr className="text-left text-xs text-muted-foreground uppercase">
+                                    <th className="px-4 py-2">Producto</th>
+                                    <th className="px-4 py-2 text-center">Cant.</th>
+                                    <th className="px-4 py-2 text-right">Unitario</th>
+                                    <th className="px-4 py-2 text-right">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-[var(--border)]">
+                                {sale.items.map(item => (
+                                    <tr key={item.id}>
+                                        <td className="px-4 py-2">{item.product_name}</td>
+                                        <td className="px-4 py-2 text-center">{item.quantity}</td>
+                                        <td className="px-4 py-2 text-right">${item.unit_price.toLocaleString('es-AR')}</td>
+                                        <td className="px-4 py-2 text-right font-medium">${item.total_price.toLocaleString('es-AR')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="p-4 bg-gray-50 dark:bg-[#252525] space-y-1 text-sm">
+                            <div className="flex justify-between">
+                                <span>Subtotal</span>
+                                <span>${sale.subtotal.toLocaleString('es-AR')}</span>
+                            </div>
+                            {sale.discount > 0 && (
+                                <div className="flex justify-between">
+                                    <span>Descuento</span>
+                                    <span>-${sale.discount.toLocaleString('es-AR')}</span>
+                                </div>
+                            )}
+                            {sale.shipping_cost > 0 && (
+                                <div className="flex justify-between">
+                                    <span>Envío</span>
+                                    <span>${sale.shipping_cost.toLocaleString('es-AR')}</span>
+                                </div>
+                            )}
+                            <div className="flex justify-between font-bold text-base pt-1 border-t border-[var(--border)]">
+                                <span>Total</span>
+                                <span>${sale.total.toLocaleString('es-AR')}</span>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Net Proceeds */}
+                    {proceeds && feeSettings && (
+                        <div className="p-4 border border-[var(--border)] rounded-lg text-sm space-y-1">
+                            <div className="flex items-center gap-2 mb-2">
+                                <Calculator className="h-4 w-4 text-muted-foreground" />
+                                <span className="font-medium">Neto y margen</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>Cobrado</span>
+                                <span>{formatMoney(proceeds.gross)}</span>
+                            </div>
+                            {proceeds.commission > 0 && (
+                                <div className="flex justify-between text-muted-foreground">
+                                    <span>Comisión ML ({ML_LISTING_TYPE_LABELS[feeSettings.ml_listing_type]} {feeSettings.ml_commission_percent[feeSettings.ml_listing_type]}%)</span>
+                                    <span>-{formatMoney(proceeds.commission)}</span>
+                                </div>
+                            )}
+                            {proceeds.fixedFee > 0 && (
+                                <div className="flex justify-between text-muted-foreground">
+                                    <span>Cargo fijo ML</span>
+                                    <span>-{formatMoney(proceeds.fixedFee)}</span>
+                                </div>
+                            )}
+                            {proceeds.shipping > 0 && (
+                                <div className="flex justify-between text-muted-foreground">
+                                    <span>Envío a cargo</span>
+                                    <span>-{formatMoney(proceeds.shipping)}</span>
+                                </div>
+                            )}
+                            {proceeds.channelFee > 0 && (
+                                <div className="flex justify-between text-muted-foreground">
+                                    <span>Costo de cobro</span>
+                                    <span>-{formatMoney(proceeds.channelFee)}</span>
+                                </div>
+                            )}
+                            {proceeds.iibb > 0 && (
+                                <div className="flex justify-between text-muted-foreground">
+                                    <span>IIBB + gastos ({feeSettings.iibb_percent}%)</span>
+                                    <span>-{formatMoney(proceeds.iibb)}</span>
+                                </div>
+                            )}
+                            <div className="flex justify-between font-medium pt-1 border-t border-[var(--border)]">
+                                <span>Neto</span>
+                                <span>{formatMoney(proceeds.net)}</span>
+                            </div>
+                            <div className="flex justify-between text-muted-foreground">
+                                <span>Costo de la mercadería</span>
+                                <span>-{formatMoney(proceeds.cost)}</span>
+                            </div>
+                            <div className="flex justify-between font-bold">
+                                <span>Ganancia</span>
+                                <span className={proceeds.profit < 0 ? 'text-red-500' : ''}>
+                                    {formatMoney(proceeds.profit)}
+                                    {proceeds.margin != null && ` (${proceeds.margin.toFixed(1)}%)`}
+                                </span>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Invoices */}
+                    <div className="p-4 border border-[var(--border)] rounded-lg">
+                        <div className="flex items-center justify-between mb-3">
+                            <div className="flex items-center gap-2">
+                                <FileText className="h-4 w-4 text-muted-foreground" />
+                                <span className="font-medium">Facturación</span>
+                                {loadingInvoices && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                            </div>
+                            {canInvoice && !loadingInvoices && (
+                                <button
+                                    onClick={handleIssueInvoice}
+                                    disabled={issuing}
+                                    className="btn btn-primary text-sm"
+                                >
+                                    {issuing ? (
+                                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    ) : (
+                                        <FileText className="h-4 w-4 mr-2" />
+                                    )}
+                                    Emitir factura
+                                </button>
+                            )}
+                        </div>
+
+                        {invoices.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                {loadingInvoices ? 'Cargando...' : 'Sin comprobantes emitidos'}
+                            </p>
+                        ) : (
+                            <div className="space-y-2">
+                                {invoices.map(invoice => {
+                                    const isCreditNote = invoice.voucher_kind === 'credit_note';
+                                    const canCredit = !isCreditNote && invoice.status === 'issued';
+                                    return (
+                                        <div key={invoice.id} className="p-2 bg-gray-50 dark:bg-[#252525] rounded-md text-sm">
+                                            <div className="flex items-center justify-between gap-4">
+                                                <div>
+                                                    <p className="font-medium font-mono">
+                                                        {isCreditNote ? 'Nota de crédito' : 'Factura'} {invoice.invoice_number}
+                                                        {invoice.status === 'cancelled' && (
+                                                            <span className="ml-2 text-xs text-red-500 font-sans">Anulada</span>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        CAE {invoice.cae} · Vto. {invoice.cae_expiration && new Date(`${invoice.cae_expiration}T00:00:00`).toLocaleDateString('es-AR')}
+                                                        {invoice.credit_reason && ` · ${invoice.credit_reason}`}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-3">
+                                                    <span className={`font-bold ${isCreditNote ? 'text-red-500' : ''}`}>
+                                                        {isCreditNote && '-'}${invoice.total.toLocaleString('es-AR')}
+                                                    </span>
+                                                    {canCredit && (
+                                                        <button
+                                                            onClick={() => openCreditForm(invoice)}
+                                                            className="p-1.5 hover:bg-gray-200 dark:hover:bg-[#333] rounded-md"
+                                                            title="Emitir nota de crédito"
+                                                        >
+                                                            <Undo2 className="h-4 w-4" />
+                                                        </button>
+                                                    )}
+                                                    <a
+                                                        href={invoice.pdf_url || `/api/invoices/${invoice.id}/pdf`}
+                                                        className="p-1.5 hover:bg-gray-200 dark:hover:bg-[#333] rounded-md"
+                                                        title="Descargar PDF"
+                                                    >
+                                                        <Download className="h-4 w-4" />
+                                                    </a>
+                                                </div>
+                                            </div>
+
+                                            {creditingId === invoice.id && (
+                                                <div className="mt-3 pt-3 border-t border-[var(--border)] flex flex-wrap items-end gap-2">
+                                                    <div>
+                                                        <label className="block text-xs text-muted-foreground mb-1">
+                                                            Monto (saldo ${getRemaining(invoice).toLocaleString('es-AR')})
+                                                        </label>
+                                                        <input
+                                                            type="text"
+                                                            inputMode="decimal"
+                                                            placeholder="Total"
+                                                            value={creditForm.amount}
+                                                            onChange={(e) => setCreditForm({ ...creditForm, amount: e.target.value })}
+                                                            className="input w-32"
+                                                        />
+                                                    </div>
+                                                    <div className="flex-1 min-w-[160px]">
+                                                        <label className="block text-xs text-muted-foreground mb-1">Motivo</label>
+                                                        <input
+                                                            type="text"
+                                                            placeholder="Devolución, descuento, error..."
+                                                            value={creditForm.reason}
+                                                            onChange={(e) => setCreditForm({ ...creditForm, reason: e.target.value })}
+                                                            className="input"
+                                                        />
+                                                    </div>
+                                                    <button
+                                                        onClick={() => setCreditingId(null)}
+                                                        className="btn btn-outline text-sm"
+                                                    >
+                                                        Cancelar
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleIssueCreditNote(invoice)}
+                                                        disabled={issuingCredit}
+                                                        className="btn btn-primary text-sm"
+                                                    >
+                                                        {issuingCredit && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                                        Emitir nota de crédito
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
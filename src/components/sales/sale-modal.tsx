@@ -7,14 +7,16 @@ import {
     getNextSaleNumber,
     getProductVariantsWithProduct,
     searchCustomers,
-    createCustomer
+    createCustomer,
+    SaleCreationError
 } from "@/src/lib/api";
 import type {
     SaleChannel,
     ProductVariant,
     Product,
     Customer,
-    CustomerInsert
+    CustomerInsert,
+    SaleLineError
 } from "@/src/lib/types";
 
 interface SaleModalProps {
@@ -69,11 +71,16 @@ export function SaleModal({ onClose }: SaleModalProps) {
 
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [lineErrors, setLineErrors] = useState<SaleLineError[]>([]);
 
     useEffect(() => {
         loadInitialData();
     }, []);
 
+    useEffect(() => {
+        loadSaleNumberPreview();
+    }, [channel]);
+
     useEffect(() => {
         if (customerSearch.length >= 2) {
             searchCustomersDebounced();
@@ -84,17 +91,22 @@ export function SaleModal({ onClose }: SaleModalProps) {
 
     async function loadInitialData() {
         try {
-            const [nextNumber, variantsData] = await Promise.all([
-                getNextSaleNumber(),
-                getProductVariantsWithProduct()
-            ]);
-            setSaleNumber(nextNumber);
+            const variantsData = await getProductVariantsWithProduct();
             setVariants(variantsData);
         } catch (err) {
             console.error("Error loading initial data:", err);
         }
     }
 
+    async function loadSaleNumberPreview() {
+        try {
+            setSaleNumber(await getNextSaleNumber(channel));
+        } catch (err) {
+            console.error("Error loading sale number preview:", err);
+            setSaleNumber("");
+        }
+    }
+
     async function searchCustomersDebounced() {
         try {
             const results = await searchCustomers(customerSearch);
@@ -129,6 +141,7 @@ export function SaleModal({ onClose }: SaleModalProps) {
                 max_stock: variant.stock_quantity
             }]);
         }
+        setLineErrors([]);
         setProductSearch("");
     }
 
@@ -139,10 +152,19 @@ export function SaleModal({ onClose }: SaleModalProps) {
         updatedItems[index].quantity = newQty;
         updatedItems[index].total_price = newQty * updatedItems[index].unit_price;
         setItems(updatedItems);
+        setLineErrors(lineErrors.filter(e => e.index !== index));
     }
 
     function removeItem(index: number) {
         setItems(items.filter((_, i) => i !== index));
+        setLineErrors([]);
+    }
+
+    function getLineErrorMessage(lineError: SaleLineError): string {
+        if (lineError.code === 'variant_not_found') {
+            return "El producto ya no existe";
+        }
+        return `Stock insuficiente: pedidos ${lineError.requested}, disponibles ${lineError.available ?? 0}`;
     }
 
     function calculateSubtotal(): number {
@@ -178,10 +200,11 @@ export function SaleModal({ onClose }: SaleModalProps) {
 
         setLoading(true);
         setError(null);
+        setLineErrors([]);
 
         try {
+            // El número de venta se asigna al registrarla (puede diferir de la vista previa)
             const saleData = {
-                sale_number: saleNumber,
                 channel,
                 customer_id: selectedCustomer?.id || null,
                 ml_order_id: null,
@@ -207,7 +230,17 @@ export function SaleModal({ onClose }: SaleModalProps) {
             onClose();
         } catch (err) {
             console.error("Error creating sale:", err);
-            setError("Error al registrar la venta");
+            if (err instanceof SaleCreationError) {
+                // Actualizar el stock disponible de las líneas con error
+                setItems(items.map((item, index) => {
+                    const lineError = err.lineErrors.find(e => e.index === index);
+                    return lineError?.available != null ? { ...item, max_stock: lineError.available } : item;
+                }));
+                setLineErrors(err.lineErrors);
+                setError(err.message);
+            } else {
+                setError("Error al registrar la venta");
+            }
         } finally {
             setLoading(false);
         }
@@ -230,7 +263,9 @@ export function SaleModal({ onClose }: SaleModalProps) {
                 <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
                     <div>
                         <h2 className="text-xl font-semibold">Nueva Venta</h2>
-                        <p className="text-sm text-muted-foreground">Nº {saleNumber}</p>
+                        <p className="text-sm text-muted-foreground" title="El número definitivo se asigna al registrar la venta">
+                            Nº {saleNumber || "—"} <span className="text-xs">(provisorio)</span>
+                        </p>
                     </div>
                     <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md">
                         <X className="h-5 w-5" />
@@ -395,34 +430,43 @@ export function SaleModal({ onClose }: SaleModalProps) {
                                 </p>
                             ) : (
                                 <div className="space-y-2">
-                                    {items.map((item, index) => (
-                                        <div key={index} className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-[#252525] rounded-md">
-                                            <div className="flex-1">
-                                                <p className="font-medium text-sm">{item.product_name}</p>
-                                                <p className="text-xs text-muted-foreground">{item.variant_name}</p>
-                                            </div>
-                                            <div className="flex items-center gap-2">
-                                                <input
-                                                    type="number"
-                                                    value={item.quantity}
-                                                    onChange={(e) => updateItemQuantity(index, parseInt(e.target.value) || 1)}
-                                                    className="input w-16 text-center text-sm"
-                                                    min="1"
-                                                    max={item.max_stock}
-                                                />
-                                                <span className="text-sm font-bold w-24 text-right">
-                                                    ${item.total_price.toLocaleString('es-AR')}
-                                                </span>
-                                                <button
-                                                    type="button"
-                                                    onClick={() => removeItem(index)}
-                                                    className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
-                                                >
-                                                    <Trash2 className="h-4 w-4 text-red-500" />
-                                                </button>
+                                    {items.map((item, index) => {
+                                        const lineError = lineErrors.find(e => e.index === index);
+                                        return (
+                                            <div
+                                                key={index}
+                                                className={`flex items-center gap-3 p-2 bg-gray-50 dark:bg-[#252525] rounded-md ${lineError ? 'border border-red-500' : ''}`}
+                                            >
+                                                <div className="flex-1">
+                                                    <p className="font-medium text-sm">{item.product_name}</p>
+                                                    <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                                                    {lineError && (
+                                                        <p className="text-xs text-red-500 mt-1">{getLineErrorMessage(lineError)}</p>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        type="number"
+                                                        value={item.quantity}
+                                                        onChange={(e) => updateItemQuantity(index, parseInt(e.target.value) || 1)}
+                                                        className="input w-16 text-center text-sm"
+                                                        min="1"
+                                                        max={item.max_stock}
+                                                    />
+                                                    <span className="text-sm font-bold w-24 text-right">
+                                                        ${item.total_price.toLocaleString('es-AR')}
+                                                    </span>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => removeItem(index)}
+                                                        className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                                                    >
+                                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                                    </button>
+                                                </div>
                                             </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
                             )}
                         </div>
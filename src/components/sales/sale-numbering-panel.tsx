@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Hash, Loader2, Save } from "lucide-react";
+import {
+    DEFAULT_SALE_NUMBER_PREFIXES,
+    getNextSaleNumber,
+    getSaleNumberPrefixes,
+    updateSaleNumberPrefixes
+} from "@/src/lib/api";
+import type { SaleChannel } from "@/src/lib/types";
+
+const channelLabels: Record<SaleChannel, string> = {
+    'Presencial': 'Presencial',
+    'ML': 'Mercado Libre',
+    'Instagram': 'Instagram',
+    'WhatsApp': 'WhatsApp',
+};
+
+const CHANNELS = Object.keys(channelLabels) as SaleChannel[];
+
+// Letras y números, sin guiones (el guion separa prefijo y número)
+const PREFIX_PATTERN = /^[A-Z0-9]{1,6}$/;
+
+export function SaleNumberingPanel() {
+    const [prefixes, setPrefixes] = useState<Record<SaleChannel, string>>(DEFAULT_SALE_NUMBER_PREFIXES);
+    const [previews, setPreviews] = useState<Partial<Record<SaleChannel, string>>>({});
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadPrefixes();
+    }, []);
+
+    async function loadPrefixes() {
+        try {
+            setLoading(true);
+            setPrefixes(await getSaleNumberPrefixes());
+            await loadPreviews();
+        } catch (err) {
+            console.error("Error loading sale number prefixes:", err);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function loadPreviews() {
+        const numbers = await Promise.all(CHANNELS.map(channel => getNextSaleNumber(channel)));
+        setPreviews(Object.fromEntries(CHANNELS.map((channel, i) => [channel, numbers[i]])));
+    }
+
+    async function save() {
+        const invalid = CHANNELS.filter(channel => !PREFIX_PATTERN.test(prefixes[channel]));
+        if (invalid.length > 0) {
+            setError(`Prefijo inválido para ${invalid.map(c => channelLabels[c]).join(', ')}: usar de 1 a 6 letras o números`);
+            return;
+        }
+
+        try {
+            setSaving(true);
+            setError(null);
+            await updateSaleNumberPrefixes(prefixes);
+            await loadPreviews();
+        } catch (err) {
+            console.error("Error saving sale number prefixes:", err);
+            setError("Error al guardar los prefijos");
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+                <h3 className="font-semibold flex items-center gap-2">
+                    <Hash className="h-4 w-4" />
+                    Numeración de ventas
+                    {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </h3>
+                <button
+                    onClick={save}
+                    disabled={saving || loading}
+                    className="btn btn-primary"
+                >
+                    {saving ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                        <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Guardar
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {CHANNELS.map(channel => (
+                    <div key={channel}>
+                        <label className="block text-sm font-medium mb-1">{channelLabels[channel]}</label>
+                        <input
+                            type="text"
+                            value={prefixes[channel]}
+                            onChange={(e) => setPrefixes({ ...prefixes, [channel]: e.target.value.toUpperCase() })}
+                            className="input font-mono"
+                            maxLength={6}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                            Próxima: <span className="font-mono">{previews[channel] || '—'}</span>
+                        </p>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+                Cada canal lleva su propia numeración. Las ventas importadas de Mercado Libre conservan el número de la orden (ML-…).
+            </p>
+        </div>
+    );
+}
@@ -11,7 +11,8 @@ import {
     Users,
     BarChart3,
     Settings,
-    LogOut
+    LogOut,
+    MessageCircle
 } from "lucide-react";
 import { cn } from "@/src/lib/utils";
 
@@ -20,6 +21,7 @@ const menuItems = [
     { name: "Ventas", href: "/ventas", icon: ShoppingBag },
     { name: "Productos", href: "/productos", icon: Package },
     { name: "Precios", href: "/precios", icon: DollarSign },
+    { name: "Preguntas", href: "/preguntas", icon: MessageCircle },
     { name: "Facturación", href: "/facturacion", icon: FileText },
     { name: "Proveedores", href: "/proveedores", icon: Users },
     { name: "Competencia", href: "/competencia", icon: BarChart3 },
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { createSupplier, updateSupplier } from "@/src/lib/api";
+import { formatCuit, isValidCuit } from "@/src/lib/cuit";
+import type { Supplier, SupplierInsert } from "@/src/lib/types";
+
+interface SupplierModalProps {
+    supplier: Supplier | null;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+export function SupplierModal({ supplier, onClose, onSaved }: SupplierModalProps) {
+    const isEditing = !!supplier;
+
+    const [formData, setFormData] = useState({
+        name: supplier?.name || "",
+        cuit: supplier?.cuit ? formatCuit(supplier.cuit) : "",
+        contact_name: supplier?.contact_name || "",
+        phone: supplier?.phone || "",
+        email: supplier?.email || "",
+        address: supplier?.address || "",
+        notes: supplier?.notes || "",
+        provides_invoice: supplier?.provides_invoice ?? false,
+        lead_time_days: supplier?.lead_time_days ?? 7,
+        safety_stock_days: supplier?.safety_stock_days ?? 7,
+    });
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const cuitError = formData.cuit.trim() !== "" && !isValidCuit(formData.cuit)
+        ? "CUIT inválido (revisá el dígito verificador)"
+        : null;
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (cuitError) return;
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const supplierData: SupplierInsert = {
+                name: formData.name.trim(),
+                cuit: formData.cuit.trim() || null,
+                contact_name: formData.contact_name || null,
+                phone: formData.phone || null,
+                email: formData.email || null,
+                address: formData.address || null,
+                notes: formData.notes || null,
+                provides_invoice: formData.provides_invoice,
+                lead_time_days: formData.lead_time_days,
+                safety_stock_days: formData.safety_stock_days,
+            };
+
+            if (isEditing) {
+                await updateSupplier(supplier.id, supplierData);
+            } else {
+                await createSupplier(supplierData);
+            }
+
+            onSaved();
+        } catch (err) {
+            console.error("Error saving supplier:", err);
+            setError((err as { code?: string })?.code === '23505'
+                ? "Ya existe un proveedor con ese CUIT"
+                : "Error al guardar el proveedor");
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white dark:bg-[#1C1C1C] rounded-lg shadow-xl w-full max-w-xl max-h-[90vh] overflow-hidden">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-[var(--border)]">
+                    <h2 className="text-xl font-semibold">
+                        {isEditing ? "Editar Proveedor" : "Nuevo Proveedor"}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-[#333] rounded-md transition-colors"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <form onSubmit={handleSubmit}>
+                    <div className="p-6 overflow-y-auto max-h-[65vh] space-y-4">
+                        {error && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-md text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        {/* Name */}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">
+                                Razón social <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                className="input"
+                                required
+                            />
+                        </div>
+
+                        {/* CUIT */}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">CUIT</label>
+                            <input
+                                type="text"
+                                value={formData.cuit}
+                                onChange={(e) => setFormData({ ...formData, cuit: e.target.value })}
+                                onBlur={() => setFormData({ ...formData, cuit: formatCuit(formData.cuit) })}
+                                className={`input font-mono ${cuitError ? 'border-red-500' : ''}`}
+                                placeholder="20-12345678-6"
+                            />
+                            {cuitError && (
+                                <p className="text-xs text-red-500 mt-1">{cuitError}</p>
+                            )}
+                        </div>
+
+                        {/* Contact */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Contacto</label>
+                                <input
+                                    type="text"
+                                    value={formData.contact_name}
+                                    onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                                    className="input"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Teléfono</label>
+                                <input
+                                    type="tel"
+                                    value={formData.phone}
+                                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                                    className="input"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Email</label>
+                            <input
+                                type="email"
+                                value={formData.email}
+                                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                                className="input"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Dirección</label>
+                            <input
+                                type="text"
+                                value={formData.address}
+                                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                                className="input"
+                            />
+                        </div>
+
+                        {/* Reorder */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Plazo de entrega (días)</label>
+                                <input
+                                    type="number"
+                                    value={formData.lead_time_days}
+                                    onChange={(e) => setFormData({ ...formData, lead_time_days: Math.max(0, parseInt(e.target.value) || 0) })}
+                                    className="input"
+                                    min="0"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Stock de seguridad (días)</label>
+                                <input
+                                    type="number"
+                                    value={formData.safety_stock_days}
+                                    onChange={(e) => setFormData({ ...formData, safety_stock_days: Math.max(0, parseInt(e.target.value) || 0) })}
+                                    className="input"
+                                    min="0"
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Notas</label>
+                            <textarea
+                                value={formData.notes}
+                                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                className="input min-h-[80px] resize-none"
+                                rows={3}
+                            />
+                        </div>
+
+                        {/* Provides Invoice */}
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="provides_invoice"
+                                checked={formData.provides_invoice}
+                                onChange={(e) => setFormData({ ...formData, provides_invoice: e.target.checked })}
+                                className="h-4 w-4 rounded border-gray-300"
+                            />
+                            <label htmlFor="provides_invoice" className="text-sm">
+                                Entrega factura
+                            </label>
+                        </div>
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex justify-end gap-3 px-6 py-4 border-t border-[var(--border)] bg-gray-50 dark:bg-[#252525]">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="btn btn-outline"
+                            disabled={loading}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading || !!cuitError}
+                            className="btn btn-primary"
+                        >
+                            {loading ? "Guardando..." : isEditing ? "Guardar Cambios" : "Crear Proveedor"}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
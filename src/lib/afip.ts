@@ -0,0 +1,414 @@
+// Servicio para facturación electrónica con AFIP
+// WSAA (autenticación) y WSFEv1 (factura electrónica, CAE)
+// Documentación: https://www.afip.gob.ar/ws/documentacion/ws-factura-electronica.asp
+import { spawn } from 'child_process'
+
+export type AfipEnvironment = 'production' | 'homologation'
+
+const AFIP_URLS: Record<AfipEnvironment, { wsaa: string; wsfe: string }> = {
+    production: {
+        wsaa: 'https://wsaa.afip.gov.ar/ws/services/LoginCms',
+        wsfe: 'https://servicios1.afip.gov.ar/wsfev1/service.asmx',
+    },
+    homologation: {
+        wsaa: 'https://wsaahomo.afip.gov.ar/ws/services/LoginCms',
+        wsfe: 'https://wswhomo.afip.gov.ar/wsfev1/service.asmx',
+    },
+}
+
+const WSFE_NAMESPACE = 'http://ar.gov.afip.dif.FEV1/'
+
+// Configuración desde variables de entorno
+function getConfig() {
+    return {
+        environment: (process.env.AFIP_ENV || 'homologation') as AfipEnvironment,
+        certPath: process.env.AFIP_CERT_PATH || '',
+        keyPath: process.env.AFIP_KEY_PATH || '',
+    }
+}
+
+function getUrls() {
+    return AFIP_URLS[getConfig().environment] || AFIP_URLS.homologation
+}
+
+// ============================================
+// CÓDIGOS DE AFIP
+// ============================================
+
+// Tipos de comprobante (FEParamGetTiposCbte)
+export const AFIP_VOUCHER_TYPES = {
+    FACTURA_A: 1,
+    NOTA_CREDITO_A: 3,
+    FACTURA_B: 6,
+    NOTA_CREDITO_B: 8,
+} as const
+
+// Tipos de documento del receptor (FEParamGetTiposDoc)
+export const AFIP_DOC_TYPES = {
+    CUIT: 80,
+    CUIL: 86,
+    DNI: 96,
+    SIN_IDENTIFICAR: 99,
+} as const
+
+// Alícuotas de IVA (FEParamGetTiposIva)
+export const AFIP_IVA_IDS = {
+    IVA_10_5: 4,
+    IVA_21: 5,
+} as const
+
+// Condición frente al IVA del receptor (FEParamGetCondicionIvaReceptor)
+export const AFIP_RECEIVER_CONDITIONS = {
+    RESPONSABLE_INSCRIPTO: 1,
+    EXENTO: 4,
+    CONSUMIDOR_FINAL: 5,
+    MONOTRIBUTO: 6,
+} as const
+
+// Concepto: 1 = Productos
+const CONCEPT_PRODUCTS = 1
+
+// ============================================
+// ERRORES
+// ============================================
+
+export interface AfipMessage {
+    code: string
+    message: string
+}
+
+/**
+ * Error devuelto por AFIP (SOAP fault, Errors o comprobante rechazado).
+ * observations trae las observaciones del comprobante cuando AFIP lo rechaza.
+ */
+export class AfipError extends Error {
+    code: string | null
+    observations: AfipMessage[]
+
+    constructor(message: string, options?: { code?: string | null; observations?: AfipMessage[] }) {
+        super(message)
+        this.name = 'AfipError'
+        this.code = options?.code ?? null
+        this.observations = options?.observations ?? []
+    }
+}
+
+// ============================================
+// SOAP
+// ============================================
+
+/**
+ * Envía un sobre SOAP y devuelve el XML de respuesta
+ */
+async function soapRequest(url: string, soapAction: string, envelope: string): Promise<string> {
+    let response: Response
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'text/xml; charset=utf-8',
+                'SOAPAction': soapAction,
+            },
+            body: envelope,
+        })
+    } catch (err) {
+        throw new AfipError(`AFIP no respondió: ${err instanceof Error ? err.message : 'Network error'}`)
+    }
+
+    const xml = await response.text()
+    if (!response.ok) {
+        const fault = getTagValue(xml, 'faultstring')
+        throw new AfipError(`AFIP Error: ${fault || response.statusText}`, { code: getTagValue(xml, 'faultcode') })
+    }
+    return xml
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+export function unescapeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+}
+
+type XmlValue = string | number | XmlNode | XmlNode[]
+interface XmlNode { [tag: string]: XmlValue }
+
+// Serializa un objeto a elementos XML con prefijo (los arrays repiten el elemento)
+export function toXml(node: XmlNode, prefix: string = 'ar'): string {
+    return Object.entries(node).map(([tag, value]) => {
+        if (Array.isArray(value)) {
+            return value.map(item => `<${prefix}:${tag}>${toXml(item, prefix)}</${prefix}:${tag}>`).join('')
+        }
+        if (typeof value === 'object') {
+            return `<${prefix}:${tag}>${toXml(value, prefix)}</${prefix}:${tag}>`
+        }
+        return `<${prefix}:${tag}>${escapeXml(String(value))}</${prefix}:${tag}>`
+    }).join('')
+}
+
+// Contenido del primer elemento con ese nombre (ignora el prefijo de namespace)
+export function getTagValue(xml: string, tag: string): string | null {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`))
+    return match ? unescapeXml(match[1].trim()) : null
+}
+
+// Contenido (sin desescapar) de todos los elementos con ese nombre
+export function getTagBlocks(xml: string, tag: string): string[] {
+    const regex = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g')
+    return Array.from(xml.matchAll(regex), match => match[1])
+}
+
+function parseMessages(xml: string, tag: 'Err' | 'Obs' | 'Evt'): AfipMessage[] {
+    return getTagBlocks(xml, tag).map(block => ({
+        code: getTagValue(block, 'Code') || '',
+        message: getTagValue(block, 'Msg') || '',
+    }))
+}
+
+function wsfeEnvelope(operation: string, body: XmlNode): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>`
+        + `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ar="${WSFE_NAMESPACE}">`
+        + `<soapenv:Header/><soapenv:Body><ar:${operation}>${toXml(body)}</ar:${operation}></soapenv:Body>`
+        + `</soapenv:Envelope>`
+}
+
+async function callWsfe(operation: string, body: XmlNode): Promise<string> {
+    const xml = await soapRequest(getUrls().wsfe, `${WSFE_NAMESPACE}${operation}`, wsfeEnvelope(operation, body))
+
+    const errorsXml = getTagBlocks(xml, 'Errors')[0]
+    const errors = errorsXml ? parseMessages(errorsXml, 'Err') : []
+    if (errors.length > 0) {
+        throw new AfipError(`AFIP Error: ${errors.map(e => `${e.code} ${e.message}`).join(' | ')}`, { code: errors[0].code })
+    }
+    return xml
+}
+
+// ============================================
+// WSAA (AUTENTICACIÓN)
+// ============================================
+
+export interface AfipTicket {
+    token: string
+    sign: string
+    expires_at: number
+}
+
+export interface AfipAuth {
+    token: string
+    sign: string
+    cuit: string
+}
+
+// Ticket de requerimiento de acceso (TRA), válido por 12 horas
+function buildLoginTicketRequest(service: string): string {
+    const now = Date.now()
+    return `<?xml version="1.0" encoding="UTF-8"?>`
+        + `<loginTicketRequest version="1.0"><header>`
+        + `<uniqueId>${Math.floor(now / 1000)}</uniqueId>`
+        + `<generationTime>${new Date(now - 10 * 60 * 1000).toISOString()}</generationTime>`
+        + `<expirationTime>${new Date(now + 12 * 60 * 60 * 1000).toISOString()}</expirationTime>`
+        + `</header><service>${service}</service></loginTicketRequest>`
+}
+
+// Firma el TRA en CMS (PKCS#7) con el certificado de AFIP usando openssl
+function signLoginTicketRequest(tra: string): Promise<string> {
+    const { certPath, keyPath } = getConfig()
+    if (!certPath || !keyPath) {
+        return Promise.reject(new AfipError('Faltan AFIP_CERT_PATH / AFIP_KEY_PATH para autenticarse en AFIP'))
+    }
+
+    return new Promise((resolve, reject) => {
+        const openssl = spawn('openssl', ['cms', '-sign', '-signer', certPath, '-inkey', keyPath, '-nodetach', '-outform', 'DER'])
+        const chunks: Buffer[] = []
+        let stderr = ''
+
+        openssl.stdout.on('data', chunk => chunks.push(chunk))
+        openssl.stderr.on('data', chunk => { stderr += chunk })
+        openssl.on('error', err => reject(new AfipError(`No se pudo ejecutar openssl: ${err.message}`)))
+        openssl.on('close', exitCode => {
+            if (exitCode !== 0) {
+                reject(new AfipError(`Error firmando el TRA: ${stderr.trim()}`))
+                return
+            }
+            resolve(Buffer.concat(chunks).toString('base64'))
+        })
+
+        openssl.stdin.end(tra)
+    })
+}
+
+/**
+ * Obtiene un ticket de acceso (token + sign) para el servicio indicado.
+ * AFIP rechaza un nuevo login mientras el ticket anterior siga vigente: hay que reutilizarlo.
+ */
+export async function loginCms(service: string = 'wsfe'): Promise<AfipTicket> {
+    const tra = buildLoginTicketRequest(service)
+    const cms = await signLoginTicketRequest(tra)
+
+    const envelope = `<?xml version="1.0" encoding="UTF-8"?>`
+        + `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:wsaa="http://wsaa.view.sua.dvadac.desein.afip.gov">`
+        + `<soapenv:Header/><soapenv:Body><wsaa:loginCms><wsaa:in0>${cms}</wsaa:in0></wsaa:loginCms></soapenv:Body>`
+        + `</soapenv:Envelope>`
+
+    const xml = await soapRequest(getUrls().wsaa, '', envelope)
+
+    // loginCmsReturn trae el ticket de acceso como XML escapado
+    const ticketXml = getTagValue(xml, 'loginCmsReturn')
+    const token = ticketXml && getTagValue(ticketXml, 'token')
+    const sign = ticketXml && getTagValue(ticketXml, 'sign')
+    const expiration = ticketXml && getTagValue(ticketXml, 'expirationTime')
+
+    if (!token || !sign || !expiration) {
+        throw new AfipError('Respuesta inválida de WSAA: no se encontró el ticket de acceso')
+    }
+
+    return { token, sign, expires_at: Date.parse(expiration) }
+}
+
+// ============================================
+// WSFEv1 (FACTURA ELECTRÓNICA)
+// ============================================
+
+function authNode(auth: AfipAuth): XmlNode {
+    return {
+        Auth: {
+            Token: auth.token,
+            Sign: auth.sign,
+            Cuit: auth.cuit.replace(/\D/g, ''),
+        },
+    }
+}
+
+/**
+ * Último número de comprobante autorizado para el punto de venta y tipo
+ */
+export async function getLastVoucherNumber(auth: AfipAuth, pointOfSale: number, voucherType: number): Promise<number> {
+    const xml = await callWsfe('FECompUltimoAutorizado', {
+        ...authNode(auth),
+        PtoVta: pointOfSale,
+        CbteTipo: voucherType,
+    })
+
+    return parseInt(getTagValue(xml, 'CbteNro') || '0')
+}
+
+export interface AfipIvaLine {
+    id: number      // AFIP_IVA_IDS
+    base: number    // neto gravado
+    amount: number  // importe de IVA
+}
+
+export interface AfipVoucherRequest {
+    pointOfSale: number
+    voucherType: number
+    voucherNumber: number
+    date: string            // YYYYMMDD
+    docType: number
+    docNumber: string
+    receiverCondition: number
+    net: number
+    iva: number
+    total: number
+    ivaLines: AfipIvaLine[]
+    // Comprobantes asociados (notas de crédito)
+    associated?: { voucherType: number; pointOfSale: number; voucherNumber: number; date: string }[]
+}
+
+export interface AfipCaeResult {
+    voucherNumber: number
+    cae: string
+    caeExpiration: string   // YYYY-MM-DD
+    observations: AfipMessage[]
+}
+
+function formatAmount(value: number): string {
+    return value.toFixed(2)
+}
+
+/**
+ * Solicita el CAE para un comprobante (FECAESolicitar)
+ */
+export async function requestCae(auth: AfipAuth, request: AfipVoucherRequest): Promise<AfipCaeResult> {
+    const detail: XmlNode = {
+        Concepto: CONCEPT_PRODUCTS,
+        DocTipo: request.docType,
+        DocNro: request.docNumber.replace(/\D/g, '') || '0',
+        CbteDesde: request.voucherNumber,
+        CbteHasta: request.voucherNumber,
+        CbteFch: request.date,
+        ImpTotal: formatAmount(request.total),
+        ImpTotConc: formatAmount(0),
+        ImpNeto: formatAmount(request.net),
+        ImpOpEx: formatAmount(0),
+        ImpTrib: formatAmount(0),
+        ImpIVA: formatAmount(request.iva),
+        MonId: 'PES',
+        MonCotiz: 1,
+        CondicionIVAReceptorId: request.receiverCondition,
+    }
+
+    if (request.associated && request.associated.length > 0) {
+        detail.CbtesAsoc = {
+            CbteAsoc: request.associated.map(voucher => ({
+                Tipo: voucher.voucherType,
+                PtoVta: voucher.pointOfSale,
+                Nro: voucher.voucherNumber,
+                CbteFch: voucher.date,
+            })),
+        }
+    }
+
+    detail.Iva = {
+        AlicIva: request.ivaLines.map(line => ({
+            Id: line.id,
+            BaseImp: formatAmount(line.base),
+            Importe: formatAmount(line.amount),
+        })),
+    }
+
+    const xml = await callWsfe('FECAESolicitar', {
+        ...authNode(auth),
+        FeCAEReq: {
+            FeCabReq: {
+                CantReg: 1,
+                PtoVta: request.pointOfSale,
+                CbteTipo: request.voucherType,
+            },
+            FeDetReq: {
+                FECAEDetRequest: [detail],
+            },
+        },
+    })
+
+    const detailXml = getTagBlocks(xml, 'FECAEDetResponse')[0] || ''
+    const observations = parseMessages(detailXml, 'Obs')
+    const result = getTagValue(detailXml, 'Resultado')
+    const cae = getTagValue(detailXml, 'CAE')
+    const caeExpiration = getTagValue(detailXml, 'CAEFchVto')
+
+    if (result !== 'A' || !cae || !caeExpiration) {
+        const detailMessage = observations.map(o => `${o.code} ${o.message}`).join(' | ')
+        throw new AfipError(`Comprobante rechazado por AFIP${detailMessage ? `: ${detailMessage}` : ''}`, {
+            code: observations[0]?.code,
+            observations,
+        })
+    }
+
+    return {
+        voucherNumber: parseInt(getTagValue(detailXml, 'CbteDesde') || String(request.voucherNumber)),
+        cae,
+        caeExpiration: `${caeExpiration.slice(0, 4)}-${caeExpiration.slice(4, 6)}-${caeExpiration.slice(6, 8)}`,
+        observations,
+    }
+}
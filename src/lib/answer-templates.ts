@@ -0,0 +1,49 @@
+// Renderizado de plantillas de respuesta para preguntas de Mercado Libre
+import type { ProductVariant } from './types'
+
+export interface TemplateProduct {
+    name: string
+    base_price: number
+    variants: Pick<ProductVariant, 'name' | 'price_adjustment' | 'stock_quantity'>[]
+}
+
+// Variables disponibles y su descripción (para mostrar en la UI)
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+    '{producto}': 'Nombre del producto',
+    '{precio}': 'Precio base',
+    '{stock_total}': 'Stock total de todas las variantes',
+    '{variantes_disponibles}': 'Variantes con stock y su precio',
+    '{variantes_sin_stock}': 'Variantes sin stock',
+}
+
+function formatPrice(value: number): string {
+    return value.toLocaleString('es-AR', { style: 'currency', currency: 'ARS', minimumFractionDigits: 0 })
+}
+
+/**
+ * Reemplaza las variables de la plantilla con los datos del producto.
+ * Sin producto vinculado, las variables se dejan tal cual para completarlas a mano.
+ */
+export function renderAnswerTemplate(body: string, product: TemplateProduct | null): string {
+    if (!product) return body
+
+    const available = product.variants.filter(v => v.stock_quantity > 0)
+    const outOfStock = product.variants.filter(v => v.stock_quantity <= 0)
+
+    const values: Record<string, string> = {
+        '{producto}': product.name,
+        '{precio}': formatPrice(product.base_price),
+        '{stock_total}': String(available.reduce((sum, v) => sum + v.stock_quantity, 0)),
+        '{variantes_disponibles}': available.length > 0
+            ? available.map(v => `${v.name}: ${v.stock_quantity} u. (${formatPrice(product.base_price + (v.price_adjustment || 0))})`).join(', ')
+            : 'sin stock por el momento',
+        '{variantes_sin_stock}': outOfStock.length > 0
+            ? outOfStock.map(v => v.name).join(', ')
+            : 'ninguna',
+    }
+
+    return Object.entries(values).reduce(
+        (text, [variable, value]) => text.split(variable).join(value),
+        body
+    )
+}
@@ -1,5 +1,7 @@
 // Servicios para interactuar con la API de Supabase - Productos
 import { createClient } from '@/lib/supabase/client'
+import { applyStockMovement } from './stock'
+import { PRICE_SOURCE_HEADER } from './price-history'
 import type {
     Product,
     ProductInsert,
@@ -9,6 +11,7 @@ import type {
     ProductImage,
     ProductImageInsert,
     Category,
+    PriceChangeSource,
     ProductWithRelations
 } from './types'
 
@@ -67,10 +70,11 @@ export async function getProductById(id: string): Promise<ProductWithRelations |
     return data
 }
 
-export async function createProduct(product: ProductInsert): Promise<Product> {
+export async function createProduct(product: ProductInsert, source: PriceChangeSource = 'manual'): Promise<Product> {
     const { data, error } = await getSupabase()
         .from('products')
         .insert(product)
+        .setHeader(PRICE_SOURCE_HEADER, source)
         .select()
         .single()
 
@@ -78,10 +82,11 @@ export async function createProduct(product: ProductInsert): Promise<Product> {
     return data
 }
 
-export async function updateProduct(id: string, product: ProductUpdate): Promise<Product> {
+export async function updateProduct(id: string, product: ProductUpdate, source: PriceChangeSource = 'manual'): Promise<Product> {
     const { data, error } = await getSupabase()
         .from('products')
         .update(product)
+        .setHeader(PRICE_SOURCE_HEADER, source)
         .eq('id', id)
         .select()
         .single()
@@ -113,10 +118,11 @@ export async function getVariantsByProductId(productId: string): Promise<Product
     return data || []
 }
 
-export async function createVariant(variant: ProductVariantInsert): Promise<ProductVariant> {
+export async function createVariant(variant: ProductVariantInsert, source: PriceChangeSource = 'manual'): Promise<ProductVariant> {
     const { data, error } = await getSupabase()
         .from('product_variants')
         .insert(variant)
+        .setHeader(PRICE_SOURCE_HEADER, source)
         .select()
         .single()
 
@@ -124,10 +130,11 @@ export async function createVariant(variant: ProductVariantInsert): Promise<Prod
     return data
 }
 
-export async function updateVariant(id: string, variant: Partial<ProductVariantInsert>): Promise<ProductVariant> {
+export async function updateVariant(id: string, variant: Partial<ProductVariantInsert>, source: PriceChangeSource = 'manual'): Promise<ProductVariant> {
     const { data, error } = await getSupabase()
         .from('product_variants')
         .update(variant)
+        .setHeader(PRICE_SOURCE_HEADER, source)
         .eq('id', id)
         .select()
         .single()
@@ -188,41 +195,13 @@ export async function setPrimaryImage(productId: string, imageId: string): Promi
 // STOCK
 // ============================================
 export async function updateStock(variantId: string, quantity: number, type: 'IN' | 'OUT' | 'ADJUSTMENT', notes?: string): Promise<void> {
-    // Update the variant stock
-    const { data: variant, error: variantError } = await getSupabase()
-        .from('product_variants')
-        .select('stock_quantity')
-        .eq('id', variantId)
-        .single()
-
-    if (variantError) throw variantError
-
-    const newQuantity = type === 'ADJUSTMENT'
-        ? quantity
-        : type === 'IN'
-            ? variant.stock_quantity + quantity
-            : variant.stock_quantity - quantity
-
-    // Update variant stock
-    const { error: updateError } = await getSupabase()
-        .from('product_variants')
-        .update({ stock_quantity: newQuantity })
-        .eq('id', variantId)
-
-    if (updateError) throw updateError
-
-    // Create stock movement record
-    const { error: movementError } = await getSupabase()
-        .from('stock_movements')
-        .insert({
-            product_variant_id: variantId,
-            movement_type: type,
-            quantity: type === 'OUT' ? -quantity : quantity,
-            reference_type: 'adjustment',
-            notes
-        })
-
-    if (movementError) throw movementError
+    await applyStockMovement(getSupabase(), {
+        variantId,
+        type,
+        quantity,
+        referenceType: 'adjustment',
+        notes
+    })
 }
 
 // ============================================
@@ -277,7 +256,7 @@ export async function getLowStockProducts(threshold: number = 5): Promise<Produc
 // ============================================
 // CLIENTES
 // ============================================
-import type { Customer, CustomerInsert, Sale, SaleInsert, SaleItem, SaleItemInsert, SaleWithRelations } from './types'
+import type { Customer, CustomerInsert, Sale, SaleChannel, SaleInsert, SaleItem, SaleItemInsert, SaleLineError, SaleWithRelations } from './types'
 
 export async function getCustomers(): Promise<Customer[]> {
     const { data, error } = await getSupabase()
@@ -345,7 +324,7 @@ export async function getSales(): Promise<SaleWithRelations[]> {
                     *,
                     product_variant:product_variants(
                         *,
-                        product:products(name)
+                        product:products(name, cost_price)
                     )
                 )
             `)
@@ -375,7 +354,7 @@ export async function getSaleById(id: string): Promise<SaleWithRelations | null>
                 *,
                 product_variant:product_variants(
                     *,
-                    product:products(name)
+                    product:products(name, cost_price)
                 )
             )
         `)
@@ -389,76 +368,74 @@ export async function getSaleById(id: string): Promise<SaleWithRelations | null>
     return data
 }
 
-export async function getNextSaleNumber(): Promise<string> {
-    const { data, error } = await getSupabase()
-        .from('sales')
-        .select('sale_number')
-        .order('created_at', { ascending: false })
-        .limit(1)
+// Vista previa del próximo número del canal: el definitivo se asigna al registrar la venta
+export async function getNextSaleNumber(channel: SaleChannel): Promise<string> {
+    const { data, error } = await getSupabase().rpc('preview_sale_number', {
+        p_channel: channel
+    })
 
     if (error) throw error
+    return data
+}
 
-    if (!data || data.length === 0) {
-        return 'V-0001'
-    }
+export const DEFAULT_SALE_NUMBER_PREFIXES: Record<SaleChannel, string> = {
+    Presencial: 'V',
+    ML: 'MLV',
+    Instagram: 'IG',
+    WhatsApp: 'WA'
+}
 
-    const lastNumber = parseInt(data[0].sale_number.split('-')[1])
-    return `V-${String(lastNumber + 1).padStart(4, '0')}`
+export async function getSaleNumberPrefixes(): Promise<Record<SaleChannel, string>> {
+    const { data, error } = await getSupabase()
+        .from('settings')
+        .select('value')
+        .eq('key', 'sale_number_prefixes')
+        .maybeSingle()
+
+    if (error) throw error
+    return { ...DEFAULT_SALE_NUMBER_PREFIXES, ...(data?.value || {}) }
 }
 
-export async function createSale(sale: SaleInsert, items: Omit<SaleItemInsert, 'sale_id'>[]): Promise<Sale> {
-    // Create sale
-    const { data: saleData, error: saleError } = await getSupabase()
-        .from('sales')
-        .insert(sale)
-        .select()
-        .single()
+export async function updateSaleNumberPrefixes(prefixes: Record<SaleChannel, string>): Promise<void> {
+    const { error } = await getSupabase()
+        .from('settings')
+        .upsert({
+            key: 'sale_number_prefixes',
+            value: prefixes,
+            category: 'sales',
+            updated_at: new Date().toISOString()
+        }, {
+            onConflict: 'key'
+        })
 
-    if (saleError) throw saleError
+    if (error) throw error
+}
 
-    // Create sale items
-    const itemsWithSaleId = items.map(item => ({
-        ...item,
-        sale_id: saleData.id
-    }))
+export class SaleCreationError extends Error {
+    lineErrors: SaleLineError[]
 
-    const { error: itemsError } = await getSupabase()
-        .from('sale_items')
-        .insert(itemsWithSaleId)
+    constructor(lineErrors: SaleLineError[]) {
+        super('No se pudo registrar la venta: hay items sin stock suficiente')
+        this.name = 'SaleCreationError'
+        this.lineErrors = lineErrors
+    }
+}
 
-    if (itemsError) throw itemsError
+// Crea la venta, sus items y los movimientos de stock en una sola transacción (función create_sale).
+// El número de venta lo asigna la base según el canal.
+export async function createSale(sale: Omit<SaleInsert, 'sale_number'>, items: Omit<SaleItemInsert, 'sale_id'>[]): Promise<Sale> {
+    const { data, error } = await getSupabase().rpc('create_sale', {
+        p_sale: sale,
+        p_items: items
+    })
 
-    // Update stock for each item
-    for (const item of items) {
-        if (item.product_variant_id) {
-            const { data: variant, error: variantError } = await getSupabase()
-                .from('product_variants')
-                .select('stock_quantity')
-                .eq('id', item.product_variant_id)
-                .single()
-
-            if (!variantError && variant) {
-                await getSupabase()
-                    .from('product_variants')
-                    .update({ stock_quantity: variant.stock_quantity - item.quantity })
-                    .eq('id', item.product_variant_id)
-
-                // Create stock movement
-                await getSupabase()
-                    .from('stock_movements')
-                    .insert({
-                        product_variant_id: item.product_variant_id,
-                        movement_type: 'OUT',
-                        quantity: -item.quantity,
-                        reference_type: 'sale',
-                        reference_id: saleData.id,
-                        notes: `Venta ${sale.sale_number}`
-                    })
-            }
+    if (error) {
+        if (error.code === '23514' && error.message === 'sale_validation_failed') {
+            throw new SaleCreationError(JSON.parse(error.details))
         }
+        throw error
     }
-
-    return saleData
+    return data
 }
 
 export async function updateSaleStatus(id: string, status: string): Promise<Sale> {
@@ -511,6 +488,16 @@ export interface DashboardStats {
     averageTicket: number
     lowStockCount: number
     pendingOrders: number
+    grossMarginMonth: number | null // % sobre lo vendido en el mes, al costo promedio actual
+    netMarginMonth: number | null // después de comisiones, envíos e IIBB
+    channelsMonth: ChannelNetSummary[]
+}
+
+export interface ChannelNetSummary {
+    channel: SaleChannel
+    gross: number
+    net: number
+    margin: number | null
 }
 
 export async function getDashboardStats(): Promise<DashboardStats> {
@@ -548,12 +535,77 @@ export async function getDashboardStats(): Promise<DashboardStats> {
 
     if (stockError) throw stockError
 
+    // Margen bruto del mes: ventas no canceladas contra el costo de cada variante
+    // (el de la variante si tiene, si no el del producto)
+    const { data: itemsData, error: itemsError } = await getSupabase()
+        .from('sale_items')
+        .select(`
+            quantity,
+            total_price,
+            sale:sales!inner(id, created_at, status, channel, discount),
+            variant:product_variants(cost_price, product:products(cost_price))
+        `)
+        .gte('sale.created_at', startOfMonth.toISOString())
+        .neq('sale.status', 'cancelled')
+
+    if (itemsError) throw itemsError
+
+    type MarginItem = {
+        quantity: number
+        total_price: number
+        sale: { id: string; channel: SaleChannel; discount: number }
+        variant: { cost_price: number | null; product: { cost_price: number } | null } | null
+    }
+    const marginItems = (itemsData || []) as unknown as MarginItem[]
+    const itemsRevenue = marginItems.reduce((sum, i) => sum + i.total_price, 0)
+    const itemsCost = marginItems.reduce((sum, i) =>
+        sum + i.quantity * (i.variant?.cost_price ?? i.variant?.product?.cost_price ?? 0), 0)
+    const grossMarginMonth = itemsRevenue > 0 ? ((itemsRevenue - itemsCost) / itemsRevenue) * 100 : null
+
+    // Margen real: cada venta con las comisiones de su canal
+    const feeSettings = await getFeeSettings()
+    const linesBySale = new Map<string, { channel: SaleChannel; discount: number; lines: NetProceedsLine[] }>()
+    for (const item of marginItems) {
+        const entry = linesBySale.get(item.sale.id) || { channel: item.sale.channel, discount: item.sale.discount, lines: [] }
+        entry.lines.push({
+            unitPrice: item.quantity > 0 ? item.total_price / item.quantity : 0,
+            quantity: item.quantity,
+            unitCost: item.variant?.cost_price ?? item.variant?.product?.cost_price ?? 0,
+        })
+        linesBySale.set(item.sale.id, entry)
+    }
+
+    const byChannel = new Map<SaleChannel, { gross: number; net: number; profit: number }>()
+    for (const sale of linesBySale.values()) {
+        const proceeds = getNetProceeds(feeSettings, sale.channel, sale.lines, { discount: sale.discount })
+        const totals = byChannel.get(sale.channel) || { gross: 0, net: 0, profit: 0 }
+        totals.gross += proceeds.gross
+        totals.net += proceeds.net
+        totals.profit += proceeds.profit
+        byChannel.set(sale.channel, totals)
+    }
+
+    const channelsMonth = [...byChannel.entries()]
+        .map(([channel, totals]) => ({
+            channel,
+            gross: totals.gross,
+            net: totals.net,
+            margin: totals.gross > 0 ? (totals.profit / totals.gross) * 100 : null,
+        }))
+        .sort((a, b) => b.gross - a.gross)
+    const netGross = channelsMonth.reduce((sum, c) => sum + c.gross, 0)
+    const netProfit = [...byChannel.values()].reduce((sum, c) => sum + c.profit, 0)
+    const netMarginMonth = netGross > 0 ? (netProfit / netGross) * 100 : null
+
     return {
         totalSalesMonth,
         totalSalesCount,
         averageTicket,
         lowStockCount: lowStockCount || 0,
-        pendingOrders
+        pendingOrders,
+        grossMarginMonth,
+        netMarginMonth,
+        channelsMonth
     }
 }
 
@@ -612,4 +664,816 @@ export async function getLowStockVariants(): Promise<(ProductVariant & { product
     return data || []
 }
 
+// ============================================
+// PLANTILLAS DE RESPUESTA (PREGUNTAS ML)
+// ============================================
+import type { AnswerTemplate, AnswerTemplateInsert } from './types'
+
+export async function getAnswerTemplates(): Promise<AnswerTemplate[]> {
+    const { data, error } = await getSupabase()
+        .from('ml_answer_templates')
+        .select('*')
+        .order('name')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createAnswerTemplate(template: AnswerTemplateInsert): Promise<AnswerTemplate> {
+    const { data, error } = await getSupabase()
+        .from('ml_answer_templates')
+        .insert(template)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function deleteAnswerTemplate(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('ml_answer_templates')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+
+
+// ============================================
+// FACTURAS
+// ============================================
+import type { Invoice, InvoiceWithSale } from './types'
+
+export async function getInvoices(): Promise<InvoiceWithSale[]> {
+    const { data, error } = await getSupabase()
+        .from('invoices')
+        .select(`
+            *,
+            sale:sales(sale_number, channel)
+        `)
+        .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+// Ventas no canceladas sin factura vigente (para facturación masiva)
+export async function getUninvoicedSales(): Promise<(Sale & { customer: Customer | null })[]> {
+    const { data, error } = await getSupabase()
+        .from('sales')
+        .select(`
+            *,
+            customer:customers(*),
+            invoices(voucher_kind, status)
+        `)
+        .neq('status', 'cancelled')
+        .order('created_at', { ascending: false })
+        .limit(1000)
+
+    if (error) throw error
+
+    return (data || [])
+        .filter(sale => !(sale.invoices as Pick<Invoice, 'voucher_kind' | 'status'>[] || [])
+            .some(i => i.voucher_kind === 'invoice' && i.status === 'issued'))
+}
+
+// ============================================
+// PROVEEDORES
+// ============================================
+import { normalizeCuit } from './cuit'
+import type {
+    PurchaseOrder,
+    Supplier,
+    SupplierInsert,
+    SupplierUpdate,
+    SupplierBalance,
+    SupplierPayment,
+    SupplierPaymentInsert,
+    ProductSupplier,
+    ProductSupplierInsert
+} from './types'
+
+export async function getSuppliers(): Promise<Supplier[]> {
+    const { data, error } = await getSupabase()
+        .from('suppliers')
+        .select('*')
+        .order('name')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function getSupplierById(id: string): Promise<Supplier | null> {
+    const { data, error } = await getSupabase()
+        .from('suppliers')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+    if (error) throw error
+    return data
+}
+
+// Saldo de todos los proveedores (vista supplier_balances)
+export async function getSupplierBalances(): Promise<SupplierBalance[]> {
+    const { data, error } = await getSupabase()
+        .from('supplier_balances')
+        .select('*')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createSupplier(supplier: SupplierInsert): Promise<Supplier> {
+    const { data, error } = await getSupabase()
+        .from('suppliers')
+        .insert({ ...supplier, cuit: supplier.cuit ? normalizeCuit(supplier.cuit) : null })
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateSupplier(id: string, supplier: SupplierUpdate): Promise<Supplier> {
+    const changes = supplier.cuit !== undefined
+        ? { ...supplier, cuit: supplier.cuit ? normalizeCuit(supplier.cuit) : null }
+        : supplier
+
+    const { data, error } = await getSupabase()
+        .from('suppliers')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+// No se borran proveedores con órdenes de compra (se perdería el historial de compras)
+export async function deleteSupplier(id: string): Promise<void> {
+    const { count, error: countError } = await getSupabase()
+        .from('purchase_orders')
+        .select('id', { count: 'exact', head: true })
+        .eq('supplier_id', id)
+
+    if (countError) throw countError
+    if (count && count > 0) {
+        throw new Error(`El proveedor tiene ${count} orden${count !== 1 ? 'es' : ''} de compra`)
+    }
+
+    const { error } = await getSupabase()
+        .from('suppliers')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+export async function getSupplierPurchaseOrders(supplierId: string): Promise<PurchaseOrder[]> {
+    const { data, error } = await getSupabase()
+        .from('purchase_orders')
+        .select(`
+            *,
+            items:purchase_items(*)
+        `)
+        .eq('supplier_id', supplierId)
+        .order('ordered_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+export async function getSupplierProducts(supplierId: string): Promise<(ProductSupplier & { product: Product })[]> {
+    const { data, error } = await getSupabase()
+        .from('product_suppliers')
+        .select(`
+            *,
+            product:products(*)
+        `)
+        .eq('supplier_id', supplierId)
+
+    if (error) throw error
+    return data || []
+}
+
+export async function addSupplierProduct(productSupplier: ProductSupplierInsert): Promise<ProductSupplier> {
+    const { data, error } = await getSupabase()
+        .from('product_suppliers')
+        .upsert(productSupplier, { onConflict: 'product_id,supplier_id' })
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function removeSupplierProduct(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('product_suppliers')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+export async function getSupplierPayments(supplierId: string): Promise<SupplierPayment[]> {
+    const { data, error } = await getSupabase()
+        .from('supplier_payments')
+        .select('*')
+        .eq('supplier_id', supplierId)
+        .order('paid_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createSupplierPayment(payment: SupplierPaymentInsert): Promise<SupplierPayment> {
+    const { data, error } = await getSupabase()
+        .from('supplier_payments')
+        .insert(payment)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function deleteSupplierPayment(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('supplier_payments')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+// ============================================
+// ÓRDENES DE COMPRA
+// ============================================
+import type { PurchaseItemInsert, PurchaseOrderInsert, PurchaseReceptionLine } from './types'
+
+export async function getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    const { data, error } = await getSupabase()
+        .from('purchase_orders')
+        .select(`
+            *,
+            supplier:suppliers(*),
+            items:purchase_items(*)
+        `)
+        .order('ordered_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+// Todas las variantes (con o sin stock) para cargar líneas de compra
+export async function getPurchasableVariants(): Promise<(ProductVariant & { product: Product })[]> {
+    const { data, error } = await getSupabase()
+        .from('product_variants')
+        .select(`
+            *,
+            product:products(*)
+        `)
+        .order('name')
+
+    if (error) throw error
+    return data || []
+}
 
+// Crea la orden con sus items en una sola transacción (función create_purchase_order).
+// El número OC-XXXX y los totales los calcula la base.
+export async function createPurchaseOrder(
+    order: Pick<PurchaseOrderInsert, 'supplier_id' | 'notes' | 'has_invoice' | 'supplier_invoice_number'>,
+    items: Omit<PurchaseItemInsert, 'purchase_order_id' | 'quantity_received' | 'total_cost'>[]
+): Promise<PurchaseOrder> {
+    const { data, error } = await getSupabase().rpc('create_purchase_order', {
+        p_order: order,
+        p_items: items
+    })
+
+    if (error) throw error
+    return data
+}
+
+// Registra una recepción: suma lo recibido a cada línea, ingresa el stock
+// (movimientos IN de tipo 'purchase') y actualiza el estado de la orden.
+export async function receivePurchaseOrder(orderId: string, lines: PurchaseReceptionLine[], notes?: string): Promise<PurchaseOrder> {
+    const { data, error } = await getSupabase().rpc('receive_purchase_order', {
+        p_order_id: orderId,
+        p_items: lines.filter(l => l.quantity > 0),
+        p_notes: notes || null
+    })
+
+    if (error) throw error
+    return data
+}
+
+// ============================================
+// HISTORIAL DE COSTOS
+// ============================================
+import type { CostHistoryEntry } from './types'
+
+// Cambios de costo del producto y de sus variantes (manuales y por compras)
+export async function getCostHistory(productId: string): Promise<CostHistoryEntry[]> {
+    const { data, error } = await getSupabase()
+        .from('cost_history')
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+// ============================================
+// ACTUALIZACIÓN MASIVA DE PRECIOS
+// ============================================
+import type { Json, PriceBatch } from './types'
+import type { BulkPriceLine } from './bulk-pricing'
+
+// Aplica el diff en una sola transacción; cada cambio queda en price_changes con el lote
+export async function applyPriceBatch(description: string, operation: Json, lines: BulkPriceLine[]): Promise<PriceBatch> {
+    const { data, error } = await getSupabase().rpc('apply_price_batch', {
+        p_description: description,
+        p_operation: operation,
+        p_changes: lines.map(line => ({
+            product_id: line.productId,
+            base_price: line.newBasePrice,
+            variants: line.variants
+                .filter(v => v.newAdjustment !== v.previousAdjustment)
+                .map(v => ({ id: v.variantId, price_adjustment: v.newAdjustment }))
+        }))
+    })
+
+    if (error) throw error
+    return data
+}
+
+export async function getPriceBatches(limit: number = 10): Promise<PriceBatch[]> {
+    const { data, error } = await getSupabase()
+        .from('price_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+    if (error) throw error
+    return data || []
+}
+
+// Devuelve cuántos precios se revirtieron (los editados después del lote no se tocan)
+export async function undoPriceBatch(batchId: string): Promise<number> {
+    const { data, error } = await getSupabase().rpc('undo_price_batch', {
+        p_batch_id: batchId
+    })
+
+    if (error) throw error
+    return data
+}
+
+// Variantes cuyo precio de venta cambió en el lote (para publicarlas en ML al aplicarlo
+// o deshacerlo). Un cambio de precio base afecta a todas las variantes del producto.
+export async function getPriceBatchVariantIds(batchId: string): Promise<string[]> {
+    const { data: changes, error } = await getSupabase()
+        .from('price_changes')
+        .select('product_id, product_variant_id')
+        .eq('batch_id', batchId)
+        .in('field', ['base_price', 'price_adjustment'])
+
+    if (error) throw error
+
+    const variantIds = new Set<string>()
+    const productIds = new Set<string>()
+    for (const change of changes || []) {
+        if (change.product_variant_id) variantIds.add(change.product_variant_id)
+        else productIds.add(change.product_id)
+    }
+
+    if (productIds.size > 0) {
+        const { data: variants, error: variantsError } = await getSupabase()
+            .from('product_variants')
+            .select('id')
+            .in('product_id', [...productIds])
+
+        if (variantsError) throw variantsError
+        for (const variant of variants || []) variantIds.add(variant.id)
+    }
+
+    return [...variantIds]
+}
+
+// ============================================
+// HISTORIAL DE PRECIOS
+// ============================================
+import type { PriceChange } from './types'
+
+// Cambios de precio base, ajustes y precios en ML del producto y sus variantes (los costos están en cost_history)
+export async function getPriceChanges(productId: string): Promise<PriceChange[]> {
+    const { data, error } = await getSupabase()
+        .from('price_changes')
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+}
+
+// ============================================
+// REPOSICIÓN
+// ============================================
+import type { VariantReorderInput } from './reorder'
+
+// Datos para calcular la reposición de todas las variantes en la ventana indicada.
+// El proveedor de cada variante es el de su última orden de compra; si nunca se compró,
+// el primero asociado al producto.
+export async function getReorderInputs(windowDays: number): Promise<VariantReorderInput[]> {
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString()
+
+    const [variants, salesResult, movementsResult, purchasesResult, linksResult] = await Promise.all([
+        getPurchasableVariants(),
+        getSupabase()
+            .from('sale_items')
+            .select('product_variant_id, quantity, sale:sales!inner(created_at, status)')
+            .gte('sale.created_at', since)
+            .neq('sale.status', 'cancelled'),
+        getSupabase()
+            .from('stock_movements')
+            .select('product_variant_id, quantity, created_at')
+            .gte('created_at', since),
+        getSupabase()
+            .from('purchase_items')
+            .select('product_variant_id, quantity, quantity_received, order:purchase_orders!inner(status, supplier_id, ordered_at)'),
+        getSupabase()
+            .from('product_suppliers')
+            .select('product_id, supplier_id')
+            .order('created_at')
+    ])
+
+    if (salesResult.error) throw salesResult.error
+    if (movementsResult.error) throw movementsResult.error
+    if (purchasesResult.error) throw purchasesResult.error
+    if (linksResult.error) throw linksResult.error
+
+    const unitsSold = new Map<string, number>()
+    for (const item of salesResult.data || []) {
+        if (!item.product_variant_id) continue
+        unitsSold.set(item.product_variant_id, (unitsSold.get(item.product_variant_id) || 0) + item.quantity)
+    }
+
+    const movements = new Map<string, { quantity: number; created_at: string }[]>()
+    for (const movement of movementsResult.data || []) {
+        const list = movements.get(movement.product_variant_id) || []
+        list.push({ quantity: movement.quantity, created_at: movement.created_at })
+        movements.set(movement.product_variant_id, list)
+    }
+
+    type PurchaseLine = {
+        product_variant_id: string | null
+        quantity: number
+        quantity_received: number
+        order: { status: string; supplier_id: string | null; ordered_at: string }
+    }
+    const onOrder = new Map<string, number>()
+    const lastSupplier = new Map<string, { supplierId: string; orderedAt: string }>()
+    for (const line of (purchasesResult.data || []) as unknown as PurchaseLine[]) {
+        if (!line.product_variant_id) continue
+        if (line.order.status !== 'received') {
+            onOrder.set(line.product_variant_id,
+                (onOrder.get(line.product_variant_id) || 0) + line.quantity - line.quantity_received)
+        }
+        const last = lastSupplier.get(line.product_variant_id)
+        if (line.order.supplier_id && (!last || line.order.ordered_at > last.orderedAt)) {
+            lastSupplier.set(line.product_variant_id, { supplierId: line.order.supplier_id, orderedAt: line.order.ordered_at })
+        }
+    }
+
+    const productSupplier = new Map<string, string>()
+    for (const link of linksResult.data || []) {
+        if (!productSupplier.has(link.product_id)) productSupplier.set(link.product_id, link.supplier_id)
+    }
+
+    return variants.map(variant => ({
+        variantId: variant.id,
+        productId: variant.product_id,
+        productName: variant.product.name,
+        variantName: variant.name,
+        sku: variant.sku,
+        stock: variant.stock_quantity,
+        unitCost: variant.cost_price ?? variant.product.cost_price ?? 0,
+        unitsSold: unitsSold.get(variant.id) || 0,
+        movements: movements.get(variant.id) || [],
+        onOrder: onOrder.get(variant.id) || 0,
+        supplierId: lastSupplier.get(variant.id)?.supplierId || productSupplier.get(variant.product_id) || null
+    }))
+}
+
+// ============================================
+// COMPETENCIA
+// ============================================
+import type { Competitor, CompetitorInsert, CompetitorUpdate, CompetitorItem, CompetitorItemInsert, CompetitorPrice } from './types'
+import { DEFAULT_PRICE_ALERT_PERCENT } from './competitors'
+
+export async function getCompetitors(): Promise<Competitor[]> {
+    const { data, error } = await getSupabase()
+        .from('competitors')
+        .select('*')
+        .order('name')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createCompetitor(competitor: CompetitorInsert): Promise<Competitor> {
+    const { data, error } = await getSupabase()
+        .from('competitors')
+        .insert(competitor)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateCompetitor(id: string, competitor: CompetitorUpdate): Promise<Competitor> {
+    const { data, error } = await getSupabase()
+        .from('competitors')
+        .update(competitor)
+        .eq('id', id)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+// Borra también sus publicaciones mapeadas y el historial de precios (ON DELETE CASCADE)
+export async function deleteCompetitor(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('competitors')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+export async function getCompetitorItems(productId?: string): Promise<CompetitorItem[]> {
+    let query = getSupabase()
+        .from('competitor_items')
+        .select(`
+            *,
+            competitor:competitors(*)
+        `)
+        .order('created_at')
+
+    if (productId) query = query.eq('product_id', productId)
+
+    const { data, error } = await query
+
+    if (error) throw error
+    return data || []
+}
+
+// Asocia una publicación de un competidor a un producto. Los precios ya capturados
+// de esa publicación sin producto quedan asociados también.
+export async function addCompetitorItem(item: CompetitorItemInsert): Promise<CompetitorItem> {
+    const { data, error } = await getSupabase()
+        .from('competitor_items')
+        .upsert(item, { onConflict: 'competitor_id,ml_item_id' })
+        .select()
+        .single()
+
+    if (error) throw error
+
+    const { error: backfillError } = await getSupabase()
+        .from('competitor_prices')
+        .update({ product_id: item.product_id })
+        .eq('competitor_id', item.competitor_id)
+        .eq('ml_item_id', item.ml_item_id)
+        .is('product_id', null)
+
+    if (backfillError) throw backfillError
+    return data
+}
+
+export async function removeCompetitorItem(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('competitor_items')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+// Historial de precios de la competencia para un producto
+export async function getCompetitorPrices(productId: string, days: number = 90): Promise<CompetitorPrice[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data, error } = await getSupabase()
+        .from('competitor_prices')
+        .select('*')
+        .eq('product_id', productId)
+        .gte('captured_at', since)
+        .order('captured_at')
+
+    if (error) throw error
+    return data || []
+}
+
+// Cambios de precio de la competencia que superaron el umbral, de todos los productos
+export async function getFlaggedCompetitorPrices(days: number = 30): Promise<CompetitorPrice[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data, error } = await getSupabase()
+        .from('competitor_prices')
+        .select('*')
+        .eq('is_flagged', true)
+        .gte('captured_at', since)
+        .order('captured_at', { ascending: false })
+        .limit(100)
+
+    if (error) throw error
+    return data || []
+}
+
+// Variación de precio (%) a partir de la cual se marca un cambio de la competencia
+export async function getCompetitorPriceAlertPercent(): Promise<number> {
+    const { data, error } = await getSupabase()
+        .from('settings')
+        .select('value')
+        .eq('key', 'competitor_price_alert_percent')
+        .maybeSingle()
+
+    if (error) throw error
+
+    const percent = Number(data?.value)
+    return Number.isFinite(percent) && percent > 0 ? percent : DEFAULT_PRICE_ALERT_PERCENT
+}
+
+export async function updateCompetitorPriceAlertPercent(percent: number): Promise<void> {
+    const { error } = await getSupabase()
+        .from('settings')
+        .upsert({
+            key: 'competitor_price_alert_percent',
+            value: percent,
+            category: 'integrations',
+            updated_at: new Date().toISOString()
+        }, {
+            onConflict: 'key'
+        })
+
+    if (error) throw error
+}
+
+// ============================================
+// REGLAS DE REPRECIO
+// ============================================
+import type { RepricingRule, RepricingRuleInsert, RepricingRuleUpdate } from './types'
+import { COMPETITOR_PRICE_MAX_AGE_DAYS, type RepricingProductInput } from './repricing'
+
+export async function getRepricingRules(): Promise<RepricingRule[]> {
+    const { data, error } = await getSupabase()
+        .from('repricing_rules')
+        .select('*')
+        .order('created_at')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createRepricingRule(rule: RepricingRuleInsert): Promise<RepricingRule> {
+    const { data, error } = await getSupabase()
+        .from('repricing_rules')
+        .insert(rule)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateRepricingRule(id: string, rule: RepricingRuleUpdate): Promise<RepricingRule> {
+    const { data, error } = await getSupabase()
+        .from('repricing_rules')
+        .update(rule)
+        .eq('id', id)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function deleteRepricingRule(id: string): Promise<void> {
+    const { error } = await getSupabase()
+        .from('repricing_rules')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+// Datos para evaluar las reglas: precio y costos de cada producto activo, y el último
+// precio de cada publicación de la competencia con stock (competidores activos)
+export async function getRepricingInputs(): Promise<RepricingProductInput[]> {
+    const since = new Date(Date.now() - COMPETITOR_PRICE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    const [products, pricesResult] = await Promise.all([
+        getProducts(),
+        getSupabase()
+            .from('competitor_prices')
+            .select('competitor_id, product_id, ml_item_id, price, stock_status, competitor:competitors!inner(is_active)')
+            .eq('competitor.is_active', true)
+            .not('product_id', 'is', null)
+            .gte('captured_at', since)
+            .order('captured_at')
+    ])
+
+    if (pricesResult.error) throw pricesResult.error
+
+    // En orden cronológico: queda el último snapshot de cada publicación
+    const latestByItem = new Map<string, { product_id: string; price: number; stock_status: string | null }>()
+    for (const price of pricesResult.data || []) {
+        latestByItem.set(`${price.competitor_id}:${price.ml_item_id || price.product_id}`, price)
+    }
+
+    const pricesByProduct = new Map<string, number[]>()
+    for (const price of latestByItem.values()) {
+        if (price.stock_status === 'out_of_stock') continue
+        pricesByProduct.set(price.product_id, [...(pricesByProduct.get(price.product_id) || []), Number(price.price)])
+    }
+
+    return products
+        .filter(product => product.is_active)
+        .map(product => ({
+            productId: product.id,
+            productName: product.name,
+            categoryId: product.category_id,
+            currentPrice: product.base_price,
+            productCost: product.cost_price,
+            variants: product.variants.map(variant => ({
+                cost: variant.cost_price ?? product.cost_price,
+                priceAdjustment: variant.price_adjustment
+            })),
+            competitorPrices: pricesByProduct.get(product.id) || []
+        }))
+}
+
+// ============================================
+// PRECIOS EN MERCADO LIBRE
+// ============================================
+import { ML_PRICE_MARKUP_KEY, readMLPriceMarkupPercent } from './ml-price-markup'
+
+// Recargo (%) que se suma al precio local al publicarlo en ML
+export async function getMLPriceMarkupPercent(): Promise<number> {
+    return readMLPriceMarkupPercent(getSupabase())
+}
+
+export async function updateMLPriceMarkupPercent(percent: number): Promise<void> {
+    const { error } = await getSupabase()
+        .from('settings')
+        .upsert({
+            key: ML_PRICE_MARKUP_KEY,
+            value: percent,
+            category: 'integrations',
+            updated_at: new Date().toISOString()
+        }, {
+            onConflict: 'key'
+        })
+
+    if (error) throw error
+}
+
+// ============================================
+// COMISIONES Y NETO POR CANAL
+// ============================================
+import { FEE_SETTINGS_KEY, getNetProceeds, normalizeFeeSettings, type FeeSettings, type NetProceedsLine } from './marketplace-fees'
+
+export async function getFeeSettings(): Promise<FeeSettings> {
+    const { data, error } = await getSupabase()
+        .from('settings')
+        .select('value')
+        .eq('key', FEE_SETTINGS_KEY)
+        .maybeSingle()
+
+    if (error) throw error
+    return normalizeFeeSettings(data?.value)
+}
+
+export async function updateFeeSettings(settings: FeeSettings): Promise<void> {
+    const { error } = await getSupabase()
+        .from('settings')
+        .upsert({
+            key: FEE_SETTINGS_KEY,
+            value: normalizeFeeSettings(settings),
+            category: 'sales',
+            updated_at: new Date().toISOString()
+        }, {
+            onConflict: 'key'
+        })
+
+    if (error) throw error
+}
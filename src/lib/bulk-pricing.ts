@@ -0,0 +1,136 @@
+// Actualización masiva de precios: filtra productos y calcula, sin guardar nada, el nuevo
+// precio base y el ajuste de cada variante. El resultado es el diff que se muestra antes
+// de aplicar el lote con apply_price_batch.
+import type { ProductWithRelations } from './types'
+
+export type BulkPriceMode = 'increase_percent' | 'markup_over_cost' | 'round_only'
+
+// Terminación de precio: el siguiente múltiplo de step más ending (ej: step 1000, ending 990 → x990)
+export interface PriceEnding {
+    step: number
+    ending: number
+}
+
+export interface BulkPriceOperation {
+    mode: BulkPriceMode
+    percent: number // aumento o markup, según el modo
+    rounding: PriceEnding | null
+}
+
+export interface BulkPriceFilters {
+    categoryId: string
+    search: string
+    minMargin: number | null
+    maxMargin: number | null
+}
+
+export interface BulkVariantPriceLine {
+    variantId: string
+    variantName: string
+    previousPrice: number
+    newPrice: number
+    previousAdjustment: number
+    newAdjustment: number
+}
+
+export interface BulkPriceLine {
+    productId: string
+    productName: string
+    previousBasePrice: number
+    newBasePrice: number
+    previousMargin: number | null
+    newMargin: number | null
+    variants: BulkVariantPriceLine[]
+}
+
+// Margen sobre el precio, en %. Sin precio no hay margen (null)
+export function getMargin(price: number, cost: number): number | null {
+    if (price === 0) return null
+    if (cost === 0) return 100
+    return ((price - cost) / price) * 100
+}
+
+/**
+ * Sube el precio hasta la próxima terminación (nunca lo baja)
+ */
+export function roundToEnding(price: number, { step, ending }: PriceEnding): number {
+    const rounded = Math.floor(price / step) * step + ending
+    return rounded < price ? rounded + step : rounded
+}
+
+export function filterProductsForBulk(products: ProductWithRelations[], filters: BulkPriceFilters): ProductWithRelations[] {
+    const query = filters.search.trim().toLowerCase()
+    return products.filter(product => {
+        const margin = getMargin(product.base_price, product.cost_price)
+        return (!filters.categoryId || product.category_id === filters.categoryId)
+            && (query === ''
+                || product.name.toLowerCase().includes(query)
+                || !!product.sku?.toLowerCase().includes(query))
+            && (filters.minMargin == null || (margin != null && margin >= filters.minMargin))
+            && (filters.maxMargin == null || (margin != null && margin <= filters.maxMargin))
+    })
+}
+
+// Precio final de una variante (o del producto) según la operación, antes de redondear
+function applyOperation(operation: BulkPriceOperation, price: number, cost: number): number {
+    switch (operation.mode) {
+        case 'increase_percent':
+            return price * (1 + operation.percent / 100)
+        case 'markup_over_cost':
+            return cost * (1 + operation.percent / 100)
+        case 'round_only':
+            return price
+    }
+}
+
+function roundPrice(price: number, rounding: PriceEnding | null): number {
+    return rounding ? roundToEnding(Math.round(price), rounding) : Math.round(price)
+}
+
+/**
+ * Diff de precios de los productos indicados. El precio de cada variante se calcula y
+ * redondea por separado, y se guarda como ajuste sobre el nuevo precio base.
+ * Con markup sobre costo se omiten los productos sin costo cargado.
+ * Sólo incluye los productos que cambian.
+ */
+export function buildBulkPriceDiff(products: ProductWithRelations[], operation: BulkPriceOperation): BulkPriceLine[] {
+    const lines: BulkPriceLine[] = []
+
+    for (const product of products) {
+        if (operation.mode === 'markup_over_cost' && !(product.cost_price > 0)) continue
+
+        const newBasePrice = roundPrice(applyOperation(operation, product.base_price, product.cost_price), operation.rounding)
+
+        const variants = (product.variants || []).map(variant => {
+            const previousPrice = product.base_price + variant.price_adjustment
+            const newPrice = roundPrice(
+                applyOperation(operation, previousPrice, variant.cost_price ?? product.cost_price),
+                operation.rounding
+            )
+            return {
+                variantId: variant.id,
+                variantName: variant.name,
+                previousPrice,
+                newPrice,
+                previousAdjustment: variant.price_adjustment,
+                newAdjustment: newPrice - newBasePrice,
+            }
+        })
+
+        const changed = newBasePrice !== product.base_price
+            || variants.some(v => v.newAdjustment !== v.previousAdjustment)
+        if (!changed) continue
+
+        lines.push({
+            productId: product.id,
+            productName: product.name,
+            previousBasePrice: product.base_price,
+            newBasePrice,
+            previousMargin: getMargin(product.base_price, product.cost_price),
+            newMargin: getMargin(newBasePrice, product.cost_price),
+            variants,
+        })
+    }
+
+    return lines
+}
@@ -0,0 +1,350 @@
+// Precios de la competencia: registro de snapshots (competitor_prices) a partir de
+// publicaciones de ML, resolviendo el competidor y nuestro producto asociado.
+// Cada snapshot se compara con el anterior de la misma publicación y se marca
+// cuando la variación supera el umbral configurado (settings: competitor_price_alert_percent).
+import type { MLItem } from './mercadolibre'
+import type { CompetitorPrice } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const STOCK_STATUSES = ['available', 'out_of_stock'] as const
+const CONDITIONS = ['new', 'used'] as const
+
+const ALERT_PERCENT_KEY = 'competitor_price_alert_percent'
+export const DEFAULT_PRICE_ALERT_PERCENT = 10
+
+// Precio de una publicación tal como llega al endpoint de ingesta
+export interface CompetitorPriceSnapshot {
+    competitor_id?: string
+    ml_seller_id?: string // alternativa a competitor_id
+    ml_item_id?: string | null
+    product_id?: string | null // si no viene, se toma del mapeo de la publicación
+    title?: string | null
+    price: number
+    original_price?: number | null
+    stock_status?: CompetitorPrice['stock_status']
+    condition?: CompetitorPrice['condition']
+    url?: string | null
+    captured_at?: string
+}
+
+// Cambio de precio que superó el umbral
+export interface CompetitorPriceMove {
+    competitor_id: string
+    ml_item_id: string
+    title: string
+    previous_price: number
+    price: number
+    change_percent: number
+}
+
+export interface CompetitorPriceIngestResult {
+    inserted: number
+    flagged: CompetitorPriceMove[]
+    errors: { index: number; error: string }[]
+}
+
+type CompetitorPriceRow = Omit<CompetitorPrice, 'id' | 'previous_price' | 'price_change_percent' | 'is_flagged'>
+
+/**
+ * Normaliza un ID de publicación de ML. Acepta el ID ("MLA1234567890", "MLA-1234567890")
+ * o la URL de la publicación. Devuelve null si no se reconoce.
+ */
+export function normalizeMlItemId(value: string): string | null {
+    const match = value.trim().toUpperCase().match(/\b(ML[A-Z])-?(\d{6,})/)
+    return match ? `${match[1]}${match[2]}` : null
+}
+
+/**
+ * Variación porcentual entre dos precios, redondeada a 2 decimales
+ */
+export function getPriceChangePercent(previousPrice: number, price: number): number {
+    return Math.round(((price - previousPrice) / previousPrice) * 10000) / 100
+}
+
+/**
+ * Umbral de variación (%) a partir del cual se marca un precio
+ */
+export async function getPriceAlertPercent(supabase: SupabaseServerClient): Promise<number> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', ALERT_PERCENT_KEY)
+        .maybeSingle()
+
+    if (error) throw error
+
+    const percent = Number(data?.value)
+    return Number.isFinite(percent) && percent > 0 ? percent : DEFAULT_PRICE_ALERT_PERCENT
+}
+
+/**
+ * Registra snapshots de precios de la competencia. Las líneas inválidas se informan
+ * por índice y no impiden registrar el resto.
+ */
+export async function recordCompetitorPrices(
+    supabase: SupabaseServerClient,
+    snapshots: CompetitorPriceSnapshot[]
+): Promise<CompetitorPriceIngestResult> {
+    const { data: competitors, error: competitorsError } = await supabase
+        .from('competitors')
+        .select('id, ml_seller_id')
+
+    if (competitorsError) throw competitorsError
+
+    const competitorIds = new Set((competitors || []).map(c => c.id))
+    const competitorBySeller = new Map(
+        (competitors || []).filter(c => c.ml_seller_id).map(c => [String(c.ml_seller_id), c.id])
+    )
+
+    const itemIds = Array.from(new Set(snapshots
+        .map(s => s.ml_item_id ? normalizeMlItemId(s.ml_item_id) : null)
+        .filter((id): id is string => !!id)))
+
+    const { data: mappings, error: mappingsError } = itemIds.length > 0
+        ? await supabase
+            .from('competitor_items')
+            .select('competitor_id, product_id, ml_item_id, title, url')
+            .in('ml_item_id', itemIds)
+        : { data: [], error: null }
+
+    if (mappingsError) throw mappingsError
+
+    const mappingByItem = new Map((mappings || []).map(m => [`${m.competitor_id}:${m.ml_item_id}`, m]))
+
+    const now = new Date().toISOString()
+    const rows: CompetitorPriceRow[] = []
+    const errors: CompetitorPriceIngestResult['errors'] = []
+
+    snapshots.forEach((snapshot, index) => {
+        const competitorId = snapshot.competitor_id && competitorIds.has(snapshot.competitor_id)
+            ? snapshot.competitor_id
+            : snapshot.ml_seller_id ? competitorBySeller.get(String(snapshot.ml_seller_id)) : undefined
+
+        if (!competitorId) {
+            errors.push({ index, error: 'Competidor no encontrado (competitor_id o ml_seller_id)' })
+            return
+        }
+
+        const price = Number(snapshot.price)
+        if (!Number.isFinite(price) || price <= 0) {
+            errors.push({ index, error: 'price debe ser un número mayor a 0' })
+            return
+        }
+
+        const mlItemId = snapshot.ml_item_id ? normalizeMlItemId(snapshot.ml_item_id) : null
+        if (snapshot.ml_item_id && !mlItemId) {
+            errors.push({ index, error: `ml_item_id inválido: ${snapshot.ml_item_id}` })
+            return
+        }
+
+        const mapping = mlItemId ? mappingByItem.get(`${competitorId}:${mlItemId}`) : undefined
+        const title = snapshot.title?.trim() || mapping?.title || mlItemId
+        if (!title) {
+            errors.push({ index, error: 'title o ml_item_id es requerido' })
+            return
+        }
+
+        if (snapshot.captured_at && isNaN(new Date(snapshot.captured_at).getTime())) {
+            errors.push({ index, error: `captured_at inválido: ${snapshot.captured_at}` })
+            return
+        }
+
+        const originalPrice = snapshot.original_price != null ? Number(snapshot.original_price) : null
+
+        rows.push({
+            competitor_id: competitorId,
+            product_id: snapshot.product_id || mapping?.product_id || null,
+            ml_item_id: mlItemId,
+            title,
+            price,
+            original_price: originalPrice != null && Number.isFinite(originalPrice) ? originalPrice : null,
+            stock_status: STOCK_STATUSES.includes(snapshot.stock_status as typeof STOCK_STATUSES[number]) ? snapshot.stock_status! : null,
+            condition: CONDITIONS.includes(snapshot.condition as typeof CONDITIONS[number]) ? snapshot.condition! : null,
+            url: snapshot.url || mapping?.url || null,
+            captured_at: snapshot.captured_at ? new Date(snapshot.captured_at).toISOString() : now,
+        })
+    })
+
+    if (rows.length === 0) return { inserted: 0, flagged: [], errors }
+
+    const { rows: comparedRows, flagged } = await compareWithPreviousPrices(supabase, rows)
+
+    const { error } = await supabase
+        .from('competitor_prices')
+        .insert(comparedRows)
+
+    if (error) throw error
+
+    return { inserted: rows.length, flagged, errors }
+}
+
+/**
+ * Completa cada snapshot con el precio anterior de la misma publicación y marca las
+ * variaciones que superan el umbral. Un snapshot anterior al último ya registrado
+ * (carga retroactiva) se guarda sin comparar.
+ */
+async function compareWithPreviousPrices(
+    supabase: SupabaseServerClient,
+    rows: CompetitorPriceRow[]
+): Promise<{ rows: Omit<CompetitorPrice, 'id'>[]; flagged: CompetitorPriceMove[] }> {
+    const itemIds = Array.from(new Set(rows.map(r => r.ml_item_id).filter((id): id is string => !!id)))
+
+    const [alertPercent, latest] = await Promise.all([
+        getPriceAlertPercent(supabase),
+        itemIds.length > 0
+            ? supabase.rpc('latest_competitor_prices', { p_item_ids: itemIds })
+            : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (latest.error) throw latest.error
+
+    const latestByItem = new Map<string, { price: number; captured_at: string }>()
+    for (const entry of (latest.data || []) as { competitor_id: string; ml_item_id: string; price: number; captured_at: string }[]) {
+        latestByItem.set(`${entry.competitor_id}:${entry.ml_item_id}`, {
+            price: Number(entry.price),
+            captured_at: new Date(entry.captured_at).toISOString(),
+        })
+    }
+
+    // En orden cronológico, así un lote con varias capturas de la misma publicación
+    // compara cada una con la anterior del lote
+    const sortedRows = [...rows].sort((a, b) => a.captured_at.localeCompare(b.captured_at))
+    const comparedRows: Omit<CompetitorPrice, 'id'>[] = []
+    const flagged: CompetitorPriceMove[] = []
+
+    for (const row of sortedRows) {
+        const key = `${row.competitor_id}:${row.ml_item_id}`
+        const previous = row.ml_item_id ? latestByItem.get(key) : undefined
+        const comparable = previous && previous.price > 0 && previous.captured_at < row.captured_at
+
+        const changePercent = comparable ? getPriceChangePercent(previous.price, row.price) : null
+        const isFlagged = changePercent !== null && Math.abs(changePercent) >= alertPercent
+
+        comparedRows.push({
+            ...row,
+            previous_price: comparable ? previous.price : null,
+            price_change_percent: changePercent,
+            is_flagged: isFlagged,
+        })
+
+        if (isFlagged && previous && row.ml_item_id) {
+            flagged.push({
+                competitor_id: row.competitor_id,
+                ml_item_id: row.ml_item_id,
+                title: row.title,
+                previous_price: previous.price,
+                price: row.price,
+                change_percent: changePercent,
+            })
+        }
+
+        if (row.ml_item_id && (!previous || previous.captured_at < row.captured_at)) {
+            latestByItem.set(key, { price: row.price, captured_at: row.captured_at })
+        }
+    }
+
+    return { rows: comparedRows, flagged }
+}
+
+// ============================================
+// CAPTURA DESDE MERCADO LIBRE
+// ============================================
+
+/**
+ * Obtiene publicaciones de ML por ID (getItemsMulti con la sesión de ML)
+ */
+export type CompetitorItemsFetcher = (itemIds: string[]) => Promise<MLItem[]>
+
+export interface CompetitorCaptureResult extends CompetitorPriceIngestResult {
+    items: number
+    missing: string[] // publicaciones que ML no devolvió (eliminadas o inexistentes)
+    seller_mismatches: string[] // publicaciones que ya no son del vendedor del competidor
+}
+
+/**
+ * Snapshot de precio a partir de una publicación de ML
+ */
+export function snapshotFromMlItem(
+    item: MLItem,
+    competitorId: string,
+    productId: string | null,
+    capturedAt: string
+): CompetitorPriceSnapshot {
+    return {
+        competitor_id: competitorId,
+        ml_item_id: item.id,
+        product_id: productId,
+        title: item.title,
+        price: item.price,
+        original_price: item.original_price ?? null,
+        stock_status: item.status === 'active' && item.available_quantity > 0 ? 'available' : 'out_of_stock',
+        condition: item.condition === 'new' || item.condition === 'used' ? item.condition : null,
+        url: item.permalink || null,
+        captured_at: capturedAt,
+    }
+}
+
+/**
+ * Captura el precio actual de todas las publicaciones mapeadas de los competidores
+ * activos y lo registra como un nuevo snapshot.
+ */
+export async function captureCompetitorPrices(
+    supabase: SupabaseServerClient,
+    fetchItems: CompetitorItemsFetcher
+): Promise<CompetitorCaptureResult> {
+    const { data: mappings, error } = await supabase
+        .from('competitor_items')
+        .select('competitor_id, product_id, ml_item_id, competitor:competitors!inner(ml_seller_id, is_active)')
+        .eq('competitor.is_active', true)
+
+    if (error) throw error
+
+    const competitorItems = (mappings || []) as unknown as {
+        competitor_id: string
+        product_id: string
+        ml_item_id: string
+        competitor: { ml_seller_id: string | null; is_active: boolean }
+    }[]
+
+    const itemIds = Array.from(new Set(competitorItems.map(m => m.ml_item_id)))
+    if (itemIds.length === 0) {
+        return { items: 0, inserted: 0, flagged: [], errors: [], missing: [], seller_mismatches: [] }
+    }
+
+    const items = await fetchItems(itemIds)
+    const itemById = new Map(items.map(item => [item.id, item]))
+
+    const capturedAt = new Date().toISOString()
+    const snapshots: CompetitorPriceSnapshot[] = []
+    const missing: string[] = []
+    const sellerMismatches: string[] = []
+
+    for (const mapping of competitorItems) {
+        const item = itemById.get(mapping.ml_item_id)
+        if (!item) {
+            missing.push(mapping.ml_item_id)
+            continue
+        }
+
+        const sellerId = mapping.competitor.ml_seller_id
+        if (sellerId && item.seller_id != null && String(item.seller_id) !== String(sellerId)) {
+            sellerMismatches.push(mapping.ml_item_id)
+            continue
+        }
+
+        snapshots.push(snapshotFromMlItem(item, mapping.competitor_id, mapping.product_id, capturedAt))
+    }
+
+    const result = snapshots.length > 0
+        ? await recordCompetitorPrices(supabase, snapshots)
+        : { inserted: 0, flagged: [], errors: [] }
+
+    return {
+        items: competitorItems.length,
+        ...result,
+        missing,
+        seller_mismatches: sellerMismatches,
+    }
+}
@@ -0,0 +1,26 @@
+// Validación y formato de CUIT/CUIL (11 dígitos, el último es verificador)
+
+const CUIT_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]
+
+// Deja solo los dígitos: '20-12345678-6' -> '20123456786'
+export function normalizeCuit(cuit: string): string {
+    return cuit.replace(/\D/g, '')
+}
+
+export function isValidCuit(cuit: string): boolean {
+    const digits = normalizeCuit(cuit)
+    if (digits.length !== 11) return false
+
+    const sum = CUIT_WEIGHTS.reduce((acc, weight, i) => acc + weight * Number(digits[i]), 0)
+    const remainder = 11 - (sum % 11)
+    const checkDigit = remainder === 11 ? 0 : remainder
+
+    // Resto 10: AFIP no emite CUIT con ese prefijo/número
+    return checkDigit !== 10 && checkDigit === Number(digits[10])
+}
+
+// Ej: 20-12345678-6
+export function formatCuit(cuit: string): string {
+    const digits = normalizeCuit(cuit)
+    return digits.length === 11 ? `${digits.slice(0, 2)}-${digits.slice(2, 10)}-${digits.slice(10)}` : cuit
+}
@@ -0,0 +1,281 @@
+// Generación del PDF de facturas (RG 1415 / RG 4892: datos del emisor, receptor, CAE y código QR)
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib'
+import QRCode from 'qrcode'
+import { formatCuit } from './cuit'
+import type { Invoice, IvaRate } from './types'
+
+const AFIP_QR_URL = 'https://www.afip.gob.ar/fe/qr/'
+
+// A4 en puntos
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+
+export interface InvoicePdfCompany {
+    name: string
+    cuit: string
+    address: string
+    tax_condition: string
+    iibb: string
+    activity_start: string
+}
+
+export interface InvoicePdfItem {
+    description: string
+    quantity: number
+    unit_price: number      // con IVA incluido
+    total_price: number     // con IVA incluido
+    iva_rate: IvaRate
+}
+
+export interface InvoicePdfData {
+    invoice: Invoice
+    company: InvoicePdfCompany
+    customer_address: string | null
+    items: InvoicePdfItem[]
+    discount: number
+    shipping_cost: number
+    associated_invoice_number?: string | null   // factura que anula la nota de crédito
+    voucher_type: number    // código AFIP (1, 3, 6, 8)
+    issue_date: string      // YYYY-MM-DD
+}
+
+const VOUCHER_NAMES: Record<number, string> = {
+    1: 'FACTURA',
+    3: 'NOTA DE CRÉDITO',
+    6: 'FACTURA',
+    8: 'NOTA DE CRÉDITO',
+}
+
+/**
+ * URL del código QR de AFIP: los datos del comprobante en JSON, codificados en base64
+ */
+export function buildAfipQrUrl(params: {
+    date: string
+    cuit: string
+    pointOfSale: number
+    voucherType: number
+    voucherNumber: number
+    total: number
+    docType: number | null
+    docNumber: string
+    cae: string
+}): string {
+    const payload: Record<string, string | number> = {
+        ver: 1,
+        fecha: params.date,
+        cuit: Number(params.cuit.replace(/\D/g, '')),
+        ptoVta: params.pointOfSale,
+        tipoCmp: params.voucherType,
+        nroCmp: params.voucherNumber,
+        importe: params.total,
+        moneda: 'PES',
+        ctz: 1,
+        tipoCodAut: 'E',
+        codAut: Number(params.cae),
+    }
+
+    // El receptor se informa solo si está identificado
+    if (params.docType && params.docType !== 99) {
+        payload.tipoDocRec = params.docType
+        payload.nroDocRec = Number(params.docNumber.replace(/\D/g, ''))
+    }
+
+    return `${AFIP_QR_URL}?p=${Buffer.from(JSON.stringify(payload)).toString('base64')}`
+}
+
+// Las fuentes estándar de PDF solo codifican WinAnsi: se descartan emojis y otros símbolos
+function sanitize(text: string): string {
+    return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
+}
+
+function formatMoney(value: number): string {
+    return value.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function formatDate(date: string): string {
+    const [year, month, day] = date.slice(0, 10).split('-')
+    return `${day}/${month}/${year}`
+}
+
+function getDocLabel(docType: number | null): string {
+    switch (docType) {
+        case 80: return 'CUIT'
+        case 86: return 'CUIL'
+        case 96: return 'DNI'
+        default: return 'Doc.'
+    }
+}
+
+/**
+ * Genera el PDF de un comprobante autorizado (con CAE)
+ */
+export async function renderInvoicePdf(data: InvoicePdfData): Promise<Uint8Array> {
+    const { invoice, company } = data
+    if (!invoice.cae || !invoice.cae_expiration || !invoice.voucher_number) {
+        throw new Error(`El comprobante ${invoice.invoice_number} no tiene CAE`)
+    }
+
+    const pdf = await PDFDocument.create()
+    pdf.setTitle(`${VOUCHER_NAMES[data.voucher_type] || 'Comprobante'} ${invoice.invoice_number}`)
+    pdf.setAuthor(company.name)
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+    const gray = rgb(0.4, 0.4, 0.4)
+
+    const text = (value: string, x: number, y: number, options?: { size?: number; font?: PDFFont; align?: 'left' | 'right' | 'center'; color?: ReturnType<typeof rgb> }) => {
+        const size = options?.size ?? 9
+        const usedFont = options?.font ?? font
+        const content = sanitize(value)
+        const width = usedFont.widthOfTextAtSize(content, size)
+        const left = options?.align === 'right' ? x - width : options?.align === 'center' ? x - width / 2 : x
+        page.drawText(content, { x: left, y, size, font: usedFont, color: options?.color })
+    }
+
+    const line = (y: number) => {
+        page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: gray })
+    }
+
+    // ============================================
+    // CABECERA
+    // ============================================
+    const top = PAGE_HEIGHT - MARGIN
+    const middle = PAGE_WIDTH / 2
+    const isTypeA = invoice.invoice_type === 'A'
+
+    page.drawRectangle({ x: MARGIN, y: top - 130, width: PAGE_WIDTH - MARGIN * 2, height: 130, borderWidth: 0.8, borderColor: rgb(0, 0, 0) })
+    page.drawLine({ start: { x: middle, y: top - 130 }, end: { x: middle, y: top - 45 }, thickness: 0.8 })
+
+    // Letra del comprobante
+    page.drawRectangle({ x: middle - 22, y: top - 45, width: 44, height: 45, borderWidth: 0.8, borderColor: rgb(0, 0, 0), color: rgb(1, 1, 1) })
+    text(invoice.invoice_type, middle, top - 30, { size: 26, font: bold, align: 'center' })
+    text(`COD. ${String(data.voucher_type).padStart(2, '0')}`, middle, top - 42, { size: 7, font: bold, align: 'center' })
+
+    // Emisor
+    text(company.name, MARGIN + 10, top - 25, { size: 14, font: bold })
+    text(`Domicilio comercial: ${company.address || '-'}`, MARGIN + 10, top - 65)
+    text(`Condición frente al IVA: ${company.tax_condition}`, MARGIN + 10, top - 80)
+
+    // Comprobante
+    const right = middle + 35
+    text(VOUCHER_NAMES[data.voucher_type] || 'COMPROBANTE', right, top - 25, { size: 14, font: bold })
+    text(`Punto de venta: ${String(invoice.point_of_sale).padStart(5, '0')}`, right, top - 65, { font: bold })
+    text(`Comp. Nro: ${String(invoice.voucher_number).padStart(8, '0')}`, right + 120, top - 65, { font: bold })
+    text(`Fecha de emisión: ${formatDate(data.issue_date)}`, right, top - 80)
+    text(`CUIT: ${formatCuit(company.cuit)}`, right, top - 95)
+    text(`Ingresos Brutos: ${company.iibb || '-'}`, right, top - 107)
+    text(`Inicio de actividades: ${company.activity_start ? formatDate(company.activity_start) : '-'}`, right, top - 119)
+
+    // ============================================
+    // RECEPTOR
+    // ============================================
+    let y = top - 155
+    text(`${getDocLabel(invoice.customer_doc_type)}: ${invoice.customer_doc_type === 99 || invoice.customer_document === '0' ? '-' : invoice.customer_document}`, MARGIN + 10, y)
+    text(`Apellido y nombre / Razón social: ${invoice.customer_name}`, middle - 60, y)
+    y -= 14
+    text(`Condición frente al IVA: ${invoice.customer_tax_condition}`, MARGIN + 10, y)
+    text(`Domicilio: ${data.customer_address || '-'}`, middle - 60, y)
+    if (data.associated_invoice_number) {
+        y -= 14
+        text(`Comprobante asociado: Factura ${data.associated_invoice_number}`, MARGIN + 10, y)
+    }
+    y -= 10
+    line(y)
+
+    // ============================================
+    // ITEMS
+    // ============================================
+    // En Factura A los importes se discriminan sin IVA
+    const net = (value: number, rate: IvaRate) => isTypeA ? value / (1 + rate / 100) : value
+    const columns = { description: MARGIN + 5, quantity: 360, unit: 430, iva: 470, total: PAGE_WIDTH - MARGIN - 5 }
+
+    y -= 16
+    text('Producto / Servicio', columns.description, y, { font: bold })
+    text('Cant.', columns.quantity, y, { font: bold, align: 'right' })
+    text(isTypeA ? 'P. Unit. s/IVA' : 'Precio Unit.', columns.unit, y, { font: bold, align: 'right' })
+    if (isTypeA) text('IVA', columns.iva, y, { font: bold, align: 'right' })
+    text(isTypeA ? 'Subtotal s/IVA' : 'Subtotal', columns.total, y, { font: bold, align: 'right' })
+    y -= 6
+    line(y)
+
+    const rows: { description: string; quantity: string; unit: string; iva: string; total: string }[] = data.items.map(item => ({
+        description: item.description,
+        quantity: String(item.quantity),
+        unit: formatMoney(net(item.unit_price, item.iva_rate)),
+        iva: `${String(item.iva_rate).replace('.', ',')}%`,
+        total: formatMoney(net(item.total_price, item.iva_rate)),
+    }))
+    if (data.shipping_cost > 0) {
+        rows.push({ description: 'Envío', quantity: '1', unit: formatMoney(net(data.shipping_cost, 21)), iva: '21%', total: formatMoney(net(data.shipping_cost, 21)) })
+    }
+    if (data.discount > 0) {
+        rows.push({ description: 'Descuento', quantity: '', unit: '', iva: '', total: `-${formatMoney(isTypeA ? data.discount * (invoice.subtotal / (invoice.total || 1)) : data.discount)}` })
+    }
+
+    for (const row of rows) {
+        y -= 14
+        const description = row.description.length > 60 ? `${row.description.slice(0, 57)}...` : row.description
+        text(description, columns.description, y)
+        text(row.quantity, columns.quantity, y, { align: 'right' })
+        text(row.unit, columns.unit, y, { align: 'right' })
+        if (isTypeA) text(row.iva, columns.iva, y, { align: 'right' })
+        text(row.total, columns.total, y, { align: 'right' })
+    }
+
+    // ============================================
+    // TOTALES
+    // ============================================
+    y = Math.min(y - 30, 260)
+    line(y + 15)
+
+    const totals: [string, number][] = isTypeA
+        ? [
+            ['Importe neto gravado', invoice.subtotal],
+            ...(invoice.iva_21 > 0 ? [['IVA 21%', invoice.iva_21] as [string, number]] : []),
+            ...(invoice.iva_10_5 > 0 ? [['IVA 10,5%', invoice.iva_10_5] as [string, number]] : []),
+        ]
+        : [['Subtotal', invoice.total]]
+
+    for (const [label, value] of totals) {
+        text(`${label}: $`, 470, y, { align: 'right' })
+        text(formatMoney(value), columns.total, y, { align: 'right' })
+        y -= 14
+    }
+    text('Importe total: $', 470, y, { align: 'right', font: bold, size: 11 })
+    text(formatMoney(invoice.total), columns.total, y, { align: 'right', font: bold, size: 11 })
+
+    // Régimen de Transparencia Fiscal al Consumidor (Ley 27.743)
+    if (!isTypeA) {
+        y -= 22
+        text('Régimen de Transparencia Fiscal al Consumidor (Ley 27.743)', MARGIN + 5, y, { font: bold, size: 8 })
+        y -= 11
+        text(`IVA contenido: $ ${formatMoney(invoice.iva_21 + invoice.iva_10_5)}`, MARGIN + 5, y, { size: 8 })
+    }
+
+    // ============================================
+    // CAE Y QR
+    // ============================================
+    const qrUrl = buildAfipQrUrl({
+        date: data.issue_date,
+        cuit: company.cuit,
+        pointOfSale: invoice.point_of_sale,
+        voucherType: data.voucher_type,
+        voucherNumber: invoice.voucher_number,
+        total: invoice.total,
+        docType: invoice.customer_doc_type,
+        docNumber: invoice.customer_document,
+        cae: invoice.cae,
+    })
+    const qrImage = await pdf.embedPng(await QRCode.toBuffer(qrUrl, { margin: 1, width: 300 }))
+    const qrSize = 100
+    page.drawImage(qrImage, { x: MARGIN, y: MARGIN, width: qrSize, height: qrSize })
+
+    text('Comprobante Autorizado', MARGIN + qrSize + 15, MARGIN + 70, { font: bold, size: 11 })
+    text('Esta Administración Federal no se responsabiliza por los datos ingresados en el detalle de la operación', MARGIN + qrSize + 15, MARGIN + 56, { size: 7, color: gray })
+    text(`CAE N°: ${invoice.cae}`, PAGE_WIDTH - MARGIN, MARGIN + 30, { font: bold, align: 'right' })
+    text(`Fecha de Vto. de CAE: ${formatDate(invoice.cae_expiration)}`, PAGE_WIDTH - MARGIN, MARGIN + 16, { font: bold, align: 'right' })
+
+    return pdf.save()
+}
@@ -0,0 +1,806 @@
+// Facturación electrónica de ventas
+// Arma la Factura A o B de una venta, pide el CAE a AFIP (WSFEv1) y la guarda en invoices.
+// Las notas de crédito A/B anulan (total o parcialmente) una factura emitida.
+// El punto de venta y los tipos habilitados salen de settings (point_of_sale, invoice_types).
+import {
+    AFIP_DOC_TYPES,
+    AFIP_IVA_IDS,
+    AFIP_RECEIVER_CONDITIONS,
+    AFIP_VOUCHER_TYPES,
+    getLastVoucherNumber,
+    loginCms,
+    requestCae,
+    type AfipAuth,
+    type AfipIvaLine,
+    type AfipMessage,
+    type AfipTicket,
+} from './afip'
+import { renderInvoicePdf, type InvoicePdfCompany } from './invoice-pdf'
+import type { Customer, Invoice, InvoiceInsert, InvoiceType, IvaRate, SaleWithRelations, VoucherKind } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const TICKET_KEY = 'afip_ticket'
+
+// Bucket privado de Supabase Storage con los PDF de los comprobantes
+const PDF_BUCKET = 'invoices'
+
+// Renovamos el ticket de WSAA si le quedan menos de 10 minutos
+const TICKET_RENEW_MARGIN_MS = 10 * 60 * 1000
+
+// Login en curso dentro de este proceso (AFIP rechaza logins simultáneos)
+let ticketInFlight: Promise<AfipTicket> | null = null
+
+/**
+ * Error de validación al facturar (datos de la venta o configuración incompletos)
+ */
+export class InvoicingError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'InvoicingError'
+    }
+}
+
+export interface IvaBreakdown {
+    net_21: number
+    iva_21: number
+    net_10_5: number
+    iva_10_5: number
+    subtotal: number    // neto gravado total
+    total: number
+}
+
+export interface InvoiceDraft extends IvaBreakdown {
+    invoice_type: InvoiceType
+    customer_name: string
+    customer_document: string
+    customer_tax_condition: string
+    doc_type: number
+    receiver_condition: number
+}
+
+export interface BillingSettings {
+    pointOfSale: number
+    invoiceTypes: InvoiceType[]
+    cuit: string
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+export function getVoucherType(invoiceType: InvoiceType, kind: VoucherKind = 'invoice'): number {
+    if (kind === 'credit_note') {
+        return invoiceType === 'A' ? AFIP_VOUCHER_TYPES.NOTA_CREDITO_A : AFIP_VOUCHER_TYPES.NOTA_CREDITO_B
+    }
+    return invoiceType === 'A' ? AFIP_VOUCHER_TYPES.FACTURA_A : AFIP_VOUCHER_TYPES.FACTURA_B
+}
+
+// Ej: A-00001-00000042 (factura) o NC-A-00001-00000003 (nota de crédito)
+export function formatInvoiceNumber(invoiceType: string, pointOfSale: number, voucherNumber: number, kind: VoucherKind = 'invoice'): string {
+    const prefix = kind === 'credit_note' ? 'NC-' : ''
+    return `${prefix}${invoiceType}-${String(pointOfSale).padStart(5, '0')}-${String(voucherNumber).padStart(8, '0')}`
+}
+
+// Fecha del comprobante (YYYYMMDD) en hora argentina
+export function getAfipDate(date: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Argentina/Buenos_Aires' })
+        .format(date)
+        .replace(/-/g, '')
+}
+
+// Condición frente al IVA del cliente → código de AFIP
+function getReceiverCondition(taxCondition: string | null): number {
+    const normalized = (taxCondition || '').toLowerCase()
+    if (normalized.includes('inscripto')) return AFIP_RECEIVER_CONDITIONS.RESPONSABLE_INSCRIPTO
+    if (normalized.includes('monotribut')) return AFIP_RECEIVER_CONDITIONS.MONOTRIBUTO
+    if (normalized.includes('exento')) return AFIP_RECEIVER_CONDITIONS.EXENTO
+    return AFIP_RECEIVER_CONDITIONS.CONSUMIDOR_FINAL
+}
+
+function getDocType(customer: Customer | null): { docType: number; docNumber: string } {
+    const docNumber = (customer?.document_number || '').replace(/\D/g, '')
+    if (!docNumber) {
+        return { docType: AFIP_DOC_TYPES.SIN_IDENTIFICAR, docNumber: '0' }
+    }
+
+    switch ((customer?.document_type || '').toUpperCase()) {
+        case 'CUIT':
+            return { docType: AFIP_DOC_TYPES.CUIT, docNumber }
+        case 'CUIL':
+            return { docType: AFIP_DOC_TYPES.CUIL, docNumber }
+        case 'DNI':
+            return { docType: AFIP_DOC_TYPES.DNI, docNumber }
+        default:
+            return { docType: AFIP_DOC_TYPES.SIN_IDENTIFICAR, docNumber: '0' }
+    }
+}
+
+// ============================================
+// CÁLCULO
+// ============================================
+
+/**
+ * Separa el total de la venta (precios con IVA incluido) en neto e IVA por alícuota.
+ * El descuento se prorratea entre las líneas y el envío se grava al 21%.
+ * ivaRates: alícuota por product_variant_id (21% si no figura).
+ */
+export function calculateIvaBreakdown(sale: SaleWithRelations, ivaRates: Record<string, IvaRate>): IvaBreakdown {
+    const itemsTotal = sale.items.reduce((sum, item) => sum + item.total_price, 0)
+    const discountFactor = itemsTotal > 0 ? Math.max(0, itemsTotal - sale.discount) / itemsTotal : 0
+
+    const gross: Record<IvaRate, number> = { 21: 0, 10.5: 0 }
+    for (const item of sale.items) {
+        const rate = (item.product_variant_id && ivaRates[item.product_variant_id]) || 21
+        gross[rate] += item.total_price * discountFactor
+    }
+    gross[21] += sale.shipping_cost
+
+    return breakdownFromGross(gross, sale.total)
+}
+
+// Neto e IVA por alícuota a partir de los importes con IVA, ajustando el redondeo al total
+function breakdownFromGross(gross: Record<IvaRate, number>, total: number): IvaBreakdown {
+    gross[21] = round2(gross[21])
+    gross[10.5] = round2(gross[10.5])
+
+    // El redondeo por alícuota no puede cambiar el total cobrado
+    const difference = round2(total - gross[21] - gross[10.5])
+    if (difference !== 0) {
+        if (gross[10.5] > gross[21]) gross[10.5] = round2(gross[10.5] + difference)
+        else gross[21] = round2(gross[21] + difference)
+    }
+
+    const net21 = round2(gross[21] / 1.21)
+    const net105 = round2(gross[10.5] / 1.105)
+
+    return {
+        net_21: net21,
+        iva_21: round2(gross[21] - net21),
+        net_10_5: net105,
+        iva_10_5: round2(gross[10.5] - net105),
+        subtotal: round2(net21 + net105),
+        total: round2(gross[21] + gross[10.5]),
+    }
+}
+
+/**
+ * Arma la factura de una venta: A para Responsables Inscriptos (con CUIT), B para el resto.
+ */
+export function buildInvoiceDraft(
+    sale: SaleWithRelations,
+    options: { allowedTypes: InvoiceType[]; ivaRates: Record<string, IvaRate> }
+): InvoiceDraft {
+    if (sale.items.length === 0) {
+        throw new InvoicingError('La venta no tiene items')
+    }
+
+    const receiverCondition = getReceiverCondition(sale.customer?.tax_condition ?? null)
+    const invoiceType: InvoiceType = receiverCondition === AFIP_RECEIVER_CONDITIONS.RESPONSABLE_INSCRIPTO ? 'A' : 'B'
+
+    if (!options.allowedTypes.includes(invoiceType)) {
+        throw new InvoicingError(`La Factura ${invoiceType} no está habilitada en la configuración (invoice_types)`)
+    }
+
+    const { docType, docNumber } = getDocType(sale.customer)
+    if (invoiceType === 'A' && (docType !== AFIP_DOC_TYPES.CUIT || docNumber.length !== 11)) {
+        throw new InvoicingError('Para emitir Factura A el cliente debe tener un CUIT válido de 11 dígitos')
+    }
+
+    const breakdown = calculateIvaBreakdown(sale, options.ivaRates)
+    if (breakdown.total <= 0) {
+        throw new InvoicingError('El total de la venta debe ser mayor a cero')
+    }
+
+    return {
+        ...breakdown,
+        invoice_type: invoiceType,
+        customer_name: sale.customer?.name || 'Consumidor Final',
+        customer_document: docNumber,
+        customer_tax_condition: sale.customer?.tax_condition || 'Consumidor Final',
+        doc_type: docType,
+        receiver_condition: receiverCondition,
+    }
+}
+
+/**
+ * Importes de una nota de crédito por `amount` (IVA incluido) sobre una factura.
+ * El monto se reparte entre alícuotas en la misma proporción que la factura original.
+ */
+export function calculateCreditBreakdown(original: Invoice, amount: number): IvaBreakdown {
+    // Nota de crédito total: replica exactamente los importes de la factura
+    if (round2(amount) === round2(original.total)) {
+        return {
+            net_21: original.net_21,
+            iva_21: original.iva_21,
+            net_10_5: original.net_10_5,
+            iva_10_5: original.iva_10_5,
+            subtotal: original.subtotal,
+            total: original.total,
+        }
+    }
+
+    const factor = original.total > 0 ? amount / original.total : 0
+    return breakdownFromGross({
+        21: (original.net_21 + original.iva_21) * factor,
+        10.5: (original.net_10_5 + original.iva_10_5) * factor,
+    }, amount)
+}
+
+export function getIvaLines(breakdown: IvaBreakdown): AfipIvaLine[] {
+    const lines: AfipIvaLine[] = []
+    if (breakdown.net_21 > 0) {
+        lines.push({ id: AFIP_IVA_IDS.IVA_21, base: breakdown.net_21, amount: breakdown.iva_21 })
+    }
+    if (breakdown.net_10_5 > 0) {
+        lines.push({ id: AFIP_IVA_IDS.IVA_10_5, base: breakdown.net_10_5, amount: breakdown.iva_10_5 })
+    }
+    return lines
+}
+
+// ============================================
+// CONFIGURACIÓN Y AUTENTICACIÓN
+// ============================================
+
+export async function getBillingSettings(supabase: SupabaseServerClient): Promise<BillingSettings> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('key, value')
+        .in('key', ['point_of_sale', 'invoice_types', 'company_cuit'])
+
+    if (error) throw error
+
+    const values = Object.fromEntries((data || []).map(row => [row.key, row.value]))
+    const pointOfSale = Number(values.point_of_sale)
+    const invoiceTypes = Array.isArray(values.invoice_types) ? values.invoice_types as InvoiceType[] : []
+    const cuit = String(values.company_cuit || process.env.AFIP_CUIT || '').replace(/\D/g, '')
+
+    if (!pointOfSale) {
+        throw new InvoicingError('Falta configurar el punto de venta (point_of_sale)')
+    }
+    if (cuit.length !== 11) {
+        throw new InvoicingError('Falta configurar el CUIT de la empresa (company_cuit)')
+    }
+
+    return { pointOfSale, invoiceTypes, cuit }
+}
+
+async function readTicket(supabase: SupabaseServerClient): Promise<AfipTicket | null> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', TICKET_KEY)
+        .maybeSingle()
+
+    if (error || !data) return null
+    return data.value as AfipTicket
+}
+
+async function renewTicket(supabase: SupabaseServerClient): Promise<AfipTicket> {
+    const ticket = await loginCms('wsfe')
+
+    const { error } = await supabase
+        .from('settings')
+        .upsert({
+            key: TICKET_KEY,
+            value: ticket,
+            category: 'billing',
+            updated_at: new Date().toISOString(),
+        }, {
+            onConflict: 'key'
+        })
+
+    if (error) console.error('Error saving AFIP ticket:', error)
+    return ticket
+}
+
+/**
+ * Credenciales para WSFEv1. Reutiliza el ticket de WSAA mientras siga vigente.
+ */
+export async function getAfipAuth(supabase: SupabaseServerClient, cuit: string): Promise<AfipAuth> {
+    let ticket = await readTicket(supabase)
+
+    if (!ticket || ticket.expires_at < Date.now() + TICKET_RENEW_MARGIN_MS) {
+        if (!ticketInFlight) {
+            ticketInFlight = renewTicket(supabase).finally(() => {
+                ticketInFlight = null
+            })
+        }
+        ticket = await ticketInFlight
+    }
+
+    return { token: ticket.token, sign: ticket.sign, cuit }
+}
+
+// ============================================
+// EMISIÓN
+// ============================================
+
+/**
+ * Emite la factura de una venta: pide el CAE a AFIP y guarda el comprobante.
+ */
+export async function issueInvoice(supabase: SupabaseServerClient, saleId: string): Promise<Invoice> {
+    const { data: sale, error: saleError } = await supabase
+        .from('sales')
+        .select(`
+            *,
+            customer:customers(*),
+            items:sale_items(
+                *,
+                product_variant:product_variants(id, product:products(name, iva_rate))
+            )
+        `)
+        .eq('id', saleId)
+        .maybeSingle()
+
+    if (saleError) throw saleError
+    if (!sale) throw new InvoicingError('Venta no encontrada')
+    if (sale.status === 'cancelled') throw new InvoicingError('No se puede facturar una venta cancelada')
+
+    const { data: existing, error: existingError } = await supabase
+        .from('invoices')
+        .select('invoice_number')
+        .eq('sale_id', saleId)
+        .eq('voucher_kind', 'invoice')
+        .eq('status', 'issued')
+        .limit(1)
+
+    if (existingError) throw existingError
+    if (existing && existing.length > 0) {
+        throw new InvoicingError(`La venta ya tiene la factura ${existing[0].invoice_number}`)
+    }
+
+    const ivaRates: Record<string, IvaRate> = {}
+    for (const item of sale.items || []) {
+        const rate = item.product_variant?.product?.iva_rate
+        if (item.product_variant_id && rate) ivaRates[item.product_variant_id] = Number(rate) as IvaRate
+    }
+
+    const settings = await getBillingSettings(supabase)
+    const draft = buildInvoiceDraft(sale as SaleWithRelations, { allowedTypes: settings.invoiceTypes, ivaRates })
+    const auth = await getAfipAuth(supabase, settings.cuit)
+    const voucherType = getVoucherType(draft.invoice_type)
+
+    const lastNumber = await getLastVoucherNumber(auth, settings.pointOfSale, voucherType)
+    const result = await requestCae(auth, {
+        pointOfSale: settings.pointOfSale,
+        voucherType,
+        voucherNumber: lastNumber + 1,
+        date: getAfipDate(),
+        docType: draft.doc_type,
+        docNumber: draft.customer_document,
+        receiverCondition: draft.receiver_condition,
+        net: draft.subtotal,
+        iva: round2(draft.iva_21 + draft.iva_10_5),
+        total: draft.total,
+        ivaLines: getIvaLines(draft),
+    })
+
+    return saveAuthorizedVoucher(supabase, {
+        sale_id: saleId,
+        invoice_type: draft.invoice_type,
+        voucher_kind: 'invoice',
+        original_invoice_id: null,
+        credit_reason: null,
+        invoice_number: formatInvoiceNumber(draft.invoice_type, settings.pointOfSale, result.voucherNumber),
+        point_of_sale: settings.pointOfSale,
+        voucher_number: result.voucherNumber,
+        cae: result.cae,
+        cae_expiration: result.caeExpiration,
+        customer_name: draft.customer_name,
+        customer_document: draft.customer_document,
+        customer_doc_type: draft.doc_type,
+        customer_tax_condition: draft.customer_tax_condition,
+        subtotal: draft.subtotal,
+        net_21: draft.net_21,
+        iva_21: draft.iva_21,
+        net_10_5: draft.net_10_5,
+        iva_10_5: draft.iva_10_5,
+        total: draft.total,
+        afip_observations: formatObservations(result.observations),
+        pdf_url: null,
+        status: 'issued',
+    })
+}
+
+export interface BulkInvoiceResult {
+    sale_id: string
+    invoice?: Invoice
+    error?: string
+}
+
+/**
+ * Factura varias ventas, una por vez (AFIP numera en orden). Un error no frena al resto.
+ */
+export async function issueInvoices(supabase: SupabaseServerClient, saleIds: string[]): Promise<BulkInvoiceResult[]> {
+    const results: BulkInvoiceResult[] = []
+
+    for (const saleId of saleIds) {
+        try {
+            results.push({ sale_id: saleId, invoice: await issueInvoice(supabase, saleId) })
+        } catch (err) {
+            if (!(err instanceof InvoicingError)) {
+                console.error(`Error issuing invoice for sale ${saleId}:`, err)
+            }
+            results.push({
+                sale_id: saleId,
+                error: err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error',
+            })
+        }
+    }
+
+    return results
+}
+
+/**
+ * Emite una nota de crédito sobre una factura. Sin `amount` anula el saldo pendiente de la factura.
+ */
+export async function issueCreditNote(
+    supabase: SupabaseServerClient,
+    invoiceId: string,
+    options: { amount?: number; reason?: string } = {}
+): Promise<Invoice> {
+    const { data: original, error: originalError } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .maybeSingle<Invoice>()
+
+    if (originalError) throw originalError
+    if (!original) throw new InvoicingError('Factura no encontrada')
+    if (original.voucher_kind !== 'invoice') throw new InvoicingError('Solo se pueden emitir notas de crédito sobre facturas')
+    if (original.status !== 'issued') throw new InvoicingError(`La factura ${original.invoice_number} ya está anulada`)
+
+    // Una nota de crédito a la vez por factura (ver claim_invoice_credit): dos pedidos
+    // simultáneos no obtienen dos CAE sobre el mismo saldo
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_invoice_credit', { p_invoice_id: original.id })
+    if (claimError) throw claimError
+    if (!claimed) {
+        throw new InvoicingError(`La factura ${original.invoice_number} ya tiene una nota de crédito en curso`)
+    }
+
+    try {
+        return await authorizeCreditNote(supabase, original, options)
+    } finally {
+        const { error: releaseError } = await supabase.rpc('release_invoice_credit', { p_invoice_id: original.id })
+        if (releaseError) console.error(`Error releasing invoice ${original.invoice_number}:`, releaseError)
+    }
+}
+
+// Pide el CAE de la nota de crédito y la guarda (con la factura ya reclamada)
+async function authorizeCreditNote(
+    supabase: SupabaseServerClient,
+    original: Invoice,
+    options: { amount?: number; reason?: string }
+): Promise<Invoice> {
+    if (!original.voucher_number) {
+        throw new InvoicingError(`La factura ${original.invoice_number} no tiene número de comprobante de AFIP`)
+    }
+
+    // El saldo se calcula con la factura reclamada: incluye las notas recién emitidas
+    const credited = await getCreditedAmount(supabase, original.id)
+    const remaining = round2(original.total - credited)
+    if (remaining <= 0) {
+        // Acreditada por completo pero sin anular (falló ese paso): se completa ahora
+        await markInvoiceCancelled(supabase, original)
+        throw new InvoicingError(`La factura ${original.invoice_number} ya está anulada`)
+    }
+
+    const amount = round2(options.amount ?? remaining)
+
+    if (amount <= 0) {
+        throw new InvoicingError('El monto de la nota de crédito debe ser mayor a cero')
+    }
+    if (amount > remaining) {
+        throw new InvoicingError(`El monto supera el saldo de la factura ($${remaining.toLocaleString('es-AR')})`)
+    }
+
+    const breakdown = calculateCreditBreakdown(original, amount)
+    const settings = await getBillingSettings(supabase)
+    const auth = await getAfipAuth(supabase, settings.cuit)
+    const voucherType = getVoucherType(original.invoice_type, 'credit_note')
+    const docType = original.customer_doc_type
+        ?? (original.invoice_type === 'A' ? AFIP_DOC_TYPES.CUIT : AFIP_DOC_TYPES.SIN_IDENTIFICAR)
+
+    const lastNumber = await getLastVoucherNumber(auth, settings.pointOfSale, voucherType)
+    const result = await requestCae(auth, {
+        pointOfSale: settings.pointOfSale,
+        voucherType,
+        voucherNumber: lastNumber + 1,
+        date: getAfipDate(),
+        docType,
+        docNumber: original.customer_document,
+        receiverCondition: getReceiverCondition(original.customer_tax_condition),
+        net: breakdown.subtotal,
+        iva: round2(breakdown.iva_21 + breakdown.iva_10_5),
+        total: breakdown.total,
+        ivaLines: getIvaLines(breakdown),
+        associated: [{
+            voucherType: getVoucherType(original.invoice_type),
+            pointOfSale: original.point_of_sale,
+            voucherNumber: original.voucher_number,
+            date: getAfipDate(new Date(original.created_at)),
+        }],
+    })
+
+    const creditNote = await saveAuthorizedVoucher(supabase, {
+        sale_id: original.sale_id,
+        invoice_type: original.invoice_type,
+        voucher_kind: 'credit_note',
+        original_invoice_id: original.id,
+        credit_reason: options.reason?.trim() || null,
+        invoice_number: formatInvoiceNumber(original.invoice_type, settings.pointOfSale, result.voucherNumber, 'credit_note'),
+        point_of_sale: settings.pointOfSale,
+        voucher_number: result.voucherNumber,
+        cae: result.cae,
+        cae_expiration: result.caeExpiration,
+        customer_name: original.customer_name,
+        customer_document: original.customer_document,
+        customer_doc_type: docType,
+        customer_tax_condition: original.customer_tax_condition,
+        subtotal: breakdown.subtotal,
+        net_21: breakdown.net_21,
+        iva_21: breakdown.iva_21,
+        net_10_5: breakdown.net_10_5,
+        iva_10_5: breakdown.iva_10_5,
+        total: breakdown.total,
+        afip_observations: formatObservations(result.observations),
+        pdf_url: null,
+        status: 'issued',
+    })
+
+    // Con la nota de crédito total la factura queda anulada. Si falla, la nota ya está
+    // emitida: el próximo intento de acreditarla completa la anulación
+    if (amount === remaining) {
+        try {
+            await markInvoiceCancelled(supabase, original)
+        } catch (err) {
+            console.error(`Error cancelling invoice ${original.invoice_number}:`, err)
+        }
+    }
+
+    return creditNote
+}
+
+async function markInvoiceCancelled(supabase: SupabaseServerClient, invoice: Pick<Invoice, 'id'>) {
+    const { error } = await supabase
+        .from('invoices')
+        .update({ status: 'cancelled' })
+        .eq('id', invoice.id)
+
+    if (error) throw error
+}
+
+/**
+ * Anula con notas de crédito las facturas vigentes de una venta reembolsada
+ */
+export async function creditRefundedSale(
+    supabase: SupabaseServerClient,
+    saleId: string,
+    reason: string = 'Reembolso de la venta'
+): Promise<Invoice[]> {
+    const { data: invoices, error } = await supabase
+        .from('invoices')
+        .select('id, total')
+        .eq('sale_id', saleId)
+        .eq('voucher_kind', 'invoice')
+        .eq('status', 'issued')
+
+    if (error) throw error
+
+    const creditNotes: Invoice[] = []
+    for (const invoice of invoices || []) {
+        // Ya acreditada por completo (un intento anterior no llegó a anularla): está resuelta
+        if (await getCreditedAmount(supabase, invoice.id) >= round2(Number(invoice.total))) {
+            await markInvoiceCancelled(supabase, invoice)
+            continue
+        }
+        creditNotes.push(await issueCreditNote(supabase, invoice.id, { reason }))
+    }
+    return creditNotes
+}
+
+// Total ya acreditado con notas de crédito sobre una factura
+async function getCreditedAmount(supabase: SupabaseServerClient, invoiceId: string): Promise<number> {
+    const { data, error } = await supabase
+        .from('invoices')
+        .select('total')
+        .eq('original_invoice_id', invoiceId)
+        .eq('voucher_kind', 'credit_note')
+        .eq('status', 'issued')
+
+    if (error) throw error
+    return round2((data || []).reduce((sum, row) => sum + Number(row.total), 0))
+}
+
+function formatObservations(observations: AfipMessage[]): string | null {
+    return observations.length > 0
+        ? observations.map(o => `${o.code} ${o.message}`).join(' | ')
+        : null
+}
+
+// Guarda un comprobante ya autorizado por AFIP y genera su PDF
+async function saveAuthorizedVoucher(supabase: SupabaseServerClient, row: InvoiceInsert): Promise<Invoice> {
+    const { data: invoice, error: invoiceError } = await supabase
+        .from('invoices')
+        .insert(row)
+        .select()
+        .single()
+
+    if (invoiceError) {
+        // El comprobante ya está autorizado en AFIP: hay que registrarlo a mano con estos datos
+        console.error(`CRITICAL: voucher authorized by AFIP but not saved (sale ${row.sale_id}, ${row.invoice_number}, CAE ${row.cae}):`, invoiceError)
+        throw invoiceError
+    }
+
+    // Si el PDF falla, el comprobante queda emitido igual: se genera al descargarlo
+    try {
+        return await generateInvoicePdf(supabase, invoice)
+    } catch (err) {
+        console.error(`Error generating PDF for invoice ${invoice.invoice_number}:`, err)
+        return invoice
+    }
+}
+
+// ============================================
+// PDF
+// ============================================
+
+export async function getCompanySettings(supabase: SupabaseServerClient): Promise<InvoicePdfCompany> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('key, value')
+        .in('key', ['company_name', 'company_cuit', 'company_address', 'company_iibb', 'company_activity_start', 'tax_condition'])
+
+    if (error) throw error
+
+    const values = Object.fromEntries((data || []).map(row => [row.key, String(row.value ?? '')]))
+    return {
+        name: values.company_name || '',
+        cuit: values.company_cuit || process.env.AFIP_CUIT || '',
+        address: values.company_address || '',
+        tax_condition: values.tax_condition || 'Responsable Inscripto',
+        iibb: values.company_iibb || '',
+        activity_start: values.company_activity_start || '',
+    }
+}
+
+export function getInvoicePdfPath(invoice: Pick<Invoice, 'invoice_number'>): string {
+    return `${invoice.invoice_number}.pdf`
+}
+
+/**
+ * Genera el PDF del comprobante, lo guarda en Storage y actualiza invoices.pdf_url
+ */
+export async function generateInvoicePdf(supabase: SupabaseServerClient, invoice: Invoice): Promise<Invoice> {
+    const { data: sale, error: saleError } = invoice.sale_id
+        ? await supabase
+            .from('sales')
+            .select(`
+                discount,
+                shipping_cost,
+                customer:customers(address, city, province),
+                items:sale_items(
+                    product_name,
+                    quantity,
+                    unit_price,
+                    total_price,
+                    product_variant:product_variants(product:products(iva_rate))
+                )
+            `)
+            .eq('id', invoice.sale_id)
+            .maybeSingle()
+        : { data: null, error: null }
+
+    if (saleError) throw saleError
+
+    // Sin tipos generados, Supabase infiere las relaciones como arrays
+    const customer = sale?.customer as unknown as Pick<Customer, 'address' | 'city' | 'province'> | null
+    const items = (sale?.items || []) as unknown as {
+        product_name: string
+        quantity: number
+        unit_price: number
+        total_price: number
+        product_variant: { product: { iva_rate: number } | null } | null
+    }[]
+
+    const isCreditNote = invoice.voucher_kind === 'credit_note'
+    let associatedNumber: string | null = null
+    if (isCreditNote && invoice.original_invoice_id) {
+        const { data: original } = await supabase
+            .from('invoices')
+            .select('invoice_number')
+            .eq('id', invoice.original_invoice_id)
+            .maybeSingle()
+        associatedNumber = original?.invoice_number || null
+    }
+
+    // La nota de crédito se detalla por alícuota (puede ser parcial), no por item de la venta
+    const creditDescription = `${invoice.credit_reason || 'Nota de crédito'}${associatedNumber ? ` - Factura ${associatedNumber}` : ''}`
+    const creditItems = ([[21, invoice.net_21 + invoice.iva_21], [10.5, invoice.net_10_5 + invoice.iva_10_5]] as [IvaRate, number][])
+        .filter(([, gross]) => gross > 0)
+        .map(([rate, gross]) => ({
+            description: rate === 10.5 ? `${creditDescription} (IVA 10,5%)` : creditDescription,
+            quantity: 1,
+            unit_price: round2(gross),
+            total_price: round2(gross),
+            iva_rate: rate,
+        }))
+
+    const pdf = await renderInvoicePdf({
+        invoice,
+        company: await getCompanySettings(supabase),
+        customer_address: customer
+            ? [customer.address, customer.city, customer.province].filter(Boolean).join(', ') || null
+            : null,
+        items: isCreditNote ? creditItems : items.map(item => ({
+            description: item.product_name,
+            quantity: item.quantity,
+            unit_price: item.unit_price,
+            total_price: item.total_price,
+            iva_rate: (Number(item.product_variant?.product?.iva_rate) || 21) as IvaRate,
+        })),
+        discount: isCreditNote ? 0 : sale?.discount || 0,
+        shipping_cost: isCreditNote ? 0 : sale?.shipping_cost || 0,
+        associated_invoice_number: associatedNumber,
+        voucher_type: getVoucherType(invoice.invoice_type, invoice.voucher_kind),
+        issue_date: getAfipDate(new Date(invoice.created_at)).replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3'),
+    })
+
+    const { error: uploadError } = await supabase.storage
+        .from(PDF_BUCKET)
+        .upload(getInvoicePdfPath(invoice), pdf, {
+            contentType: 'application/pdf',
+            upsert: true,
+        })
+
+    if (uploadError) throw uploadError
+
+    const { data: updated, error: updateError } = await supabase
+        .from('invoices')
+        .update({ pdf_url: `/api/invoices/${invoice.id}/pdf` })
+        .eq('id', invoice.id)
+        .select()
+        .single()
+
+    if (updateError) throw updateError
+    return updated
+}
+
+/**
+ * Devuelve el PDF guardado del comprobante, generándolo si todavía no existe
+ */
+export async function getInvoicePdf(
+    supabase: SupabaseServerClient,
+    invoiceId: string,
+    options: { regenerate?: boolean } = {}
+): Promise<{ invoice: Invoice; pdf: Blob }> {
+    const { data: invoice, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .maybeSingle<Invoice>()
+
+    if (error) throw error
+    if (!invoice) throw new InvoicingError('Factura no encontrada')
+
+    if (invoice.pdf_url && !options.regenerate) {
+        const { data: stored } = await supabase.storage
+            .from(PDF_BUCKET)
+            .download(getInvoicePdfPath(invoice))
+        if (stored) return { invoice, pdf: stored }
+    }
+
+    const updated = await generateInvoicePdf(supabase, invoice)
+    const { data: generated, error: downloadError } = await supabase.storage
+        .from(PDF_BUCKET)
+        .download(getInvoicePdfPath(updated))
+
+    if (downloadError || !generated) throw downloadError || new Error('No se pudo leer el PDF generado')
+    return { invoice: updated, pdf: generated }
+}
@@ -0,0 +1,114 @@
+// Libro IVA Ventas en el formato de ancho fijo de AFIP (Libro IVA Digital, RG 4597)
+// Genera los dos archivos que importa el aplicativo: comprobantes (266 caracteres por línea)
+// y alícuotas (62 caracteres por línea).
+import { getAfipDate, getVoucherType } from './invoicing'
+import { AFIP_DOC_TYPES, AFIP_IVA_IDS } from './afip'
+import type { Invoice } from './types'
+
+// AFIP espera fin de línea de Windows
+const LINE_BREAK = '\r\n'
+
+export interface IvaSalesBook {
+    vouchers: string    // LIBRO_IVA_DIGITAL_VENTAS_CBTE
+    rates: string       // LIBRO_IVA_DIGITAL_VENTAS_ALICUOTAS
+}
+
+// Número alineado a la derecha con ceros
+function numeric(value: number | string, length: number): string {
+    return String(value).replace(/\D/g, '').padStart(length, '0').slice(-length)
+}
+
+// Importe con 2 decimales implícitos (13 enteros + 2 decimales)
+function amount(value: number, length: number = 15): string {
+    return numeric(Math.round(Math.abs(value) * 100), length)
+}
+
+// Texto alineado a la izquierda con espacios, sin acentos (el archivo es ASCII)
+function alpha(value: string, length: number): string {
+    const ascii = value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\x20-\x7E]/g, ' ')
+    return ascii.slice(0, length).padEnd(length, ' ')
+}
+
+function getRateLines(invoice: Invoice): { id: number; net: number; iva: number }[] {
+    const lines: { id: number; net: number; iva: number }[] = []
+    if (invoice.net_21 > 0) lines.push({ id: AFIP_IVA_IDS.IVA_21, net: invoice.net_21, iva: invoice.iva_21 })
+    if (invoice.net_10_5 > 0) lines.push({ id: AFIP_IVA_IDS.IVA_10_5, net: invoice.net_10_5, iva: invoice.iva_10_5 })
+    return lines
+}
+
+function buildVoucherLine(invoice: Invoice, rateCount: number): string {
+    const docType = invoice.customer_doc_type ?? AFIP_DOC_TYPES.SIN_IDENTIFICAR
+    const docNumber = docType === AFIP_DOC_TYPES.SIN_IDENTIFICAR ? '0' : invoice.customer_document
+    const voucherType = getVoucherType(invoice.invoice_type, invoice.voucher_kind)
+    const voucherNumber = invoice.voucher_number ?? 0
+
+    return [
+        getAfipDate(new Date(invoice.created_at)),                         // Fecha de comprobante
+        numeric(voucherType, 3),                                           // Tipo de comprobante
+        numeric(invoice.point_of_sale, 5),                                 // Punto de venta
+        numeric(voucherNumber, 20),                                        // Número de comprobante
+        numeric(voucherNumber, 20),                                        // Número de comprobante hasta
+        numeric(docType, 2),                                               // Código de documento del comprador
+        numeric(docNumber, 20),                                            // Número de identificación del comprador
+        alpha(invoice.customer_name, 30),                                  // Apellido y nombre del comprador
+        amount(invoice.total),                                             // Importe total de la operación
+        amount(0),                                                         // Conceptos no gravados
+        amount(0),                                                         // Percepción a no categorizados
+        amount(0),                                                         // Operaciones exentas
+        amount(0),                                                         // Percepciones de impuestos nacionales
+        amount(0),                                                         // Percepciones de Ingresos Brutos
+        amount(0),                                                         // Percepciones de impuestos municipales
+        amount(0),                                                         // Impuestos internos
+        'PES',                                                             // Código de moneda
+        numeric(1000000, 10),                                              // Tipo de cambio (4 enteros + 6 decimales)
+        numeric(rateCount, 1),                                             // Cantidad de alícuotas de IVA
+        '0',                                                               // Código de operación (no corresponde)
+        amount(0),                                                         // Otros tributos
+        numeric(0, 8),                                                     // Fecha de vencimiento de pago
+    ].join('')
+}
+
+function buildRateLine(invoice: Invoice, rate: { id: number; net: number; iva: number }): string {
+    const voucherType = getVoucherType(invoice.invoice_type, invoice.voucher_kind)
+
+    return [
+        numeric(voucherType, 3),                                           // Tipo de comprobante
+        numeric(invoice.point_of_sale, 5),                                 // Punto de venta
+        numeric(invoice.voucher_number ?? 0, 20),                          // Número de comprobante
+        amount(rate.net),                                                  // Importe neto gravado
+        numeric(rate.id, 4),                                               // Alícuota de IVA (código AFIP)
+        amount(rate.iva),                                                  // Impuesto liquidado
+    ].join('')
+}
+
+/**
+ * Arma el Libro IVA Ventas de los comprobantes recibidos (facturas y notas de crédito).
+ * Los comprobantes anulados por nota de crédito se informan igual: la nota los compensa.
+ */
+export function buildIvaSalesBook(invoices: Invoice[]): IvaSalesBook {
+    const sorted = [...invoices]
+        .filter(invoice => invoice.voucher_number !== null)
+        .sort((a, b) =>
+            a.created_at.localeCompare(b.created_at) ||
+            (a.voucher_number ?? 0) - (b.voucher_number ?? 0)
+        )
+
+    const vouchers: string[] = []
+    const rates: string[] = []
+
+    for (const invoice of sorted) {
+        const rateLines = getRateLines(invoice)
+        vouchers.push(buildVoucherLine(invoice, rateLines.length))
+        for (const rate of rateLines) {
+            rates.push(buildRateLine(invoice, rate))
+        }
+    }
+
+    return {
+        vouchers: vouchers.map(line => line + LINE_BREAK).join(''),
+        rates: rates.map(line => line + LINE_BREAK).join(''),
+    }
+}
@@ -0,0 +1,180 @@
+// Comisiones y neto por canal: lo que queda de una venta después de la comisión de ML
+// (según el tipo de publicación), el cargo fijo de los precios bajos, el envío gratis a
+// cargo del vendedor, el costo de cobro de los otros canales e Ingresos Brutos.
+// Los parámetros se guardan en settings (fee_settings) y se editan desde /precios.
+import type { SaleChannel, SaleItem, SaleWithRelations } from './types'
+
+export type MLListingType = 'gold_special' | 'gold_pro'
+
+export const ML_LISTING_TYPE_LABELS: Record<MLListingType, string> = {
+    'gold_special': 'Clásica',
+    'gold_pro': 'Premium',
+}
+
+export type DirectChannel = Exclude<SaleChannel, 'ML'>
+
+// Cargo fijo por unidad que cobra ML a los precios menores a max_price
+export interface MLFixedFeeTier {
+    max_price: number
+    fee: number
+}
+
+export interface FeeSettings {
+    ml_commission_percent: Record<MLListingType, number>
+    ml_listing_type: MLListingType // tipo con el que se calculan las publicaciones y ventas
+    ml_fixed_fees: MLFixedFeeTier[]
+    ml_free_shipping_threshold: number // desde este precio el envío gratis es obligatorio
+    ml_shipping_cost: number // lo que paga el vendedor por ese envío
+    channel_fee_percent: Record<DirectChannel, number> // tarjeta, Mercado Pago, etc.
+    iibb_percent: number // Ingresos Brutos + gastos, sobre lo cobrado en todos los canales
+}
+
+export const FEE_SETTINGS_KEY = 'fee_settings'
+
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+    ml_commission_percent: { 'gold_special': 14, 'gold_pro': 28 },
+    ml_listing_type: 'gold_special',
+    ml_fixed_fees: [
+        { max_price: 15000, fee: 1000 },
+        { max_price: 25000, fee: 2000 },
+        { max_price: 33000, fee: 2500 },
+    ],
+    ml_free_shipping_threshold: 33000,
+    ml_shipping_cost: 0,
+    channel_fee_percent: { 'Instagram': 0, 'WhatsApp': 0, 'Presencial': 0 },
+    iibb_percent: 3.5,
+}
+
+function toNumber(value: unknown, fallback: number): number {
+    const number = Number(value)
+    return value != null && value !== '' && Number.isFinite(number) && number >= 0 ? number : fallback
+}
+
+/**
+ * Completa con los valores por defecto lo que falte o sea inválido en el valor guardado
+ */
+export function normalizeFeeSettings(value: unknown): FeeSettings {
+    const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof FeeSettings, unknown>>
+    const defaults = DEFAULT_FEE_SETTINGS
+    const commission = (stored.ml_commission_percent || {}) as Partial<Record<MLListingType, unknown>>
+    const channelFees = (stored.channel_fee_percent || {}) as Partial<Record<DirectChannel, unknown>>
+
+    return {
+        ml_commission_percent: {
+            'gold_special': toNumber(commission.gold_special, defaults.ml_commission_percent.gold_special),
+            'gold_pro': toNumber(commission.gold_pro, defaults.ml_commission_percent.gold_pro),
+        },
+        ml_listing_type: stored.ml_listing_type === 'gold_pro' ? 'gold_pro' : 'gold_special',
+        ml_fixed_fees: Array.isArray(stored.ml_fixed_fees)
+            ? (stored.ml_fixed_fees as Partial<MLFixedFeeTier>[])
+                .map(tier => ({ max_price: toNumber(tier?.max_price, 0), fee: toNumber(tier?.fee, 0) }))
+                .filter(tier => tier.max_price > 0)
+                .sort((a, b) => a.max_price - b.max_price)
+            : defaults.ml_fixed_fees,
+        ml_free_shipping_threshold: toNumber(stored.ml_free_shipping_threshold, defaults.ml_free_shipping_threshold),
+        ml_shipping_cost: toNumber(stored.ml_shipping_cost, defaults.ml_shipping_cost),
+        channel_fee_percent: {
+            'Instagram': toNumber(channelFees.Instagram, defaults.channel_fee_percent.Instagram),
+            'WhatsApp': toNumber(channelFees.WhatsApp, defaults.channel_fee_percent.WhatsApp),
+            'Presencial': toNumber(channelFees.Presencial, defaults.channel_fee_percent.Presencial),
+        },
+        iibb_percent: toNumber(stored.iibb_percent, defaults.iibb_percent),
+    }
+}
+
+export function getMLFixedFee(settings: FeeSettings, unitPrice: number): number {
+    const tier = [...settings.ml_fixed_fees]
+        .sort((a, b) => a.max_price - b.max_price)
+        .find(t => unitPrice < t.max_price)
+    return tier ? tier.fee : 0
+}
+
+export interface NetProceedsLine {
+    unitPrice: number
+    quantity: number
+    unitCost: number
+}
+
+export interface NetProceeds {
+    gross: number // lo cobrado, descontada la bonificación
+    commission: number
+    fixedFee: number
+    shipping: number
+    channelFee: number
+    iibb: number
+    net: number // lo que queda después de comisiones, envío e impuestos
+    cost: number
+    profit: number
+    margin: number | null // ganancia sobre lo cobrado, en %
+}
+
+/**
+ * Neto de una venta en un canal. En ML la comisión y el cargo fijo son por unidad, y el
+ * envío gratis se paga una vez por venta si algún producto llega al umbral.
+ * La bonificación se descuenta de lo cobrado antes de aplicar los porcentajes.
+ */
+export function getNetProceeds(
+    settings: FeeSettings,
+    channel: SaleChannel,
+    lines: NetProceedsLine[],
+    options: { discount?: number; listingType?: MLListingType } = {}
+): NetProceeds {
+    const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0)
+    const gross = Math.max(subtotal - (options.discount || 0), 0)
+    const cost = lines.reduce((sum, line) => sum + line.unitCost * line.quantity, 0)
+
+    let commission = 0
+    let fixedFee = 0
+    let shipping = 0
+    let channelFee = 0
+
+    if (channel === 'ML') {
+        const listingType = options.listingType || settings.ml_listing_type
+        commission = gross * settings.ml_commission_percent[listingType] / 100
+        fixedFee = lines.reduce((sum, line) => sum + getMLFixedFee(settings, line.unitPrice) * line.quantity, 0)
+        if (lines.some(line => line.unitPrice >= settings.ml_free_shipping_threshold)) {
+            shipping = settings.ml_shipping_cost
+        }
+    } else {
+        channelFee = gross * settings.channel_fee_percent[channel] / 100
+    }
+
+    const iibb = gross * settings.iibb_percent / 100
+    const net = gross - commission - fixedFee - shipping - channelFee - iibb
+    const profit = net - cost
+
+    return {
+        gross,
+        commission,
+        fixedFee,
+        shipping,
+        channelFee,
+        iibb,
+        net,
+        cost,
+        profit,
+        margin: gross > 0 ? (profit / gross) * 100 : null,
+    }
+}
+
+/**
+ * Neto de una unidad vendida al precio indicado
+ */
+export function getUnitNetProceeds(settings: FeeSettings, channel: SaleChannel, price: number, cost: number): NetProceeds {
+    return getNetProceeds(settings, channel, [{ unitPrice: price, quantity: 1, unitCost: cost }])
+}
+
+/**
+ * Neto de una venta registrada, al costo actual de cada variante (el propio o el del
+ * producto). Las líneas sin variante vinculada se toman sin costo.
+ */
+export function getSaleNetProceeds(
+    settings: FeeSettings,
+    sale: Pick<SaleWithRelations, 'channel' | 'discount'> & { items: SaleItem[] }
+): NetProceeds {
+    return getNetProceeds(settings, sale.channel, sale.items.map(item => ({
+        unitPrice: item.quantity > 0 ? item.total_price / item.quantity : item.unit_price,
+        quantity: item.quantity,
+        unitCost: item.product_variant?.cost_price ?? item.product_variant?.product?.cost_price ?? 0,
+    })), { discount: sale.discount })
+}
@@ -0,0 +1,248 @@
+// Bandeja de entrada de notificaciones de Mercado Libre
+// Toda notificación se guarda en ml_notifications (clave: _id) antes de procesarse.
+// El procesamiento es idempotente: una notificación ya procesada no se vuelve a
+// procesar salvo que se fuerce (replay desde /configuracion).
+import { getMLSession, type MLSession } from './mercadolibre-tokens'
+import { processOrder } from './mercadolibre-orders'
+import { processPayment } from './mercadolibre-payments'
+import { processQuestion } from './mercadolibre-questions'
+import { refreshListingsFromItem } from './mercadolibre-listings'
+import type { Json, MLNotificationRecord, MLNotificationStatus } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// Notificación tal como la envía ML
+export interface MLNotification {
+    _id: string
+    resource: string  // ej: /orders/123456789
+    user_id: number
+    topic: string     // ej: orders_v2, items, questions, payments
+    application_id: number
+    attempts: number
+    sent: string
+    received: string
+}
+
+export interface ProcessNotificationResult {
+    id: string
+    status: MLNotificationStatus | 'skipped'
+    result?: Json
+    error?: string
+}
+
+type NotificationHandler = (supabase: SupabaseServerClient, ml: MLSession, notification: MLNotificationRecord) => Promise<Json>
+
+// Reintentos: 1, 2, 4, 8... minutos, hasta MAX_PROCESS_ATTEMPTS intentos
+const MAX_PROCESS_ATTEMPTS = 8
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+// Una notificación que quedó en "processing" más de este tiempo se considera abandonada
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+// Una notificación "pending" con esta antigüedad no llegó a procesarse inline
+const PENDING_GRACE_MS = 60 * 1000
+
+const handlers: Record<string, NotificationHandler> = {
+    orders_v2: handleOrderNotification,
+    orders: handleOrderNotification,
+    items: handleItemNotification,
+    payments: handlePaymentNotification,
+    questions: handleQuestionNotification,
+}
+
+// ============================================
+// HANDLERS POR TOPIC
+// ============================================
+
+async function handleOrderNotification(supabase: SupabaseServerClient, ml: MLSession, notification: MLNotificationRecord): Promise<Json> {
+    // Extraer order_id del resource (ej: /orders/123456789)
+    const orderIdMatch = notification.resource.match(/\/orders\/(\d+)/)
+    if (!orderIdMatch) {
+        throw new Error(`No se pudo extraer el ID de orden de ${notification.resource}`)
+    }
+
+    return processOrder(supabase, ml, orderIdMatch[1])
+}
+
+async function handleItemNotification(supabase: SupabaseServerClient, ml: MLSession, notification: MLNotificationRecord): Promise<Json> {
+    // ej: /items/MLA123456789
+    const itemIdMatch = notification.resource.match(/\/items\/([A-Z]+\d+)/)
+    if (!itemIdMatch) {
+        throw new Error(`No se pudo extraer el ID de item de ${notification.resource}`)
+    }
+
+    return refreshListingsFromItem(supabase, ml, itemIdMatch[1])
+}
+
+async function handlePaymentNotification(supabase: SupabaseServerClient, ml: MLSession, notification: MLNotificationRecord): Promise<Json> {
+    // ej: /collections/123456789 o /payments/123456789
+    const paymentIdMatch = notification.resource.match(/\/(?:collections|payments)\/(\d+)/)
+    if (!paymentIdMatch) {
+        throw new Error(`No se pudo extraer el ID de pago de ${notification.resource}`)
+    }
+
+    return processPayment(supabase, ml, paymentIdMatch[1])
+}
+
+async function handleQuestionNotification(supabase: SupabaseServerClient, ml: MLSession, notification: MLNotificationRecord): Promise<Json> {
+    // ej: /questions/123456789
+    const questionIdMatch = notification.resource.match(/\/questions\/(\d+)/)
+    if (!questionIdMatch) {
+        throw new Error(`No se pudo extraer el ID de pregunta de ${notification.resource}`)
+    }
+
+    return processQuestion(supabase, ml, questionIdMatch[1])
+}
+
+// ============================================
+// BANDEJA DE ENTRADA
+// ============================================
+
+/**
+ * Guarda la notificación en la bandeja. Si ya existía (reenvío de ML), no la modifica.
+ */
+export async function storeNotification(supabase: SupabaseServerClient, notification: MLNotification): Promise<void> {
+    const { error } = await supabase
+        .from('ml_notifications')
+        .upsert({
+            id: notification._id,
+            topic: notification.topic,
+            resource: notification.resource,
+            user_id: notification.user_id ?? null,
+            payload: notification,
+            status: 'pending',
+        }, {
+            onConflict: 'id',
+            ignoreDuplicates: true,
+        })
+
+    if (error) throw error
+}
+
+function isLockStale(record: MLNotificationRecord): boolean {
+    return !record.locked_at || Date.parse(record.locked_at) < Date.now() - STALE_LOCK_MS
+}
+
+function getNextRetryAt(attempts: number): string | null {
+    if (attempts >= MAX_PROCESS_ATTEMPTS) return null
+    return new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString()
+}
+
+/**
+ * Procesa una notificación guardada.
+ * Con force: true se reprocesa aunque ya haya sido procesada (replay manual).
+ */
+export async function processNotification(
+    supabase: SupabaseServerClient,
+    id: string,
+    options?: { force?: boolean }
+): Promise<ProcessNotificationResult> {
+    const { data: record, error: fetchError } = await supabase
+        .from('ml_notifications')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle<MLNotificationRecord>()
+
+    if (fetchError) throw fetchError
+    if (!record) throw new Error(`Notificación ${id} no encontrada`)
+
+    // Idempotencia: lo ya procesado (o en proceso por otro request) no se toca
+    if (!options?.force && (record.status === 'processed' || record.status === 'ignored')) {
+        return { id, status: 'skipped', result: record.result ?? undefined }
+    }
+    if (record.status === 'processing' && !isLockStale(record)) {
+        return { id, status: 'skipped' }
+    }
+
+    const handler = handlers[record.topic]
+    if (!handler) {
+        await supabase
+            .from('ml_notifications')
+            .update({ status: 'ignored', processed_at: new Date().toISOString() })
+            .eq('id', id)
+        return { id, status: 'ignored' }
+    }
+
+    // Tomar la notificación: el update condicional garantiza que un solo request la procese
+    const attempts = record.process_attempts + 1
+    const { data: claimed, error: claimError } = await supabase
+        .from('ml_notifications')
+        .update({
+            status: 'processing',
+            locked_at: new Date().toISOString(),
+            process_attempts: attempts,
+        })
+        .eq('id', id)
+        .eq('status', record.status)
+        .eq('process_attempts', record.process_attempts)
+        .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed || claimed.length === 0) {
+        return { id, status: 'skipped' }
+    }
+
+    try {
+        const ml = await getMLSession(supabase)
+        if (!ml) throw new Error('Mercado Libre no está conectado')
+
+        const result = await handler(supabase, ml, record)
+
+        await supabase
+            .from('ml_notifications')
+            .update({
+                status: 'processed',
+                result,
+                last_error: null,
+                locked_at: null,
+                next_retry_at: null,
+                processed_at: new Date().toISOString(),
+            })
+            .eq('id', id)
+
+        return { id, status: 'processed', result }
+    } catch (err) {
+        const message = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error'
+        console.error(`Error processing ML notification ${id}:`, err)
+
+        await supabase
+            .from('ml_notifications')
+            .update({
+                status: 'failed',
+                last_error: message,
+                locked_at: null,
+                next_retry_at: getNextRetryAt(attempts),
+            })
+            .eq('id', id)
+
+        return { id, status: 'failed', error: message }
+    }
+}
+
+/**
+ * Reintenta las notificaciones fallidas cuyo próximo intento ya venció,
+ * las pendientes que nunca se procesaron y las que quedaron trabadas en proceso.
+ * Pensado para ejecutarse periódicamente (cron / n8n).
+ */
+export async function retryDueNotifications(supabase: SupabaseServerClient, limit: number = 20): Promise<ProcessNotificationResult[]> {
+    const now = Date.now()
+    const { data, error } = await supabase
+        .from('ml_notifications')
+        .select('id')
+        .or([
+            `and(status.eq.failed,next_retry_at.lte.${new Date(now).toISOString()})`,
+            `and(status.eq.pending,received_at.lte.${new Date(now - PENDING_GRACE_MS).toISOString()})`,
+            `and(status.eq.processing,locked_at.lte.${new Date(now - STALE_LOCK_MS).toISOString()})`,
+        ].join(','))
+        .order('received_at', { ascending: true })
+        .limit(limit)
+
+    if (error) throw error
+
+    const results: ProcessNotificationResult[] = []
+    for (const row of data || []) {
+        results.push(await processNotification(supabase, row.id))
+    }
+    return results
+}
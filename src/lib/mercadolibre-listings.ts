@@ -0,0 +1,183 @@
+// Actualización de publicaciones vinculadas (platform_listings) desde y hacia Mercado Libre
+import { getItem, updateItemPrice, updateVariationPrice, type MLItem } from './mercadolibre'
+import type { MLSession } from './mercadolibre-tokens'
+import { applyMLPriceMarkup, readMLPriceMarkupPercent } from './ml-price-markup'
+import { PRICE_SOURCE_HEADER } from './price-history'
+import type { ListingStatus } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const LISTING_STATUSES: ListingStatus[] = ['active', 'paused', 'closed']
+
+// ML tiene más estados (under_review, inactive...); localmente los tratamos como pausados
+function toListingStatus(mlStatus: string): ListingStatus {
+    return LISTING_STATUSES.includes(mlStatus as ListingStatus) ? mlStatus as ListingStatus : 'paused'
+}
+
+/**
+ * Refresca precio, estado y stock de todas las vinculaciones de un item de ML
+ */
+export async function refreshListingsFromItem(supabase: SupabaseServerClient, ml: MLSession, itemId: string) {
+    const { data: listings, error } = await supabase
+        .from('platform_listings')
+        .select('id, external_variant_id')
+        .eq('platform', 'mercadolibre')
+        .eq('external_id', itemId)
+
+    if (error) throw error
+
+    if (!listings || listings.length === 0) {
+        return { skipped: true, reason: 'not_linked', item_id: itemId }
+    }
+
+    const mlItem = await ml.call(token => getItem(token, itemId))
+    const status = toListingStatus(mlItem.status)
+    const now = new Date().toISOString()
+
+    let updated = 0
+    const unmatched: string[] = []
+
+    for (const listing of listings) {
+        const values = getListingValues(mlItem, listing.external_variant_id)
+        if (!values) {
+            unmatched.push(listing.id)
+            continue
+        }
+
+        const { error: updateError } = await supabase
+            .from('platform_listings')
+            .update({
+                price: values.price,
+                stock_synced: values.stock,
+                status,
+                last_sync_at: now,
+            })
+            .setHeader(PRICE_SOURCE_HEADER, 'ml_sync')
+            .eq('id', listing.id)
+
+        if (updateError) throw updateError
+        updated++
+    }
+
+    return {
+        item_id: itemId,
+        item_status: mlItem.status,
+        updated,
+        unmatched: unmatched.length > 0 ? unmatched : undefined,
+    }
+}
+
+// Precio y stock que corresponden a una vinculación (variación específica o item simple).
+// Devuelve null si la vinculación no se puede resolver sin ambigüedad.
+function getListingValues(mlItem: MLItem, externalVariantId: string | null): { price: number; stock: number } | null {
+    const variations = mlItem.variations || []
+
+    if (externalVariantId) {
+        const variation = variations.find(v => String(v.id) === externalVariantId)
+        if (variation) return { price: variation.price, stock: variation.available_quantity }
+        // La variación ya no existe en ML; si el item quedó sin variaciones usamos el item
+        return variations.length === 0 ? { price: mlItem.price, stock: mlItem.available_quantity } : null
+    }
+
+    // Sin variación vinculada: solo es seguro si el item no tiene variaciones
+    return variations.length === 0 ? { price: mlItem.price, stock: mlItem.available_quantity } : null
+}
+
+export interface ListingPricePushResult {
+    pushed: number // items o variaciones actualizados en ML
+    skipped: { item_id: string; reason: string }[]
+    errors: { item_id: string; error: string }[]
+}
+
+type PushListing = {
+    id: string
+    external_id: string | null
+    external_variant_id: string | null
+    product_variant: { price_adjustment: number; product: { base_price: number } } | null
+}
+
+/**
+ * Publica en ML el precio local (precio base + ajuste, más el recargo de ML) de las
+ * variantes indicadas y lo registra en sus vinculaciones. Las vinculadas a una variación
+ * se actualizan en /variations/{id}; las demás, en el item completo.
+ */
+export async function pushListingPrices(
+    supabase: SupabaseServerClient,
+    ml: MLSession,
+    variantIds: string[]
+): Promise<ListingPricePushResult> {
+    const result: ListingPricePushResult = { pushed: 0, skipped: [], errors: [] }
+    if (variantIds.length === 0) return result
+
+    const [{ data, error }, markupPercent] = await Promise.all([
+        supabase
+            .from('platform_listings')
+            .select('id, external_id, external_variant_id, product_variant:product_variants(price_adjustment, product:products(base_price))')
+            .eq('platform', 'mercadolibre')
+            .in('product_variant_id', variantIds),
+        readMLPriceMarkupPercent(supabase),
+    ])
+
+    if (error) throw error
+
+    const listings = (data || []) as unknown as PushListing[]
+
+    // Agrupadas por item: el precio del item completo sólo se puede publicar sin ambigüedad
+    const byItem = new Map<string, PushListing[]>()
+    for (const listing of listings) {
+        if (!listing.external_id || !listing.product_variant) continue
+        byItem.set(listing.external_id, [...(byItem.get(listing.external_id) || []), listing])
+    }
+
+    const getPrice = (listing: PushListing) => {
+        const variant = listing.product_variant!
+        return applyMLPriceMarkup(variant.product.base_price + variant.price_adjustment, markupPercent)
+    }
+
+    async function push(itemId: string, variationId: string | null, price: number, listingIds: string[]) {
+        try {
+            if (variationId) {
+                await ml.call(token => updateVariationPrice(token, itemId, variationId, price))
+            } else {
+                await ml.call(token => updateItemPrice(token, itemId, price))
+            }
+
+            const { error: updateError } = await supabase
+                .from('platform_listings')
+                .update({ price, last_sync_at: new Date().toISOString() })
+                .setHeader(PRICE_SOURCE_HEADER, 'ml_push')
+                .in('id', listingIds)
+
+            if (updateError) throw updateError
+            result.pushed++
+        } catch (err) {
+            result.errors.push({
+                item_id: variationId ? `${itemId}/${variationId}` : itemId,
+                error: err instanceof Error ? err.message : 'Error'
+            })
+        }
+    }
+
+    for (const [itemId, itemListings] of byItem) {
+        const variationListings = itemListings.filter(listing => listing.external_variant_id)
+        const itemLevelListings = itemListings.filter(listing => !listing.external_variant_id)
+
+        for (const listing of variationListings) {
+            await push(itemId, listing.external_variant_id, getPrice(listing), [listing.id])
+        }
+
+        if (itemLevelListings.length === 0) continue
+
+        const prices = new Set(itemLevelListings.map(getPrice))
+        if (variationListings.length > 0) {
+            result.skipped.push({ item_id: itemId, reason: 'Variante vinculada al item sin indicar la variación de ML' })
+        } else if (prices.size > 1) {
+            result.skipped.push({ item_id: itemId, reason: 'Variantes con distinto precio vinculadas al mismo item' })
+        } else {
+            await push(itemId, null, getPrice(itemLevelListings[0]), itemLevelListings.map(listing => listing.id))
+        }
+    }
+
+    return result
+}
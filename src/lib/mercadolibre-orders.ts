@@ -0,0 +1,217 @@
+// Procesamiento de órdenes de Mercado Libre (notificaciones orders_v2)
+// Crea la venta local cuando la orden se paga y la reconcilia ante cancelaciones o reembolsos
+import { creditRefundedSale } from './invoicing'
+import { getOrder, type MLOrder } from './mercadolibre'
+import type { MLSession } from './mercadolibre-tokens'
+import type { PaymentStatus, Sale, SaleStatus } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+// Estados de pago de ML que implican que el dinero volvió al comprador
+const REFUNDED_PAYMENT_STATUSES = ['refunded', 'charged_back']
+
+/**
+ * Procesa una orden de ML: la importa si es nueva y está pagada,
+ * o reconcilia la venta existente con el estado actual de la orden.
+ */
+export async function processOrder(supabase: SupabaseServerClient, ml: MLSession, orderId: string) {
+    // Obtener detalles de la orden (siempre, para reflejar su estado actual)
+    const mlOrder = await ml.call(token => getOrder(token, orderId))
+
+    // Si la venta ya existe, reconciliamos su estado con el de ML
+    const { data: existing, error: existingError } = await supabase
+        .from('sales')
+        .select('id, sale_number, status, payment_status')
+        .eq('ml_order_id', orderId)
+        .maybeSingle()
+
+    if (existingError) throw existingError
+
+    if (existing) {
+        return reconcileSale(supabase, existing, mlOrder)
+    }
+
+    // Solo importamos órdenes pagadas
+    if (mlOrder.status !== 'paid') {
+        console.log(`Order ${orderId} status is ${mlOrder.status}, skipping`)
+        return { skipped: true, order_status: mlOrder.status }
+    }
+
+    return importOrder(supabase, mlOrder)
+}
+
+// Crear la venta local a partir de una orden pagada
+async function importOrder(supabase: SupabaseServerClient, mlOrder: MLOrder) {
+    const saleNumber = `ML-${mlOrder.id}`
+
+    // Resolver primero las variantes locales, para crear todo en una sola transacción
+    const items = []
+    for (const item of mlOrder.order_items) {
+        const variantId = await findListingVariant(supabase, item.item.id, item.item.variation_id)
+        if (!variantId) {
+            console.warn(`No local product found for ML Item ${item.item.id} (Variation: ${item.item.variation_id})`)
+        }
+
+        items.push({
+            product_variant_id: variantId,
+            product_name: item.item.title,
+            quantity: item.quantity,
+            unit_price: item.unit_price,
+            total_price: item.quantity * item.unit_price,
+        })
+    }
+
+    // Venta, items, historial y stock en una transacción (ver import_ml_order).
+    // sale_number es único: si dos notificaciones de la misma orden llegan juntas,
+    // la segunda falla acá y en el reintento entra por la reconciliación
+    const { data: sale, error: saleError } = await supabase.rpc('import_ml_order', {
+        p_sale: {
+            sale_number: saleNumber,
+            ml_order_id: String(mlOrder.id),
+            subtotal: mlOrder.total_amount,
+            discount: 0,
+            shipping_cost: 0,
+            total: mlOrder.total_amount,
+            payment_method: 'Pago Online',
+            notes: `Importado automáticamente de ML - Comprador: ${mlOrder.buyer.nickname}`,
+            created_at: mlOrder.date_created,
+        },
+        p_items: items,
+    })
+
+    if (saleError) throw saleError
+
+    console.log(`✅ Order ${mlOrder.id} imported successfully as sale ${saleNumber}`)
+
+    return {
+        imported: true,
+        sale_id: (sale as Sale).id,
+        sale_number: saleNumber,
+    }
+}
+
+// Busca la variante local vinculada a un item de ML: primero por la variación
+// específica y, si no hay match exacto, por la publicación
+async function findListingVariant(
+    supabase: SupabaseServerClient,
+    itemId: string,
+    variationId?: number | null
+): Promise<string | null> {
+    if (variationId) {
+        const { data: specificVariant } = await supabase
+            .from('platform_listings')
+            .select('product_variant_id')
+            .eq('platform', 'mercadolibre')
+            .eq('external_variant_id', String(variationId))
+            .maybeSingle()
+
+        if (specificVariant?.product_variant_id) return specificVariant.product_variant_id
+    }
+
+    const { data: genericListing } = await supabase
+        .from('platform_listings')
+        .select('product_variant_id')
+        .eq('platform', 'mercadolibre')
+        .eq('external_id', itemId)
+        .maybeSingle()
+
+    return genericListing?.product_variant_id ?? null
+}
+
+// Traduce el estado de la orden de ML al estado local de la venta.
+// Devuelve null si el estado de ML no implica ningún cambio local.
+function mapOrderState(mlOrder: MLOrder, current: Pick<Sale, 'status' | 'payment_status'>): { status: SaleStatus; payment_status: PaymentStatus } | null {
+    const payments = mlOrder.payments || []
+    const refunded = payments.length > 0 && payments.every(p => REFUNDED_PAYMENT_STATUSES.includes(p.status))
+
+    if (refunded) {
+        return { status: 'cancelled', payment_status: 'refunded' }
+    }
+
+    if (mlOrder.status === 'cancelled' || mlOrder.status === 'invalid') {
+        // Si el pago todavía no figura como devuelto, mantenemos el estado de pago actual
+        return { status: 'cancelled', payment_status: current.payment_status }
+    }
+
+    if (mlOrder.status === 'paid') {
+        return { status: 'completed', payment_status: 'paid' }
+    }
+
+    return null
+}
+
+// Reconciliar una venta existente con el estado actual de la orden en ML
+async function reconcileSale(
+    supabase: SupabaseServerClient,
+    sale: Pick<Sale, 'id' | 'sale_number' | 'status' | 'payment_status'>,
+    mlOrder: MLOrder
+) {
+    const target = mapOrderState(mlOrder, sale)
+
+    if (!target || (target.status === sale.status && target.payment_status === sale.payment_status)) {
+        // Si la emisión de notas de crédito falló en un intento anterior, el reintento la completa
+        const creditNotes = target?.payment_status === 'refunded' ? await creditRefund(supabase, sale, mlOrder) : []
+        console.log(`Order ${mlOrder.id} (${mlOrder.status}) already in sync with sale ${sale.sale_number}`)
+        return { skipped: true, sale_id: sale.id, ...(creditNotes.length > 0 && { credit_notes: creditNotes }) }
+    }
+
+    if (sale.status === 'cancelled' && target.status !== 'cancelled') {
+        // Una venta cancelada no se reactiva automáticamente (el stock ya fue devuelto)
+        console.warn(`Order ${mlOrder.id} is ${mlOrder.status} but sale ${sale.sale_number} was cancelled, review manually`)
+        return { skipped: true, sale_id: sale.id, needs_review: true }
+    }
+
+    // Estado, historial y devolución de stock en una transacción, condicionada al estado leído
+    const { data: restored, error } = await supabase.rpc('transition_sale_status', {
+        p_sale_id: sale.id,
+        p_from_status: sale.status,
+        p_from_payment_status: sale.payment_status,
+        p_to_status: target.status,
+        p_to_payment_status: target.payment_status,
+        p_source: 'ml_webhook',
+        p_notes: `Orden ML ${mlOrder.id}: ${mlOrder.status}${mlOrder.status_detail ? ` (${mlOrder.status_detail})` : ''}`,
+    })
+
+    if (error) throw error
+
+    if (restored === null) {
+        // Otra notificación ya cambió la venta: lo que haga falta lo aplicó ella
+        console.log(`Sale ${sale.sale_number} changed concurrently, skipping order ${mlOrder.id}`)
+        return { skipped: true, sale_id: sale.id }
+    }
+
+    // El reembolso anula la factura emitida con una nota de crédito
+    let creditNotes: string[] = []
+    if (target.payment_status === 'refunded' && sale.payment_status !== 'refunded') {
+        creditNotes = await creditRefund(supabase, sale, mlOrder)
+    }
+
+    console.log(`🔄 Sale ${sale.sale_number}: ${sale.status}/${sale.payment_status} -> ${target.status}/${target.payment_status}`)
+
+    return {
+        updated: true,
+        sale_id: sale.id,
+        status: target.status,
+        payment_status: target.payment_status,
+        stock_restored: restored as number,
+        credit_notes: creditNotes,
+    }
+}
+
+// Anula con notas de crédito las facturas vigentes de la venta reembolsada.
+// Si falla se propaga para que la notificación se reintente; solo se acreditan
+// las facturas que siguen vigentes, así el reintento no duplica notas.
+async function creditRefund(
+    supabase: SupabaseServerClient,
+    sale: Pick<Sale, 'id' | 'sale_number'>,
+    mlOrder: MLOrder
+): Promise<string[]> {
+    try {
+        const notes = await creditRefundedSale(supabase, sale.id, `Reembolso orden ML ${mlOrder.id}`)
+        return notes.map(note => note.invoice_number)
+    } catch (err) {
+        console.error(`Error issuing credit note for refunded sale ${sale.sale_number}:`, err)
+        throw err
+    }
+}
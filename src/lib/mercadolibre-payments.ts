@@ -0,0 +1,110 @@
+// Procesamiento de pagos de Mercado Libre (notificaciones payments)
+// Mantiene sales.payment_status y sales.payment_method alineados con el pago en ML
+import { getPayment, type MLCollection } from './mercadolibre'
+import type { MLSession } from './mercadolibre-tokens'
+import { processOrder } from './mercadolibre-orders'
+import type { PaymentStatus } from './types'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const paymentTypeLabels: Record<string, string> = {
+    'account_money': 'Dinero en cuenta MP',
+    'credit_card': 'Tarjeta de Crédito',
+    'debit_card': 'Tarjeta de Débito',
+    'prepaid_card': 'Tarjeta Prepaga',
+    'ticket': 'Efectivo (Cupón)',
+    'bank_transfer': 'Transferencia',
+    'atm': 'Cajero',
+    'digital_currency': 'Mercado Crédito',
+}
+
+function toPaymentStatus(payment: MLCollection): PaymentStatus {
+    switch (payment.status) {
+        case 'approved':
+            return 'paid'
+        case 'refunded':
+        case 'charged_back':
+            return 'refunded'
+        default:
+            return 'pending'
+    }
+}
+
+function getPaymentMethodLabel(payment: MLCollection): string {
+    const label = paymentTypeLabels[payment.payment_type] || payment.payment_type
+    return `${label} (${payment.payment_method_id})`
+}
+
+/**
+ * Procesa un pago de ML y actualiza la venta asociada a su orden
+ */
+export async function processPayment(supabase: SupabaseServerClient, ml: MLSession, paymentId: string) {
+    const payment = await ml.call(token => getPayment(token, paymentId))
+
+    if (!payment.order_id) {
+        // Pagos que no corresponden a una orden (ej: cobros por link de pago)
+        return { skipped: true, reason: 'no_order', payment_id: payment.id }
+    }
+
+    const orderId = String(payment.order_id)
+    const { data: sale, error } = await supabase
+        .from('sales')
+        .select('id, status, payment_status, payment_method')
+        .eq('ml_order_id', orderId)
+        .maybeSingle()
+
+    if (error) throw error
+
+    // La venta todavía no existe: la orden se importa (o no) según su estado
+    if (!sale) {
+        return processOrder(supabase, ml, orderId)
+    }
+
+    const paymentMethod = getPaymentMethodLabel(payment)
+    if (sale.payment_method !== paymentMethod) {
+        const { error: methodError } = await supabase
+            .from('sales')
+            .update({ payment_method: paymentMethod })
+            .eq('id', sale.id)
+
+        if (methodError) throw methodError
+    }
+
+    const paymentStatus = toPaymentStatus(payment)
+
+    // Un reembolso cancela la venta y devuelve stock: lo resuelve la reconciliación de la orden
+    if (paymentStatus === 'refunded') {
+        return processOrder(supabase, ml, orderId)
+    }
+
+    if (paymentStatus === sale.payment_status) {
+        return { skipped: true, sale_id: sale.id, payment_status: paymentStatus, payment_method: paymentMethod }
+    }
+
+    // Estado de pago e historial en una transacción, condicionada al estado leído
+    // (ver transition_sale_status): no pisa un cambio que hizo la notificación de la orden
+    const { data: transitioned, error: statusError } = await supabase.rpc('transition_sale_status', {
+        p_sale_id: sale.id,
+        p_from_status: sale.status,
+        p_from_payment_status: sale.payment_status,
+        p_to_status: sale.status,
+        p_to_payment_status: paymentStatus,
+        p_source: 'ml_webhook',
+        p_notes: `Pago ML ${payment.id}: ${payment.status} (${payment.status_detail})`,
+    })
+
+    if (statusError) throw statusError
+
+    if (transitioned === null) {
+        // La venta cambió mientras tanto: se reprocesa el pago con el estado nuevo
+        throw new Error(`Sale ${sale.id} changed concurrently while processing payment ${payment.id}`)
+    }
+
+    return {
+        updated: true,
+        sale_id: sale.id,
+        payment_status: paymentStatus,
+        payment_method: paymentMethod,
+    }
+}
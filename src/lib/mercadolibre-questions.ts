@@ -0,0 +1,98 @@
+// Preguntas de compradores en Mercado Libre (notificaciones questions)
+// Se guardan localmente en ml_questions para responderlas desde la app
+import { getQuestion, getQuestions, answerQuestion, MLApiError, type MLQuestion } from './mercadolibre'
+import type { MLSession } from './mercadolibre-tokens'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Guarda (o actualiza) una pregunta de ML en ml_questions
+ */
+export async function storeQuestion(supabase: SupabaseServerClient, question: MLQuestion): Promise<void> {
+    const { error } = await supabase
+        .from('ml_questions')
+        .upsert({
+            id: String(question.id),
+            item_id: question.item_id,
+            from_user_id: question.from?.id ? String(question.from.id) : null,
+            text: question.text,
+            status: question.status,
+            answer_text: question.answer?.text ?? null,
+            answered_at: question.answer?.date_created ?? null,
+            question_date: question.date_created,
+        }, {
+            onConflict: 'id'
+        })
+
+    if (error) throw error
+}
+
+/**
+ * Procesa una notificación de pregunta: trae la pregunta de ML y la guarda
+ */
+export async function processQuestion(supabase: SupabaseServerClient, ml: MLSession, questionId: string) {
+    let question: MLQuestion
+    try {
+        question = await ml.call(token => getQuestion(token, questionId))
+    } catch (err) {
+        // Pregunta eliminada por el comprador o por moderación
+        if (err instanceof MLApiError && err.status === 404) {
+            await supabase
+                .from('ml_questions')
+                .update({ status: 'DELETED' })
+                .eq('id', questionId)
+            return { question_id: questionId, status: 'DELETED' }
+        }
+        throw err
+    }
+
+    await storeQuestion(supabase, question)
+
+    return {
+        question_id: questionId,
+        item_id: question.item_id,
+        status: question.status,
+    }
+}
+
+/**
+ * Trae de ML las preguntas sin responder y las guarda localmente
+ * (complementa las notificaciones por si alguna se perdió)
+ */
+export async function syncUnansweredQuestions(supabase: SupabaseServerClient, ml: MLSession): Promise<number> {
+    const pageSize = 50
+    let offset = 0
+    let synced = 0
+
+    while (true) {
+        const response = await ml.call(token => getQuestions(token, String(ml.userId), {
+            status: 'UNANSWERED',
+            offset,
+            limit: pageSize,
+        }))
+
+        for (const question of response.questions) {
+            await storeQuestion(supabase, question)
+            synced++
+        }
+
+        offset += pageSize
+        if (response.questions.length < pageSize || offset >= response.total) break
+    }
+
+    return synced
+}
+
+/**
+ * Responde una pregunta en ML y actualiza el registro local
+ */
+export async function replyToQuestion(supabase: SupabaseServerClient, ml: MLSession, questionId: string, text: string): Promise<MLQuestion> {
+    await ml.call(token => answerQuestion(token, questionId, text))
+
+    // Releemos la pregunta para guardar el estado definitivo de la respuesta
+    const question = await ml.call(token => getQuestion(token, questionId))
+    await storeQuestion(supabase, question)
+
+    return question
+}
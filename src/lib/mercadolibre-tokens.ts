@@ -0,0 +1,258 @@
+// Gestión centralizada de tokens de Mercado Libre
+// Lee/guarda los tokens en settings (key: ml_tokens), los refresca cuando están
+// por expirar y registra el estado de salud en settings (key: ml_token_health)
+import { refreshAccessToken, MLApiError, type MLTokenResponse } from './mercadolibre'
+import type { createClient } from '@/lib/supabase/server'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const TOKENS_KEY = 'ml_tokens'
+const HEALTH_KEY = 'ml_token_health'
+
+// Refrescamos si faltan menos de 5 minutos para que expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+// Lock del refresh entre procesos (ver claim_ml_token_refresh): lo que dura como
+// máximo y cada cuánto releen los tokens los procesos que esperan
+const REFRESH_LOCK_SECONDS = 30
+const REFRESH_WAIT_MS = 500
+
+export interface MLTokens {
+    access_token: string
+    refresh_token: string
+    user_id: number
+    expires_at: number
+}
+
+export interface MLTokenHealth {
+    connected_at: string | null
+    last_refresh_at: string | null
+    last_failure_at: string | null
+    last_failure_message: string | null
+}
+
+export interface MLSession {
+    userId: number
+    /**
+     * Ejecuta un request contra ML con el access token vigente.
+     * Si ML responde 401, fuerza un refresh y reintenta una sola vez.
+     */
+    call<T>(request: (accessToken: string) => Promise<T>): Promise<T>
+}
+
+// Refresh en curso dentro de este proceso. Todos los requests concurrentes
+// esperan la misma promesa para no gastar el refresh token dos veces.
+// Entre procesos (varias instancias) coordina el lock en la base.
+let refreshInFlight: Promise<MLTokens | null> | null = null
+
+// ============================================
+// LECTURA / ESCRITURA
+// ============================================
+
+function parseTokens(value: unknown): MLTokens | null {
+    try {
+        // Históricamente se guardó como string JSON dentro del JSONB
+        const tokens = typeof value === 'string' ? JSON.parse(value) : value
+        if (!tokens || typeof tokens !== 'object' || !('refresh_token' in tokens)) return null
+        return tokens as MLTokens
+    } catch (err) {
+        console.error('Error parsing ML tokens:', err)
+        return null
+    }
+}
+
+/**
+ * Lee los tokens guardados, sin refrescarlos
+ */
+export async function readTokens(supabase: SupabaseServerClient): Promise<MLTokens | null> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', TOKENS_KEY)
+        .maybeSingle()
+
+    if (error || !data) {
+        if (error) console.error('Error reading ML tokens:', error.message)
+        return null
+    }
+
+    return parseTokens(data.value)
+}
+
+/**
+ * Guarda los tokens devueltos por ML (authorization_code o refresh_token)
+ */
+export async function saveTokens(supabase: SupabaseServerClient, response: MLTokenResponse): Promise<MLTokens> {
+    const tokens: MLTokens = {
+        access_token: response.access_token,
+        refresh_token: response.refresh_token,
+        user_id: response.user_id,
+        expires_at: Date.now() + (response.expires_in * 1000),
+    }
+
+    const { error } = await supabase
+        .from('settings')
+        .upsert({
+            key: TOKENS_KEY,
+            value: JSON.stringify(tokens),
+            category: 'integrations',
+            updated_at: new Date().toISOString(),
+        }, {
+            onConflict: 'key'
+        })
+
+    if (error) throw error
+    return tokens
+}
+
+// ============================================
+// SALUD DE LOS TOKENS
+// ============================================
+
+export async function getTokenHealth(supabase: SupabaseServerClient): Promise<MLTokenHealth> {
+    const { data } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', HEALTH_KEY)
+        .maybeSingle()
+
+    return {
+        connected_at: null,
+        last_refresh_at: null,
+        last_failure_at: null,
+        last_failure_message: null,
+        ...(data?.value as Partial<MLTokenHealth> | undefined),
+    }
+}
+
+export async function recordTokenHealth(supabase: SupabaseServerClient, changes: Partial<MLTokenHealth>): Promise<void> {
+    try {
+        const current = await getTokenHealth(supabase)
+        await supabase
+            .from('settings')
+            .upsert({
+                key: HEALTH_KEY,
+                value: { ...current, ...changes },
+                category: 'integrations',
+                updated_at: new Date().toISOString(),
+            }, {
+                onConflict: 'key'
+            })
+    } catch (err) {
+        // El registro de salud nunca debe romper el request principal
+        console.error('Error recording ML token health:', err)
+    }
+}
+
+// ============================================
+// REFRESH
+// ============================================
+
+function isFresh(tokens: MLTokens, staleAccessToken?: string): boolean {
+    const stillValid = tokens.expires_at >= Date.now() + REFRESH_MARGIN_MS
+    return stillValid && (!staleAccessToken || tokens.access_token !== staleAccessToken)
+}
+
+async function performRefresh(supabase: SupabaseServerClient, staleAccessToken?: string): Promise<MLTokens | null> {
+    const deadline = Date.now() + REFRESH_LOCK_SECONDS * 1000
+
+    while (true) {
+        // Releer siempre: otro request u otro proceso pudo haber refrescado mientras esperábamos
+        const current = await readTokens(supabase)
+        if (!current) return null
+        if (isFresh(current, staleAccessToken)) return current
+
+        const { data: claimed, error } = await supabase.rpc('claim_ml_token_refresh', {
+            p_lock_seconds: REFRESH_LOCK_SECONDS,
+        })
+
+        if (error) {
+            console.error('Error claiming ML token refresh:', error.message)
+            return null
+        }
+
+        if (claimed) return refreshWithLock(supabase, staleAccessToken)
+
+        // Otro proceso está refrescando: esperamos sus tokens en vez de gastar el refresh token
+        if (Date.now() >= deadline) {
+            console.error('Timed out waiting for ML token refresh')
+            return null
+        }
+        await new Promise(resolve => setTimeout(resolve, REFRESH_WAIT_MS))
+    }
+}
+
+async function refreshWithLock(supabase: SupabaseServerClient, staleAccessToken?: string): Promise<MLTokens | null> {
+    try {
+        // Releer con el lock tomado: el refresh token pudo cambiar desde la última lectura
+        const current = await readTokens(supabase)
+        if (!current) return null
+        if (isFresh(current, staleAccessToken)) return current
+
+        const response = await refreshAccessToken(current.refresh_token)
+        const tokens = await saveTokens(supabase, response)
+        await recordTokenHealth(supabase, { last_refresh_at: new Date().toISOString() })
+        return tokens
+    } catch (err) {
+        console.error('Error refreshing ML token:', err)
+        await recordTokenHealth(supabase, {
+            last_failure_at: new Date().toISOString(),
+            last_failure_message: err instanceof Error ? err.message : 'Unknown error',
+        })
+        return null
+    } finally {
+        const { error } = await supabase.rpc('release_ml_token_refresh')
+        if (error) console.error('Error releasing ML token refresh:', error.message)
+    }
+}
+
+function refreshTokens(supabase: SupabaseServerClient, staleAccessToken?: string): Promise<MLTokens | null> {
+    if (!refreshInFlight) {
+        refreshInFlight = performRefresh(supabase, staleAccessToken).finally(() => {
+            refreshInFlight = null
+        })
+    }
+    return refreshInFlight
+}
+
+/**
+ * Devuelve tokens válidos, refrescándolos si están por expirar.
+ * Devuelve null si ML no está conectado o el refresh falló.
+ */
+export async function getValidTokens(supabase: SupabaseServerClient): Promise<MLTokens | null> {
+    const tokens = await readTokens(supabase)
+    if (!tokens) return null
+
+    if (tokens.expires_at >= Date.now() + REFRESH_MARGIN_MS) {
+        return tokens
+    }
+
+    return refreshTokens(supabase)
+}
+
+/**
+ * Crea una sesión de ML que reintenta una vez tras un 401.
+ * Devuelve null si ML no está conectado.
+ */
+export async function getMLSession(supabase: SupabaseServerClient): Promise<MLSession | null> {
+    let tokens = await getValidTokens(supabase)
+    if (!tokens) return null
+
+    return {
+        userId: tokens.user_id,
+        async call<T>(request: (accessToken: string) => Promise<T>): Promise<T> {
+            const accessToken = tokens!.access_token
+            try {
+                return await request(accessToken)
+            } catch (err) {
+                if (!(err instanceof MLApiError) || err.status !== 401) throw err
+
+                const refreshed = await refreshTokens(supabase, accessToken)
+                if (!refreshed) throw err
+
+                tokens = refreshed
+                return request(refreshed.access_token)
+            }
+        },
+    }
+}
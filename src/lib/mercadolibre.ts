@@ -91,22 +91,118 @@ export async function refreshAccessToken(refreshToken: string): Promise<MLTokenR
 // HELPERS
 // ============================================
 
-export async function mlFetch<T>(endpoint: string, accessToken: string, options?: RequestInit): Promise<T> {
-    const response = await fetch(`${ML_API_URL}${endpoint}`, {
-        ...options,
-        headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-            ...options?.headers,
-        },
-    })
+// Reintentos ante rate limiting (429) y errores del servidor de ML (5xx)
+const DEFAULT_MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 30000
 
-    if (!response.ok) {
-        const error = await response.json().catch(() => ({ message: response.statusText }))
-        throw new Error(`ML API Error: ${error.message || response.statusText}`)
+// Métodos que se pueden reintentar ante un 5xx sin riesgo de duplicar efectos
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE']
+
+/**
+ * Error devuelto por la API de ML.
+ * status es 0 cuando el request no llegó a tener respuesta (error de red).
+ */
+export class MLApiError extends Error {
+    status: number
+    code: string | null
+    cause?: unknown
+
+    constructor(message: string, status: number, options?: { code?: string | null; cause?: unknown }) {
+        super(message)
+        this.name = 'MLApiError'
+        this.status = status
+        this.code = options?.code ?? null
+        this.cause = options?.cause
     }
 
-    return response.json()
+    get retryable(): boolean {
+        return this.status === 0 || this.status === 429 || this.status >= 500
+    }
+}
+
+export interface MLRequestOptions extends RequestInit {
+    maxRetries?: number
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Interpreta el header Retry-After (segundos o fecha HTTP) en milisegundos
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null
+
+    const seconds = Number(header)
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(header)
+    if (!isNaN(date)) return Math.max(0, date - Date.now())
+
+    return null
+}
+
+/**
+ * Backoff exponencial con jitter: entre la mitad y el total de base * 2^intento
+ */
+function getRetryDelay(attempt: number, retryAfterMs: number | null): number {
+    if (retryAfterMs !== null) return Math.min(retryAfterMs, RETRY_MAX_DELAY_MS)
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS)
+    return delay / 2 + Math.random() * (delay / 2)
+}
+
+async function toApiError(response: Response): Promise<MLApiError> {
+    const error = await response.json().catch(() => ({ message: response.statusText }))
+    return new MLApiError(`ML API Error: ${error.message || response.statusText}`, response.status, {
+        code: error.error ?? null,
+        cause: error.cause,
+    })
+}
+
+export async function mlFetch<T>(endpoint: string, accessToken: string, options?: MLRequestOptions): Promise<T> {
+    const { maxRetries = DEFAULT_MAX_RETRIES, ...init } = options || {}
+    const method = (init.method || 'GET').toUpperCase()
+
+    for (let attempt = 0; ; attempt++) {
+        let response: Response
+        try {
+            response = await fetch(`${ML_API_URL}${endpoint}`, {
+                ...init,
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                    ...init.headers,
+                },
+            })
+        } catch (err) {
+            // Error de red: no sabemos si ML procesó el request
+            const apiError = new MLApiError(`ML API Error: ${err instanceof Error ? err.message : 'Network error'}`, 0, { cause: err })
+            if (attempt < maxRetries && IDEMPOTENT_METHODS.includes(method)) {
+                await sleep(getRetryDelay(attempt, null))
+                continue
+            }
+            throw apiError
+        }
+
+        if (response.ok) {
+            return response.json()
+        }
+
+        const apiError = await toApiError(response)
+
+        // 429 nunca fue procesado, se puede reintentar siempre; 5xx solo si es idempotente
+        const canRetry = response.status === 429 || (apiError.retryable && IDEMPOTENT_METHODS.includes(method))
+        if (attempt >= maxRetries || !canRetry) {
+            throw apiError
+        }
+
+        const delay = getRetryDelay(attempt, parseRetryAfter(response.headers.get('Retry-After')))
+        console.warn(`ML API ${response.status} en ${method} ${endpoint}, reintentando en ${Math.round(delay)}ms (${attempt + 1}/${maxRetries})`)
+        await sleep(delay)
+    }
 }
 
 // ============================================
@@ -169,31 +265,97 @@ export async function getRecentOrders(accessToken: string, sellerId: string): Pr
     return response.results
 }
 
+/**
+ * Obtiene un pago (collection) por ID
+ */
+export async function getPayment(accessToken: string, paymentId: string): Promise<MLCollection> {
+    const response = await mlFetch<{ collection: MLCollection }>(`/collections/${paymentId}`, accessToken)
+    return response.collection
+}
+
 // ============================================
 // ITEMS (PUBLICACIONES)
 // ============================================
 
+// ML no permite paginar por offset más allá de 1000 resultados;
+// a partir de ahí hay que usar el modo scan con scroll_id
+const ITEMS_OFFSET_CAP = 1000
+const ITEMS_PAGE_LIMIT = 100
+
+export type MLItemStatus = 'active' | 'paused' | 'closed'
+
 /**
  * Obtiene los items (publicaciones) del vendedor
  */
 export async function getItems(accessToken: string, sellerId: string, options?: {
     offset?: number
     limit?: number
-    status?: 'active' | 'paused' | 'closed'
+    status?: MLItemStatus
+    q?: string
+    searchType?: 'scan'
+    scrollId?: string
 }): Promise<MLItemsResponse> {
     const params = new URLSearchParams({
         seller_id: sellerId,
-        offset: String(options?.offset || 0),
         limit: String(options?.limit || 50),
     })
 
+    if (options?.searchType === 'scan') {
+        params.append('search_type', 'scan')
+        if (options.scrollId) params.append('scroll_id', options.scrollId)
+    } else {
+        params.append('offset', String(options?.offset || 0))
+    }
+
     if (options?.status) {
         params.append('status', options.status)
     }
 
+    if (options?.q) {
+        params.append('q', options.q)
+    }
+
     return mlFetch<MLItemsResponse>(`/users/${sellerId}/items/search?${params.toString()}`, accessToken)
 }
 
+/**
+ * Obtiene todos los IDs de items del vendedor recorriendo todas las páginas.
+ * Si el total supera el tope de offset de ML, recorre en modo scan.
+ */
+export async function getAllItemIds(accessToken: string, sellerId: string, options?: {
+    status?: MLItemStatus
+    q?: string
+}): Promise<string[]> {
+    const first = await getItems(accessToken, sellerId, { ...options, limit: ITEMS_PAGE_LIMIT })
+    const ids = new Set(first.results)
+
+    if (first.paging.total <= ITEMS_OFFSET_CAP) {
+        for (let offset = ITEMS_PAGE_LIMIT; offset < first.paging.total; offset += ITEMS_PAGE_LIMIT) {
+            const page = await getItems(accessToken, sellerId, { ...options, offset, limit: ITEMS_PAGE_LIMIT })
+            if (page.results.length === 0) break
+            page.results.forEach(id => ids.add(id))
+        }
+        return Array.from(ids)
+    }
+
+    // Modo scan: cada respuesta trae el scroll_id para pedir la siguiente tanda
+    let scrollId: string | undefined
+    while (true) {
+        const page = await getItems(accessToken, sellerId, {
+            ...options,
+            limit: ITEMS_PAGE_LIMIT,
+            searchType: 'scan',
+            scrollId,
+        })
+        if (page.results.length === 0) break
+        page.results.forEach(id => ids.add(id))
+        if (!page.scroll_id) break
+        scrollId = page.scroll_id
+    }
+
+    return Array.from(ids)
+}
+
 /**
  * Obtiene un item específico por ID
  */
@@ -230,9 +392,10 @@ export async function getItemsMulti(accessToken: string, itemIds: string[]): Pro
             }
         }
 
-        // Pequeño delay entre chunks para evitar rate limiting
+        // Pequeño delay entre chunks para no provocar rate limiting
+        // (si igual ocurre, mlFetch reintenta con backoff)
         if (chunks.length > 1) {
-            await new Promise(resolve => setTimeout(resolve, 100))
+            await sleep(100)
         }
     }
 
@@ -259,6 +422,16 @@ export async function updateItemPrice(accessToken: string, itemId: string, price
     })
 }
 
+/**
+ * Actualiza el precio de una variación de un item
+ */
+export async function updateVariationPrice(accessToken: string, itemId: string, variationId: string, price: number): Promise<MLVariation> {
+    return mlFetch<MLVariation>(`/items/${itemId}/variations/${variationId}`, accessToken, {
+        method: 'PUT',
+        body: JSON.stringify({ price }),
+    })
+}
+
 /**
  * Pausa o activa un item
  */
@@ -269,6 +442,56 @@ export async function updateItemStatus(accessToken: string, itemId: string, stat
     })
 }
 
+// ============================================
+// PREGUNTAS
+// ============================================
+
+/**
+ * Busca preguntas recibidas por el vendedor (opcionalmente de un item o estado)
+ */
+export async function getQuestions(accessToken: string, sellerId: string, options?: {
+    itemId?: string
+    status?: 'UNANSWERED' | 'ANSWERED'
+    offset?: number
+    limit?: number
+}): Promise<MLQuestionsResponse> {
+    const params = new URLSearchParams({
+        seller_id: sellerId,
+        api_version: '4',
+        sort_fields: 'date_created',
+        sort_types: 'DESC',
+        offset: String(options?.offset || 0),
+        limit: String(options?.limit || 50),
+    })
+
+    if (options?.itemId) {
+        params.append('item', options.itemId)
+    }
+
+    if (options?.status) {
+        params.append('status', options.status)
+    }
+
+    return mlFetch<MLQuestionsResponse>(`/questions/search?${params.toString()}`, accessToken)
+}
+
+/**
+ * Obtiene una pregunta específica por ID
+ */
+export async function getQuestion(accessToken: string, questionId: string): Promise<MLQuestion> {
+    return mlFetch<MLQuestion>(`/questions/${questionId}?api_version=4`, accessToken)
+}
+
+/**
+ * Responde una pregunta (ML admite una sola respuesta por pregunta)
+ */
+export async function answerQuestion(accessToken: string, questionId: string, text: string): Promise<MLQuestion> {
+    return mlFetch<MLQuestion>('/answers', accessToken, {
+        method: 'POST',
+        body: JSON.stringify({ question_id: Number(questionId), text }),
+    })
+}
+
 // ============================================
 // TIPOS
 // ============================================
@@ -345,6 +568,17 @@ export interface MLPayment {
     transaction_amount: number
 }
 
+export interface MLCollection {
+    id: number
+    order_id: number | null
+    status: string
+    status_detail: string
+    payment_type: string
+    payment_method_id: string
+    transaction_amount: number
+    date_approved: string | null
+}
+
 export interface MLOrdersResponse {
     query: string
     results: MLOrder[]
@@ -360,10 +594,13 @@ export interface MLItem {
     title: string
     category_id: string
     price: number
+    original_price?: number | null // precio tachado cuando hay descuento
     currency_id: string
     available_quantity: number
     sold_quantity: number
     status: string
+    condition?: string
+    seller_id?: number
     permalink: string
     thumbnail: string
     pictures: { id: string; url: string }[]
@@ -388,9 +625,33 @@ export interface MLVariation {
 export interface MLItemsResponse {
     seller_id: string
     results: string[]
+    scroll_id?: string
     paging: {
         total: number
         offset: number
         limit: number
     }
 }
+
+export interface MLQuestion {
+    id: number
+    item_id: string
+    seller_id: number
+    status: string
+    text: string
+    date_created: string
+    from: {
+        id: number
+    }
+    answer: {
+        text: string
+        status: string
+        date_created: string
+    } | null
+}
+
+export interface MLQuestionsResponse {
+    questions: MLQuestion[]
+    total: number
+    limit: number
+}
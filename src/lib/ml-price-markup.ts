@@ -0,0 +1,37 @@
+// Recargo de precios en ML (settings: ml_price_markup_percent): porcentaje que se suma
+// al precio local al publicarlo en ML, para cubrir comisiones.
+// Se usa tanto desde el cliente del navegador como desde las rutas de API
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const ML_PRICE_MARKUP_KEY = 'ml_price_markup_percent'
+
+/**
+ * Lee el recargo guardado (0 si falta o es inválido)
+ */
+export async function readMLPriceMarkupPercent(supabase: SupabaseClient): Promise<number> {
+    const { data, error } = await supabase
+        .from('settings')
+        .select('value')
+        .eq('key', ML_PRICE_MARKUP_KEY)
+        .maybeSingle()
+
+    if (error) throw error
+
+    const percent = Number(data?.value)
+    return Number.isFinite(percent) && percent > 0 ? percent : 0
+}
+
+/**
+ * Precio publicado en ML: el precio local más el recargo de ML
+ */
+export function applyMLPriceMarkup(price: number, markupPercent: number): number {
+    return markupPercent > 0 ? Math.round(price * (1 + markupPercent / 100)) : price
+}
+
+/**
+ * Precio local que se publica en ML a lo sumo al precio indicado.
+ * Redondea hacia abajo para que, al sumarle el recargo, no quede por encima.
+ */
+export function removeMLPriceMarkup(listingPrice: number, markupPercent: number): number {
+    return markupPercent > 0 ? Math.floor(listingPrice / (1 + markupPercent / 100)) : listingPrice
+}
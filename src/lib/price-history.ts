@@ -0,0 +1,68 @@
+// Historial de precios (price_changes): origen de cada cambio y serie para el gráfico
+import type { CostHistoryEntry, PriceChange, Product } from './types'
+
+// Header con el que un request indica el origen de sus cambios de precio.
+// El trigger log_price_change lo lee de request.headers.
+export const PRICE_SOURCE_HEADER = 'x-price-source'
+
+export interface PriceTimelinePoint {
+    date: string
+    base_price?: number
+    cost_price?: number
+    listing_price?: number // último precio publicado en ML (cualquier variante)
+}
+
+type TimelineField = 'base_price' | 'cost_price' | 'listing_price'
+
+/**
+ * Precio base, costo y precio en ML del producto a lo largo del tiempo. Cada punto repite
+ * el último valor conocido de los otros campos, y el último punto es el valor actual.
+ * Los costos salen de cost_history. Los cambios de variantes (ajustes y costos propios)
+ * no se grafican.
+ */
+export function buildPriceTimeline(
+    changes: PriceChange[],
+    costs: CostHistoryEntry[],
+    current: Pick<Product, 'base_price' | 'cost_price'>
+): PriceTimelinePoint[] {
+    const relevant: { field: TimelineField; previous_value: number | null; new_value: number | null; created_at: string }[] = [
+        ...changes
+            .filter(change => change.field === 'listing_price'
+                || (change.product_variant_id === null && change.field === 'base_price'))
+            .map(change => ({ ...change, field: change.field as TimelineField })),
+        ...costs
+            .filter(entry => entry.product_variant_id === null)
+            .map(entry => ({
+                field: 'cost_price' as const,
+                previous_value: entry.previous_cost,
+                new_value: entry.new_cost,
+                created_at: entry.created_at,
+            })),
+    ].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    if (relevant.length === 0) return []
+
+    // Valores antes del primer cambio de cada campo
+    const values: Partial<Record<TimelineField, number>> = {}
+    for (const change of relevant) {
+        if (!(change.field in values) && change.previous_value != null) values[change.field] = change.previous_value
+    }
+
+    const formatDate = (date: Date) => date.toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit', year: '2-digit' })
+
+    const points: PriceTimelinePoint[] = [{ date: formatDate(new Date(relevant[0].created_at)), ...values }]
+    for (const change of relevant) {
+        if (change.new_value == null) continue
+        values[change.field] = change.new_value
+        points.push({ date: formatDate(new Date(change.created_at)), ...values })
+    }
+
+    points.push({
+        date: formatDate(new Date()),
+        ...values,
+        base_price: current.base_price,
+        cost_price: current.cost_price,
+    })
+
+    return points
+}
@@ -0,0 +1,121 @@
+// Sugerencias de reposición: velocidad de venta por variante (sale_items), ajustada por
+// los días en que hubo stock (stock_movements), más el plazo de entrega y el stock de
+// seguridad del proveedor.
+import type { Supplier } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Valores para variantes sin proveedor asignado
+export const DEFAULT_LEAD_TIME_DAYS = 7
+export const DEFAULT_SAFETY_STOCK_DAYS = 7
+
+// Con muy pocos días con stock, dos o tres ventas disparan la velocidad
+const MIN_DAYS_IN_STOCK = 7
+
+export interface StockMovementPoint {
+    quantity: number // delta con signo, como lo guarda apply_stock_movement
+    created_at: string
+}
+
+export interface VariantReorderInput {
+    variantId: string
+    productId: string
+    productName: string
+    variantName: string
+    sku: string | null
+    stock: number
+    unitCost: number
+    unitsSold: number // vendidas en la ventana
+    movements: StockMovementPoint[] // movimientos de la ventana
+    onOrder: number // pendiente de recibir en órdenes abiertas
+    supplierId: string | null
+}
+
+export interface ReorderSettings {
+    windowDays: number
+    coverageDays: number // días de venta que tiene que cubrir el pedido, además del plazo y la seguridad
+}
+
+export interface ReorderSuggestion extends VariantReorderInput {
+    daysInStock: number
+    velocity: number // unidades por día
+    daysOfStock: number | null // cuánto dura lo disponible al ritmo actual
+    reorderPoint: number
+    suggestedQuantity: number
+}
+
+type SupplierReorderTerms = Pick<Supplier, 'lead_time_days' | 'safety_stock_days'>
+
+/**
+ * Días de la ventana en los que la variante tuvo stock, reconstruyendo el nivel hacia atrás
+ * desde el stock actual con los movimientos. Sin stock no hay ventas, así que esos días
+ * no cuentan para la velocidad.
+ */
+export function getDaysInStock(currentStock: number, movements: StockMovementPoint[], windowStart: Date, now: Date): number {
+    const sorted = [...movements].sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+    let level = currentStock
+    let cursor = now.getTime()
+    let inStockMs = 0
+
+    for (const movement of sorted) {
+        const at = Math.max(new Date(movement.created_at).getTime(), windowStart.getTime())
+        if (level > 0) inStockMs += cursor - at
+        // Nivel antes del movimiento
+        level -= movement.quantity
+        cursor = at
+    }
+
+    if (level > 0) inStockMs += cursor - windowStart.getTime()
+
+    return Math.max(0, inStockMs / DAY_MS)
+}
+
+export function getSalesVelocity(unitsSold: number, daysInStock: number, windowDays: number): number {
+    if (unitsSold <= 0) return 0
+    const days = Math.max(daysInStock, Math.min(windowDays, MIN_DAYS_IN_STOCK))
+    return unitsSold / days
+}
+
+/**
+ * Calcula la cantidad a pedir de cada variante. Se sugiere pedir cuando lo disponible
+ * (stock + en camino) no alcanza para cubrir el plazo de entrega más el stock de seguridad;
+ * la cantidad lleva lo disponible hasta cubrir además los días de cobertura.
+ * Devuelve solo las variantes a reponer, las más urgentes primero.
+ */
+export function buildReorderSuggestions(
+    inputs: VariantReorderInput[],
+    suppliers: Map<string, SupplierReorderTerms>,
+    settings: ReorderSettings,
+    now: Date = new Date()
+): ReorderSuggestion[] {
+    const windowStart = new Date(now.getTime() - settings.windowDays * DAY_MS)
+
+    return inputs
+        .map(input => {
+            const terms = input.supplierId ? suppliers.get(input.supplierId) : undefined
+            const leadTime = terms?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS
+            const safetyDays = terms?.safety_stock_days ?? DEFAULT_SAFETY_STOCK_DAYS
+
+            const daysInStock = getDaysInStock(input.stock, input.movements, windowStart, now)
+            const velocity = getSalesVelocity(input.unitsSold, daysInStock, settings.windowDays)
+            const available = Math.max(input.stock, 0) + input.onOrder
+            const reorderPoint = velocity * (leadTime + safetyDays)
+            const target = velocity * (leadTime + safetyDays + settings.coverageDays)
+
+            const suggestedQuantity = velocity > 0 && available <= reorderPoint
+                ? Math.max(0, Math.ceil(target - available))
+                : 0
+
+            return {
+                ...input,
+                daysInStock,
+                velocity,
+                daysOfStock: velocity > 0 ? available / velocity : null,
+                reorderPoint,
+                suggestedQuantity
+            }
+        })
+        .filter(s => s.suggestedQuantity > 0)
+        .sort((a, b) => (a.daysOfStock ?? Infinity) - (b.daysOfStock ?? Infinity))
+}
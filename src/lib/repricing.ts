@@ -0,0 +1,131 @@
+// Reprecio: propone un nuevo precio base por producto a partir de los precios de la
+// competencia (competitor_prices) y la regla que le corresponde, sin bajar nunca del
+// piso de costo + markup de ninguna de sus variantes.
+// Los precios de la competencia son precios de ML: el objetivo se pasa a precio local
+// descontando el recargo de ML, que se vuelve a sumar al publicar.
+import { applyMLPriceMarkup, removeMLPriceMarkup } from './ml-price-markup'
+import type { RepricingRule, RepricingStrategy } from './types'
+
+// Sólo se comparan capturas recientes; un precio viejo puede ya no existir
+export const COMPETITOR_PRICE_MAX_AGE_DAYS = 7
+
+export interface RepricingVariantCost {
+    cost: number // costo de la variante, o el del producto si no tiene propio
+    priceAdjustment: number
+}
+
+export interface RepricingProductInput {
+    productId: string
+    productName: string
+    categoryId: string | null
+    currentPrice: number
+    variants: RepricingVariantCost[] // vacío si el producto no tiene variantes
+    productCost: number
+    competitorPrices: number[] // último precio de cada publicación con stock
+}
+
+export interface RepricingProposal {
+    productId: string
+    productName: string
+    ruleId: string
+    ruleName: string
+    currentPrice: number
+    competitorPrice: number // el más bajo o el promedio, según la estrategia
+    floorPrice: number | null
+    proposedPrice: number // precio base local
+    listingPrice: number // precio propuesto con el recargo de ML
+    limitedByFloor: boolean
+    changePercent: number
+}
+
+/**
+ * Regla que aplica a un producto: la del producto si tiene, si no la de su categoría
+ */
+export function findRule(rules: RepricingRule[], productId: string, categoryId: string | null): RepricingRule | null {
+    const active = rules.filter(rule => rule.is_active)
+    return active.find(rule => rule.product_id === productId)
+        || (categoryId ? active.find(rule => rule.category_id === categoryId) : undefined)
+        || null
+}
+
+export function getReferencePrice(strategy: RepricingStrategy, prices: number[]): number | null {
+    if (prices.length === 0) return null
+    if (strategy === 'match_average') {
+        return prices.reduce((sum, price) => sum + price, 0) / prices.length
+    }
+    return Math.min(...prices)
+}
+
+/**
+ * Precio base mínimo para que ninguna variante quede por debajo de costo + markup.
+ * El precio de cada variante es base + ajuste, así que el piso se descuenta del ajuste.
+ */
+export function getFloorPrice(input: RepricingProductInput, minMarkupPercent: number | null): number | null {
+    if (minMarkupPercent == null) return null
+
+    const costs = input.variants.length > 0
+        ? input.variants
+        : [{ cost: input.productCost, priceAdjustment: 0 }]
+
+    const floor = Math.max(...costs.map(v => v.cost * (1 + minMarkupPercent / 100) - v.priceAdjustment))
+    // Redondeo a centavos antes de subir al peso: 6000 * 1.35 no da exacto en punto flotante
+    return floor > 0 ? Math.ceil(Math.round(floor * 100) / 100) : null
+}
+
+/**
+ * Propuesta para un producto, o null si no hay precios de la competencia para comparar
+ */
+export function evaluateRule(
+    rule: RepricingRule,
+    input: RepricingProductInput,
+    mlMarkupPercent: number
+): RepricingProposal | null {
+    const competitorPrice = getReferencePrice(rule.strategy, input.competitorPrices)
+    if (competitorPrice == null) return null
+
+    const listingTarget = Math.round(competitorPrice * (1 + rule.offset_percent / 100))
+    const target = removeMLPriceMarkup(listingTarget, mlMarkupPercent)
+    const floorPrice = getFloorPrice(input, rule.min_markup_percent)
+    const limitedByFloor = floorPrice != null && target < floorPrice
+    const proposedPrice = limitedByFloor ? floorPrice : target
+
+    return {
+        productId: input.productId,
+        productName: input.productName,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        currentPrice: input.currentPrice,
+        competitorPrice,
+        floorPrice,
+        proposedPrice,
+        listingPrice: applyMLPriceMarkup(proposedPrice, mlMarkupPercent),
+        limitedByFloor,
+        changePercent: input.currentPrice > 0
+            ? ((proposedPrice - input.currentPrice) / input.currentPrice) * 100
+            : 0,
+    }
+}
+
+/**
+ * Cambios propuestos para todos los productos con regla y precios de la competencia.
+ * Los productos cuyo precio ya coincide con la propuesta no se incluyen.
+ */
+export function buildRepricingPreview(
+    rules: RepricingRule[],
+    inputs: RepricingProductInput[],
+    mlMarkupPercent: number
+): RepricingProposal[] {
+    const proposals: RepricingProposal[] = []
+
+    for (const input of inputs) {
+        const rule = findRule(rules, input.productId, input.categoryId)
+        if (!rule) continue
+
+        const proposal = evaluateRule(rule, input, mlMarkupPercent)
+        if (proposal && proposal.proposedPrice !== input.currentPrice) {
+            proposals.push(proposal)
+        }
+    }
+
+    return proposals.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent))
+}
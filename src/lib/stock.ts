@@ -0,0 +1,56 @@
+// Movimientos de stock atómicos (función apply_stock_movement en la base)
+// Se usa tanto desde el cliente del navegador como desde las rutas de API
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { StockMovementType, StockReferenceType } from './types'
+
+export interface StockMovementParams {
+    variantId: string
+    type: StockMovementType
+    // IN/OUT: cantidad a sumar/restar. ADJUSTMENT: stock final
+    quantity: number
+    referenceType?: StockReferenceType
+    referenceId?: string
+    notes?: string
+    // Por defecto se permite stock negativo (ej: ventas de ML ya concretadas)
+    allowNegative?: boolean
+}
+
+export class InsufficientStockError extends Error {
+    variantId: string
+    requested: number
+    available: number
+
+    constructor(variantId: string, requested: number, available: number) {
+        super(`Stock insuficiente: se pidieron ${requested} y hay ${available} disponibles`)
+        this.name = 'InsufficientStockError'
+        this.variantId = variantId
+        this.requested = requested
+        this.available = available
+    }
+}
+
+/**
+ * Aplica un movimiento de stock y lo registra en stock_movements en una sola transacción.
+ * Devuelve el stock resultante de la variante.
+ */
+export async function applyStockMovement(supabase: SupabaseClient, params: StockMovementParams): Promise<number> {
+    const { data, error } = await supabase.rpc('apply_stock_movement', {
+        p_variant_id: params.variantId,
+        p_movement_type: params.type,
+        p_quantity: params.quantity,
+        p_reference_type: params.referenceType ?? null,
+        p_reference_id: params.referenceId ?? null,
+        p_notes: params.notes ?? null,
+        p_allow_negative: params.allowNegative ?? true,
+    })
+
+    if (error) {
+        // check_violation: el movimiento dejaría el stock en negativo
+        if (error.code === '23514') {
+            throw new InsufficientStockError(params.variantId, params.quantity, parseInt(error.details) || 0)
+        }
+        throw error
+    }
+
+    return data as number
+}
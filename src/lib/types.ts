@@ -26,6 +26,9 @@ export type CategoryUpdate = Partial<CategoryInsert>
 // ============================================
 // PRODUCTOS
 // ============================================
+// Alícuota de IVA del producto (%)
+export type IvaRate = 21 | 10.5
+
 export interface Product {
     id: string
     category_id: string | null
@@ -35,6 +38,7 @@ export interface Product {
     cost_price: number
     sku: string | null
     is_active: boolean
+    iva_rate: IvaRate
     created_at: string
     updated_at: string
     // Relaciones
@@ -57,12 +61,71 @@ export interface ProductVariant {
     price_adjustment: number
     stock_quantity: number
     min_stock_alert: number
+    cost_price: number | null // NULL = costo del producto
     created_at: string
 }
 
 export type ProductVariantInsert = Omit<ProductVariant, 'id' | 'created_at'>
 export type ProductVariantUpdate = Partial<ProductVariantInsert>
 
+// ============================================
+// HISTORIAL DE COSTOS
+// ============================================
+export type CostChangeSource = 'manual' | 'purchase'
+
+export interface CostHistoryEntry {
+    id: string
+    product_id: string
+    product_variant_id: string | null // NULL = costo del producto
+    previous_cost: number | null
+    new_cost: number | null
+    source: CostChangeSource
+    reference_id: string | null
+    notes: string | null
+    changed_by: string | null
+    changed_by_email: string | null
+    created_at: string
+}
+
+// ============================================
+// HISTORIAL DE PRECIOS
+// ============================================
+export type PriceChangeSource =
+    | 'manual' // edición en /precios
+    | 'product_form'
+    | 'bulk'
+    | 'undo'
+    | 'repricing'
+    | 'ml_sync' // precio traído de la publicación de ML
+    | 'ml_push' // precio enviado a la publicación de ML
+    | 'import'
+// Los cambios de costo se registran en cost_history
+export type PriceChangeField = 'base_price' | 'price_adjustment' | 'listing_price'
+
+export interface PriceChange {
+    id: string
+    product_id: string
+    product_variant_id: string | null // NULL = precio base del producto
+    field: PriceChangeField
+    previous_value: number | null
+    new_value: number | null
+    source: PriceChangeSource
+    batch_id: string | null
+    changed_by: string | null
+    changed_by_email: string | null
+    created_at: string
+}
+
+// Actualización masiva aplicada (se puede deshacer)
+export interface PriceBatch {
+    id: string
+    description: string
+    operation: Json
+    products_count: number
+    created_at: string
+    undone_at: string | null
+}
+
 // ============================================
 // IMÁGENES DE PRODUCTOS
 // ============================================
@@ -131,6 +194,36 @@ export interface Sale {
 export type SaleInsert = Omit<Sale, 'id' | 'created_at' | 'updated_at' | 'customer' | 'items'>
 export type SaleUpdate = Partial<SaleInsert>
 
+// Error de una línea al registrar una venta (ver función create_sale)
+export type SaleLineErrorCode = 'insufficient_stock' | 'variant_not_found'
+
+export interface SaleLineError {
+    index: number   // posición del item en la venta
+    product_variant_id: string
+    code: SaleLineErrorCode
+    requested: number
+    available: number | null
+}
+
+// ============================================
+// HISTORIAL DE ESTADOS DE VENTA
+// ============================================
+export type SaleStatusSource = 'ml_webhook' | 'manual'
+
+export interface SaleStatusHistory {
+    id: string
+    sale_id: string
+    from_status: SaleStatus | null
+    to_status: SaleStatus
+    from_payment_status: PaymentStatus | null
+    to_payment_status: PaymentStatus
+    source: SaleStatusSource
+    notes: string | null
+    created_at: string
+}
+
+export type SaleStatusHistoryInsert = Omit<SaleStatusHistory, 'id' | 'created_at'>
+
 // ============================================
 // ITEMS DE VENTA
 // ============================================
@@ -143,7 +236,7 @@ export interface SaleItem {
     unit_price: number
     total_price: number
     // Relaciones
-    product_variant?: ProductVariant
+    product_variant?: ProductVariant & { product?: Pick<Product, 'name' | 'cost_price'> }
 }
 
 export type SaleItemInsert = Omit<SaleItem, 'id' | 'product_variant'>
@@ -174,23 +267,33 @@ export type StockMovementUpdate = Partial<StockMovementInsert>
 // FACTURAS
 // ============================================
 export type InvoiceType = 'A' | 'B'
+// cancelled: factura anulada por una nota de crédito total
 export type InvoiceStatus = 'issued' | 'cancelled'
+export type VoucherKind = 'invoice' | 'credit_note'
 
 export interface Invoice {
     id: string
     sale_id: string | null
     invoice_type: InvoiceType
+    voucher_kind: VoucherKind
+    original_invoice_id: string | null   // factura que anula la nota de crédito
+    credit_reason: string | null
     invoice_number: string
     point_of_sale: number
     cae: string | null
     cae_expiration: string | null
     customer_name: string
     customer_document: string
+    customer_doc_type: number | null
     customer_tax_condition: string
     subtotal: number
     iva_21: number
     iva_10_5: number
+    net_21: number
+    net_10_5: number
     total: number
+    voucher_number: number | null
+    afip_observations: string | null
     pdf_url: string | null
     status: InvoiceStatus
     created_at: string
@@ -212,12 +315,47 @@ export interface Supplier {
     cuit: string | null
     notes: string | null
     provides_invoice: boolean
+    lead_time_days: number // plazo de entrega
+    safety_stock_days: number // días de venta extra como stock de seguridad
     created_at: string
 }
 
 export type SupplierInsert = Omit<Supplier, 'id' | 'created_at'>
 export type SupplierUpdate = Partial<SupplierInsert>
 
+// Producto que provee un proveedor
+export interface ProductSupplier {
+    id: string
+    product_id: string
+    supplier_id: string
+    supplier_sku: string | null
+    created_at: string
+}
+
+export type ProductSupplierInsert = Omit<ProductSupplier, 'id' | 'created_at'>
+
+// Pago a un proveedor
+export interface SupplierPayment {
+    id: string
+    supplier_id: string
+    purchase_order_id: string | null
+    amount: number
+    payment_method: string | null
+    notes: string | null
+    paid_at: string
+    created_at: string
+}
+
+export type SupplierPaymentInsert = Omit<SupplierPayment, 'id' | 'created_at'>
+
+// Vista supplier_balances: mercadería recibida menos pagos
+export interface SupplierBalance {
+    supplier_id: string
+    received_total: number
+    paid_total: number
+    balance: number
+}
+
 // ============================================
 // ÓRDENES DE COMPRA
 // ============================================
@@ -261,6 +399,12 @@ export interface PurchaseItem {
 export type PurchaseItemInsert = Omit<PurchaseItem, 'id'>
 export type PurchaseItemUpdate = Partial<PurchaseItemInsert>
 
+// Cantidad recibida de una línea en una recepción (parcial o total)
+export interface PurchaseReceptionLine {
+    purchase_item_id: string
+    quantity: number
+}
+
 // ============================================
 // COMPETIDORES
 // ============================================
@@ -292,11 +436,50 @@ export interface CompetitorPrice {
     condition: 'new' | 'used' | null
     url: string | null
     captured_at: string
+    previous_price: number | null // último precio capturado de la misma publicación
+    price_change_percent: number | null
+    is_flagged: boolean // la variación supera el umbral configurado
 }
 
 export type CompetitorPriceInsert = Omit<CompetitorPrice, 'id' | 'captured_at'>
 export type CompetitorPriceUpdate = Partial<CompetitorPriceInsert>
 
+// Publicación de un competidor asociada a uno de nuestros productos
+export interface CompetitorItem {
+    id: string
+    competitor_id: string
+    product_id: string
+    ml_item_id: string
+    title: string | null
+    url: string | null
+    created_at: string
+    // Relaciones
+    competitor?: Competitor
+}
+
+export type CompetitorItemInsert = Omit<CompetitorItem, 'id' | 'created_at' | 'competitor'>
+
+// ============================================
+// REGLAS DE REPRECIO
+// ============================================
+export type RepricingStrategy = 'match_lowest' | 'match_average'
+
+export interface RepricingRule {
+    id: string
+    name: string
+    product_id: string | null // alcance: un producto...
+    category_id: string | null // ...o una categoría
+    strategy: RepricingStrategy
+    offset_percent: number // ej: -2 = 2% por debajo de la competencia
+    min_markup_percent: number | null // piso: costo + X%
+    is_active: boolean
+    created_at: string
+    updated_at: string
+}
+
+export type RepricingRuleInsert = Omit<RepricingRule, 'id' | 'created_at' | 'updated_at'>
+export type RepricingRuleUpdate = Partial<RepricingRuleInsert>
+
 // ============================================
 // PUBLICACIONES EN PLATAFORMAS
 // ============================================
@@ -319,6 +502,58 @@ export interface PlatformListing {
 export type PlatformListingInsert = Omit<PlatformListing, 'id' | 'created_at'>
 export type PlatformListingUpdate = Partial<PlatformListingInsert>
 
+// ============================================
+// NOTIFICACIONES DE MERCADO LIBRE
+// ============================================
+export type MLNotificationStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'ignored'
+
+export interface MLNotificationRecord {
+    id: string
+    topic: string
+    resource: string
+    user_id: number | null
+    payload: Json
+    status: MLNotificationStatus
+    process_attempts: number
+    last_error: string | null
+    result: Json | null
+    received_at: string
+    locked_at: string | null
+    processed_at: string | null
+    next_retry_at: string | null
+}
+
+// ============================================
+// PREGUNTAS DE MERCADO LIBRE
+// ============================================
+export type MLQuestionStatus = 'UNANSWERED' | 'ANSWERED' | 'CLOSED_UNANSWERED' | 'UNDER_REVIEW' | 'BANNED' | 'DELETED'
+
+export interface MLQuestionRecord {
+    id: string
+    item_id: string
+    from_user_id: string | null
+    text: string
+    status: MLQuestionStatus
+    answer_text: string | null
+    answered_at: string | null
+    question_date: string
+    created_at: string
+    updated_at: string
+}
+
+// ============================================
+// PLANTILLAS DE RESPUESTA (PREGUNTAS ML)
+// ============================================
+export interface AnswerTemplate {
+    id: string
+    name: string
+    body: string
+    created_at: string
+}
+
+export type AnswerTemplateInsert = Omit<AnswerTemplate, 'id' | 'created_at'>
+export type AnswerTemplateUpdate = Partial<AnswerTemplateInsert>
+
 // ============================================
 // CONFIGURACIÓN
 // ============================================
@@ -347,3 +582,6 @@ export type SaleWithRelations = Omit<Sale, 'customer' | 'items'> & {
     items: SaleItem[]
 }
 
+export type InvoiceWithSale = Invoice & {
+    sale: Pick<Sale, 'sale_number' | 'channel'> | null
+}
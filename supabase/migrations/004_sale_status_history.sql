@@ -0,0 +1,14 @@
+-- Historial de cambios de estado de ventas (cancelaciones, reembolsos, etc.)
+CREATE TABLE IF NOT EXISTS sale_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    from_status TEXT, -- NULL cuando la venta se acaba de crear
+    to_status TEXT NOT NULL,
+    from_payment_status TEXT,
+    to_payment_status TEXT NOT NULL,
+    source TEXT NOT NULL, -- ml_webhook, manual
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_status_history_sale ON sale_status_history(sale_id, created_at DESC);
@@ -0,0 +1,20 @@
+-- Bandeja de entrada de notificaciones de Mercado Libre
+-- Cada notificación se guarda antes de procesarla para poder reintentarla o reprocesarla
+CREATE TABLE IF NOT EXISTS ml_notifications (
+    id TEXT PRIMARY KEY, -- _id de la notificación de ML
+    topic TEXT NOT NULL, -- orders_v2, items, questions, payments
+    resource TEXT NOT NULL, -- ej: /orders/123456789
+    user_id BIGINT,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, processing, processed, failed, ignored
+    process_attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    result JSONB,
+    received_at TIMESTAMPTZ DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ,
+    next_retry_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ml_notifications_status ON ml_notifications(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_ml_notifications_received ON ml_notifications(received_at DESC);
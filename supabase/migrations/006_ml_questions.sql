@@ -0,0 +1,21 @@
+-- Preguntas de compradores en publicaciones de Mercado Libre
+CREATE TABLE IF NOT EXISTS ml_questions (
+    id TEXT PRIMARY KEY, -- ID de la pregunta en ML
+    item_id TEXT NOT NULL, -- ID de la publicación (platform_listings.external_id)
+    from_user_id TEXT,
+    text TEXT NOT NULL,
+    status TEXT NOT NULL, -- UNANSWERED, ANSWERED, CLOSED_UNANSWERED, UNDER_REVIEW, BANNED, DELETED
+    answer_text TEXT,
+    answered_at TIMESTAMPTZ,
+    question_date TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ml_questions_item ON ml_questions(item_id);
+CREATE INDEX IF NOT EXISTS idx_ml_questions_status ON ml_questions(status, question_date DESC);
+
+CREATE TRIGGER update_ml_questions_updated_at
+    BEFORE UPDATE ON ml_questions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Plantillas de respuesta para preguntas de Mercado Libre
+-- El cuerpo admite variables que se completan con datos del producto vinculado:
+-- {producto}, {precio}, {stock_total}, {variantes_disponibles}, {variantes_sin_stock}
+CREATE TABLE IF NOT EXISTS ml_answer_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
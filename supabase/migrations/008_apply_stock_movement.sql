@@ -0,0 +1,67 @@
+-- Movimientos de stock atómicos
+-- Toda modificación de stock pasa por esta función: bloquea la variante, aplica
+-- el cambio y registra el movimiento en la misma transacción. Evita perder
+-- actualizaciones cuando una venta de mostrador y una orden de ML llegan a la vez.
+--
+-- Según p_movement_type:
+--   IN         suma p_quantity
+--   OUT        resta p_quantity
+--   ADJUSTMENT fija el stock en p_quantity
+-- En stock_movements.quantity se guarda siempre el delta aplicado (con signo).
+-- Con p_allow_negative = FALSE se rechaza el movimiento si el stock quedaría
+-- negativo (SQLSTATE 23514, DETAIL = stock disponible).
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+    p_variant_id UUID,
+    p_movement_type TEXT,
+    p_quantity INTEGER,
+    p_reference_type TEXT DEFAULT NULL,
+    p_reference_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_allow_negative BOOLEAN DEFAULT TRUE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_current INTEGER;
+    v_new INTEGER;
+BEGIN
+    IF p_movement_type NOT IN ('IN', 'OUT', 'ADJUSTMENT') THEN
+        RAISE EXCEPTION 'Tipo de movimiento inválido: %', p_movement_type
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    SELECT stock_quantity INTO v_current
+    FROM product_variants
+    WHERE id = p_variant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variante % no encontrada', p_variant_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_new := CASE p_movement_type
+        WHEN 'IN' THEN v_current + p_quantity
+        WHEN 'OUT' THEN v_current - p_quantity
+        ELSE p_quantity
+    END;
+
+    IF v_new < 0 AND NOT p_allow_negative THEN
+        RAISE EXCEPTION 'Stock insuficiente para la variante %', p_variant_id
+            USING ERRCODE = 'check_violation', DETAIL = v_current::TEXT;
+    END IF;
+
+    -- Un ajuste al mismo valor no genera movimiento
+    IF v_new = v_current AND p_movement_type = 'ADJUSTMENT' THEN
+        RETURN v_new;
+    END IF;
+
+    UPDATE product_variants
+    SET stock_quantity = v_new
+    WHERE id = p_variant_id;
+
+    INSERT INTO stock_movements (product_variant_id, movement_type, quantity, reference_type, reference_id, notes, created_by)
+    VALUES (p_variant_id, p_movement_type, v_new - v_current, p_reference_type, p_reference_id, p_notes, auth.uid());
+
+    RETURN v_new;
+END;
+$$ LANGUAGE plpgsql;
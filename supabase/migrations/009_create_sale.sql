@@ -0,0 +1,129 @@
+-- Creación de ventas en una sola transacción
+-- Inserta la venta, sus items y los movimientos de stock, y le asigna número.
+-- Si algo falla no queda nada a medias: ni ventas sin items ni stock descontado.
+--
+-- Antes de escribir se validan todas las líneas. Si alguna no puede venderse se
+-- aborta con SQLSTATE 23514, mensaje 'sale_validation_failed' y en DETAIL un
+-- array JSON con el error de cada línea:
+--   [{ "index": 0, "product_variant_id": "...", "code": "insufficient_stock", "requested": 3, "available": 1 }]
+CREATE OR REPLACE FUNCTION create_sale(p_sale JSONB, p_items JSONB)
+RETURNS sales AS $$
+DECLARE
+    v_sale sales;
+    v_sale_number TEXT;
+    v_item JSONB;
+    v_index INTEGER;
+    v_variant_id UUID;
+    v_requested INTEGER;
+    v_available INTEGER;
+    v_line_errors JSONB := '[]'::JSONB;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'La venta debe tener al menos un item'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- 1. Validar stock de cada línea (bloqueando las variantes hasta el final de la transacción).
+    --    Si la misma variante aparece en varias líneas se valida el total pedido.
+    FOR v_item, v_index IN
+        SELECT value, (ordinality - 1)::INTEGER FROM jsonb_array_elements(p_items) WITH ORDINALITY
+    LOOP
+        v_variant_id := NULLIF(v_item->>'product_variant_id', '')::UUID;
+        CONTINUE WHEN v_variant_id IS NULL;
+
+        SELECT SUM((value->>'quantity')::INTEGER) INTO v_requested
+        FROM jsonb_array_elements(p_items)
+        WHERE NULLIF(value->>'product_variant_id', '')::UUID = v_variant_id;
+
+        SELECT stock_quantity INTO v_available
+        FROM product_variants
+        WHERE id = v_variant_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            v_line_errors := v_line_errors || jsonb_build_object(
+                'index', v_index,
+                'product_variant_id', v_variant_id,
+                'code', 'variant_not_found',
+                'requested', (v_item->>'quantity')::INTEGER,
+                'available', NULL
+            );
+        ELSIF v_available < v_requested THEN
+            v_line_errors := v_line_errors || jsonb_build_object(
+                'index', v_index,
+                'product_variant_id', v_variant_id,
+                'code', 'insufficient_stock',
+                'requested', v_requested,
+                'available', v_available
+            );
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_line_errors) > 0 THEN
+        RAISE EXCEPTION 'sale_validation_failed'
+            USING ERRCODE = 'check_violation', DETAIL = v_line_errors::TEXT;
+    END IF;
+
+    -- 2. Asignar número de venta (serializado para que dos ventas no tomen el mismo)
+    v_sale_number := NULLIF(p_sale->>'sale_number', '');
+    IF v_sale_number IS NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('sales.sale_number'));
+
+        SELECT 'V-' || LPAD((COALESCE(MAX(SUBSTRING(sale_number FROM 3)::INTEGER), 0) + 1)::TEXT, 4, '0')
+        INTO v_sale_number
+        FROM sales
+        WHERE sale_number ~ '^V-[0-9]+$';
+    END IF;
+
+    -- 3. Insertar la venta
+    INSERT INTO sales (
+        sale_number, channel, customer_id, ml_order_id, status, subtotal, discount,
+        shipping_cost, total, payment_method, payment_status, notes
+    )
+    VALUES (
+        v_sale_number,
+        p_sale->>'channel',
+        NULLIF(p_sale->>'customer_id', '')::UUID,
+        p_sale->>'ml_order_id',
+        COALESCE(p_sale->>'status', 'pending'),
+        COALESCE((p_sale->>'subtotal')::DECIMAL, 0),
+        COALESCE((p_sale->>'discount')::DECIMAL, 0),
+        COALESCE((p_sale->>'shipping_cost')::DECIMAL, 0),
+        COALESCE((p_sale->>'total')::DECIMAL, 0),
+        p_sale->>'payment_method',
+        COALESCE(p_sale->>'payment_status', 'pending'),
+        p_sale->>'notes'
+    )
+    RETURNING * INTO v_sale;
+
+    -- 4. Insertar items y descontar stock
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_variant_id := NULLIF(v_item->>'product_variant_id', '')::UUID;
+
+        INSERT INTO sale_items (sale_id, product_variant_id, product_name, quantity, unit_price, total_price)
+        VALUES (
+            v_sale.id,
+            v_variant_id,
+            v_item->>'product_name',
+            (v_item->>'quantity')::INTEGER,
+            (v_item->>'unit_price')::DECIMAL,
+            (v_item->>'total_price')::DECIMAL
+        );
+
+        IF v_variant_id IS NOT NULL THEN
+            PERFORM apply_stock_movement(
+                v_variant_id,
+                'OUT',
+                (v_item->>'quantity')::INTEGER,
+                'sale',
+                v_sale.id,
+                'Venta ' || v_sale_number,
+                FALSE
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,208 @@
+-- Numeración de ventas por canal
+-- Cada canal tiene su contador en sale_number_sequences y su prefijo en
+-- settings (sale_number_prefixes). El número se toma dentro de la transacción
+-- de create_sale: el UPDATE bloquea la fila del canal hasta el commit, así dos
+-- cajas no obtienen el mismo número y un rollback no deja huecos.
+CREATE TABLE IF NOT EXISTS sale_number_sequences (
+    channel TEXT PRIMARY KEY, -- ML, Instagram, WhatsApp, Presencial
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Hasta ahora todas las ventas manuales usaban V-0001, V-0002...:
+-- Presencial conserva el prefijo V y continúa desde el último número
+INSERT INTO sale_number_sequences (channel, last_value)
+SELECT 'Presencial', COALESCE(MAX(SUBSTRING(sale_number FROM 3)::INTEGER), 0)
+FROM sales
+WHERE sale_number ~ '^V-[0-9]+$'
+ON CONFLICT (channel) DO NOTHING;
+
+INSERT INTO sale_number_sequences (channel) VALUES
+('ML'),
+('Instagram'),
+('WhatsApp')
+ON CONFLICT (channel) DO NOTHING;
+
+INSERT INTO settings (key, value, category) VALUES
+('sale_number_prefixes', '{"Presencial": "V", "ML": "MLV", "Instagram": "IG", "WhatsApp": "WA"}', 'sales')
+ON CONFLICT (key) DO NOTHING;
+
+-- Arma el número con el prefijo configurado para el canal (ej: V-0042)
+CREATE OR REPLACE FUNCTION format_sale_number(p_channel TEXT, p_value INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+    v_prefix TEXT;
+BEGIN
+    SELECT NULLIF(value->>p_channel, '') INTO v_prefix
+    FROM settings
+    WHERE key = 'sale_number_prefixes';
+
+    RETURN COALESCE(v_prefix, 'V') || '-' || LPAD(p_value::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Toma el próximo número del canal. Debe llamarse dentro de la transacción que
+-- inserta la venta. Se saltean números ya usados (ventas previas a esta
+-- numeración o canales que comparten prefijo).
+CREATE OR REPLACE FUNCTION next_sale_number(p_channel TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_value INTEGER;
+    v_number TEXT;
+BEGIN
+    INSERT INTO sale_number_sequences (channel)
+    VALUES (p_channel)
+    ON CONFLICT (channel) DO NOTHING;
+
+    LOOP
+        UPDATE sale_number_sequences
+        SET last_value = last_value + 1,
+            updated_at = NOW()
+        WHERE channel = p_channel
+        RETURNING last_value INTO v_value;
+
+        v_number := format_sale_number(p_channel, v_value);
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM sales WHERE sale_number = v_number);
+    END LOOP;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Vista previa del próximo número (no lo reserva: el definitivo se asigna al registrar la venta)
+CREATE OR REPLACE FUNCTION preview_sale_number(p_channel TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_value INTEGER;
+    v_number TEXT;
+BEGIN
+    SELECT last_value INTO v_value
+    FROM sale_number_sequences
+    WHERE channel = p_channel;
+
+    v_value := COALESCE(v_value, 0);
+
+    LOOP
+        v_value := v_value + 1;
+        v_number := format_sale_number(p_channel, v_value);
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM sales WHERE sale_number = v_number);
+    END LOOP;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- create_sale pasa a numerar con la secuencia del canal (reemplaza la versión de 009)
+CREATE OR REPLACE FUNCTION create_sale(p_sale JSONB, p_items JSONB)
+RETURNS sales AS $$
+DECLARE
+    v_sale sales;
+    v_sale_number TEXT;
+    v_item JSONB;
+    v_index INTEGER;
+    v_variant_id UUID;
+    v_requested INTEGER;
+    v_available INTEGER;
+    v_line_errors JSONB := '[]'::JSONB;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'La venta debe tener al menos un item'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- 1. Validar stock de cada línea (bloqueando las variantes hasta el final de la transacción).
+    --    Si la misma variante aparece en varias líneas se valida el total pedido.
+    FOR v_item, v_index IN
+        SELECT value, (ordinality - 1)::INTEGER FROM jsonb_array_elements(p_items) WITH ORDINALITY
+    LOOP
+        v_variant_id := NULLIF(v_item->>'product_variant_id', '')::UUID;
+        CONTINUE WHEN v_variant_id IS NULL;
+
+        SELECT SUM((value->>'quantity')::INTEGER) INTO v_requested
+        FROM jsonb_array_elements(p_items)
+        WHERE NULLIF(value->>'product_variant_id', '')::UUID = v_variant_id;
+
+        SELECT stock_quantity INTO v_available
+        FROM product_variants
+        WHERE id = v_variant_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            v_line_errors := v_line_errors || jsonb_build_object(
+                'index', v_index,
+                'product_variant_id', v_variant_id,
+                'code', 'variant_not_found',
+                'requested', (v_item->>'quantity')::INTEGER,
+                'available', NULL
+            );
+        ELSIF v_available < v_requested THEN
+            v_line_errors := v_line_errors || jsonb_build_object(
+                'index', v_index,
+                'product_variant_id', v_variant_id,
+                'code', 'insufficient_stock',
+                'requested', v_requested,
+                'available', v_available
+            );
+        END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_line_errors) > 0 THEN
+        RAISE EXCEPTION 'sale_validation_failed'
+            USING ERRCODE = 'check_violation', DETAIL = v_line_errors::TEXT;
+    END IF;
+
+    -- 2. Asignar número de venta del canal
+    v_sale_number := next_sale_number(p_sale->>'channel');
+
+    -- 3. Insertar la venta
+    INSERT INTO sales (
+        sale_number, channel, customer_id, ml_order_id, status, subtotal, discount,
+        shipping_cost, total, payment_method, payment_status, notes
+    )
+    VALUES (
+        v_sale_number,
+        p_sale->>'channel',
+        NULLIF(p_sale->>'customer_id', '')::UUID,
+        p_sale->>'ml_order_id',
+        COALESCE(p_sale->>'status', 'pending'),
+        COALESCE((p_sale->>'subtotal')::DECIMAL, 0),
+        COALESCE((p_sale->>'discount')::DECIMAL, 0),
+        COALESCE((p_sale->>'shipping_cost')::DECIMAL, 0),
+        COALESCE((p_sale->>'total')::DECIMAL, 0),
+        p_sale->>'payment_method',
+        COALESCE(p_sale->>'payment_status', 'pending'),
+        p_sale->>'notes'
+    )
+    RETURNING * INTO v_sale;
+
+    -- 4. Insertar items y descontar stock
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_variant_id := NULLIF(v_item->>'product_variant_id', '')::UUID;
+
+        INSERT INTO sale_items (sale_id, product_variant_id, product_name, quantity, unit_price, total_price)
+        VALUES (
+            v_sale.id,
+            v_variant_id,
+            v_item->>'product_name',
+            (v_item->>'quantity')::INTEGER,
+            (v_item->>'unit_price')::DECIMAL,
+            (v_item->>'total_price')::DECIMAL
+        );
+
+        IF v_variant_id IS NOT NULL THEN
+            PERFORM apply_stock_movement(
+                v_variant_id,
+                'OUT',
+                (v_item->>'quantity')::INTEGER,
+                'sale',
+                v_sale.id,
+                'Venta ' || v_sale_number,
+                FALSE
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,20 @@
+-- Facturación electrónica (AFIP WSFEv1)
+
+-- Alícuota de IVA de cada producto (21% general, 10.5% reducida)
+ALTER TABLE products
+    ADD COLUMN iva_rate DECIMAL(4,2) NOT NULL DEFAULT 21
+    CHECK (iva_rate IN (21, 10.5));
+
+-- Neto gravado por alícuota (necesario para el Libro IVA Ventas) y datos del comprobante en AFIP
+ALTER TABLE invoices
+    ADD COLUMN net_21 DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN net_10_5 DECIMAL(12,2) DEFAULT 0,
+    ADD COLUMN voucher_number INTEGER,
+    ADD COLUMN afip_observations TEXT;
+
+CREATE UNIQUE INDEX idx_invoices_voucher ON invoices(invoice_type, point_of_sale, voucher_number);
+
+-- CUIT de la empresa (emisor de los comprobantes)
+INSERT INTO settings (key, value, category) VALUES
+('company_cuit', '""', 'company')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,23 @@
+-- PDF de facturas con código QR de AFIP
+
+-- Tipo de documento del receptor (código AFIP), necesario para el QR
+ALTER TABLE invoices
+    ADD COLUMN customer_doc_type INTEGER;
+
+-- Datos del emisor que deben figurar en el comprobante
+INSERT INTO settings (key, value, category) VALUES
+('company_address', '""', 'company'),
+('company_iibb', '""', 'company'),
+('company_activity_start', '""', 'company')
+ON CONFLICT (key) DO NOTHING;
+
+-- Bucket privado para los PDF (se descargan a través de /api/invoices/[id]/pdf)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Mismo criterio que el resto de las tablas (sin RLS por usuario todavía)
+CREATE POLICY "Acceso a PDF de facturas" ON storage.objects
+    FOR ALL
+    USING (bucket_id = 'invoices')
+    WITH CHECK (bucket_id = 'invoices');
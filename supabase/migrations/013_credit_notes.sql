@@ -0,0 +1,17 @@
+-- Notas de crédito A/B asociadas a la factura original
+-- Una factura autorizada no se anula: se emite una nota de crédito (total o parcial).
+-- Cuando la nota cubre el total, la factura original queda con status 'cancelled'.
+
+ALTER TABLE invoices
+    ADD COLUMN voucher_kind TEXT NOT NULL DEFAULT 'invoice'
+        CHECK (voucher_kind IN ('invoice', 'credit_note')),
+    ADD COLUMN original_invoice_id UUID REFERENCES invoices(id),
+    ADD COLUMN credit_reason TEXT,
+    ADD CONSTRAINT invoices_credit_note_original
+        CHECK (voucher_kind = 'invoice' OR original_invoice_id IS NOT NULL);
+
+-- Facturas y notas de crédito se numeran por separado en AFIP (distinto CbteTipo)
+DROP INDEX IF EXISTS idx_invoices_voucher;
+CREATE UNIQUE INDEX idx_invoices_voucher ON invoices(voucher_kind, invoice_type, point_of_sale, voucher_number);
+
+CREATE INDEX idx_invoices_original ON invoices(original_invoice_id);
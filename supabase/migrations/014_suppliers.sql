@@ -0,0 +1,50 @@
+-- Gestión de proveedores: productos que provee cada uno, pagos y saldo
+
+-- CUIT sin guiones (11 dígitos, validado en la aplicación)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_cuit ON suppliers(cuit) WHERE cuit IS NOT NULL;
+
+-- Productos que provee cada proveedor
+CREATE TABLE IF NOT EXISTS product_suppliers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    supplier_sku TEXT,      -- código del producto en el catálogo del proveedor
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (product_id, supplier_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_suppliers_supplier ON product_suppliers(supplier_id);
+
+-- Pagos realizados a proveedores (opcionalmente imputados a una orden de compra)
+CREATE TABLE IF NOT EXISTS supplier_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    payment_method TEXT,
+    notes TEXT,
+    paid_at TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON supplier_payments(supplier_id, paid_at DESC);
+
+-- Saldo con cada proveedor: mercadería recibida menos pagos
+CREATE OR REPLACE VIEW supplier_balances AS
+SELECT
+    s.id AS supplier_id,
+    COALESCE(received.total, 0) AS received_total,
+    COALESCE(paid.total, 0) AS paid_total,
+    COALESCE(received.total, 0) - COALESCE(paid.total, 0) AS balance
+FROM suppliers s
+LEFT JOIN (
+    SELECT po.supplier_id, SUM(pi.quantity_received * pi.unit_cost) AS total
+    FROM purchase_orders po
+    JOIN purchase_items pi ON pi.purchase_order_id = po.id
+    GROUP BY po.supplier_id
+) received ON received.supplier_id = s.id
+LEFT JOIN (
+    SELECT supplier_id, SUM(amount) AS total
+    FROM supplier_payments
+    GROUP BY supplier_id
+) paid ON paid.supplier_id = s.id;
@@ -0,0 +1,179 @@
+-- Órdenes de compra: creación numerada y recepción (total o parcial) que ingresa stock
+-- Cada recepción genera movimientos IN con reference_type 'purchase' y reference_id = orden.
+
+-- Numeración OC-0001, OC-0002, ... (continúa después de las órdenes existentes)
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+SELECT setval('purchase_order_number_seq', GREATEST(last_number, 1), last_number > 0)
+FROM (
+    SELECT COALESCE(MAX(SUBSTRING(order_number FROM 4)::INTEGER), 0) AS last_number
+    FROM purchase_orders
+    WHERE order_number ~ '^OC-[0-9]+$'
+) existing;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, ordered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_items_order ON purchase_items(purchase_order_id);
+
+-- Crea la orden con sus items en una sola transacción.
+-- p_items: [{ "product_variant_id": "...", "product_name": "...", "quantity": 10, "unit_cost": 1500 }]
+CREATE OR REPLACE FUNCTION create_purchase_order(p_order JSONB, p_items JSONB)
+RETURNS purchase_orders AS $$
+DECLARE
+    v_order purchase_orders;
+    v_item JSONB;
+    v_quantity INTEGER;
+    v_unit_cost DECIMAL(12,2);
+    v_subtotal DECIMAL(12,2) := 0;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'La orden de compra debe tener al menos un item'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+        v_unit_cost := (v_item->>'unit_cost')::DECIMAL;
+
+        IF v_quantity IS NULL OR v_quantity <= 0 OR v_unit_cost IS NULL OR v_unit_cost < 0 THEN
+            RAISE EXCEPTION 'Cantidad o costo inválido en "%"', v_item->>'product_name'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        v_subtotal := v_subtotal + v_quantity * v_unit_cost;
+    END LOOP;
+
+    INSERT INTO purchase_orders (
+        supplier_id, order_number, status, subtotal, total, has_invoice,
+        supplier_invoice_number, notes, ordered_at
+    )
+    VALUES (
+        NULLIF(p_order->>'supplier_id', '')::UUID,
+        'OC-' || LPAD(nextval('purchase_order_number_seq')::TEXT, 4, '0'),
+        'pending',
+        v_subtotal,
+        v_subtotal,
+        COALESCE((p_order->>'has_invoice')::BOOLEAN, FALSE),
+        NULLIF(p_order->>'supplier_invoice_number', ''),
+        NULLIF(p_order->>'notes', ''),
+        COALESCE((p_order->>'ordered_at')::TIMESTAMPTZ, NOW())
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO purchase_items (purchase_order_id, product_variant_id, product_name, quantity, quantity_received, unit_cost, total_cost)
+    SELECT
+        v_order.id,
+        NULLIF(value->>'product_variant_id', '')::UUID,
+        value->>'product_name',
+        (value->>'quantity')::INTEGER,
+        0,
+        (value->>'unit_cost')::DECIMAL,
+        (value->>'quantity')::INTEGER * (value->>'unit_cost')::DECIMAL
+    FROM jsonb_array_elements(p_items);
+
+    -- Los productos comprados quedan asociados al proveedor
+    IF v_order.supplier_id IS NOT NULL THEN
+        INSERT INTO product_suppliers (product_id, supplier_id)
+        SELECT DISTINCT pv.product_id, v_order.supplier_id
+        FROM purchase_items pi
+        JOIN product_variants pv ON pv.id = pi.product_variant_id
+        WHERE pi.purchase_order_id = v_order.id
+        ON CONFLICT (product_id, supplier_id) DO NOTHING;
+    END IF;
+
+    RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Registra la recepción de mercadería de una orden.
+-- p_items: [{ "purchase_item_id": "...", "quantity": 4 }] (solo las líneas recibidas)
+-- No se puede recibir más de lo pendiente de cada línea.
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_order_id UUID, p_items JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS purchase_orders AS $$
+DECLARE
+    v_order purchase_orders;
+    v_line purchase_items;
+    v_item JSONB;
+    v_quantity INTEGER;
+    v_pending_lines INTEGER;
+    v_received_lines INTEGER;
+BEGIN
+    SELECT * INTO v_order
+    FROM purchase_orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Orden de compra % no encontrada', p_order_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_order.status = 'received' THEN
+        RAISE EXCEPTION 'La orden % ya fue recibida completa', v_order.order_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'No hay cantidades para recibir'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_items
+        WHERE id = (v_item->>'purchase_item_id')::UUID
+          AND purchase_order_id = p_order_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El item % no pertenece a la orden %', v_item->>'purchase_item_id', v_order.order_number
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity THEN
+            RAISE EXCEPTION 'La cantidad recibida de "%" supera lo pendiente (%)',
+                v_line.product_name, v_line.quantity - v_line.quantity_received
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE purchase_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        IF v_line.product_variant_id IS NOT NULL THEN
+            PERFORM apply_stock_movement(
+                v_line.product_variant_id,
+                'IN',
+                v_quantity,
+                'purchase',
+                v_order.id,
+                'Recepción ' || v_order.order_number || COALESCE(': ' || NULLIF(p_notes, ''), '')
+            );
+        END IF;
+    END LOOP;
+
+    -- Estado según lo recibido de cada línea
+    SELECT
+        COUNT(*) FILTER (WHERE quantity_received < quantity),
+        COUNT(*) FILTER (WHERE quantity_received > 0)
+    INTO v_pending_lines, v_received_lines
+    FROM purchase_items
+    WHERE purchase_order_id = p_order_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN v_pending_lines = 0 THEN 'received'
+            WHEN v_received_lines > 0 THEN 'partial'
+            ELSE 'pending'
+        END,
+        received_at = CASE WHEN v_pending_lines = 0 THEN NOW() ELSE received_at END
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,220 @@
+-- Costo promedio ponderado: cada recepción de compra recalcula el costo
+-- de la variante y del producto sobre el stock disponible, con historial de cambios.
+
+-- Costo propio de la variante (NULL = usa el costo del producto)
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS cost_price DECIMAL(12,2);
+
+CREATE TABLE IF NOT EXISTS cost_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    product_variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE, -- NULL = costo del producto
+    previous_cost DECIMAL(12,2),
+    new_cost DECIMAL(12,2),
+    source TEXT NOT NULL DEFAULT 'manual', -- manual, purchase
+    reference_id UUID, -- orden de compra cuando source = 'purchase'
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_history_product ON cost_history(product_id, created_at DESC);
+
+-- Todo cambio de costo queda registrado. El origen lo indica quien hace el cambio
+-- con set_config('app.cost_source' / 'app.cost_reference' / 'app.cost_notes', ..., true);
+-- si no se indica, es una edición manual.
+CREATE OR REPLACE FUNCTION log_cost_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO cost_history (product_id, product_variant_id, previous_cost, new_cost, source, reference_id, notes)
+    VALUES (
+        CASE WHEN TG_TABLE_NAME = 'products' THEN NEW.id ELSE NEW.product_id END,
+        CASE WHEN TG_TABLE_NAME = 'products' THEN NULL ELSE NEW.id END,
+        OLD.cost_price,
+        NEW.cost_price,
+        COALESCE(NULLIF(current_setting('app.cost_source', true), ''), 'manual'),
+        NULLIF(current_setting('app.cost_reference', true), '')::UUID,
+        NULLIF(current_setting('app.cost_notes', true), '')
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_product_cost_change ON products;
+CREATE TRIGGER log_product_cost_change
+    AFTER UPDATE OF cost_price ON products
+    FOR EACH ROW
+    WHEN (OLD.cost_price IS DISTINCT FROM NEW.cost_price)
+    EXECUTE FUNCTION log_cost_change();
+
+DROP TRIGGER IF EXISTS log_variant_cost_change ON product_variants;
+CREATE TRIGGER log_variant_cost_change
+    AFTER UPDATE OF cost_price ON product_variants
+    FOR EACH ROW
+    WHEN (OLD.cost_price IS DISTINCT FROM NEW.cost_price)
+    EXECUTE FUNCTION log_cost_change();
+
+-- Promedio ponderado entre el stock actual a su costo y lo que ingresa.
+-- Sin stock (o sin costo cargado, como los productos importados de ML con costo 0)
+-- el nuevo costo es directamente el de la compra.
+CREATE OR REPLACE FUNCTION weighted_average_cost(
+    p_stock INTEGER,
+    p_current_cost DECIMAL,
+    p_quantity INTEGER,
+    p_unit_cost DECIMAL
+)
+RETURNS DECIMAL(12,2) AS $$
+BEGIN
+    IF COALESCE(p_stock, 0) <= 0 OR COALESCE(p_current_cost, 0) <= 0 THEN
+        RETURN p_unit_cost;
+    END IF;
+
+    RETURN ROUND((p_stock * p_current_cost + p_quantity * p_unit_cost) / (p_stock + p_quantity), 2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Recalcula el costo de la variante y de su producto por el ingreso de una compra.
+-- Debe llamarse ANTES de sumar el stock recibido.
+CREATE OR REPLACE FUNCTION apply_purchase_cost(
+    p_variant_id UUID,
+    p_quantity INTEGER,
+    p_unit_cost DECIMAL,
+    p_purchase_order_id UUID,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_variant product_variants;
+    v_product products;
+    v_product_stock INTEGER;
+BEGIN
+    SELECT * INTO v_variant FROM product_variants WHERE id = p_variant_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_product FROM products WHERE id = v_variant.product_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(GREATEST(stock_quantity, 0)), 0) INTO v_product_stock
+    FROM product_variants
+    WHERE product_id = v_product.id;
+
+    PERFORM set_config('app.cost_source', 'purchase', true);
+    PERFORM set_config('app.cost_reference', p_purchase_order_id::TEXT, true);
+    PERFORM set_config('app.cost_notes', COALESCE(p_notes, ''), true);
+
+    UPDATE product_variants
+    SET cost_price = weighted_average_cost(
+        GREATEST(v_variant.stock_quantity, 0),
+        COALESCE(v_variant.cost_price, v_product.cost_price),
+        p_quantity,
+        p_unit_cost
+    )
+    WHERE id = p_variant_id;
+
+    UPDATE products
+    SET cost_price = weighted_average_cost(v_product_stock, v_product.cost_price, p_quantity, p_unit_cost)
+    WHERE id = v_product.id;
+
+    PERFORM set_config('app.cost_source', '', true);
+    PERFORM set_config('app.cost_reference', '', true);
+    PERFORM set_config('app.cost_notes', '', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- La recepción ahora actualiza el costo promedio antes de ingresar el stock
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_order_id UUID, p_items JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS purchase_orders AS $$
+DECLARE
+    v_order purchase_orders;
+    v_line purchase_items;
+    v_item JSONB;
+    v_quantity INTEGER;
+    v_pending_lines INTEGER;
+    v_received_lines INTEGER;
+BEGIN
+    SELECT * INTO v_order
+    FROM purchase_orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Orden de compra % no encontrada', p_order_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_order.status = 'received' THEN
+        RAISE EXCEPTION 'La orden % ya fue recibida completa', v_order.order_number
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'No hay cantidades para recibir'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_quantity := (v_item->>'quantity')::INTEGER;
+        CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+        SELECT * INTO v_line
+        FROM purchase_items
+        WHERE id = (v_item->>'purchase_item_id')::UUID
+          AND purchase_order_id = p_order_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'El item % no pertenece a la orden %', v_item->>'purchase_item_id', v_order.order_number
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity THEN
+            RAISE EXCEPTION 'La cantidad recibida de "%" supera lo pendiente (%)',
+                v_line.product_name, v_line.quantity - v_line.quantity_received
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE purchase_items
+        SET quantity_received = quantity_received + v_quantity
+        WHERE id = v_line.id;
+
+        IF v_line.product_variant_id IS NOT NULL THEN
+            PERFORM apply_purchase_cost(
+                v_line.product_variant_id,
+                v_quantity,
+                v_line.unit_cost,
+                v_order.id,
+                v_order.order_number || ': ' || v_quantity || ' u. a $' || v_line.unit_cost
+            );
+
+            PERFORM apply_stock_movement(
+                v_line.product_variant_id,
+                'IN',
+                v_quantity,
+                'purchase',
+                v_order.id,
+                'Recepción ' || v_order.order_number || COALESCE(': ' || NULLIF(p_notes, ''), '')
+            );
+        END IF;
+    END LOOP;
+
+    -- Estado según lo recibido de cada línea
+    SELECT
+        COUNT(*) FILTER (WHERE quantity_received < quantity),
+        COUNT(*) FILTER (WHERE quantity_received > 0)
+    INTO v_pending_lines, v_received_lines
+    FROM purchase_items
+    WHERE purchase_order_id = p_order_id;
+
+    UPDATE purchase_orders
+    SET status = CASE
+            WHEN v_pending_lines = 0 THEN 'received'
+            WHEN v_received_lines > 0 THEN 'partial'
+            ELSE 'pending'
+        END,
+        received_at = CASE WHEN v_pending_lines = 0 THEN NOW() ELSE received_at END
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,12 @@
+-- Reposición: plazo de entrega y stock de seguridad por proveedor
+-- Se usan junto con la velocidad de venta de cada variante para sugerir cantidades a pedir.
+
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 7;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS safety_stock_days INTEGER NOT NULL DEFAULT 7;
+
+ALTER TABLE suppliers DROP CONSTRAINT IF EXISTS suppliers_reorder_days_check;
+ALTER TABLE suppliers ADD CONSTRAINT suppliers_reorder_days_check
+    CHECK (lead_time_days >= 0 AND safety_stock_days >= 0);
+
+-- Movimientos por variante: se usan para saber cuántos días hubo stock en la ventana de cálculo
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant_date ON stock_movements(product_variant_id, created_at DESC);
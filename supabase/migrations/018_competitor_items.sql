@@ -0,0 +1,20 @@
+-- Seguimiento de precios de la competencia
+-- Cada publicación de un competidor (ítem de ML) se asocia a uno de nuestros productos;
+-- los precios capturados se guardan como snapshots en competitor_prices.
+
+CREATE TABLE IF NOT EXISTS competitor_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    competitor_id UUID NOT NULL REFERENCES competitors(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    ml_item_id TEXT NOT NULL, -- ej: MLA1234567890
+    title TEXT,
+    url TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(competitor_id, ml_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_items_product ON competitor_items(product_id);
+
+-- Historial por producto y por publicación
+CREATE INDEX IF NOT EXISTS idx_competitor_prices_product ON competitor_prices(product_id, captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_competitor_prices_item ON competitor_prices(ml_item_id, captured_at DESC);
@@ -0,0 +1,28 @@
+-- Captura periódica de precios de la competencia
+-- Cada snapshot guarda el precio anterior de la misma publicación y la variación,
+-- y se marca cuando el cambio supera el umbral configurado.
+
+ALTER TABLE competitor_prices
+    ADD COLUMN IF NOT EXISTS previous_price DECIMAL(12,2),
+    ADD COLUMN IF NOT EXISTS price_change_percent DECIMAL(8,2),
+    ADD COLUMN IF NOT EXISTS is_flagged BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_competitor_prices_flagged ON competitor_prices(captured_at DESC) WHERE is_flagged;
+
+-- Último snapshot de cada publicación (por competidor), para comparar con la nueva captura
+CREATE OR REPLACE FUNCTION latest_competitor_prices(p_item_ids TEXT[])
+RETURNS TABLE (competitor_id UUID, ml_item_id TEXT, price DECIMAL, captured_at TIMESTAMPTZ) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT DISTINCT ON (cp.competitor_id, cp.ml_item_id)
+        cp.competitor_id, cp.ml_item_id, cp.price, cp.captured_at
+    FROM competitor_prices cp
+    WHERE cp.ml_item_id = ANY(p_item_ids)
+    ORDER BY cp.competitor_id, cp.ml_item_id, cp.captured_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Variación de precio (en %) a partir de la cual se marca un snapshot
+INSERT INTO settings (key, value, category) VALUES
+('competitor_price_alert_percent', '10', 'integrations')
+ON CONFLICT (key) DO NOTHING;
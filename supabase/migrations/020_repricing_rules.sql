@@ -0,0 +1,29 @@
+-- Reglas de reprecio por producto o por categoría
+-- Cada regla toma el precio de la competencia (el más bajo o el promedio), le aplica un
+-- desvío porcentual y respeta un piso de costo + markup. Si un producto tiene regla
+-- propia, esa prevalece sobre la de su categoría.
+
+CREATE TABLE IF NOT EXISTS repricing_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+    category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+    strategy TEXT NOT NULL DEFAULT 'match_lowest', -- match_lowest, match_average
+    offset_percent DECIMAL(6,2) NOT NULL DEFAULT 0, -- ej: -2 = 2% por debajo de la competencia
+    min_markup_percent DECIMAL(6,2), -- piso: costo + X%
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (strategy IN ('match_lowest', 'match_average')),
+    -- Exactamente un alcance: producto o categoría
+    CHECK ((product_id IS NULL) <> (category_id IS NULL)),
+    CHECK (min_markup_percent IS NULL OR min_markup_percent >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_repricing_rules_product ON repricing_rules(product_id);
+CREATE INDEX IF NOT EXISTS idx_repricing_rules_category ON repricing_rules(category_id);
+
+CREATE TRIGGER update_repricing_rules_updated_at
+    BEFORE UPDATE ON repricing_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
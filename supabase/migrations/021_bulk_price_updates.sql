@@ -0,0 +1,166 @@
+-- Actualización masiva de precios: lotes con historial de cambios y deshacer
+
+-- Un lote por cada actualización masiva aplicada
+CREATE TABLE IF NOT EXISTS price_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    description TEXT NOT NULL,
+    operation JSONB NOT NULL DEFAULT '{}', -- modo, porcentaje, redondeo y filtros usados
+    products_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    undone_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS price_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    product_variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE, -- NULL = precio base del producto
+    field TEXT NOT NULL, -- base_price, price_adjustment
+    previous_value DECIMAL(12,2),
+    new_value DECIMAL(12,2),
+    source TEXT NOT NULL DEFAULT 'manual', -- manual, bulk, undo
+    batch_id UUID REFERENCES price_batches(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_changes_product ON price_changes(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_price_changes_batch ON price_changes(batch_id);
+
+-- Todo cambio de precio queda registrado. El origen lo indica quien hace el cambio
+-- con set_config('app.price_source' / 'app.price_batch', ..., true);
+-- si no se indica, es una edición manual.
+CREATE OR REPLACE FUNCTION log_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_source TEXT := COALESCE(NULLIF(current_setting('app.price_source', true), ''), 'manual');
+    v_batch_id UUID := NULLIF(current_setting('app.price_batch', true), '')::UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'products' THEN
+        INSERT INTO price_changes (product_id, product_variant_id, field, previous_value, new_value, source, batch_id)
+        VALUES (NEW.id, NULL, 'base_price', OLD.base_price, NEW.base_price, v_source, v_batch_id);
+    ELSE
+        INSERT INTO price_changes (product_id, product_variant_id, field, previous_value, new_value, source, batch_id)
+        VALUES (NEW.product_id, NEW.id, 'price_adjustment', OLD.price_adjustment, NEW.price_adjustment, v_source, v_batch_id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_product_price_change ON products;
+CREATE TRIGGER log_product_price_change
+    AFTER UPDATE OF base_price ON products
+    FOR EACH ROW
+    WHEN (OLD.base_price IS DISTINCT FROM NEW.base_price)
+    EXECUTE FUNCTION log_price_change();
+
+DROP TRIGGER IF EXISTS log_variant_price_change ON product_variants;
+CREATE TRIGGER log_variant_price_change
+    AFTER UPDATE OF price_adjustment ON product_variants
+    FOR EACH ROW
+    WHEN (OLD.price_adjustment IS DISTINCT FROM NEW.price_adjustment)
+    EXECUTE FUNCTION log_price_change();
+
+-- Aplica un lote de precios en una sola transacción.
+-- p_changes: [{ product_id, base_price, variants: [{ id, price_adjustment }] }]
+CREATE OR REPLACE FUNCTION apply_price_batch(p_description TEXT, p_operation JSONB, p_changes JSONB)
+RETURNS price_batches AS $$
+DECLARE
+    v_batch price_batches;
+    v_change JSONB;
+    v_variant JSONB;
+    v_base_price DECIMAL(12,2);
+BEGIN
+    IF p_changes IS NULL OR jsonb_array_length(p_changes) = 0 THEN
+        RAISE EXCEPTION 'No hay precios para actualizar'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    INSERT INTO price_batches (description, operation, products_count)
+    VALUES (p_description, COALESCE(p_operation, '{}'), jsonb_array_length(p_changes))
+    RETURNING * INTO v_batch;
+
+    PERFORM set_config('app.price_source', 'bulk', true);
+    PERFORM set_config('app.price_batch', v_batch.id::TEXT, true);
+
+    FOR v_change IN SELECT value FROM jsonb_array_elements(p_changes)
+    LOOP
+        v_base_price := (v_change->>'base_price')::DECIMAL;
+        IF v_base_price IS NULL OR v_base_price < 0 THEN
+            RAISE EXCEPTION 'Precio inválido para el producto %', v_change->>'product_id'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE products
+        SET base_price = v_base_price
+        WHERE id = (v_change->>'product_id')::UUID;
+
+        FOR v_variant IN SELECT value FROM jsonb_array_elements(COALESCE(v_change->'variants', '[]'))
+        LOOP
+            UPDATE product_variants
+            SET price_adjustment = (v_variant->>'price_adjustment')::DECIMAL
+            WHERE id = (v_variant->>'id')::UUID
+              AND product_id = (v_change->>'product_id')::UUID;
+        END LOOP;
+    END LOOP;
+
+    PERFORM set_config('app.price_source', '', true);
+    PERFORM set_config('app.price_batch', '', true);
+
+    RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Vuelve los precios de un lote a sus valores anteriores. Los precios que se
+-- volvieron a editar después del lote no se tocan. Devuelve cuántos se revirtieron.
+CREATE OR REPLACE FUNCTION undo_price_batch(p_batch_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_batch price_batches;
+    v_change price_changes;
+    v_rows INTEGER;
+    v_reverted INTEGER := 0;
+BEGIN
+    SELECT * INTO v_batch
+    FROM price_batches
+    WHERE id = p_batch_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lote de precios % no encontrado', p_batch_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_batch.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'El lote "%" ya fue deshecho', v_batch.description
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.price_source', 'undo', true);
+
+    FOR v_change IN
+        SELECT * FROM price_changes
+        WHERE batch_id = p_batch_id
+        ORDER BY created_at DESC
+    LOOP
+        IF v_change.field = 'base_price' THEN
+            UPDATE products
+            SET base_price = v_change.previous_value
+            WHERE id = v_change.product_id
+              AND base_price = v_change.new_value;
+        ELSE
+            UPDATE product_variants
+            SET price_adjustment = v_change.previous_value
+            WHERE id = v_change.product_variant_id
+              AND price_adjustment = v_change.new_value;
+        END IF;
+
+        GET DIAGNOSTICS v_rows = ROW_COUNT;
+        v_reverted := v_reverted + v_rows;
+    END LOOP;
+
+    PERFORM set_config('app.price_source', '', true);
+
+    UPDATE price_batches SET undone_at = NOW() WHERE id = p_batch_id;
+
+    RETURN v_reverted;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,132 @@
+-- Auditoría de precios: price_changes registra todo cambio de precio base, costo y ajuste
+-- de variantes (también al crearlos) y los precios de las publicaciones de ML, con el
+-- origen del cambio y el usuario que lo hizo.
+
+ALTER TABLE price_changes
+    ADD COLUMN IF NOT EXISTS changed_by UUID, -- auth.uid() de quien hizo el cambio
+    ADD COLUMN IF NOT EXISTS changed_by_email TEXT;
+
+-- field: base_price, cost_price, price_adjustment, listing_price (precio en la publicación de ML)
+-- source: manual, product_form, bulk, undo, repricing, ml_sync, ml_push, import, purchase
+
+-- Origen del cambio:
+--  1. set_config('app.price_source', ..., true) desde funciones (apply_price_batch, undo_price_batch)
+--  2. set_config('app.cost_source', ..., true) de las recepciones de compra
+--  3. header x-price-source del request (PostgREST lo expone en request.headers)
+--  4. si no se indica, es una edición manual
+CREATE OR REPLACE FUNCTION price_change_source()
+RETURNS TEXT AS $$
+BEGIN
+    RETURN COALESCE(
+        NULLIF(current_setting('app.price_source', true), ''),
+        NULLIF(current_setting('app.cost_source', true), ''),
+        NULLIF(NULLIF(current_setting('request.headers', true), '')::JSON->>'x-price-source', ''),
+        'manual'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION insert_price_change(
+    p_product_id UUID,
+    p_variant_id UUID,
+    p_field TEXT,
+    p_previous DECIMAL,
+    p_new DECIMAL
+)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO price_changes (
+        product_id, product_variant_id, field, previous_value, new_value,
+        source, batch_id, changed_by, changed_by_email
+    )
+    VALUES (
+        p_product_id,
+        p_variant_id,
+        p_field,
+        p_previous,
+        p_new,
+        price_change_source(),
+        NULLIF(current_setting('app.price_batch', true), '')::UUID,
+        auth.uid(),
+        auth.jwt()->>'email'
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Los valores en cero o vacíos al crear (costo sin cargar, variante sin ajuste) no se registran
+CREATE OR REPLACE FUNCTION log_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_id UUID;
+    v_previous DECIMAL;
+BEGIN
+    IF TG_TABLE_NAME = 'products' THEN
+        IF TG_OP = 'INSERT' THEN
+            PERFORM insert_price_change(NEW.id, NULL, 'base_price', NULL, NEW.base_price);
+            IF COALESCE(NEW.cost_price, 0) <> 0 THEN
+                PERFORM insert_price_change(NEW.id, NULL, 'cost_price', NULL, NEW.cost_price);
+            END IF;
+        ELSE
+            IF OLD.base_price IS DISTINCT FROM NEW.base_price THEN
+                PERFORM insert_price_change(NEW.id, NULL, 'base_price', OLD.base_price, NEW.base_price);
+            END IF;
+            IF OLD.cost_price IS DISTINCT FROM NEW.cost_price THEN
+                PERFORM insert_price_change(NEW.id, NULL, 'cost_price', OLD.cost_price, NEW.cost_price);
+            END IF;
+        END IF;
+
+    ELSIF TG_TABLE_NAME = 'product_variants' THEN
+        IF TG_OP = 'INSERT' THEN
+            IF COALESCE(NEW.price_adjustment, 0) <> 0 THEN
+                PERFORM insert_price_change(NEW.product_id, NEW.id, 'price_adjustment', NULL, NEW.price_adjustment);
+            END IF;
+            IF NEW.cost_price IS NOT NULL THEN
+                PERFORM insert_price_change(NEW.product_id, NEW.id, 'cost_price', NULL, NEW.cost_price);
+            END IF;
+        ELSE
+            IF OLD.price_adjustment IS DISTINCT FROM NEW.price_adjustment THEN
+                PERFORM insert_price_change(NEW.product_id, NEW.id, 'price_adjustment', OLD.price_adjustment, NEW.price_adjustment);
+            END IF;
+            IF OLD.cost_price IS DISTINCT FROM NEW.cost_price THEN
+                PERFORM insert_price_change(NEW.product_id, NEW.id, 'cost_price', OLD.cost_price, NEW.cost_price);
+            END IF;
+        END IF;
+
+    ELSE -- platform_listings
+        IF TG_OP = 'UPDATE' THEN
+            IF OLD.price IS NOT DISTINCT FROM NEW.price THEN
+                RETURN NEW;
+            END IF;
+            v_previous := OLD.price;
+        END IF;
+
+        SELECT product_id INTO v_product_id
+        FROM product_variants
+        WHERE id = NEW.product_variant_id;
+
+        IF v_product_id IS NOT NULL THEN
+            PERFORM insert_price_change(v_product_id, NEW.product_variant_id, 'listing_price', v_previous, NEW.price);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_product_price_change ON products;
+CREATE TRIGGER log_product_price_change
+    AFTER INSERT OR UPDATE OF base_price, cost_price ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION log_price_change();
+
+DROP TRIGGER IF EXISTS log_variant_price_change ON product_variants;
+CREATE TRIGGER log_variant_price_change
+    AFTER INSERT OR UPDATE OF price_adjustment, cost_price ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION log_price_change();
+
+DROP TRIGGER IF EXISTS log_listing_price_change ON platform_listings;
+CREATE TRIGGER log_listing_price_change
+    AFTER INSERT OR UPDATE OF price ON platform_listings
+    FOR EACH ROW
+    EXECUTE FUNCTION log_price_change();
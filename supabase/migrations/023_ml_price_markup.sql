@@ -0,0 +1,5 @@
+-- Publicación de precios en Mercado Libre: recargo (%) que se suma al precio local
+-- al publicarlo, para cubrir las comisiones. 0 = se publica el mismo precio.
+INSERT INTO settings (key, value, category) VALUES
+('ml_price_markup_percent', '0', 'integrations')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,22 @@
+-- Comisiones por canal para calcular el neto y el margen real de precios y ventas
+-- (ver src/lib/marketplace-fees.ts). Los valores se editan desde /precios.
+--  ml_commission_percent: comisión de ML por tipo de publicación (gold_special = Clásica, gold_pro = Premium)
+--  ml_fixed_fees: cargo fijo por unidad para precios menores a max_price
+--  ml_free_shipping_threshold / ml_shipping_cost: envío gratis a cargo del vendedor
+--  channel_fee_percent: costo de cobro de los demás canales
+--  iibb_percent: Ingresos Brutos + gastos, sobre lo cobrado
+INSERT INTO settings (key, value, category) VALUES
+('fee_settings', '{
+    "ml_commission_percent": {"gold_special": 14, "gold_pro": 28},
+    "ml_listing_type": "gold_special",
+    "ml_fixed_fees": [
+        {"max_price": 15000, "fee": 1000},
+        {"max_price": 25000, "fee": 2000},
+        {"max_price": 33000, "fee": 2500}
+    ],
+    "ml_free_shipping_threshold": 33000,
+    "ml_shipping_cost": 0,
+    "channel_fee_percent": {"Instagram": 0, "WhatsApp": 0, "Presencial": 0},
+    "iibb_percent": 3.5
+}', 'sales')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,36 @@
+-- Lock del refresh de tokens de ML entre procesos
+-- ML invalida el refresh token al usarlo: si dos instancias refrescan a la vez, la
+-- segunda falla y puede pisar los tokens buenos. Antes de refrescar cada proceso
+-- reclama settings.ml_token_refresh_lock; solo uno lo obtiene mientras
+-- refreshing_until no haya vencido, y los demás esperan y releen los tokens.
+CREATE OR REPLACE FUNCTION claim_ml_token_refresh(p_lock_seconds INTEGER DEFAULT 30)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_claimed BOOLEAN;
+BEGIN
+    INSERT INTO settings (key, value, category, updated_at)
+    VALUES (
+        'ml_token_refresh_lock',
+        jsonb_build_object('refreshing_until', NOW() + make_interval(secs => p_lock_seconds)),
+        'integrations',
+        NOW()
+    )
+    ON CONFLICT (key) DO UPDATE
+    SET value = EXCLUDED.value, updated_at = NOW()
+    WHERE (settings.value->>'refreshing_until') IS NULL
+       OR (settings.value->>'refreshing_until')::TIMESTAMPTZ < NOW()
+    RETURNING TRUE INTO v_claimed;
+
+    RETURN COALESCE(v_claimed, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Libera el lock al terminar el refresh (haya salido bien o no)
+CREATE OR REPLACE FUNCTION release_ml_token_refresh()
+RETURNS VOID AS $$
+BEGIN
+    UPDATE settings
+    SET value = jsonb_build_object('refreshing_until', NULL), updated_at = NOW()
+    WHERE key = 'ml_token_refresh_lock';
+END;
+$$ LANGUAGE plpgsql;
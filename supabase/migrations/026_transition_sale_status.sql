@@ -0,0 +1,56 @@
+-- Cambio de estado de una venta en una sola transacción
+-- Actualiza la venta solo si sigue en el estado leído (p_from_*), registra el cambio
+-- en sale_status_history y, si la venta pasa a cancelada, devuelve al stock lo que
+-- había descontado. Si la venta ya no está en ese estado (otra notificación la cambió
+-- o es un reproceso) no hace nada y devuelve NULL: el stock nunca se devuelve dos veces.
+-- Si no, devuelve la cantidad de items que volvieron al stock.
+CREATE OR REPLACE FUNCTION transition_sale_status(
+    p_sale_id UUID,
+    p_from_status TEXT,
+    p_from_payment_status TEXT,
+    p_to_status TEXT,
+    p_to_payment_status TEXT,
+    p_source TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_sale_number TEXT;
+    v_item RECORD;
+    v_restored INTEGER := 0;
+BEGIN
+    UPDATE sales
+    SET status = p_to_status, payment_status = p_to_payment_status
+    WHERE id = p_sale_id
+      AND status IS NOT DISTINCT FROM p_from_status
+      AND payment_status IS NOT DISTINCT FROM p_from_payment_status
+    RETURNING sale_number INTO v_sale_number;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO sale_status_history (sale_id, from_status, to_status, from_payment_status, to_payment_status, source, notes)
+    VALUES (p_sale_id, p_from_status, p_to_status, p_from_payment_status, p_to_payment_status, p_source, p_notes);
+
+    IF p_to_status = 'cancelled' AND p_from_status IS DISTINCT FROM 'cancelled' THEN
+        FOR v_item IN
+            SELECT product_variant_id, quantity
+            FROM sale_items
+            WHERE sale_id = p_sale_id AND product_variant_id IS NOT NULL
+        LOOP
+            PERFORM apply_stock_movement(
+                v_item.product_variant_id,
+                'IN',
+                v_item.quantity,
+                'sale',
+                p_sale_id,
+                'Cancelación venta ' || v_sale_number
+            );
+            v_restored := v_restored + 1;
+        END LOOP;
+    END IF;
+
+    RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;
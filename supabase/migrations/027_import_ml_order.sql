@@ -0,0 +1,73 @@
+-- Importación de órdenes pagadas de ML en una sola transacción
+-- Igual que create_sale inserta la venta, sus items y los movimientos de stock, pero:
+--   - el número de venta viene de la orden (ML-<id>) y no de la secuencia del canal
+--   - created_at es la fecha de la orden
+--   - no valida stock: la venta ya se concretó en ML, el stock puede quedar negativo
+--   - registra el alta en sale_status_history
+-- Si algo falla no queda nada a medias y la notificación se reintenta. Si dos
+-- notificaciones de la misma orden llegan juntas, la segunda choca con el
+-- sale_number único y en el reintento entra por la reconciliación.
+CREATE OR REPLACE FUNCTION import_ml_order(p_sale JSONB, p_items JSONB)
+RETURNS sales AS $$
+DECLARE
+    v_sale sales;
+    v_item JSONB;
+    v_variant_id UUID;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'La orden debe tener al menos un item'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    INSERT INTO sales (
+        sale_number, channel, ml_order_id, status, subtotal, discount,
+        shipping_cost, total, payment_method, payment_status, notes, created_at
+    )
+    VALUES (
+        p_sale->>'sale_number',
+        'ML',
+        p_sale->>'ml_order_id',
+        'completed',
+        COALESCE((p_sale->>'subtotal')::DECIMAL, 0),
+        COALESCE((p_sale->>'discount')::DECIMAL, 0),
+        COALESCE((p_sale->>'shipping_cost')::DECIMAL, 0),
+        COALESCE((p_sale->>'total')::DECIMAL, 0),
+        p_sale->>'payment_method',
+        'paid',
+        p_sale->>'notes',
+        COALESCE((p_sale->>'created_at')::TIMESTAMPTZ, NOW())
+    )
+    RETURNING * INTO v_sale;
+
+    INSERT INTO sale_status_history (sale_id, from_status, to_status, from_payment_status, to_payment_status, source, notes)
+    VALUES (v_sale.id, NULL, 'completed', NULL, 'paid', 'ml_webhook', 'Orden ML ' || (p_sale->>'ml_order_id') || ' pagada');
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items)
+    LOOP
+        v_variant_id := NULLIF(v_item->>'product_variant_id', '')::UUID;
+
+        INSERT INTO sale_items (sale_id, product_variant_id, product_name, quantity, unit_price, total_price)
+        VALUES (
+            v_sale.id,
+            v_variant_id,
+            v_item->>'product_name',
+            (v_item->>'quantity')::INTEGER,
+            (v_item->>'unit_price')::DECIMAL,
+            (v_item->>'total_price')::DECIMAL
+        );
+
+        IF v_variant_id IS NOT NULL THEN
+            PERFORM apply_stock_movement(
+                v_variant_id,
+                'OUT',
+                (v_item->>'quantity')::INTEGER,
+                'sale',
+                v_sale.id,
+                'Venta ML #' || v_sale.sale_number
+            );
+        END IF;
+    END LOOP;
+
+    RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
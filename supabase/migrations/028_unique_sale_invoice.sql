@@ -0,0 +1,7 @@
+-- Una sola factura vigente por venta
+-- issueInvoice verifica que la venta no tenga factura antes de pedir el CAE, pero una
+-- factura individual y una masiva de la misma venta pueden pasar ese chequeo a la vez.
+-- El índice impide guardar la segunda (las notas de crédito y las anuladas no cuentan).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_sale_issued
+    ON invoices(sale_id)
+    WHERE voucher_kind = 'invoice' AND status = 'issued';
@@ -0,0 +1,28 @@
+-- Una nota de crédito a la vez por factura
+-- Las notificaciones de pago y de orden de un mismo reembolso pueden llegar juntas: las
+-- dos verían la factura sin acreditar y pedirían cada una su CAE por el total. Antes de
+-- pedir el CAE se reclama la factura; mientras credit_claimed_until no venza, otro
+-- intento falla y se reintenta después (ya con la nota de crédito registrada).
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credit_claimed_until TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION claim_invoice_credit(p_invoice_id UUID, p_lock_seconds INTEGER DEFAULT 120)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE invoices
+    SET credit_claimed_until = NOW() + make_interval(secs => p_lock_seconds)
+    WHERE id = p_invoice_id
+      AND status = 'issued'
+      AND (credit_claimed_until IS NULL OR credit_claimed_until < NOW());
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_invoice_credit(p_invoice_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE invoices
+    SET credit_claimed_until = NULL
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
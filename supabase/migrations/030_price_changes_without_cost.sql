@@ -0,0 +1,101 @@
+-- Los cambios de costo se registran sólo en cost_history
+-- 022 también los escribía en price_changes, y las dos tablas podían no coincidir.
+-- price_changes queda para los precios (base, ajuste de variantes y publicaciones de ML);
+-- cost_history suma el usuario que hizo el cambio.
+
+ALTER TABLE cost_history
+    ADD COLUMN IF NOT EXISTS changed_by UUID, -- auth.uid() de quien hizo el cambio
+    ADD COLUMN IF NOT EXISTS changed_by_email TEXT;
+
+CREATE OR REPLACE FUNCTION log_cost_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO cost_history (
+        product_id, product_variant_id, previous_cost, new_cost, source, reference_id, notes,
+        changed_by, changed_by_email
+    )
+    VALUES (
+        CASE WHEN TG_TABLE_NAME = 'products' THEN NEW.id ELSE NEW.product_id END,
+        CASE WHEN TG_TABLE_NAME = 'products' THEN NULL ELSE NEW.id END,
+        OLD.cost_price,
+        NEW.cost_price,
+        COALESCE(NULLIF(current_setting('app.cost_source', true), ''), 'manual'),
+        NULLIF(current_setting('app.cost_reference', true), '')::UUID,
+        NULLIF(current_setting('app.cost_notes', true), ''),
+        auth.uid(),
+        auth.jwt()->>'email'
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Origen del cambio de precio (ver 022), ya sin el de las recepciones de compra
+CREATE OR REPLACE FUNCTION price_change_source()
+RETURNS TEXT AS $$
+BEGIN
+    RETURN COALESCE(
+        NULLIF(current_setting('app.price_source', true), ''),
+        NULLIF(NULLIF(current_setting('request.headers', true), '')::JSON->>'x-price-source', ''),
+        'manual'
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Los valores en cero al crear (variante sin ajuste) no se registran
+CREATE OR REPLACE FUNCTION log_price_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product_id UUID;
+    v_previous DECIMAL;
+BEGIN
+    IF TG_TABLE_NAME = 'products' THEN
+        IF TG_OP = 'INSERT' THEN
+            PERFORM insert_price_change(NEW.id, NULL, 'base_price', NULL, NEW.base_price);
+        ELSIF OLD.base_price IS DISTINCT FROM NEW.base_price THEN
+            PERFORM insert_price_change(NEW.id, NULL, 'base_price', OLD.base_price, NEW.base_price);
+        END IF;
+
+    ELSIF TG_TABLE_NAME = 'product_variants' THEN
+        IF TG_OP = 'INSERT' THEN
+            IF COALESCE(NEW.price_adjustment, 0) <> 0 THEN
+                PERFORM insert_price_change(NEW.product_id, NEW.id, 'price_adjustment', NULL, NEW.price_adjustment);
+            END IF;
+        ELSIF OLD.price_adjustment IS DISTINCT FROM NEW.price_adjustment THEN
+            PERFORM insert_price_change(NEW.product_id, NEW.id, 'price_adjustment', OLD.price_adjustment, NEW.price_adjustment);
+        END IF;
+
+    ELSE -- platform_listings
+        IF TG_OP = 'UPDATE' THEN
+            IF OLD.price IS NOT DISTINCT FROM NEW.price THEN
+                RETURN NEW;
+            END IF;
+            v_previous := OLD.price;
+        END IF;
+
+        SELECT product_id INTO v_product_id
+        FROM product_variants
+        WHERE id = NEW.product_variant_id;
+
+        IF v_product_id IS NOT NULL THEN
+            PERFORM insert_price_change(v_product_id, NEW.product_variant_id, 'listing_price', v_previous, NEW.price);
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_product_price_change ON products;
+CREATE TRIGGER log_product_price_change
+    AFTER INSERT OR UPDATE OF base_price ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION log_price_change();
+
+DROP TRIGGER IF EXISTS log_variant_price_change ON product_variants;
+CREATE TRIGGER log_variant_price_change
+    AFTER INSERT OR UPDATE OF price_adjustment ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION log_price_change();
+
+-- Los costos ya registrados en price_changes están también en cost_history
+DELETE FROM price_changes WHERE field = 'cost_price';